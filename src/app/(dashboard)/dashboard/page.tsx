@@ -19,7 +19,9 @@ import {
   TrendingUp,
   Calendar,
   BarChart3,
+  Tag,
 } from "lucide-react"
+import Link from "next/link"
 import { api } from "~/trpc/react"
 import {
   formatRelativeTime,
@@ -28,6 +30,7 @@ import {
   getInitials,
 } from "~/lib/utils"
 import { DashboardHeader } from "~/components/layout/dashboard-header"
+import TagBadge from "~/components/tags/tag-badge"
 
 export default function DashboardPage() {
   const [dateRange] = useState({
@@ -72,6 +75,7 @@ export default function DashboardPage() {
 
   const statusData = metrics?.ticketsByStatus || []
   const priorityData = metrics?.ticketsByPriority || []
+  const tagData = metrics?.ticketsByTag || []
   const slaMetrics = metrics?.slaMetrics || {
     totalWithSLA: 0,
     breachedResponse: 0,
@@ -257,6 +261,36 @@ export default function DashboardPage() {
           </Card>
         </div>
 
+        {/* Tag Distribution */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Tag className="mr-2 h-5 w-5" />
+              Tickets by Tag
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {tagData.length > 0 ? (
+              <div className="grid grid-cols-1 gap-x-8 gap-y-3 md:grid-cols-2 lg:grid-cols-3">
+                {tagData.slice(0, 15).map((tag) => (
+                  <Link
+                    key={tag.name}
+                    href={`/tickets?tag=${encodeURIComponent(tag.name)}`}
+                    className="flex items-center justify-between rounded-md px-1 hover:bg-gray-50"
+                  >
+                    <TagBadge name={tag.name} color={tag.color} />
+                    <div className="text-sm font-medium">{tag.count}</div>
+                  </Link>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">
+                No tagged tickets in this period.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
         <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
           {/* Recent Tickets */}
           <Card>
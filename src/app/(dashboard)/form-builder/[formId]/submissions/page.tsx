@@ -1,7 +1,7 @@
 "use client"
 
-import { useState } from "react"
-import { useRouter, useParams } from "next/navigation"
+import { useEffect, useState } from "react"
+import { useRouter, useParams, useSearchParams } from "next/navigation"
 import { ArrowLeft, Download, ExternalLink, Plus } from "lucide-react"
 import { Button } from "~/components/ui/button"
 import { Badge } from "~/components/ui/badge"
@@ -38,7 +38,10 @@ import { toast } from "sonner"
 export default function FormSubmissionsPage() {
   const router = useRouter()
   const params = useParams()
+  const searchParams = useSearchParams()
   const formId = params?.formId as string
+  // Set when opened from a notification
+  const submissionParam = searchParams?.get("submission")
 
   const [page, setPage] = useState(1)
   const [selectedSubmission, setSelectedSubmission] = useState<any>(null)
@@ -56,6 +59,15 @@ export default function FormSubmissionsPage() {
     limit: 25,
   })
 
+  const { data: linkedSubmission } = api.forms.getSubmissionById.useQuery(
+    { id: submissionParam! },
+    { enabled: !!submissionParam }
+  )
+
+  useEffect(() => {
+    if (linkedSubmission) setSelectedSubmission(linkedSubmission)
+  }, [linkedSubmission])
+
   const createTicketMutation = api.forms.createTicketFromSubmission.useMutation(
     {
       onSuccess: () => {
@@ -171,7 +183,9 @@ export default function FormSubmissionsPage() {
                             variant="link"
                             className="h-auto p-0"
                             onClick={() =>
-                              router.push(`/tickets?id=${submission.ticket.id}`)
+                              router.push(
+                                `/tickets?ticket=${submission.ticket.id}`
+                              )
                             }
                           >
                             <ExternalLink className="mr-2 h-4 w-4" />
@@ -303,7 +317,7 @@ export default function FormSubmissionsPage() {
                       className="h-auto p-0"
                       onClick={() =>
                         router.push(
-                          `/tickets?id=${selectedSubmission.ticket.id}`
+                          `/tickets?ticket=${selectedSubmission.ticket.id}`
                         )
                       }
                     >
@@ -6,7 +6,6 @@ import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card"
 import { Button } from "~/components/ui/button"
 import { Input } from "~/components/ui/input"
 import { Label } from "~/components/ui/label"
-import { Badge } from "~/components/ui/badge"
 import { Switch } from "~/components/ui/switch"
 import {
   Breadcrumb,
@@ -18,7 +17,8 @@ import {
 } from "~/components/ui/breadcrumb"
 import { SidebarTrigger } from "~/components/ui/sidebar"
 import { TiptapEditor } from "~/components/ui/tiptap-editor"
-import { ArrowLeft, Save, Eye, Globe, Lock, Tag, Loader, X } from "lucide-react"
+import TagPicker from "~/components/tags/tag-picker"
+import { ArrowLeft, Save, Eye, Globe, Lock, Tag, Loader } from "lucide-react"
 import Link from "next/link"
 import { api } from "~/trpc/react"
 import { toast } from "sonner"
@@ -37,7 +37,6 @@ export default function EditArticlePage() {
   const [isPublished, setIsPublished] = useState(article?.is_published || false)
   const [isPublic, setIsPublic] = useState<boolean>(article?.is_public ?? true)
   const [tags, setTags] = useState<string[]>((article?.tags as string[]) || [])
-  const [newTag, setNewTag] = useState("")
 
   const updateMutation = api.knowledgeBase.update.useMutation({
     onSuccess: () => {
@@ -75,17 +74,6 @@ export default function EditArticlePage() {
     })
   }
 
-  const addTag = () => {
-    if (newTag.trim() && !tags.includes(newTag.trim())) {
-      setTags([...tags, newTag.trim()])
-      setNewTag("")
-    }
-  }
-
-  const removeTag = (tagToRemove: string) => {
-    setTags(tags.filter((tag) => tag !== tagToRemove))
-  }
-
   const generateSlugFromTitle = () => {
     const slug = title
       .toLowerCase()
@@ -274,33 +262,8 @@ export default function EditArticlePage() {
               Tags
             </CardTitle>
           </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="flex gap-2">
-              <Input
-                value={newTag}
-                onChange={(e) => setNewTag(e.target.value)}
-                placeholder="Add a tag..."
-                onKeyPress={(e) => e.key === "Enter" && addTag()}
-              />
-              <Button onClick={addTag} variant="outline">
-                Add Tag
-              </Button>
-            </div>
-            {tags.length > 0 && (
-              <div className="flex flex-wrap gap-1">
-                {tags.map((tag, index) => (
-                  <Badge key={index} variant="outline" className="text-xs">
-                    {tag}
-                    <button
-                      onClick={() => removeTag(tag)}
-                      className="ml-1 hover:text-red-500"
-                    >
-                      <X className="h-3 w-3" />
-                    </button>
-                  </Badge>
-                ))}
-              </div>
-            )}
+          <CardContent>
+            <TagPicker value={tags} onChange={setTags} />
           </CardContent>
         </Card>
 
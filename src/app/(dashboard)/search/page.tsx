@@ -0,0 +1,223 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter, useSearchParams } from "next/navigation"
+import {
+  BookOpen,
+  ClipboardList,
+  MessageSquare,
+  Search,
+  Ticket,
+} from "lucide-react"
+import { Card, CardContent } from "~/components/ui/card"
+import { Button } from "~/components/ui/button"
+import { Input } from "~/components/ui/input"
+import { Badge } from "~/components/ui/badge"
+import { DashboardHeader } from "~/components/layout/dashboard-header"
+import { api, type RouterOutputs } from "~/trpc/react"
+import {
+  formatRelativeTime,
+  getPriorityColor,
+  getStatusColor,
+} from "~/lib/utils"
+
+type ResultType = RouterOutputs["search"]["query"]["results"][number]["type"]
+
+const TYPE_FILTERS: { value: ResultType | undefined; label: string }[] = [
+  { value: undefined, label: "All" },
+  { value: "ticket", label: "Tickets" },
+  { value: "article", label: "Articles" },
+  { value: "submission", label: "Form Submissions" },
+]
+
+const TYPE_ICONS: Record<ResultType, typeof Ticket> = {
+  ticket: Ticket,
+  article: BookOpen,
+  submission: ClipboardList,
+}
+
+const SYNTAX_EXAMPLES = [
+  ['"refund request"', "exact phrase"],
+  ["login or password", "either word"],
+  ["printer -wireless", "exclude a word"],
+  ["client:acme", "client name"],
+  ["status:open priority:urgent", "ticket status and priority"],
+  ["assignee:me", "assigned to you (or none, or a name)"],
+  ["tag:billing", "tag"],
+  ["type:article", "only tickets, articles or submissions"],
+]
+
+export default function SearchPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const query = searchParams?.get("q") ?? ""
+  const [value, setValue] = useState(query)
+  const [type, setType] = useState<ResultType | undefined>()
+
+  useEffect(() => {
+    setValue(query)
+  }, [query])
+
+  const { data, isLoading, error } = api.search.query.useQuery(
+    { query, type, limit: 50 },
+    { enabled: query.trim() !== "", retry: false }
+  )
+  const results = data?.results ?? []
+
+  return (
+    <>
+      <DashboardHeader
+        breadcrumbs={[
+          { label: "Dashboard", href: "/dashboard" },
+          { label: "Search" },
+        ]}
+        showSidebarTrigger
+      />
+
+      <div className="space-y-6 p-4">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            router.push(`/search?q=${encodeURIComponent(value.trim())}`)
+          }}
+          className="flex gap-2"
+        >
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 transform text-gray-400" />
+            <Input
+              autoFocus
+              placeholder='e.g. "password reset" client:acme status:open'
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Button type="submit">Search</Button>
+        </form>
+
+        <div className="flex flex-wrap gap-2">
+          {TYPE_FILTERS.map((filter) => (
+            <Button
+              key={filter.label}
+              variant={type === filter.value ? "default" : "outline"}
+              size="sm"
+              onClick={() => setType(filter.value)}
+            >
+              {filter.label}
+            </Button>
+          ))}
+        </div>
+
+        {!query.trim() ? (
+          <Card>
+            <CardContent className="p-6">
+              <h3 className="text-sm font-medium text-gray-900">
+                Search tickets and their replies, knowledge base articles and
+                form submissions
+              </h3>
+              <dl className="mt-4 grid grid-cols-1 gap-2 text-sm md:grid-cols-2">
+                {SYNTAX_EXAMPLES.map(([example, meaning]) => (
+                  <div key={example} className="flex gap-3">
+                    <dt>
+                      <code className="rounded bg-gray-100 px-1.5 py-0.5">
+                        {example}
+                      </code>
+                    </dt>
+                    <dd className="text-gray-600">{meaning}</dd>
+                  </div>
+                ))}
+              </dl>
+            </CardContent>
+          </Card>
+        ) : error ? (
+          <Card>
+            <CardContent className="p-6 text-sm text-red-600">
+              {error.message}
+            </CardContent>
+          </Card>
+        ) : isLoading ? (
+          <div className="p-8 text-center">
+            <div className="mx-auto h-4 w-4 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+            <p className="mt-2 text-sm text-gray-600">Searching...</p>
+          </div>
+        ) : results.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center">
+              <h3 className="text-sm font-medium text-gray-900">
+                No results for &ldquo;{query}&rdquo;
+              </h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Try fewer words or remove a filter
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {results.map((result) => {
+              const Icon = TYPE_ICONS[result.type]
+              return (
+                <Link
+                  key={`${result.type}-${result.id}`}
+                  href={result.href}
+                  className="block"
+                >
+                  <Card className="transition-colors hover:bg-gray-50">
+                    <CardContent className="space-y-2 p-4">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Icon className="h-4 w-4 text-gray-500" />
+                        <span className="font-medium text-gray-900">
+                          {result.title}
+                        </span>
+                        {result.status && (
+                          <Badge className={getStatusColor(result.status)}>
+                            {result.status.replace("_", " ")}
+                          </Badge>
+                        )}
+                        {result.priority && (
+                          <Badge className={getPriorityColor(result.priority)}>
+                            {result.priority}
+                          </Badge>
+                        )}
+                        {result.isPublished === false && (
+                          <Badge variant="secondary">Draft</Badge>
+                        )}
+                        {result.clientName && (
+                          <span className="text-sm text-gray-500">
+                            {result.clientName}
+                          </span>
+                        )}
+                        <span className="ml-auto text-xs text-gray-500">
+                          {formatRelativeTime(result.updatedAt)}
+                        </span>
+                      </div>
+                      {result.snippet.length > 0 && (
+                        <p className="text-sm text-gray-600">
+                          {result.matchedComment && (
+                            <MessageSquare className="mr-1 inline h-3.5 w-3.5 text-gray-400" />
+                          )}
+                          {result.snippet.map((part, index) =>
+                            part.highlight ? (
+                              <mark
+                                key={index}
+                                className="rounded bg-yellow-100 px-0.5 text-gray-900"
+                              >
+                                {part.text}
+                              </mark>
+                            ) : (
+                              <span key={index}>{part.text}</span>
+                            )
+                          )}
+                        </p>
+                      )}
+                    </CardContent>
+                  </Card>
+                </Link>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </>
+  )
+}
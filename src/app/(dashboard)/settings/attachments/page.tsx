@@ -0,0 +1,122 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Paperclip } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card"
+import { Button } from "~/components/ui/button"
+import { Input } from "~/components/ui/input"
+import { Label } from "~/components/ui/label"
+import { Textarea } from "~/components/ui/textarea"
+import { DashboardHeader } from "~/components/layout/dashboard-header"
+import { api } from "~/trpc/react"
+import { toast } from "sonner"
+
+export default function AttachmentSettingsPage() {
+  const utils = api.useUtils()
+  const { data: company, isLoading } = api.company.getSettings.useQuery()
+
+  const [maxSizeMb, setMaxSizeMb] = useState("10")
+  const [allowedTypes, setAllowedTypes] = useState("")
+
+  useEffect(() => {
+    if (!company) return
+    setMaxSizeMb(String(company.attachment_max_size_mb))
+    setAllowedTypes((company.attachment_allowed_types as string[]).join("\n"))
+  }, [company])
+
+  const updateSettings = api.company.updateSettings.useMutation({
+    onSuccess: () => {
+      toast.success("Attachment settings saved")
+      utils.company.getSettings.invalidate()
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to save attachment settings")
+    },
+  })
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    updateSettings.mutate({
+      attachmentMaxSizeMb: Number(maxSizeMb),
+      attachmentAllowedTypes: allowedTypes
+        .split(/[\n,]/)
+        .map((type) => type.trim())
+        .filter(Boolean),
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <DashboardHeader
+        breadcrumbs={[
+          { label: "Dashboard", href: "/dashboard" },
+          { label: "Settings", href: "/settings" },
+          { label: "Attachments" },
+        ]}
+        showSidebarTrigger
+      />
+
+      <div className="space-y-6 p-4">
+        <div>
+          <h1 className="flex items-center gap-2 text-xl font-bold">
+            <Paperclip className="h-5 w-5" />
+            Attachments
+          </h1>
+          <p className="text-gray-600">
+            Limits for files uploaded by agents, customers and the API
+          </p>
+        </div>
+
+        <Card className="max-w-2xl">
+          <CardHeader>
+            <CardTitle>Upload Limits</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="py-8 text-center text-muted-foreground">
+                Loading settings...
+              </div>
+            ) : (
+              <form onSubmit={handleSave} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="maxSizeMb">Maximum file size (MB)</Label>
+                  <Input
+                    id="maxSizeMb"
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={maxSizeMb}
+                    onChange={(e) => setMaxSizeMb(e.target.value)}
+                    className="w-32"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="allowedTypes">Allowed file types</Label>
+                  <Textarea
+                    id="allowedTypes"
+                    value={allowedTypes}
+                    onChange={(e) => setAllowedTypes(e.target.value)}
+                    placeholder={"image/*\napplication/pdf\n.log"}
+                    rows={6}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    One MIME type (such as image/* or application/pdf) or file
+                    extension (such as .log) per line. Leave empty to allow
+                    images, PDFs, text, archives and office documents.
+                  </p>
+                </div>
+
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={updateSettings.isPending}>
+                    {updateSettings.isPending ? "Saving..." : "Save"}
+                  </Button>
+                </div>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
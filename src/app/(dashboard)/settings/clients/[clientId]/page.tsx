@@ -435,12 +435,22 @@ export default function ClientDetailsPage() {
                   Manage service level agreements for this client
                 </p>
               </div>
-              <Button asChild>
-                <Link href={`/settings/clients/${client.id}/sla/add`}>
-                  <Plus className="mr-2 h-4 w-4" />
-                  Add SLA Policy
-                </Link>
-              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" asChild>
+                  <Link
+                    href={`/settings/clients/${client.id}/sla/business-hours`}
+                  >
+                    <Clock className="mr-2 h-4 w-4" />
+                    Business Hours
+                  </Link>
+                </Button>
+                <Button asChild>
+                  <Link href={`/settings/clients/${client.id}/sla/add`}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add SLA Policy
+                  </Link>
+                </Button>
+              </div>
             </div>
 
             {slaLoading ? (
@@ -475,6 +485,12 @@ export default function ClientDetailsPage() {
                                 sla.resolution_time_minutes / 60
                               )}h {sla.resolution_time_minutes % 60}m
                             </div>
+                            <div className="flex items-center gap-1">
+                              <Activity className="h-4 w-4" />
+                              {sla.businessHours?.name ??
+                                client.businessHours?.name ??
+                                "24/7"}
+                            </div>
                           </div>
                         </div>
                         <div className="flex gap-2">
@@ -67,6 +67,7 @@ export default function AddSLAPolicyPage() {
     resolutionTimeHours: 24,
     resolutionTimeMinutes: 0,
     isDefault: false,
+    businessHoursId: "",
   })
 
   const { data: client, isLoading: clientLoading } =
@@ -74,6 +75,8 @@ export default function AddSLAPolicyPage() {
       id: clientId,
     })
 
+  const { data: schedules } = api.businessHours.getAll.useQuery()
+
   const createSLA = api.sla.create.useMutation({
     onSuccess: () => {
       toast.success("SLA policy created successfully", {
@@ -103,6 +106,7 @@ export default function AddSLAPolicyPage() {
       responseTimeMinutes,
       resolutionTimeMinutes,
       isDefault: formData.isDefault,
+      businessHoursId: formData.businessHoursId || null,
     })
   }
 
@@ -255,6 +259,45 @@ export default function AddSLAPolicyPage() {
                 </Select>
               </div>
 
+              <div className="space-y-2">
+                <Label>Business Hours</Label>
+                <Select
+                  value={formData.businessHoursId || "client"}
+                  onValueChange={(value) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      businessHoursId: value === "client" ? "" : value,
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select business hours" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="client">
+                      {client.businessHours
+                        ? `Client schedule (${client.businessHours.name})`
+                        : "Client schedule (24/7)"}
+                    </SelectItem>
+                    {schedules?.map((schedule) => (
+                      <SelectItem key={schedule.id} value={schedule.id}>
+                        {schedule.name} ({schedule.timezone})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-gray-600">
+                  Response and resolution times only count working time in this
+                  schedule.{" "}
+                  <Link
+                    href={`/settings/clients/${client.id}/sla/business-hours`}
+                    className="text-primary underline"
+                  >
+                    Manage business hours
+                  </Link>
+                </p>
+              </div>
+
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
                   <Label>Default Policy</Label>
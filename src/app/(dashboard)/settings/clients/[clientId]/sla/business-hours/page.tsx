@@ -0,0 +1,627 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card"
+import { Button } from "~/components/ui/button"
+import { Input } from "~/components/ui/input"
+import { Label } from "~/components/ui/label"
+import { Switch } from "~/components/ui/switch"
+import { Badge } from "~/components/ui/badge"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select"
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "~/components/ui/breadcrumb"
+import {
+  ArrowLeft,
+  CalendarDays,
+  Clock,
+  Edit,
+  Plus,
+  Save,
+  Trash2,
+} from "lucide-react"
+import { api } from "~/trpc/react"
+import { toast } from "sonner"
+
+const WEEKDAYS = [
+  { day: 1, label: "Monday" },
+  { day: 2, label: "Tuesday" },
+  { day: 3, label: "Wednesday" },
+  { day: 4, label: "Thursday" },
+  { day: 5, label: "Friday" },
+  { day: 6, label: "Saturday" },
+  { day: 0, label: "Sunday" },
+]
+
+const NO_SCHEDULE = "none"
+
+type DayHours = { enabled: boolean; start: string; end: string }
+type HolidayRow = { date: string; name: string; recurring: boolean }
+
+type ScheduleForm = {
+  id: string | null
+  name: string
+  timezone: string
+  days: Record<number, DayHours>
+  holidays: HolidayRow[]
+}
+
+function getTimeZones(): string[] {
+  const supportedValuesOf = (Intl as any).supportedValuesOf as
+    | ((key: string) => string[])
+    | undefined
+  return supportedValuesOf ? supportedValuesOf("timeZone") : ["UTC"]
+}
+
+function emptyForm(): ScheduleForm {
+  const days: Record<number, DayHours> = {}
+  WEEKDAYS.forEach(({ day }) => {
+    days[day] = {
+      enabled: day >= 1 && day <= 5,
+      start: "09:00",
+      end: "17:00",
+    }
+  })
+
+  return {
+    id: null,
+    name: "",
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+    days,
+    holidays: [],
+  }
+}
+
+export default function BusinessHoursPage() {
+  const params = useParams()
+  const clientId = params?.clientId as string
+
+  const [form, setForm] = useState<ScheduleForm | null>(null)
+
+  const utils = api.useUtils()
+
+  const { data: client, isLoading: clientLoading } =
+    api.clients.getById.useQuery({
+      id: clientId,
+    })
+
+  const { data: schedules, isLoading: schedulesLoading } =
+    api.businessHours.getAll.useQuery()
+
+  const onError = (error: { message: string }) => {
+    toast.error(error.message, {
+      description: error.message,
+    })
+  }
+
+  const updateClient = api.clients.update.useMutation({
+    onSuccess: () => {
+      toast.success("Client business hours updated")
+      utils.clients.getById.invalidate({ id: clientId })
+    },
+    onError,
+  })
+
+  const createSchedule = api.businessHours.create.useMutation({
+    onSuccess: () => {
+      toast.success("Business hours created successfully")
+      setForm(null)
+      utils.businessHours.getAll.invalidate()
+    },
+    onError,
+  })
+
+  const updateSchedule = api.businessHours.update.useMutation({
+    onSuccess: () => {
+      toast.success("Business hours updated successfully")
+      setForm(null)
+      utils.businessHours.getAll.invalidate()
+    },
+    onError,
+  })
+
+  const deleteSchedule = api.businessHours.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Business hours deleted successfully")
+      utils.businessHours.getAll.invalidate()
+      utils.clients.getById.invalidate({ id: clientId })
+    },
+    onError,
+  })
+
+  const startEditing = (schedule: NonNullable<typeof schedules>[number]) => {
+    const base = emptyForm()
+    const weeklyHours = schedule.weekly_hours as {
+      day: number
+      start: string
+      end: string
+    }[]
+
+    WEEKDAYS.forEach(({ day }) => {
+      const interval = weeklyHours.find((h) => h.day === day)
+      base.days[day] = interval
+        ? { enabled: true, start: interval.start, end: interval.end }
+        : { ...base.days[day]!, enabled: false }
+    })
+
+    setForm({
+      ...base,
+      id: schedule.id,
+      name: schedule.name,
+      timezone: schedule.timezone,
+      holidays: (schedule.holidays as HolidayRow[]).map((holiday) => ({
+        date: holiday.date,
+        name: holiday.name ?? "",
+        recurring: !!holiday.recurring,
+      })),
+    })
+  }
+
+  const updateDay = (day: number, changes: Partial<DayHours>) => {
+    setForm((prev) =>
+      prev
+        ? {
+            ...prev,
+            days: { ...prev.days, [day]: { ...prev.days[day]!, ...changes } },
+          }
+        : prev
+    )
+  }
+
+  const updateHoliday = (index: number, changes: Partial<HolidayRow>) => {
+    setForm((prev) =>
+      prev
+        ? {
+            ...prev,
+            holidays: prev.holidays.map((holiday, i) =>
+              i === index ? { ...holiday, ...changes } : holiday
+            ),
+          }
+        : prev
+    )
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!form) return
+
+    const payload = {
+      name: form.name,
+      timezone: form.timezone,
+      weeklyHours: WEEKDAYS.filter(({ day }) => form.days[day]?.enabled).map(
+        ({ day }) => ({
+          day,
+          start: form.days[day]!.start,
+          end: form.days[day]!.end,
+        })
+      ),
+      holidays: form.holidays
+        .filter((holiday) => holiday.date)
+        .map((holiday) => ({
+          date: holiday.date,
+          name: holiday.name || undefined,
+          recurring: holiday.recurring,
+        })),
+    }
+
+    if (form.id) {
+      updateSchedule.mutate({ id: form.id, ...payload })
+    } else {
+      createSchedule.mutate(payload)
+    }
+  }
+
+  if (clientLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <div className="h-4 w-4 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    )
+  }
+
+  if (!client) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-lg font-bold">Client not found</h2>
+          <p className="text-gray-600">
+            The client you&apos;re looking for doesn&apos;t exist.
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  const isSaving = createSchedule.isPending || updateSchedule.isPending
+
+  return (
+    <div className="space-y-6">
+      {/* Breadcrumbs */}
+      <header className="flex h-16 shrink-0 items-center gap-2 border-b px-4">
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              <BreadcrumbLink href="/dashboard">Dashboard</BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbLink href="/settings">Settings</BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbLink href={`/settings/clients/${client.id}`}>
+                {client.name}
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbPage>Business Hours</BreadcrumbPage>
+            </BreadcrumbItem>
+          </BreadcrumbList>
+        </Breadcrumb>
+      </header>
+
+      <div className="space-y-6 p-4">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" asChild>
+              <Link href={`/settings/clients/${client.id}`}>
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+
+            <div>
+              <h1 className="text-xl font-bold">Business Hours</h1>
+              <p className="text-gray-600">
+                SLA clocks for {client.name} only run during working hours
+              </p>
+            </div>
+          </div>
+          {!form && (
+            <Button onClick={() => setForm(emptyForm())}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Schedule
+            </Button>
+          )}
+        </div>
+
+        {/* Client schedule */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              Client Schedule
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <p className="text-sm text-gray-600">
+              Used by this client&apos;s SLA policies unless a policy picks its
+              own schedule
+            </p>
+            <Select
+              value={client.business_hours_id ?? NO_SCHEDULE}
+              onValueChange={(value) =>
+                updateClient.mutate({
+                  id: client.id,
+                  business_hours_id: value === NO_SCHEDULE ? null : value,
+                })
+              }
+              disabled={updateClient.isPending}
+            >
+              <SelectTrigger className="w-full md:w-80">
+                <SelectValue placeholder="Select business hours" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SCHEDULE}>
+                  Around the clock (24/7)
+                </SelectItem>
+                {schedules?.map((schedule) => (
+                  <SelectItem key={schedule.id} value={schedule.id}>
+                    {schedule.name} ({schedule.timezone})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardContent>
+        </Card>
+
+        {/* Schedule editor */}
+        {form && (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Clock className="h-5 w-5" />
+                  {form.id ? "Edit Schedule" : "New Schedule"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Schedule Name *</Label>
+                    <Input
+                      id="name"
+                      value={form.name}
+                      onChange={(e) =>
+                        setForm({ ...form, name: e.target.value })
+                      }
+                      placeholder="e.g., EU Office Hours"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Timezone *</Label>
+                    <Select
+                      value={form.timezone}
+                      onValueChange={(value) =>
+                        setForm({ ...form, timezone: value })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select timezone" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {getTimeZones().map((timezone) => (
+                          <SelectItem key={timezone} value={timezone}>
+                            {timezone}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Weekly Hours</Label>
+                  {WEEKDAYS.map(({ day, label }) => {
+                    const hours = form.days[day]!
+                    return (
+                      <div
+                        key={day}
+                        className="flex flex-wrap items-center gap-4 rounded-md border p-2"
+                      >
+                        <div className="flex w-36 items-center gap-2">
+                          <Switch
+                            checked={hours.enabled}
+                            onCheckedChange={(checked) =>
+                              updateDay(day, { enabled: checked })
+                            }
+                          />
+                          <span className="text-sm">{label}</span>
+                        </div>
+                        {hours.enabled ? (
+                          <div className="flex items-center gap-2">
+                            <Input
+                              type="time"
+                              className="w-32"
+                              value={hours.start}
+                              onChange={(e) =>
+                                updateDay(day, { start: e.target.value })
+                              }
+                            />
+                            <span className="text-sm text-gray-500">to</span>
+                            <Input
+                              type="time"
+                              className="w-32"
+                              value={hours.end}
+                              onChange={(e) =>
+                                updateDay(day, { end: e.target.value })
+                              }
+                            />
+                          </div>
+                        ) : (
+                          <span className="text-sm text-gray-500">Closed</span>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarDays className="h-5 w-5" />
+                  Holidays
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  SLA clocks are paused for the whole day on holidays
+                </p>
+                {form.holidays.map((holiday, index) => (
+                  <div
+                    key={index}
+                    className="flex flex-wrap items-center gap-4 rounded-md border p-2"
+                  >
+                    <Input
+                      type="date"
+                      className="w-44"
+                      value={holiday.date}
+                      onChange={(e) =>
+                        updateHoliday(index, { date: e.target.value })
+                      }
+                      required
+                    />
+                    <Input
+                      className="flex-1"
+                      value={holiday.name}
+                      onChange={(e) =>
+                        updateHoliday(index, { name: e.target.value })
+                      }
+                      placeholder="e.g., New Year's Day"
+                    />
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={holiday.recurring}
+                        onCheckedChange={(checked) =>
+                          updateHoliday(index, { recurring: checked })
+                        }
+                      />
+                      <span className="text-sm">Every year</span>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setForm({
+                          ...form,
+                          holidays: form.holidays.filter((_, i) => i !== index),
+                        })
+                      }
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() =>
+                    setForm({
+                      ...form,
+                      holidays: [
+                        ...form.holidays,
+                        { date: "", name: "", recurring: false },
+                      ],
+                    })
+                  }
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Holiday
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Actions */}
+            <div className="flex gap-4">
+              <Button
+                type="submit"
+                disabled={isSaving}
+                className="flex-1 md:flex-initial"
+              >
+                <Save className="mr-2 h-4 w-4" />
+                {isSaving ? "Saving..." : "Save Schedule"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setForm(null)}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {/* Company schedules */}
+        {schedulesLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="h-4 w-4 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+          </div>
+        ) : schedules && schedules.length > 0 ? (
+          <div className="space-y-4">
+            {schedules.map((schedule) => {
+              const weeklyHours = schedule.weekly_hours as {
+                day: number
+                start: string
+                end: string
+              }[]
+              const holidays = schedule.holidays as HolidayRow[]
+
+              return (
+                <Card key={schedule.id}>
+                  <CardContent className="p-4">
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-2">
+                        <div className="flex items-center gap-2">
+                          <h3 className="font-medium">{schedule.name}</h3>
+                          <Badge variant="outline">{schedule.timezone}</Badge>
+                          {client.business_hours_id === schedule.id && (
+                            <Badge variant="default">This client</Badge>
+                          )}
+                        </div>
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+                          {WEEKDAYS.map(({ day, label }) => {
+                            const interval = weeklyHours.find(
+                              (h) => h.day === day
+                            )
+                            return interval ? (
+                              <span key={day}>
+                                {label.slice(0, 3)} {interval.start}–
+                                {interval.end}
+                              </span>
+                            ) : null
+                          })}
+                        </div>
+                        {holidays.length > 0 && (
+                          <p className="text-sm text-gray-500">
+                            {holidays.length} holiday
+                            {holidays.length === 1 ? "" : "s"}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => startEditing(schedule)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={deleteSchedule.isPending}
+                          onClick={() =>
+                            deleteSchedule.mutate({ id: schedule.id })
+                          }
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              )
+            })}
+          </div>
+        ) : (
+          !form && (
+            <Card>
+              <CardContent className="p-8 text-center">
+                <Clock className="mx-auto mb-4 h-12 w-12 text-gray-400" />
+                <h3 className="mb-2 text-lg font-medium">
+                  No business hours yet
+                </h3>
+                <p className="mb-4 text-gray-600">
+                  Without a schedule, SLA times are counted around the clock.
+                </p>
+                <Button onClick={() => setForm(emptyForm())}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Create First Schedule
+                </Button>
+              </CardContent>
+            </Card>
+          )
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,414 @@
+"use client"
+
+import { useState } from "react"
+import { ListPlus, Pencil, Plus, Trash2 } from "lucide-react"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card"
+import { Button } from "~/components/ui/button"
+import { Input } from "~/components/ui/input"
+import { Label } from "~/components/ui/label"
+import { Textarea } from "~/components/ui/textarea"
+import { Switch } from "~/components/ui/switch"
+import { Badge } from "~/components/ui/badge"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "~/components/ui/alert-dialog"
+import { DashboardHeader } from "~/components/layout/dashboard-header"
+import { api, type RouterOutputs } from "~/trpc/react"
+import { toast } from "sonner"
+import {
+  CUSTOM_FIELD_TYPES,
+  CUSTOM_FIELD_TYPE_LABELS,
+  hasFieldOptions,
+  type CustomFieldType,
+} from "~/lib/custom-field-types"
+
+type CustomField = RouterOutputs["customFields"]["getAll"][number]
+
+const ALL_CLIENTS = "all"
+
+export default function CustomFieldSettingsPage() {
+  const utils = api.useUtils()
+  const { data: fields = [], isLoading } = api.customFields.getAll.useQuery()
+  const { data: clients } = api.clients.getAll.useQuery({
+    page: 1,
+    limit: 50,
+  })
+
+  // null while adding a new field
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [label, setLabel] = useState("")
+  const [key, setKey] = useState("")
+  const [description, setDescription] = useState("")
+  const [type, setType] = useState<CustomFieldType>("text")
+  const [options, setOptions] = useState("")
+  const [clientId, setClientId] = useState(ALL_CLIENTS)
+  const [isRequired, setIsRequired] = useState(false)
+  const [fieldToDelete, setFieldToDelete] = useState<CustomField | null>(null)
+
+  const resetForm = () => {
+    setEditingId(null)
+    setLabel("")
+    setKey("")
+    setDescription("")
+    setType("text")
+    setOptions("")
+    setClientId(ALL_CLIENTS)
+    setIsRequired(false)
+  }
+
+  const onSaved = (message: string) => {
+    toast.success(message)
+    resetForm()
+    void utils.customFields.invalidate()
+  }
+
+  const createField = api.customFields.create.useMutation({
+    onSuccess: () => onSaved("Custom field added"),
+    onError: (error) => {
+      toast.error(error.message || "Failed to add custom field")
+    },
+  })
+  const updateField = api.customFields.update.useMutation({
+    onSuccess: () => onSaved("Custom field saved"),
+    onError: (error) => {
+      toast.error(error.message || "Failed to save custom field")
+    },
+  })
+  const deleteField = api.customFields.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Custom field deleted")
+      setFieldToDelete(null)
+      if (fieldToDelete?.id === editingId) resetForm()
+      void utils.customFields.invalidate()
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete custom field")
+    },
+  })
+
+  const startEdit = (field: CustomField) => {
+    setEditingId(field.id)
+    setLabel(field.label)
+    setKey(field.key)
+    setDescription(field.description ?? "")
+    setType(field.type as CustomFieldType)
+    setOptions((field.options as string[]).join("\n"))
+    setClientId(field.client_id ?? ALL_CLIENTS)
+    setIsRequired(field.is_required)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const settings = {
+      label,
+      description: description.trim() || null,
+      clientId: clientId === ALL_CLIENTS ? null : clientId,
+      options: options
+        .split("\n")
+        .map((option) => option.trim())
+        .filter(Boolean),
+      isRequired,
+    }
+
+    if (editingId) {
+      const field = fields.find((field) => field.id === editingId)
+      updateField.mutate({
+        id: editingId,
+        position: field?.position ?? 0,
+        ...settings,
+      })
+    } else {
+      createField.mutate({
+        ...settings,
+        type,
+        key: key.trim() || undefined,
+        // New fields go last
+        position: fields.length,
+      })
+    }
+  }
+
+  const isSaving = createField.isPending || updateField.isPending
+
+  return (
+    <div className="space-y-6">
+      <DashboardHeader
+        breadcrumbs={[
+          { label: "Dashboard", href: "/dashboard" },
+          { label: "Settings", href: "/settings" },
+          { label: "Custom Fields" },
+        ]}
+        showSidebarTrigger
+      />
+
+      <div className="space-y-6 p-4">
+        <div>
+          <h1 className="flex items-center gap-2 text-xl font-bold">
+            <ListPlus className="h-5 w-5" />
+            Custom Fields
+          </h1>
+          <p className="text-gray-600">
+            Extra details agents fill in on tickets, for every client or just
+            one
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Fields</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="py-8 text-center text-muted-foreground">
+                Loading custom fields...
+              </div>
+            ) : fields.length === 0 ? (
+              <div className="py-8 text-center text-muted-foreground">
+                No custom fields yet
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Label</TableHead>
+                    <TableHead>Key</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Used for</TableHead>
+                    <TableHead className="w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {fields.map((field) => (
+                    <TableRow key={field.id}>
+                      <TableCell className="font-medium">
+                        {field.label}
+                        {field.is_required && (
+                          <Badge variant="secondary" className="ml-2 text-xs">
+                            Required
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {field.key}
+                      </TableCell>
+                      <TableCell>
+                        {CUSTOM_FIELD_TYPE_LABELS[
+                          field.type as CustomFieldType
+                        ] ?? field.type}
+                      </TableCell>
+                      <TableCell>
+                        {field.client?.name ?? "All clients"}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => startEdit(field)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setFieldToDelete(field)}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="max-w-2xl">
+          <CardHeader>
+            <CardTitle>
+              {editingId ? "Edit Custom Field" : "Add Custom Field"}
+            </CardTitle>
+            <CardDescription>
+              {editingId
+                ? "The key and type can't be changed once tickets may have values for the field."
+                : "The key names the field in the API and can't be changed later."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="fieldLabel">Label</Label>
+                  <Input
+                    id="fieldLabel"
+                    value={label}
+                    onChange={(e) => setLabel(e.target.value)}
+                    placeholder="Contract number"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fieldKey">Key</Label>
+                  <Input
+                    id="fieldKey"
+                    value={key}
+                    onChange={(e) => setKey(e.target.value)}
+                    placeholder="Made from the label"
+                    disabled={!!editingId}
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fieldType">Type</Label>
+                  <Select
+                    value={type}
+                    onValueChange={(value) => setType(value as CustomFieldType)}
+                    disabled={!!editingId}
+                  >
+                    <SelectTrigger id="fieldType">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CUSTOM_FIELD_TYPES.map((fieldType) => (
+                        <SelectItem key={fieldType} value={fieldType}>
+                          {CUSTOM_FIELD_TYPE_LABELS[fieldType]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fieldClient">Used for</Label>
+                  <Select value={clientId} onValueChange={setClientId}>
+                    <SelectTrigger id="fieldClient">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_CLIENTS}>All clients</SelectItem>
+                      {clients?.clients?.map((client) => (
+                        <SelectItem key={client.id} value={client.id}>
+                          {client.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {hasFieldOptions(type) && (
+                <div className="space-y-2">
+                  <Label htmlFor="fieldOptions">Options</Label>
+                  <Textarea
+                    id="fieldOptions"
+                    value={options}
+                    onChange={(e) => setOptions(e.target.value)}
+                    placeholder={"Hardware\nSoftware\nNetwork"}
+                    rows={5}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    One option per line
+                  </p>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="fieldDescription">Help text</Label>
+                <Input
+                  id="fieldDescription"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="Shown below the field"
+                />
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="fieldRequired"
+                  checked={isRequired}
+                  onCheckedChange={setIsRequired}
+                />
+                <Label htmlFor="fieldRequired">
+                  Required on new tickets created by agents and the API
+                </Label>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                {editingId && (
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                )}
+                <Button type="submit" disabled={isSaving}>
+                  {editingId ? (
+                    "Save"
+                  ) : (
+                    <>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Field
+                    </>
+                  )}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog
+        open={!!fieldToDelete}
+        onOpenChange={(open) => !open && setFieldToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete custom field</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{fieldToDelete?.label}&quot; will no longer be shown on
+              tickets. Values already saved on tickets are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                fieldToDelete && deleteField.mutate({ id: fieldToDelete.id })
+              }
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
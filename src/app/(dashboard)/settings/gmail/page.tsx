@@ -47,6 +47,8 @@ export default function GmailSetupPage() {
 
   const { data: integration, refetch: refetchIntegration } =
     api.gmail.getIntegration.useQuery()
+  const { data: syncRuns, refetch: refetchSyncRuns } =
+    api.gmail.getSyncRuns.useQuery({ limit: 10 })
 
   const setupIntegration = api.gmail.setupIntegration.useMutation({
     onSuccess: () => {
@@ -75,9 +77,10 @@ export default function GmailSetupPage() {
   const syncEmails = api.gmail.syncEmails.useMutation({
     onSuccess: (data) => {
       setRotateCcwResult(
-        `Processed ${data.messagesProcessed} messages, created ${data.ticketsCreated} new tickets`
+        `Processed ${data.messagesProcessed} messages, created ${data.ticketsCreated} new tickets, added ${data.repliesAdded} replies, quarantined ${data.messagesQuarantined} from unknown senders`
       )
       refetchIntegration()
+      refetchSyncRuns()
     },
   })
 
@@ -409,6 +412,56 @@ export default function GmailSetupPage() {
             </Card>
           )}
 
+          {/* Recent Sync Runs */}
+          {isConnected && syncRuns && syncRuns.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <RotateCcw className="h-5 w-5" />
+                  Recent Syncs
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="divide-y">
+                  {syncRuns.map((run) => {
+                    const errorCount = (run.errors as unknown[]).length
+                    return (
+                      <div
+                        key={run.id}
+                        className="flex items-center justify-between py-2 text-sm"
+                      >
+                        <div>
+                          <p className="font-medium">
+                            {new Date(run.started_at).toLocaleString()}
+                          </p>
+                          <p className="text-gray-600">
+                            {run.trigger} · {run.mode} · {run.messages_seen}{" "}
+                            messages, {run.tickets_created} tickets,{" "}
+                            {run.replies_added} replies
+                            {run.messages_quarantined > 0 &&
+                              `, ${run.messages_quarantined} quarantined`}
+                            {errorCount > 0 && `, ${errorCount} errors`}
+                          </p>
+                        </div>
+                        <Badge
+                          variant={
+                            run.status === "failed"
+                              ? "destructive"
+                              : run.status === "completed"
+                                ? "default"
+                                : "secondary"
+                          }
+                        >
+                          {run.status}
+                        </Badge>
+                      </div>
+                    )
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Webhook Testing Section */}
           {isConnected && (
             <Card>
@@ -0,0 +1,343 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Bell, Copy, RotateCcw, Save, Send } from "lucide-react"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card"
+import { Switch } from "~/components/ui/switch"
+import { Label } from "~/components/ui/label"
+import { Input } from "~/components/ui/input"
+import { Button } from "~/components/ui/button"
+import { Badge } from "~/components/ui/badge"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select"
+import { TiptapEditor } from "~/components/ui/tiptap-editor"
+import { DashboardHeader } from "~/components/layout/dashboard-header"
+import { api } from "~/trpc/react"
+import { toast } from "sonner"
+import {
+  EMAIL_TEMPLATE_VARIABLES,
+  SAMPLE_TEMPLATE_VARIABLES,
+  renderEmailTemplate,
+  type CustomerNotificationEvent,
+} from "~/lib/email-templates"
+
+const CUSTOMER_EVENTS: {
+  value: CustomerNotificationEvent
+  label: string
+  description: string
+}[] = [
+  {
+    value: "ticket_created",
+    label: "Ticket received",
+    description: "Confirm new tickets from the portal, forms, email and API",
+  },
+  {
+    value: "agent_reply",
+    label: "Agent replied",
+    description:
+      "Send public replies (email tickets already get them in their thread)",
+  },
+  {
+    value: "status_changed",
+    label: "Status changed",
+    description: "When an agent moves the ticket to another status",
+  },
+  {
+    value: "ticket_resolved",
+    label: "Ticket resolved",
+    description: "When an agent marks the ticket resolved",
+  },
+]
+
+export default function NotificationSettingsPage() {
+  const utils = api.useUtils()
+  const { data: company, isLoading } = api.company.getSettings.useQuery()
+
+  const updateSettings = api.company.updateSettings.useMutation({
+    onSuccess: () => {
+      toast.success("Notification settings saved")
+      utils.company.getSettings.invalidate()
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to save notification settings")
+    },
+  })
+
+  const enabledEvents = (company?.customer_notification_events ??
+    []) as CustomerNotificationEvent[]
+
+  const toggleEvent = (event: CustomerNotificationEvent, enabled: boolean) => {
+    updateSettings.mutate({
+      customerNotificationEvents: enabled
+        ? [...enabledEvents, event]
+        : enabledEvents.filter((e) => e !== event),
+    })
+  }
+
+  const [templateType, setTemplateType] =
+    useState<CustomerNotificationEvent>("ticket_created")
+  const [subject, setSubject] = useState("")
+  const [body, setBody] = useState("")
+  // Remounts the body editor when a different template is loaded into it
+  const [editorKey, setEditorKey] = useState(0)
+
+  const { data: templates } = api.emailTemplates.getAll.useQuery()
+  const selectedTemplate = templates?.find((t) => t.type === templateType)
+
+  useEffect(() => {
+    if (!selectedTemplate) return
+    const template = selectedTemplate.override ?? selectedTemplate.default
+    setSubject(template.subject)
+    setBody(template.body)
+    setEditorKey((key) => key + 1)
+  }, [selectedTemplate])
+
+  const saveTemplate = api.emailTemplates.upsert.useMutation({
+    onSuccess: () => {
+      toast.success("Template saved")
+      utils.emailTemplates.getAll.invalidate()
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to save template")
+    },
+  })
+
+  const resetTemplate = api.emailTemplates.reset.useMutation({
+    onSuccess: () => {
+      toast.success("Template reset to the default")
+      utils.emailTemplates.getAll.invalidate()
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to reset template")
+    },
+  })
+
+  const sendTest = api.emailTemplates.sendTest.useMutation({
+    onSuccess: (data) => {
+      toast.success(`Test email sent to ${data.sentTo}`)
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to send test email")
+    },
+  })
+
+  const preview = renderEmailTemplate(
+    { subject, body },
+    {
+      ...SAMPLE_TEMPLATE_VARIABLES,
+      company: {
+        name: company?.name ?? SAMPLE_TEMPLATE_VARIABLES.company.name,
+      },
+    }
+  )
+
+  const copyVariable = (name: string) => {
+    void navigator.clipboard.writeText(`{{${name}}}`)
+    toast.success(`Copied {{${name}}}`)
+  }
+
+  return (
+    <div className="space-y-6">
+      <DashboardHeader
+        breadcrumbs={[
+          { label: "Dashboard", href: "/dashboard" },
+          { label: "Settings", href: "/settings" },
+          { label: "Notifications" },
+        ]}
+        showSidebarTrigger
+      />
+
+      <div className="space-y-6 p-4">
+        <div>
+          <h1 className="flex items-center gap-2 text-xl font-bold">
+            <Bell className="h-5 w-5" />
+            Notifications
+          </h1>
+          <p className="text-gray-600">
+            Emails sent to customers about their tickets
+          </p>
+        </div>
+
+        <Card className="max-w-2xl">
+          <CardHeader>
+            <CardTitle>Customer Emails</CardTitle>
+            <CardDescription>
+              Sent to the ticket&apos;s customer email with your logo and color.
+              Every email links to the ticket in the portal and lets the
+              customer unsubscribe from that ticket.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <div className="py-8 text-center text-muted-foreground">
+                Loading settings...
+              </div>
+            ) : (
+              CUSTOMER_EVENTS.map((event) => (
+                <div
+                  key={event.value}
+                  className="flex items-center justify-between"
+                >
+                  <div className="space-y-0.5">
+                    <Label htmlFor={event.value}>{event.label}</Label>
+                    <p className="text-sm text-muted-foreground">
+                      {event.description}
+                    </p>
+                  </div>
+                  <Switch
+                    id={event.value}
+                    checked={enabledEvents.includes(event.value)}
+                    disabled={updateSettings.isPending}
+                    onCheckedChange={(checked) =>
+                      toggleEvent(event.value, checked)
+                    }
+                  />
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Email Templates</CardTitle>
+            <CardDescription>
+              Change the subject and text of each customer email. Templates you
+              haven&apos;t changed use the built-in wording.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Select
+                value={templateType}
+                onValueChange={(value) =>
+                  setTemplateType(value as CustomerNotificationEvent)
+                }
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CUSTOMER_EVENTS.map((event) => (
+                    <SelectItem key={event.value} value={event.value}>
+                      {event.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Badge
+                variant={selectedTemplate?.override ? "default" : "outline"}
+              >
+                {selectedTemplate?.override ? "Customized" : "Default"}
+              </Badge>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Variables</Label>
+              <div className="flex flex-wrap gap-2">
+                {EMAIL_TEMPLATE_VARIABLES.map((variable) => (
+                  <Button
+                    key={variable.name}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="h-7 font-mono text-xs"
+                    title={variable.description}
+                    onClick={() => copyVariable(variable.name)}
+                  >
+                    <Copy className="mr-1 h-3 w-3" />
+                    {`{{${variable.name}}}`}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="templateSubject">Subject</Label>
+                  <Input
+                    id="templateSubject"
+                    value={subject}
+                    onChange={(e) => setSubject(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Body</Label>
+                  <TiptapEditor
+                    key={editorKey}
+                    content={body}
+                    onChange={setBody}
+                    placeholder="Write the email..."
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Preview</Label>
+                <div className="rounded-lg border">
+                  <div className="border-b bg-muted/50 px-4 py-2 text-sm">
+                    <span className="text-muted-foreground">Subject: </span>
+                    {preview.subject}
+                  </div>
+                  <TiptapEditor
+                    content={preview.bodyHtml}
+                    editable={false}
+                    className="p-4"
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Shown with sample ticket details. Emails also include your
+                  logo, a link to the ticket and an unsubscribe link.
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap justify-end gap-2">
+              {selectedTemplate?.override && (
+                <Button
+                  variant="outline"
+                  onClick={() => resetTemplate.mutate({ type: templateType })}
+                  disabled={resetTemplate.isPending}
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Reset to Default
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                onClick={() =>
+                  sendTest.mutate({ type: templateType, subject, body })
+                }
+                disabled={!subject.trim() || sendTest.isPending}
+              >
+                <Send className="mr-2 h-4 w-4" />
+                {sendTest.isPending ? "Sending..." : "Send Test"}
+              </Button>
+              <Button
+                onClick={() =>
+                  saveTemplate.mutate({ type: templateType, subject, body })
+                }
+                disabled={!subject.trim() || saveTemplate.isPending}
+              >
+                <Save className="mr-2 h-4 w-4" />
+                {saveTemplate.isPending ? "Saving..." : "Save Template"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
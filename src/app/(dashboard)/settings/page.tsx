@@ -50,6 +50,10 @@ import {
   Mail,
   Zap,
   Trash2,
+  Paperclip,
+  Bell,
+  ListPlus,
+  Tags,
 } from "lucide-react"
 import { api } from "~/trpc/react"
 import { toast } from "sonner"
@@ -64,6 +68,8 @@ export default function SettingsPage() {
 
   const { data: company, isLoading: companyLoading } =
     api.company.getSettings.useQuery()
+  const { data: customFields } = api.customFields.getAll.useQuery()
+  const { data: tagCatalog } = api.tags.getAll.useQuery()
   const { data, isLoading, refetch } = api.clients.getAll.useQuery({
     page: 1,
     limit: 50,
@@ -204,6 +210,77 @@ export default function SettingsPage() {
               </Link>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardContent className="p-4">
+              <Link href="/settings/attachments" className="block">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-600">Attachments</p>
+                    <p className="text-lg font-bold">
+                      {company?.attachment_max_size_mb ?? 10} MB max
+                    </p>
+                  </div>
+                  <Paperclip className="h-4 w-4 text-gray-500" />
+                </div>
+              </Link>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-4">
+              <Link href="/settings/notifications" className="block">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-600">Notifications</p>
+                    <p className="text-lg font-bold">
+                      {
+                        (
+                          (company?.customer_notification_events ??
+                            []) as string[]
+                        ).length
+                      }{" "}
+                      customer emails
+                    </p>
+                  </div>
+                  <Bell className="h-4 w-4 text-gray-500" />
+                </div>
+              </Link>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-4">
+              <Link href="/settings/custom-fields" className="block">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-600">Custom Fields</p>
+                    <p className="text-lg font-bold">
+                      {customFields?.length ?? 0} ticket fields
+                    </p>
+                  </div>
+                  <ListPlus className="h-4 w-4 text-gray-500" />
+                </div>
+              </Link>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-4">
+              <Link href="/settings/tags" className="block">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-600">Tags</p>
+                    <p className="text-lg font-bold">
+                      {tagCatalog?.tags.length ?? 0} tags
+                      {tagCatalog?.locked && " (locked)"}
+                    </p>
+                  </div>
+                  <Tags className="h-4 w-4 text-gray-500" />
+                </div>
+              </Link>
+            </CardContent>
+          </Card>
         </div>
 
         {/* Search */}
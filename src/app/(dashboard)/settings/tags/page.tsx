@@ -0,0 +1,450 @@
+"use client"
+
+import { useState } from "react"
+import { GitMerge, Lock, Pencil, Plus, Tags, Trash2 } from "lucide-react"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card"
+import { Button } from "~/components/ui/button"
+import { Input } from "~/components/ui/input"
+import { Label } from "~/components/ui/label"
+import { Switch } from "~/components/ui/switch"
+import { Checkbox } from "~/components/ui/checkbox"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "~/components/ui/alert-dialog"
+import { DashboardHeader } from "~/components/layout/dashboard-header"
+import TagBadge from "~/components/tags/tag-badge"
+import { api, type RouterOutputs } from "~/trpc/react"
+import { toast } from "sonner"
+
+type CatalogTag = RouterOutputs["tags"]["getAll"]["tags"][number]
+
+const DEFAULT_COLOR = "#6b7280"
+
+export default function TagSettingsPage() {
+  const utils = api.useUtils()
+  const { data, isLoading } = api.tags.getAll.useQuery()
+  const tags = data?.tags ?? []
+
+  // null while adding a new tag
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [name, setName] = useState("")
+  const [color, setColor] = useState(DEFAULT_COLOR)
+  const [description, setDescription] = useState("")
+  const [tagToDelete, setTagToDelete] = useState<CatalogTag | null>(null)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [mergeOpen, setMergeOpen] = useState(false)
+  const [mergeTargetId, setMergeTargetId] = useState("")
+
+  const resetForm = () => {
+    setEditingId(null)
+    setName("")
+    setColor(DEFAULT_COLOR)
+    setDescription("")
+  }
+
+  // Renames, merges and deletes also change tickets and articles
+  const refresh = () => {
+    void utils.tags.invalidate()
+    void utils.ticket.invalidate()
+    void utils.knowledgeBase.invalidate()
+  }
+
+  const onSaved = (message: string) => {
+    toast.success(message)
+    resetForm()
+    refresh()
+  }
+
+  const createTag = api.tags.create.useMutation({
+    onSuccess: () => onSaved("Tag added"),
+    onError: (error) => {
+      toast.error(error.message || "Failed to add tag")
+    },
+  })
+  const updateTag = api.tags.update.useMutation({
+    onSuccess: () => onSaved("Tag saved"),
+    onError: (error) => {
+      toast.error(error.message || "Failed to save tag")
+    },
+  })
+  const mergeTags = api.tags.merge.useMutation({
+    onSuccess: (target) => {
+      toast.success(`Tags merged into "${target.name}"`)
+      setMergeOpen(false)
+      setSelectedIds([])
+      if (editingId && selectedIds.includes(editingId)) resetForm()
+      refresh()
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to merge tags")
+    },
+  })
+  const deleteTag = api.tags.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Tag deleted")
+      if (tagToDelete?.id === editingId) resetForm()
+      setSelectedIds((ids) => ids.filter((id) => id !== tagToDelete?.id))
+      setTagToDelete(null)
+      refresh()
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete tag")
+    },
+  })
+  const setLocked = api.tags.setLocked.useMutation({
+    onSuccess: ({ locked }) => {
+      toast.success(
+        locked
+          ? "Only catalog tags can be used now"
+          : "New tags can be added from tickets and articles"
+      )
+      void utils.tags.invalidate()
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update tag settings")
+    },
+  })
+
+  const startEdit = (tag: CatalogTag) => {
+    setEditingId(tag.id)
+    setName(tag.name)
+    setColor(tag.color)
+    setDescription(tag.description ?? "")
+  }
+
+  const toggleSelected = (tagId: string, checked: boolean) =>
+    setSelectedIds((ids) =>
+      checked ? [...ids, tagId] : ids.filter((id) => id !== tagId)
+    )
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const settings = {
+      name,
+      color,
+      description: description.trim() || null,
+    }
+
+    if (editingId) {
+      updateTag.mutate({ id: editingId, ...settings })
+    } else {
+      createTag.mutate(settings)
+    }
+  }
+
+  const editingTag = tags.find((tag) => tag.id === editingId)
+  const isRename =
+    !!editingTag && name.trim() !== "" && name.trim() !== editingTag.name
+  const selectedTags = tags.filter((tag) => selectedIds.includes(tag.id))
+  const isSaving = createTag.isPending || updateTag.isPending
+
+  return (
+    <div className="space-y-6">
+      <DashboardHeader
+        breadcrumbs={[
+          { label: "Dashboard", href: "/dashboard" },
+          { label: "Settings", href: "/settings" },
+          { label: "Tags" },
+        ]}
+        showSidebarTrigger
+      />
+
+      <div className="space-y-6 p-4">
+        <div>
+          <h1 className="flex items-center gap-2 text-xl font-bold">
+            <Tags className="h-5 w-5" />
+            Tags
+          </h1>
+          <p className="text-gray-600">
+            The tags agents pick from on tickets and knowledge base articles
+          </p>
+        </div>
+
+        <Card className="max-w-2xl">
+          <CardContent className="flex items-center justify-between gap-4 pt-6">
+            <div className="space-y-1">
+              <Label htmlFor="tagsLocked" className="flex items-center gap-2">
+                <Lock className="h-4 w-4" />
+                Lock tags to the catalog
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                When on, tickets, articles and the API can only use the tags
+                listed here. Otherwise new tags are added as they&apos;re used.
+              </p>
+            </div>
+            <Switch
+              id="tagsLocked"
+              checked={data?.locked ?? false}
+              onCheckedChange={(locked) => setLocked.mutate({ locked })}
+              disabled={isLoading || setLocked.isPending}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Catalog</CardTitle>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={selectedIds.length < 2}
+              onClick={() => {
+                setMergeTargetId(selectedIds[0]!)
+                setMergeOpen(true)
+              }}
+            >
+              <GitMerge className="mr-2 h-4 w-4" />
+              Merge selected
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="py-8 text-center text-muted-foreground">
+                Loading tags...
+              </div>
+            ) : tags.length === 0 ? (
+              <div className="py-8 text-center text-muted-foreground">
+                No tags yet
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Tag</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Tickets</TableHead>
+                    <TableHead className="text-right">Articles</TableHead>
+                    <TableHead className="w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tags.map((tag) => (
+                    <TableRow key={tag.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.includes(tag.id)}
+                          onCheckedChange={(checked) =>
+                            toggleSelected(tag.id, checked === true)
+                          }
+                          aria-label={`Select ${tag.name}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <TagBadge name={tag.name} color={tag.color} />
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {tag.description}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {tag.ticketCount}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {tag.articleCount}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => startEdit(tag)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setTagToDelete(tag)}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="max-w-2xl">
+          <CardHeader>
+            <CardTitle>{editingId ? "Edit Tag" : "Add Tag"}</CardTitle>
+            <CardDescription>
+              {editingId
+                ? "Renaming a tag updates every ticket and article that uses it."
+                : "Names are matched without regard to case."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-[1fr_auto]">
+                <div className="space-y-2">
+                  <Label htmlFor="tagName">Name</Label>
+                  <Input
+                    id="tagName"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="billing"
+                    maxLength={100}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tagColor">Color</Label>
+                  <Input
+                    id="tagColor"
+                    type="color"
+                    value={color}
+                    onChange={(e) => setColor(e.target.value)}
+                    className="h-10 w-20 p-1"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="tagDescription">Description</Label>
+                <Input
+                  id="tagDescription"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="When to use this tag"
+                />
+              </div>
+
+              {isRename && editingTag && (
+                <p className="text-sm text-amber-700">
+                  {editingTag.ticketCount} tickets and {editingTag.articleCount}{" "}
+                  articles will be retagged from &quot;{editingTag.name}&quot;
+                  to &quot;{name.trim()}&quot;.
+                </p>
+              )}
+
+              <div className="flex items-center justify-between gap-2">
+                {name.trim() ? (
+                  <TagBadge name={name.trim()} color={color} />
+                ) : (
+                  <span />
+                )}
+                <div className="flex gap-2">
+                  {editingId && (
+                    <Button type="button" variant="outline" onClick={resetForm}>
+                      Cancel
+                    </Button>
+                  )}
+                  <Button type="submit" disabled={isSaving}>
+                    {editingId ? (
+                      "Save"
+                    ) : (
+                      <>
+                        <Plus className="mr-2 h-4 w-4" />
+                        Add Tag
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog open={mergeOpen} onOpenChange={setMergeOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge tags</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tickets and articles tagged with any of{" "}
+              {selectedTags.map((tag) => `"${tag.name}"`).join(", ")} will use
+              the tag you keep. The others are removed from the catalog.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="mergeTarget">Keep</Label>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger id="mergeTarget">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {selectedTags.map((tag) => (
+                  <SelectItem key={tag.id} value={tag.id}>
+                    {tag.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                mergeTags.mutate({
+                  sourceIds: selectedIds,
+                  targetId: mergeTargetId,
+                })
+              }
+            >
+              Merge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog
+        open={!!tagToDelete}
+        onOpenChange={(open) => !open && setTagToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete tag</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{tagToDelete?.name}&quot; will be removed from{" "}
+              {tagToDelete?.ticketCount ?? 0} tickets and{" "}
+              {tagToDelete?.articleCount ?? 0} articles.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                tagToDelete && deleteTag.mutate({ id: tagToDelete.id })
+              }
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
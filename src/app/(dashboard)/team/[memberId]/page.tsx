@@ -35,6 +35,7 @@ import {
   X,
 } from "lucide-react"
 import { api } from "~/trpc/react"
+import { NotificationPreferencesCard } from "~/components/team/notification-preferences-card"
 
 interface UserProfilePageProps {
   params: {
@@ -361,6 +362,11 @@ export default function UserProfilePage({ params }: UserProfilePageProps) {
             </CardContent>
           </Card>
 
+          <NotificationPreferencesCard
+            membershipId={member.id}
+            preferences={member.notification_preferences}
+          />
+
           {/* Danger Zone */}
           {member.is_active && (
             <Card className="border-red-200">
@@ -1,12 +1,22 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { useSearchParams } from "next/navigation"
-import { Plus, Search, Eye } from "lucide-react"
+import { useRouter, useSearchParams } from "next/navigation"
+import {
+  Plus,
+  Search,
+  Eye,
+  AtSign,
+  SlidersHorizontal,
+  Pencil,
+  Trash2,
+} from "lucide-react"
+import { toast } from "sonner"
 import { Button } from "~/components/ui/button"
 import { Input } from "~/components/ui/input"
 import { Badge } from "~/components/ui/badge"
 import { Avatar, AvatarFallback, AvatarImage } from "~/components/ui/avatar"
+import { Checkbox } from "~/components/ui/checkbox"
 import {
   Table,
   TableBody,
@@ -31,37 +41,103 @@ import {
   getPriorityColor,
   getInitials,
 } from "~/lib/utils"
+import {
+  compactTicketFilters,
+  TICKET_SORT_FIELDS,
+  TICKET_SORT_LABELS,
+  type TicketFilters,
+  type TicketSortField,
+} from "~/lib/ticket-filter-types"
 import CreateTicketDialog from "~/components/tickets/create-ticket-dialog"
 import TicketDetailDialog from "~/components/tickets/ticket-detail-dialog"
+import BulkTicketActions from "~/components/tickets/bulk-ticket-actions"
+import TicketViewDialog, {
+  type TicketListSettings,
+} from "~/components/tickets/ticket-view-dialog"
 
 export default function TicketsPage() {
   const [page, setPage] = useState(1)
-  const [search, setSearch] = useState("")
-  const [statusFilter, setStatusFilter] = useState<string>("")
-  const [priorityFilter, setPriorityFilter] = useState<string>("")
-  const [clientFilter, setClientFilter] = useState<string>("")
+  const [settings, setSettings] = useState<TicketListSettings>({
+    filters: {},
+    sortBy: "created_at",
+    sortOrder: "desc",
+  })
   const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null)
+  // Rows checked for bulk actions
+  const [checkedIds, setCheckedIds] = useState<string[]>([])
   const [createDialogOpen, setCreateDialogOpen] = useState(false)
-  const [myTickets, setMyTickets] = useState(false)
+  const [viewDialogOpen, setViewDialogOpen] = useState(false)
+  const [editingView, setEditingView] = useState(false)
+  // The saved view version last loaded into the filters
+  const [loadedViewKey, setLoadedViewKey] = useState<string | null>(null)
 
+  const router = useRouter()
   const searchParams = useSearchParams()
+  const utils = api.useUtils()
+  const { filters, sortBy, sortOrder } = settings
+  const myTickets = filters.myTickets ?? false
+
+  const viewId = searchParams?.get("view")
+  const { data: views } = api.ticketViews.getAll.useQuery()
+  const activeView = viewId
+    ? views?.find((view) => view.id === viewId)
+    : undefined
+  const activeViewKey = activeView
+    ? `${activeView.id}:${new Date(activeView.updated_at).getTime()}`
+    : null
 
   // Check URL parameters for filters
   useEffect(() => {
     const filterParam = searchParams?.get("filter")
     if (filterParam === "my") {
-      setMyTickets(true)
+      setFilter("myTickets", true)
+    }
+    if (filterParam === "mentions") {
+      setFilter("mentionsMe", true)
+    }
+
+    // The dashboard's tag counts link here
+    const tagParam = searchParams?.get("tag")
+    if (tagParam) {
+      setFilter("tags", [tagParam])
+    }
+
+    // Deep links (e.g. from notification emails) open the ticket directly
+    const ticketParam = searchParams?.get("ticket")
+    if (ticketParam) {
+      setSelectedTicketId(ticketParam)
     }
   }, [searchParams])
 
+  // Sidebar queues link here with ?view=; load the view's filters when it
+  // opens or someone saves a change to it, and clear them on leaving it
+  useEffect(() => {
+    if (activeView && activeViewKey !== loadedViewKey) {
+      setSettings({
+        filters: activeView.filters,
+        sortBy: activeView.sort_by as TicketSortField,
+        sortOrder: activeView.sort_order as "asc" | "desc",
+      })
+      setPage(1)
+      setLoadedViewKey(activeViewKey)
+    } else if (!viewId && loadedViewKey) {
+      setSettings({ filters: {}, sortBy: "created_at", sortOrder: "desc" })
+      setPage(1)
+      setLoadedViewKey(null)
+    }
+  }, [activeView, activeViewKey, loadedViewKey, viewId])
+
+  // Bulk actions only apply to tickets that are on screen
+  useEffect(() => {
+    setCheckedIds([])
+  }, [page, settings])
+
   const { data, isLoading, refetch } = api.ticket.getAll.useQuery({
     page,
     limit: 25,
-    search: search || undefined,
-    status: (statusFilter as any) || undefined,
-    priority: (priorityFilter as any) || undefined,
-    clientId: clientFilter || undefined,
-    myTickets,
+    ...filters,
+    sortBy,
+    sortOrder,
   })
 
   const { data: clients } = api.clients.getAll.useQuery({
@@ -69,19 +145,40 @@ export default function TicketsPage() {
     limit: 50,
   })
 
+  const { data: tagCatalog } = api.tags.getAll.useQuery()
+
   const { data: agents } = api.user.getAgents.useQuery()
   const { data: customerAccesses } = api.clients.getAllPortalAccess.useQuery()
 
+  const deleteView = api.ticketViews.delete.useMutation({
+    onSuccess: () => {
+      toast.success("View deleted")
+      void utils.ticketViews.invalidate()
+      router.push("/tickets")
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete view")
+    },
+  })
+
   const tickets = data?.tickets || []
   const pagination = data?.pagination
+  const members = (agents ?? []).map((agent) => ({
+    id: agent.id,
+    name: `${agent.user.first_name} ${agent.user.last_name}`,
+  }))
+  const activeFilterCount = Object.keys(compactTicketFilters(filters)).length
 
-  const handleSearchChange = (value: string) => {
-    setSearch(value)
-    setPage(1) // Reset to first page when searching
-  }
-
-  const handleFilterChange = () => {
-    setPage(1) // Reset to first page when filtering
+  // Reset to first page when filtering
+  function setFilter<K extends keyof TicketFilters>(
+    key: K,
+    value: TicketFilters[K]
+  ) {
+    setSettings((current) => ({
+      ...current,
+      filters: { ...current.filters, [key]: value },
+    }))
+    setPage(1)
   }
 
   const handleTicketCreated = () => {
@@ -93,32 +190,79 @@ export default function TicketsPage() {
     refetch()
   }
 
+  const allChecked =
+    tickets.length > 0 &&
+    tickets.every((ticket) => checkedIds.includes(ticket.id))
+
+  const toggleChecked = (ticketId: string, checked: boolean) => {
+    setCheckedIds((current) =>
+      checked ? [...current, ticketId] : current.filter((id) => id !== ticketId)
+    )
+  }
+
+  const openViewDialog = (editView: boolean) => {
+    setEditingView(editView)
+    setViewDialogOpen(true)
+  }
+
+  const handleDeleteView = () => {
+    if (
+      activeView &&
+      confirm(`Delete the "${activeView.name}" view? Tickets aren't affected.`)
+    ) {
+      deleteView.mutate({ id: activeView.id })
+    }
+  }
+
   return (
     <div className="space-y-6 p-6">
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-xl font-bold text-gray-900">
-            {myTickets ? "My Tickets" : "Tickets"}
+            {activeView?.name ?? (myTickets ? "My Tickets" : "Tickets")}
           </h1>
           <p className="text-gray-600">
-            {myTickets
-              ? "Tickets assigned to or created by you"
-              : "Manage and track support tickets"}
+            {activeView
+              ? activeView.is_shared
+                ? `Shared queue${activeView.ownerName ? ` by ${activeView.ownerName}` : ""}`
+                : "Your saved view"
+              : myTickets
+                ? "Tickets assigned to or created by you"
+                : "Manage and track support tickets"}
           </p>
         </div>
-        <CreateTicketDialog
-          open={createDialogOpen}
-          onOpenChange={setCreateDialogOpen}
-          onTicketCreated={handleTicketCreated}
-          agents={agents || []}
-          customerAccesses={customerAccesses || []}
-        >
-          <Button>
-            <Plus className="mr-2 h-4 w-4" />
-            New Ticket
-          </Button>
-        </CreateTicketDialog>
+        <div className="flex items-center gap-2">
+          {activeView?.canManage && (
+            <>
+              <Button variant="outline" onClick={() => openViewDialog(true)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit View
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={handleDeleteView}
+                disabled={deleteView.isLoading}
+                title="Delete view"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          <CreateTicketDialog
+            open={createDialogOpen}
+            onOpenChange={setCreateDialogOpen}
+            onTicketCreated={handleTicketCreated}
+            agents={agents || []}
+            customerAccesses={customerAccesses || []}
+          >
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              New Ticket
+            </Button>
+          </CreateTicketDialog>
+        </div>
       </div>
 
       {/* Filters */}
@@ -127,25 +271,24 @@ export default function TicketsPage() {
           <CardTitle className="text-lg">Filters</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="flex flex-col gap-4 sm:flex-row">
+          <div className="flex flex-col gap-4 sm:flex-row sm:flex-wrap">
             <div className="flex-1">
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 transform text-gray-400" />
                 <Input
                   placeholder="Search tickets..."
-                  value={search}
-                  onChange={(e) => handleSearchChange(e.target.value)}
+                  value={filters.search ?? ""}
+                  onChange={(e) => setFilter("search", e.target.value)}
                   className="pl-10"
                 />
               </div>
             </div>
             {!myTickets && (
               <Select
-                value={clientFilter}
-                onValueChange={(value) => {
-                  setClientFilter(value === "all" ? "" : value)
-                  handleFilterChange()
-                }}
+                value={filters.clientId ?? ""}
+                onValueChange={(value) =>
+                  setFilter("clientId", value === "all" ? undefined : value)
+                }
               >
                 <SelectTrigger className="w-full sm:w-48">
                   <SelectValue placeholder="All Clients" />
@@ -161,14 +304,24 @@ export default function TicketsPage() {
               </Select>
             )}
             <Select
-              value={statusFilter}
-              onValueChange={(value) => {
-                setStatusFilter(value === "all" ? "" : value)
-                handleFilterChange()
-              }}
+              value={filters.statuses?.length === 1 ? filters.statuses[0] : ""}
+              onValueChange={(value) =>
+                setFilter(
+                  "statuses",
+                  value === "all"
+                    ? undefined
+                    : [value as NonNullable<TicketFilters["statuses"]>[number]]
+                )
+              }
             >
               <SelectTrigger className="w-full sm:w-40">
-                <SelectValue placeholder="All Status" />
+                <SelectValue
+                  placeholder={
+                    (filters.statuses?.length ?? 0) > 1
+                      ? "Several statuses"
+                      : "All Status"
+                  }
+                />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Status</SelectItem>
@@ -179,14 +332,30 @@ export default function TicketsPage() {
               </SelectContent>
             </Select>
             <Select
-              value={priorityFilter}
-              onValueChange={(value) => {
-                setPriorityFilter(value === "all" ? "" : value)
-                handleFilterChange()
-              }}
+              value={
+                filters.priorities?.length === 1 ? filters.priorities[0] : ""
+              }
+              onValueChange={(value) =>
+                setFilter(
+                  "priorities",
+                  value === "all"
+                    ? undefined
+                    : [
+                        value as NonNullable<
+                          TicketFilters["priorities"]
+                        >[number],
+                      ]
+                )
+              }
             >
               <SelectTrigger className="w-full sm:w-40">
-                <SelectValue placeholder="All Priority" />
+                <SelectValue
+                  placeholder={
+                    (filters.priorities?.length ?? 0) > 1
+                      ? "Several priorities"
+                      : "All Priority"
+                  }
+                />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Priority</SelectItem>
@@ -196,10 +365,95 @@ export default function TicketsPage() {
                 <SelectItem value="urgent">Urgent</SelectItem>
               </SelectContent>
             </Select>
+            {(tagCatalog?.tags.length ?? 0) > 0 && (
+              <Select
+                value={filters.tags?.length === 1 ? filters.tags[0] : ""}
+                onValueChange={(value) =>
+                  setFilter("tags", value === "all" ? undefined : [value])
+                }
+              >
+                <SelectTrigger className="w-full sm:w-40">
+                  <SelectValue
+                    placeholder={
+                      (filters.tags?.length ?? 0) > 1
+                        ? "Several tags"
+                        : "All Tags"
+                    }
+                  />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Tags</SelectItem>
+                  {tagCatalog?.tags.map((tag) => (
+                    <SelectItem key={tag.id} value={tag.name}>
+                      <div className="flex items-center gap-2">
+                        <span
+                          className="h-2.5 w-2.5 rounded-full"
+                          style={{ backgroundColor: tag.color }}
+                        />
+                        {tag.name}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button
+              variant={filters.mentionsMe ? "default" : "outline"}
+              onClick={() => setFilter("mentionsMe", !filters.mentionsMe)}
+              title="Tickets with internal notes that mention you"
+            >
+              <AtSign className="mr-2 h-4 w-4" />
+              Mentions
+            </Button>
+            <Select
+              value={sortBy}
+              onValueChange={(value) => {
+                // Soonest breach first, otherwise newest first
+                setSettings((current) => ({
+                  ...current,
+                  sortBy: value as TicketSortField,
+                  sortOrder: value === "sla_due_at" ? "asc" : "desc",
+                }))
+                setPage(1)
+              }}
+            >
+              <SelectTrigger className="w-full sm:w-44">
+                <SelectValue placeholder="Sort by" />
+              </SelectTrigger>
+              <SelectContent>
+                {TICKET_SORT_FIELDS.map((field) => (
+                  <SelectItem key={field} value={field}>
+                    {TICKET_SORT_LABELS[field]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => openViewDialog(false)}>
+              <SlidersHorizontal className="mr-2 h-4 w-4" />
+              More Filters
+              {activeFilterCount > 0 && (
+                <Badge variant="secondary" className="ml-2">
+                  {activeFilterCount}
+                </Badge>
+              )}
+            </Button>
           </div>
         </CardContent>
       </Card>
 
+      {checkedIds.length > 0 && (
+        <BulkTicketActions
+          ticketIds={checkedIds}
+          members={members}
+          clients={clients?.clients ?? []}
+          onClear={() => setCheckedIds([])}
+          onUpdated={() => {
+            setCheckedIds([])
+            refetch()
+          }}
+        />
+      )}
+
       {/* Tickets Table */}
       <Card>
         <CardContent className="p-0">
@@ -224,7 +478,7 @@ export default function TicketsPage() {
                 No tickets found
               </h3>
               <p className="mt-1 text-sm text-gray-500">
-                {search || statusFilter || priorityFilter
+                {activeFilterCount > 0
                   ? "Try adjusting your filters"
                   : "Get started by creating your first ticket"}
               </p>
@@ -234,6 +488,25 @@ export default function TicketsPage() {
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead className="w-[40px]">
+                      <Checkbox
+                        checked={
+                          allChecked
+                            ? true
+                            : checkedIds.length > 0
+                              ? "indeterminate"
+                              : false
+                        }
+                        onCheckedChange={(checked) =>
+                          setCheckedIds(
+                            checked === true
+                              ? tickets.map((ticket) => ticket.id)
+                              : []
+                          )
+                        }
+                        aria-label="Select all tickets on this page"
+                      />
+                    </TableHead>
                     <TableHead>Subject</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Priority</TableHead>
@@ -251,6 +524,15 @@ export default function TicketsPage() {
                       className="cursor-pointer hover:bg-gray-50"
                       onClick={() => setSelectedTicketId(ticket.id)}
                     >
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        <Checkbox
+                          checked={checkedIds.includes(ticket.id)}
+                          onCheckedChange={(checked) =>
+                            toggleChecked(ticket.id, checked === true)
+                          }
+                          aria-label={`Select ${ticket.subject}`}
+                        />
+                      </TableCell>
                       <TableCell>
                         <div>
                           <p className="line-clamp-1 font-medium text-gray-900">
@@ -267,9 +549,17 @@ export default function TicketsPage() {
                         </Badge>
                       </TableCell>
                       <TableCell>
-                        <Badge className={getPriorityColor(ticket.priority)}>
-                          {ticket.priority}
-                        </Badge>
+                        <div className="flex items-center gap-1">
+                          <Badge className={getPriorityColor(ticket.priority)}>
+                            {ticket.priority}
+                          </Badge>
+                          {(ticket.sla_response_breach ||
+                            ticket.sla_resolution_breach) && (
+                            <Badge variant="destructive" className="text-xs">
+                              SLA breached
+                            </Badge>
+                          )}
+                        </div>
                       </TableCell>
                       {!myTickets && (
                         <TableCell>
@@ -397,6 +687,19 @@ export default function TicketsPage() {
           customerAccesses={customerAccesses || []}
         />
       )}
+
+      <TicketViewDialog
+        open={viewDialogOpen}
+        onOpenChange={setViewDialogOpen}
+        settings={settings}
+        view={editingView ? activeView : null}
+        members={members}
+        onApply={(applied) => {
+          setSettings(applied)
+          setPage(1)
+        }}
+        onSaved={(view) => router.push(`/tickets?view=${view.id}`)}
+      />
     </div>
   )
 }
@@ -0,0 +1,353 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Ban, ExternalLink, Globe, Inbox, Plus, X } from "lucide-react"
+import { Button } from "~/components/ui/button"
+import { Badge } from "~/components/ui/badge"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog"
+import { Label } from "~/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select"
+import { Tabs, TabsList, TabsTrigger } from "~/components/ui/tabs"
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card"
+import { DashboardHeader } from "~/components/layout/dashboard-header"
+import { api, type RouterOutputs } from "~/trpc/react"
+import { formatRelativeTime } from "~/lib/utils"
+import { toast } from "sonner"
+
+type QuarantineStatus = "pending" | "ticket_created" | "spam"
+type QuarantinedEmail = RouterOutputs["quarantine"]["getAll"][number]
+
+export default function QuarantinePage() {
+  const router = useRouter()
+  const utils = api.useUtils()
+
+  const [status, setStatus] = useState<QuarantineStatus>("pending")
+  const [selectedEmail, setSelectedEmail] = useState<QuarantinedEmail | null>(
+    null
+  )
+  const [clientId, setClientId] = useState("")
+
+  const { data: emails = [], isLoading } = api.quarantine.getAll.useQuery({
+    status,
+  })
+  const { data: blockedSenders = [] } =
+    api.quarantine.getBlockedSenders.useQuery()
+  const { data: clients } = api.clients.getAll.useQuery({
+    page: 1,
+    limit: 50,
+  })
+
+  const closeReview = () => {
+    setSelectedEmail(null)
+    setClientId("")
+  }
+
+  const refresh = () => {
+    utils.quarantine.getAll.invalidate()
+    utils.quarantine.getBlockedSenders.invalidate()
+  }
+
+  const createTicketMutation = api.quarantine.createTicket.useMutation({
+    onSuccess: () => {
+      toast.success("Ticket created")
+      closeReview()
+      refresh()
+    },
+    onError: (error) => {
+      toast.error(error.message)
+    },
+  })
+
+  const addDomainMutation = api.quarantine.addDomainToClient.useMutation({
+    onSuccess: (data) => {
+      toast.success(
+        `Added ${data.domain} to the client and created ${data.ticketIds.length} ticket(s)`
+      )
+      closeReview()
+      refresh()
+    },
+    onError: (error) => {
+      toast.error(error.message)
+    },
+  })
+
+  const markSpamMutation = api.quarantine.markSpam.useMutation({
+    onSuccess: () => {
+      toast.success("Sender blocked")
+      closeReview()
+      refresh()
+    },
+    onError: (error) => {
+      toast.error(error.message)
+    },
+  })
+
+  const unblockMutation = api.quarantine.unblockSender.useMutation({
+    onSuccess: () => {
+      toast.success("Sender unblocked")
+      refresh()
+    },
+    onError: (error) => {
+      toast.error(error.message)
+    },
+  })
+
+  const isActing =
+    createTicketMutation.isPending ||
+    addDomainMutation.isPending ||
+    markSpamMutation.isPending
+
+  const senderDomain = selectedEmail?.sender_email.split("@")[1]
+
+  return (
+    <div className="space-y-6">
+      <DashboardHeader
+        breadcrumbs={[
+          { label: "Dashboard", href: "/dashboard" },
+          { label: "Tickets", href: "/tickets" },
+          { label: "Quarantine" },
+        ]}
+        showSidebarTrigger
+      />
+
+      <div className="space-y-6 p-4">
+        <div>
+          <h1 className="flex items-center gap-2 text-xl font-bold">
+            <Inbox className="h-5 w-5" />
+            Email Quarantine
+          </h1>
+          <p className="text-gray-600">
+            Emails from senders that don&apos;t match any client&apos;s email
+            domains
+          </p>
+        </div>
+
+        <Tabs
+          value={status}
+          onValueChange={(value) => setStatus(value as QuarantineStatus)}
+        >
+          <TabsList>
+            <TabsTrigger value="pending">Pending</TabsTrigger>
+            <TabsTrigger value="ticket_created">Ticket Created</TabsTrigger>
+            <TabsTrigger value="spam">Spam</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <Card>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="py-8 text-center text-muted-foreground">
+                Loading emails...
+              </div>
+            ) : emails.length === 0 ? (
+              <div className="py-8 text-center text-muted-foreground">
+                No emails here
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>From</TableHead>
+                    <TableHead>Subject</TableHead>
+                    <TableHead>Received</TableHead>
+                    <TableHead>
+                      {status === "pending" ? "Actions" : "Reviewed"}
+                    </TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {emails.map((email) => (
+                    <TableRow key={email.id}>
+                      <TableCell>
+                        <div className="font-medium">
+                          {email.sender_name || email.sender_email}
+                        </div>
+                        {email.sender_name && (
+                          <div className="text-sm text-muted-foreground">
+                            {email.sender_email}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-md truncate">
+                        {email.subject}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {formatRelativeTime(email.received_at)}
+                      </TableCell>
+                      <TableCell>
+                        {status === "pending" ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setSelectedEmail(email)}
+                          >
+                            Review
+                          </Button>
+                        ) : email.ticket ? (
+                          <Button
+                            variant="link"
+                            className="h-auto p-0"
+                            onClick={() =>
+                              router.push(`/tickets?ticket=${email.ticket!.id}`)
+                            }
+                          >
+                            <ExternalLink className="mr-2 h-4 w-4" />
+                            {email.ticket.subject}
+                          </Button>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">
+                            {email.reviewedBy
+                              ? `${email.reviewedBy.user.first_name} ${email.reviewedBy.user.last_name}`
+                              : "—"}
+                            {email.reviewed_at &&
+                              ` • ${formatRelativeTime(email.reviewed_at)}`}
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {blockedSenders.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Ban className="h-5 w-5" />
+                Blocked Senders
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap gap-2">
+                {blockedSenders.map((sender) => (
+                  <Badge
+                    key={sender.id}
+                    variant="secondary"
+                    className="flex items-center gap-1"
+                  >
+                    {sender.email}
+                    <button
+                      type="button"
+                      onClick={() => unblockMutation.mutate({ id: sender.id })}
+                      disabled={unblockMutation.isPending}
+                      className="ml-1 hover:text-destructive"
+                      aria-label={`Unblock ${sender.email}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {/* Review Dialog */}
+      <Dialog
+        open={!!selectedEmail}
+        onOpenChange={(open) => !open && closeReview()}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{selectedEmail?.subject}</DialogTitle>
+            <DialogDescription>
+              From {selectedEmail?.sender_name} &lt;
+              {selectedEmail?.sender_email}&gt;
+              {selectedEmail &&
+                ` • ${new Date(selectedEmail.received_at).toLocaleString()}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="max-h-72 overflow-y-auto whitespace-pre-wrap rounded bg-muted p-3 text-sm">
+              {selectedEmail?.body || "(no text content)"}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Client</Label>
+              <Select value={clientId} onValueChange={setClientId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a client" />
+                </SelectTrigger>
+                <SelectContent>
+                  {clients?.clients.map((client) => (
+                    <SelectItem key={client.id} value={client.id}>
+                      {client.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter className="gap-2 sm:justify-between">
+            <Button
+              variant="destructive"
+              onClick={() =>
+                selectedEmail &&
+                markSpamMutation.mutate({ id: selectedEmail.id })
+              }
+              disabled={isActing}
+            >
+              <Ban className="mr-2 h-4 w-4" />
+              Mark as Spam
+            </Button>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() =>
+                  selectedEmail &&
+                  addDomainMutation.mutate({
+                    id: selectedEmail.id,
+                    clientId,
+                  })
+                }
+                disabled={!clientId || isActing}
+              >
+                <Globe className="mr-2 h-4 w-4" />
+                Add {senderDomain} to Client
+              </Button>
+              <Button
+                onClick={() =>
+                  selectedEmail &&
+                  createTicketMutation.mutate({
+                    id: selectedEmail.id,
+                    clientId,
+                  })
+                }
+                disabled={!clientId || isActing}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Create Ticket
+              </Button>
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { db } from "~/db"
+import { ticketComments } from "~/db/schema"
+import { eq } from "drizzle-orm"
+import { createClient } from "~/utils/supabase/server"
+import { canAccessTicketFiles, getCommentAttachments } from "~/lib/attachments"
+import { getStorage } from "~/lib/storage"
+
+// GET /api/attachments/[commentId]/[attachmentId] - Download a comment attachment
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { commentId: string; attachmentId: string } }
+) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 })
+  }
+
+  if (!z.string().uuid().safeParse(params.commentId).success) {
+    return NextResponse.json({ error: "Attachment not found" }, { status: 404 })
+  }
+
+  const comment = await db.query.ticketComments.findFirst({
+    where: eq(ticketComments.id, params.commentId),
+    with: { ticket: { columns: { client_id: true } } },
+  })
+
+  const attachment = getCommentAttachments(comment?.attachments).find(
+    (a) => a.id === params.attachmentId
+  )
+
+  // Same response for missing and forbidden so IDs can't be probed
+  if (
+    !comment ||
+    !attachment ||
+    !(await canAccessTicketFiles(
+      user,
+      { company_id: comment.company_id, client_id: comment.ticket.client_id },
+      { isInternal: comment.is_internal }
+    ))
+  ) {
+    return NextResponse.json({ error: "Attachment not found" }, { status: 404 })
+  }
+
+  try {
+    const data = await getStorage(attachment.storage_driver).get(
+      attachment.storage_key
+    )
+    if (!data) {
+      return NextResponse.json(
+        { error: "Attachment not found" },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        "Content-Type": attachment.content_type,
+        "Content-Length": String(data.length),
+        // Always a download: files come from customers and must not render in our origin
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+        "X-Content-Type-Options": "nosniff",
+        "Cache-Control": "private, max-age=0, must-revalidate",
+      },
+    })
+  } catch (error) {
+    console.error("Error reading attachment:", error)
+    return NextResponse.json(
+      { error: "Failed to read attachment" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { db } from "~/db"
+import { tickets } from "~/db/schema"
+import { eq } from "drizzle-orm"
+import { createClient } from "~/utils/supabase/server"
+import {
+  canAccessTicketFiles,
+  createPendingAttachment,
+  getAttachmentRejection,
+} from "~/lib/attachments"
+
+// POST /api/attachments - Upload a file to attach to a ticket comment
+// Expects multipart form data with `ticketId` and `file`; the returned ID is
+// passed to addComment as one of `attachmentIds`.
+export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 })
+  }
+
+  let formData: FormData
+  try {
+    formData = await request.formData()
+  } catch {
+    return NextResponse.json(
+      { error: "Expected multipart form data" },
+      { status: 400 }
+    )
+  }
+
+  const ticketId = formData.get("ticketId")
+  const file = formData.get("file")
+
+  const parsedTicketId = z.string().uuid().safeParse(ticketId)
+  if (!parsedTicketId.success || !(file instanceof File)) {
+    return NextResponse.json(
+      { error: "ticketId and file are required" },
+      { status: 400 }
+    )
+  }
+
+  const ticket = await db.query.tickets.findFirst({
+    where: eq(tickets.id, parsedTicketId.data),
+    columns: { id: true, company_id: true, client_id: true },
+    with: { company: true },
+  })
+
+  if (!ticket || !(await canAccessTicketFiles(user, ticket))) {
+    return NextResponse.json({ error: "Ticket not found" }, { status: 404 })
+  }
+
+  const rejection = getAttachmentRejection(ticket.company, {
+    filename: file.name,
+    contentType: file.type,
+    size: file.size,
+  })
+  if (rejection) {
+    return NextResponse.json({ error: rejection }, { status: 400 })
+  }
+
+  try {
+    const attachment = await createPendingAttachment({
+      companyId: ticket.company_id,
+      ticketId: ticket.id,
+      filename: file.name,
+      contentType: file.type,
+      data: Buffer.from(await file.arrayBuffer()),
+      uploader: { authUserId: user.id },
+    })
+
+    return NextResponse.json({ data: attachment }, { status: 201 })
+  } catch (error) {
+    console.error("Error storing attachment:", error)
+    return NextResponse.json(
+      { error: "Failed to store attachment" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,129 @@
+import { callProcedure, TRPCError } from "@trpc/server"
+import { isObservable, type Unsubscribable } from "@trpc/server/observable"
+import { getHTTPStatusCodeFromError } from "@trpc/server/http"
+import { type NextRequest } from "next/server"
+import superjson from "superjson"
+
+import { appRouter } from "~/server/api/root"
+import { createTRPCContext } from "~/server/api/trpc"
+
+export const dynamic = "force-dynamic"
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_INTERVAL = 25_000
+
+/**
+ * Serves tRPC subscriptions as server-sent events, which the fetch adapter
+ * doesn't support. Query: `path` of the subscription procedure, `input` as
+ * superjson and `companyId` in place of the x-company-id header, since
+ * EventSource can't send headers. See `sseLink` in ~/trpc/sse-link.
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = req.nextUrl
+  const path = searchParams.get("path") ?? ""
+  const rawInput = searchParams.get("input")
+  const companyId = searchParams.get("companyId")
+
+  const headers = Object.fromEntries(req.headers.entries())
+  if (companyId) headers["x-company-id"] = companyId
+
+  const encoder = new TextEncoder()
+  let subscription: Unsubscribable | null = null
+  let heartbeat: ReturnType<typeof setInterval> | null = null
+  let closed = false
+  const stop = () => {
+    closed = true
+    subscription?.unsubscribe()
+    if (heartbeat) clearInterval(heartbeat)
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return
+        controller.enqueue(
+          encoder.encode(
+            `event: ${event}\ndata: ${JSON.stringify(superjson.serialize(data))}\n\n`
+          )
+        )
+      }
+      const close = () => {
+        if (closed) return
+        stop()
+        controller.close()
+      }
+      // Sent as "trpc-error" because EventSource reserves "error" for
+      // connection failures; the client stops retrying when it gets one
+      const fail = (error: TRPCError) => {
+        send("trpc-error", {
+          message: error.message,
+          code: error.code,
+          httpStatus: getHTTPStatusCodeFromError(error),
+        })
+        close()
+      }
+
+      req.signal.addEventListener("abort", close)
+
+      try {
+        const ctx = await createTRPCContext({
+          req: { headers, cookies: req.cookies } as any,
+          res: undefined as any,
+        })
+        const result = await callProcedure({
+          procedures: appRouter._def.procedures,
+          path,
+          rawInput: rawInput
+            ? superjson.deserialize(JSON.parse(rawInput))
+            : undefined,
+          ctx,
+          type: "subscription",
+        })
+
+        if (!isObservable(result)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `${path} is not a subscription`,
+          })
+        }
+
+        send("started", null)
+        heartbeat = setInterval(() => {
+          if (!closed) controller.enqueue(encoder.encode(": ping\n\n"))
+        }, HEARTBEAT_INTERVAL)
+
+        subscription = result.subscribe({
+          next: (data) => send("data", data),
+          error: (error) =>
+            fail(
+              error instanceof TRPCError
+                ? error
+                : new TRPCError({ code: "INTERNAL_SERVER_ERROR" })
+            ),
+          complete: close,
+        })
+        if (closed) subscription.unsubscribe()
+      } catch (error) {
+        fail(
+          error instanceof TRPCError
+            ? error
+            : new TRPCError({
+                code: "BAD_REQUEST",
+                message: "Invalid subscription request",
+                cause: error,
+              })
+        )
+      }
+    },
+    // The browser went away
+    cancel: stop,
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { db } from "~/db"
+import { ticketComments } from "~/db/schema"
+import { eq, and } from "drizzle-orm"
+import { validateApiKey, hasPermission } from "~/lib/auth-api"
+import { getCommentAttachments } from "~/lib/attachments"
+import { getStorage } from "~/lib/storage"
+
+async function handleAuth(request: NextRequest) {
+  const authContext = await validateApiKey(request)
+  if (!authContext) {
+    return NextResponse.json(
+      { error: "Invalid or missing API key" },
+      { status: 401 }
+    )
+  }
+  return authContext
+}
+
+// GET /api/v1/attachments/[commentId]/[attachmentId] - Download a comment attachment
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { commentId: string; attachmentId: string } }
+) {
+  const authContext = await handleAuth(request)
+  if (authContext instanceof NextResponse) return authContext
+
+  if (!hasPermission(authContext, "comments:read")) {
+    return NextResponse.json(
+      { error: "Insufficient permissions" },
+      { status: 403 }
+    )
+  }
+
+  if (!z.string().uuid().safeParse(params.commentId).success) {
+    return NextResponse.json({ error: "Attachment not found" }, { status: 404 })
+  }
+
+  try {
+    // Only public comments via API, as for comment listings
+    const comment = await db.query.ticketComments.findFirst({
+      where: and(
+        eq(ticketComments.id, params.commentId),
+        eq(ticketComments.company_id, authContext.company.id),
+        eq(ticketComments.is_internal, false)
+      ),
+    })
+
+    const attachment = getCommentAttachments(comment?.attachments).find(
+      (a) => a.id === params.attachmentId
+    )
+    const data =
+      attachment &&
+      (await getStorage(attachment.storage_driver).get(attachment.storage_key))
+
+    if (!attachment || !data) {
+      return NextResponse.json(
+        { error: "Attachment not found" },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        "Content-Type": attachment.content_type,
+        "Content-Length": String(data.length),
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+        "X-Content-Type-Options": "nosniff",
+      },
+    })
+  } catch (error) {
+    console.error("Error fetching attachment:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { db } from "~/db"
+import { customFieldDefinitions } from "~/db/schema"
+import { asc, eq } from "drizzle-orm"
+import { validateApiKey, hasPermission } from "~/lib/auth-api"
+import { getCustomFieldDefinitions } from "~/lib/custom-fields"
+
+const querySchema = z.object({
+  client_id: z.string().uuid().optional(),
+})
+
+async function handleAuth(request: NextRequest) {
+  const authContext = await validateApiKey(request)
+  if (!authContext) {
+    return NextResponse.json(
+      { error: "Invalid or missing API key" },
+      { status: 401 }
+    )
+  }
+  return authContext
+}
+
+// GET /api/v1/custom-fields - List custom ticket fields
+export async function GET(request: NextRequest) {
+  const authContext = await handleAuth(request)
+  if (authContext instanceof NextResponse) return authContext
+
+  if (!hasPermission(authContext, "tickets:read")) {
+    return NextResponse.json(
+      { error: "Insufficient permissions" },
+      { status: 403 }
+    )
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const query = querySchema.parse({
+      client_id: searchParams.get("client_id") ?? undefined,
+    })
+
+    // With a client, only the fields its tickets use
+    const fields = query.client_id
+      ? await getCustomFieldDefinitions(authContext.company.id, query.client_id)
+      : await db.query.customFieldDefinitions.findMany({
+          where: eq(customFieldDefinitions.company_id, authContext.company.id),
+          orderBy: [
+            asc(customFieldDefinitions.position),
+            asc(customFieldDefinitions.created_at),
+          ],
+        })
+
+    return NextResponse.json({
+      data: fields.map((field) => ({
+        id: field.id,
+        key: field.key,
+        label: field.label,
+        description: field.description,
+        type: field.type,
+        options: field.options,
+        is_required: field.is_required,
+        client_id: field.client_id,
+      })),
+    })
+  } catch (error) {
+    console.error("Error fetching custom fields:", error)
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: error.errors },
+        { status: 400 }
+      )
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "~/db"
+import { tickets } from "~/db/schema"
+import { eq, and } from "drizzle-orm"
+import { validateApiKey, hasPermission } from "~/lib/auth-api"
+import {
+  createPendingAttachment,
+  getAttachmentRejection,
+} from "~/lib/attachments"
+
+async function handleAuth(request: NextRequest) {
+  const authContext = await validateApiKey(request)
+  if (!authContext) {
+    return NextResponse.json(
+      { error: "Invalid or missing API key" },
+      { status: 401 }
+    )
+  }
+  return authContext
+}
+
+// POST /api/v1/tickets/[id]/attachments - Upload a file for a new comment
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const authContext = await handleAuth(request)
+  if (authContext instanceof NextResponse) return authContext
+
+  if (!hasPermission(authContext, "comments:create")) {
+    return NextResponse.json(
+      { error: "Insufficient permissions" },
+      { status: 403 }
+    )
+  }
+
+  try {
+    // Verify ticket exists and belongs to company
+    const ticket = await db.query.tickets.findFirst({
+      where: and(
+        eq(tickets.id, params.id),
+        eq(tickets.company_id, authContext.company.id)
+      ),
+      with: { company: true },
+    })
+
+    if (!ticket) {
+      return NextResponse.json({ error: "Ticket not found" }, { status: 404 })
+    }
+
+    const formData = await request.formData().catch(() => null)
+    const file = formData?.get("file")
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "Expected multipart form data with a file field" },
+        { status: 400 }
+      )
+    }
+
+    const rejection = getAttachmentRejection(ticket.company, {
+      filename: file.name,
+      contentType: file.type,
+      size: file.size,
+    })
+    if (rejection) {
+      return NextResponse.json({ error: rejection }, { status: 400 })
+    }
+
+    const attachment = await createPendingAttachment({
+      companyId: ticket.company_id,
+      ticketId: ticket.id,
+      filename: file.name,
+      contentType: file.type,
+      data: Buffer.from(await file.arrayBuffer()),
+      uploader: { apiKeyId: authContext.apiKey.id },
+    })
+
+    return NextResponse.json({ data: attachment }, { status: 201 })
+  } catch (error) {
+    console.error("Error uploading attachment:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
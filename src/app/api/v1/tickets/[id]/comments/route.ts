@@ -4,11 +4,19 @@ import { db } from "~/db"
 import { tickets, ticketComments, customerPortalAccess } from "~/db/schema"
 import { eq, and, desc } from "drizzle-orm"
 import { validateApiKey, hasPermission } from "~/lib/auth-api"
+import {
+  clearPendingAttachments,
+  getPendingAttachments,
+  toAttachmentViews,
+} from "~/lib/attachments"
+import { notifyCustomerReply } from "~/lib/agent-notifications"
 
 const createCommentSchema = z.object({
   content: z.string().min(1, "Content is required"),
   customer_email: z.string().email("Invalid email").optional(),
   customer_name: z.string().optional(),
+  // IDs from POST /api/v1/tickets/{id}/attachments
+  attachment_ids: z.array(z.string().uuid()).max(10).default([]),
 })
 
 async function handleAuth(request: NextRequest) {
@@ -52,6 +60,7 @@ export async function GET(
 
     // Get comments (only non-internal comments for API)
     const comments = await db.query.ticketComments.findMany({
+      columns: { search_vector: false },
       where: and(
         eq(ticketComments.ticket_id, params.id),
         eq(ticketComments.company_id, authContext.company.id),
@@ -81,7 +90,12 @@ export async function GET(
       orderBy: [desc(ticketComments.created_at)],
     })
 
-    return NextResponse.json({ data: comments })
+    return NextResponse.json({
+      data: comments.map((comment) => ({
+        ...comment,
+        attachments: toAttachmentViews(comment, "/api/v1/attachments"),
+      })),
+    })
   } catch (error) {
     console.error("Error fetching comments:", error)
     return NextResponse.json(
@@ -156,6 +170,18 @@ export async function POST(
       }
     }
 
+    const attachments = await getPendingAttachments(
+      data.attachment_ids,
+      params.id,
+      { apiKeyId: authContext.apiKey.id }
+    )
+    if (!attachments) {
+      return NextResponse.json(
+        { error: "Attachment not found or already used" },
+        { status: 400 }
+      )
+    }
+
     // Create the comment
     const [comment] = await db
       .insert(ticketComments)
@@ -165,9 +191,20 @@ export async function POST(
         customer_portal_access_id: customerPortalAccessId,
         content: data.content,
         is_internal: false, // API comments are always public
+        attachments,
       })
       .returning()
 
+    await clearPendingAttachments(data.attachment_ids)
+
+    if (data.customer_email) {
+      await notifyCustomerReply(
+        ticket,
+        data.customer_name || data.customer_email,
+        data.content
+      )
+    }
+
     // Mark first response time if this is the first comment
     if (!ticket.first_response_at) {
       await db
@@ -181,6 +218,7 @@ export async function POST(
 
     // Fetch the created comment with relations
     const createdComment = await db.query.ticketComments.findFirst({
+      columns: { search_vector: false },
       where: eq(ticketComments.id, comment!.id),
       with: {
         membership: {
@@ -205,7 +243,15 @@ export async function POST(
       },
     })
 
-    return NextResponse.json({ data: createdComment }, { status: 201 })
+    return NextResponse.json(
+      {
+        data: createdComment && {
+          ...createdComment,
+          attachments: toAttachmentViews(createdComment, "/api/v1/attachments"),
+        },
+      },
+      { status: 201 }
+    )
   } catch (error) {
     console.error("Error creating comment:", error)
     if (error instanceof z.ZodError) {
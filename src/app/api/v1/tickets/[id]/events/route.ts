@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "~/db"
+import { tickets } from "~/db/schema"
+import { eq, and } from "drizzle-orm"
+import { validateApiKey, hasPermission } from "~/lib/auth-api"
+import { getTicketEvents } from "~/lib/ticket-events"
+
+async function handleAuth(request: NextRequest) {
+  const authContext = await validateApiKey(request)
+  if (!authContext) {
+    return NextResponse.json(
+      { error: "Invalid or missing API key" },
+      { status: 401 }
+    )
+  }
+  return authContext
+}
+
+// GET /api/v1/tickets/[id]/events - Get ticket change history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const authContext = await handleAuth(request)
+  if (authContext instanceof NextResponse) return authContext
+
+  if (!hasPermission(authContext, "tickets:read")) {
+    return NextResponse.json(
+      { error: "Insufficient permissions" },
+      { status: 403 }
+    )
+  }
+
+  try {
+    // Verify ticket exists and belongs to company
+    const ticket = await db.query.tickets.findFirst({
+      where: and(
+        eq(tickets.id, params.id),
+        eq(tickets.company_id, authContext.company.id)
+      ),
+      columns: { id: true },
+    })
+
+    if (!ticket) {
+      return NextResponse.json({ error: "Ticket not found" }, { status: 404 })
+    }
+
+    const events = await getTicketEvents(ticket.id)
+
+    return NextResponse.json({ data: events })
+  } catch (error) {
+    console.error("Error fetching ticket events:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "~/db"
+import { ticketFollowers } from "~/db/schema"
+import { eq, and } from "drizzle-orm"
+import { validateApiKey, hasPermission } from "~/lib/auth-api"
+
+async function handleAuth(request: NextRequest) {
+  const authContext = await validateApiKey(request)
+  if (!authContext) {
+    return NextResponse.json(
+      { error: "Invalid or missing API key" },
+      { status: 401 }
+    )
+  }
+  return authContext
+}
+
+// DELETE /api/v1/tickets/[id]/followers/[followerId] - Remove a follower
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; followerId: string } }
+) {
+  const authContext = await handleAuth(request)
+  if (authContext instanceof NextResponse) return authContext
+
+  if (!hasPermission(authContext, "tickets:update")) {
+    return NextResponse.json(
+      { error: "Insufficient permissions" },
+      { status: 403 }
+    )
+  }
+
+  try {
+    const [removed] = await db
+      .delete(ticketFollowers)
+      .where(
+        and(
+          eq(ticketFollowers.id, params.followerId),
+          eq(ticketFollowers.ticket_id, params.id),
+          eq(ticketFollowers.company_id, authContext.company.id)
+        )
+      )
+      .returning({ id: ticketFollowers.id })
+
+    if (!removed) {
+      return NextResponse.json({ error: "Follower not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ data: { id: removed.id } })
+  } catch (error) {
+    console.error("Error removing ticket follower:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
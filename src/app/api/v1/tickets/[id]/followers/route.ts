@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { db } from "~/db"
+import { tickets } from "~/db/schema"
+import { eq, and } from "drizzle-orm"
+import { validateApiKey, hasPermission } from "~/lib/auth-api"
+import { addTicketFollowers, getTicketFollowers } from "~/lib/ticket-followers"
+
+const addFollowersSchema = z
+  .object({
+    membership_ids: z.array(z.string().uuid()).max(50).default([]),
+    contacts: z
+      .array(
+        z.object({
+          email: z.string().email("Invalid email").max(255),
+          name: z.string().max(255).optional(),
+        })
+      )
+      .max(50)
+      .default([]),
+  })
+  .refine(
+    (data) => data.membership_ids.length > 0 || data.contacts.length > 0,
+    { message: "Provide membership_ids or contacts" }
+  )
+
+async function handleAuth(request: NextRequest) {
+  const authContext = await validateApiKey(request)
+  if (!authContext) {
+    return NextResponse.json(
+      { error: "Invalid or missing API key" },
+      { status: 401 }
+    )
+  }
+  return authContext
+}
+
+// Unsubscribe tokens stay out of API responses
+async function listFollowers(ticketId: string) {
+  const followers = await getTicketFollowers(ticketId)
+  return followers.map((follower) => ({
+    id: follower.id,
+    membership_id: follower.membership_id,
+    email: follower.email ?? follower.membership?.user.email ?? null,
+    name:
+      follower.name ??
+      (follower.membership
+        ? `${follower.membership.user.first_name} ${follower.membership.user.last_name}`
+        : null),
+    type: follower.membership_id ? "member" : "contact",
+    muted: follower.muted,
+    created_at: follower.created_at,
+  }))
+}
+
+// GET /api/v1/tickets/[id]/followers - List ticket followers
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const authContext = await handleAuth(request)
+  if (authContext instanceof NextResponse) return authContext
+
+  if (!hasPermission(authContext, "tickets:read")) {
+    return NextResponse.json(
+      { error: "Insufficient permissions" },
+      { status: 403 }
+    )
+  }
+
+  try {
+    const ticket = await db.query.tickets.findFirst({
+      where: and(
+        eq(tickets.id, params.id),
+        eq(tickets.company_id, authContext.company.id)
+      ),
+      columns: { id: true },
+    })
+
+    if (!ticket) {
+      return NextResponse.json({ error: "Ticket not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ data: await listFollowers(ticket.id) })
+  } catch (error) {
+    console.error("Error fetching ticket followers:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/v1/tickets/[id]/followers - Add team members or contacts
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const authContext = await handleAuth(request)
+  if (authContext instanceof NextResponse) return authContext
+
+  if (!hasPermission(authContext, "tickets:update")) {
+    return NextResponse.json(
+      { error: "Insufficient permissions" },
+      { status: 403 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const data = addFollowersSchema.parse(body)
+
+    const ticket = await db.query.tickets.findFirst({
+      where: and(
+        eq(tickets.id, params.id),
+        eq(tickets.company_id, authContext.company.id)
+      ),
+    })
+
+    if (!ticket) {
+      return NextResponse.json({ error: "Ticket not found" }, { status: 404 })
+    }
+
+    await addTicketFollowers(ticket, {
+      membershipIds: data.membership_ids,
+      contacts: data.contacts,
+    })
+
+    return NextResponse.json(
+      { data: await listFollowers(ticket.id) },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error("Error adding ticket followers:", error)
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: error.errors },
+        { status: 400 }
+      )
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -4,13 +4,23 @@ import { db } from "~/db"
 import { tickets } from "~/db/schema"
 import { eq, and } from "drizzle-orm"
 import { validateApiKey, hasPermission } from "~/lib/auth-api"
+import { getSlaPolicyChange } from "~/lib/sla"
+import { recordTicketChanges } from "~/lib/ticket-events"
+import { toAttachmentViews } from "~/lib/attachments"
+import { notifyCustomerOfStatusChange } from "~/lib/customer-notifications"
+import { notifyTicketUpdate } from "~/lib/agent-notifications"
+import { resolveCustomFieldValues } from "~/lib/custom-fields"
+import { resolveTags } from "~/lib/tags"
 
 const updateTicketSchema = z.object({
   subject: z.string().min(1).optional(),
   description: z.string().optional(),
   status: z.enum(["open", "in_progress", "resolved", "closed"]).optional(),
   priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
+  client_id: z.string().uuid().nullable().optional(),
   tags: z.array(z.string()).optional(),
+  // Only the fields to change; null clears one
+  custom_fields: z.record(z.string(), z.unknown()).optional(),
 })
 
 async function handleAuth(request: NextRequest) {
@@ -45,6 +55,7 @@ export async function GET(
         eq(tickets.id, params.id),
         eq(tickets.company_id, authContext.company.id)
       ),
+      columns: { search_vector: false },
       with: {
         createdByMembership: {
           with: {
@@ -75,6 +86,7 @@ export async function GET(
         },
         slaPolicy: true,
         comments: {
+          columns: { search_vector: false },
           where: (ticketComments, { eq }) =>
             eq(ticketComments.is_internal, false), // Only public comments via API
           with: {
@@ -109,7 +121,15 @@ export async function GET(
       return NextResponse.json({ error: "Ticket not found" }, { status: 404 })
     }
 
-    return NextResponse.json({ data: ticket })
+    return NextResponse.json({
+      data: {
+        ...ticket,
+        comments: ticket.comments.map((comment) => ({
+          ...comment,
+          attachments: toAttachmentViews(comment, "/api/v1/attachments"),
+        })),
+      },
+    })
   } catch (error) {
     console.error("Error fetching ticket:", error)
     return NextResponse.json(
@@ -144,6 +164,7 @@ export async function PUT(
         eq(tickets.id, params.id),
         eq(tickets.company_id, authContext.company.id)
       ),
+      columns: { search_vector: false },
     })
 
     if (!existingTicket) {
@@ -163,20 +184,81 @@ export async function PUT(
       }
     }
     if (data.priority) updateData.priority = data.priority
-    if (data.tags) updateData.tags = data.tags
+    if (data.tags) {
+      const ticketTags = await resolveTags(authContext.company.id, data.tags)
+      if ("error" in ticketTags) {
+        return NextResponse.json({ error: ticketTags.error }, { status: 400 })
+      }
+      updateData.tags = ticketTags.tags
+    }
+    if (data.client_id !== undefined) {
+      if (data.client_id) {
+        const client = await db.query.clients.findFirst({
+          where: (clients, { and, eq }) =>
+            and(
+              eq(clients.id, data.client_id!),
+              eq(clients.company_id, authContext.company.id)
+            ),
+          columns: { id: true },
+        })
+
+        if (!client) {
+          return NextResponse.json(
+            { error: "Client not found" },
+            { status: 404 }
+          )
+        }
+      }
+
+      updateData.client_id = data.client_id
+    }
+    if (data.custom_fields) {
+      const customFields = await resolveCustomFieldValues(
+        {
+          companyId: authContext.company.id,
+          clientId:
+            data.client_id !== undefined
+              ? data.client_id
+              : existingTicket.client_id,
+          current: existingTicket.custom_fields,
+        },
+        data.custom_fields
+      )
+      if ("error" in customFields) {
+        return NextResponse.json({ error: customFields.error }, { status: 400 })
+      }
+      updateData.custom_fields = customFields.values
+    }
+
+    // A new priority or client may fall under a different SLA policy
+    Object.assign(
+      updateData,
+      await getSlaPolicyChange(existingTicket, {
+        clientId: data.client_id,
+        priority: data.priority,
+      })
+    )
 
     if (Object.keys(updateData).length > 0) {
       updateData.updated_at = new Date()
 
-      await db
+      const [updatedTicket] = await db
         .update(tickets)
         .set(updateData)
         .where(eq(tickets.id, params.id))
         .returning()
 
+      await recordTicketChanges(existingTicket, updatedTicket, {
+        type: "api_key",
+        apiKeyId: authContext.apiKey.id,
+      })
+      await notifyCustomerOfStatusChange(existingTicket, updatedTicket)
+      await notifyTicketUpdate(existingTicket, updatedTicket)
+
       // Fetch updated ticket with relations
       const ticket = await db.query.tickets.findFirst({
         where: eq(tickets.id, params.id),
+        columns: { search_vector: false },
         with: {
           createdByMembership: {
             with: {
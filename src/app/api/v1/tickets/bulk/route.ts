@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { validateApiKey, hasPermission } from "~/lib/auth-api"
+import { bulkUpdateTickets, MAX_BULK_TICKETS } from "~/lib/ticket-bulk-updates"
+
+const bulkUpdateSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1).max(MAX_BULK_TICKETS),
+  status: z.enum(["open", "in_progress", "resolved", "closed"]).optional(),
+  priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
+  // A team member's membership ID; null unassigns
+  assigned_to_id: z.string().uuid().nullable().optional(),
+  client_id: z.string().uuid().nullable().optional(),
+  add_tags: z.array(z.string()).optional(),
+  remove_tags: z.array(z.string()).optional(),
+  // Internal note added to each ticket
+  note: z.string().trim().min(1).optional(),
+})
+
+// PATCH /api/v1/tickets/bulk - Update many tickets at once
+export async function PATCH(request: NextRequest) {
+  const authContext = await validateApiKey(request)
+  if (!authContext) {
+    return NextResponse.json(
+      { error: "Invalid or missing API key" },
+      { status: 401 }
+    )
+  }
+
+  if (!hasPermission(authContext, "tickets:update")) {
+    return NextResponse.json(
+      { error: "Insufficient permissions" },
+      { status: 403 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const data = bulkUpdateSchema.parse(body)
+
+    const bulk = await bulkUpdateTickets(
+      {
+        companyId: authContext.company.id,
+        actor: { type: "api_key", apiKeyId: authContext.apiKey.id },
+        authorName: authContext.apiKey.name,
+      },
+      data.ids,
+      {
+        status: data.status,
+        priority: data.priority,
+        assignedToId: data.assigned_to_id,
+        clientId: data.client_id,
+        addTags: data.add_tags,
+        removeTags: data.remove_tags,
+        note: data.note,
+      }
+    )
+    if ("error" in bulk) {
+      return NextResponse.json({ error: bulk.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ data: bulk.results })
+  } catch (error) {
+    console.error("Error bulk updating tickets:", error)
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: error.errors },
+        { status: 400 }
+      )
+    }
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -2,8 +2,16 @@ import { NextRequest, NextResponse } from "next/server"
 import { z } from "zod"
 import { db } from "~/db"
 import { tickets } from "~/db/schema"
-import { eq, desc, and, or, ilike, count } from "drizzle-orm"
+import { eq, desc, and, count } from "drizzle-orm"
 import { validateApiKey, hasPermission } from "~/lib/auth-api"
+import { getTicketSlaFields } from "~/lib/sla"
+import { notifyCustomer } from "~/lib/customer-notifications"
+import {
+  getCustomFieldConditions,
+  resolveCustomFieldValues,
+} from "~/lib/custom-fields"
+import { getTagConditions, resolveTags } from "~/lib/tags"
+import { getTicketTextCondition } from "~/lib/search"
 
 // Validation schemas
 const createTicketSchema = z.object({
@@ -12,7 +20,9 @@ const createTicketSchema = z.object({
   priority: z.enum(["low", "medium", "high", "urgent"]).default("medium"),
   customer_email: z.string().email("Invalid email").optional(),
   customer_name: z.string().optional(),
+  client_id: z.string().uuid().optional(),
   tags: z.array(z.string()).default([]),
+  custom_fields: z.record(z.string(), z.unknown()).default({}),
 })
 
 const querySchema = z.object({
@@ -21,6 +31,12 @@ const querySchema = z.object({
   status: z.enum(["open", "in_progress", "resolved", "closed"]).optional(),
   priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
   search: z.string().optional(),
+  // Comma-separated
+  tags: z
+    .string()
+    .transform((tags) => tags.split(","))
+    .optional(),
+  tag_match: z.enum(["any", "all"]).default("any"),
 })
 
 async function handleAuth(request: NextRequest) {
@@ -54,10 +70,29 @@ export async function GET(request: NextRequest) {
       status: searchParams.get("status"),
       priority: searchParams.get("priority"),
       search: searchParams.get("search"),
+      tags: searchParams.get("tags") ?? undefined,
+      tag_match: searchParams.get("tag_match") ?? undefined,
     })
 
     const offset = (query.page - 1) * query.limit
 
+    // Custom fields are filtered as custom_fields[key]=value
+    const customFieldFilters: Record<string, string> = {}
+    searchParams.forEach((value, name) => {
+      const match = /^custom_fields\[(.+)\]$/.exec(name)
+      if (match) customFieldFilters[match[1]!] = value
+    })
+    const customFieldFilter = await getCustomFieldConditions(
+      authContext.company.id,
+      customFieldFilters
+    )
+    if ("error" in customFieldFilter) {
+      return NextResponse.json(
+        { error: customFieldFilter.error },
+        { status: 400 }
+      )
+    }
+
     // Build where conditions
     const whereConditions = [eq(tickets.company_id, authContext.company.id)]
 
@@ -70,11 +105,14 @@ export async function GET(request: NextRequest) {
     }
 
     if (query.search) {
+      whereConditions.push(getTicketTextCondition(query.search))
+    }
+
+    whereConditions.push(...customFieldFilter.conditions)
+
+    if (query.tags) {
       whereConditions.push(
-        or(
-          ilike(tickets.subject, `%${query.search}%`),
-          ilike(tickets.description, `%${query.search}%`)
-        )!
+        ...getTagConditions(tickets.tags, query.tags, query.tag_match)
       )
     }
 
@@ -87,6 +125,7 @@ export async function GET(request: NextRequest) {
     // Get tickets
     const ticketList = await db.query.tickets.findMany({
       where: and(...whereConditions),
+      columns: { search_vector: false },
       with: {
         createdByMembership: {
           with: {
@@ -161,13 +200,39 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const data = createTicketSchema.parse(body)
 
-    // Get default SLA policy
-    const defaultSLA = await db.query.slaPolicies.findFirst({
-      where: (slaPolicies, { and, eq }) =>
-        and(
-          eq(slaPolicies.company_id, authContext.company.id),
-          eq(slaPolicies.is_default, true)
-        ),
+    if (data.client_id) {
+      const client = await db.query.clients.findFirst({
+        where: (clients, { and, eq }) =>
+          and(
+            eq(clients.id, data.client_id!),
+            eq(clients.company_id, authContext.company.id)
+          ),
+        columns: { id: true },
+      })
+
+      if (!client) {
+        return NextResponse.json({ error: "Client not found" }, { status: 404 })
+      }
+    }
+
+    const customFields = await resolveCustomFieldValues(
+      { companyId: authContext.company.id, clientId: data.client_id },
+      data.custom_fields
+    )
+    if ("error" in customFields) {
+      return NextResponse.json({ error: customFields.error }, { status: 400 })
+    }
+
+    const ticketTags = await resolveTags(authContext.company.id, data.tags)
+    if ("error" in ticketTags) {
+      return NextResponse.json({ error: ticketTags.error }, { status: 400 })
+    }
+
+    // Pick the most specific SLA policy for the client and priority
+    const slaFields = await getTicketSlaFields({
+      companyId: authContext.company.id,
+      clientId: data.client_id,
+      priority: data.priority,
     })
 
     // Create ticket without assigned membership (external API created)
@@ -180,14 +245,19 @@ export async function POST(request: NextRequest) {
         priority: data.priority,
         customer_email: data.customer_email,
         customer_name: data.customer_name,
-        sla_policy_id: defaultSLA?.id,
-        tags: data.tags,
+        client_id: data.client_id,
+        ...slaFields,
+        tags: ticketTags.tags,
+        custom_fields: customFields.values,
       })
       .returning()
 
+    await notifyCustomer(ticket!.id, "ticket_created")
+
     // Fetch the created ticket with relations
     const createdTicket = await db.query.tickets.findFirst({
       where: eq(tickets.id, ticket!.id),
+      columns: { search_vector: false },
       with: {
         createdByMembership: {
           with: {
@@ -54,6 +54,14 @@ import {
 import { createClient } from "~/utils/supabase/client"
 import { Input } from "~/components/ui/input"
 import { toast } from "sonner"
+import AttachmentPicker from "~/components/tickets/attachment-picker"
+import CommentAttachments from "~/components/tickets/comment-attachments"
+import { useAttachmentUploads } from "~/components/hooks/use-attachment-uploads"
+import { useTicketPresence } from "~/components/hooks/use-ticket-presence"
+import TicketViewers from "~/components/tickets/ticket-viewers"
+import TicketEventItem, {
+  buildTicketTimeline,
+} from "~/components/tickets/ticket-event-item"
 
 // Component to render text with clickable links
 const TextWithLinks = ({ text }: { text: string }) => {
@@ -176,6 +184,7 @@ export default function CustomerPortalPage({ params }: PortalPageProps) {
   const [newCommentContent, setNewCommentContent] = useState("")
   const [editingCommentId, setEditingCommentId] = useState<string | null>(null)
   const [editCommentContent, setEditCommentContent] = useState("")
+  const [newFollowerEmail, setNewFollowerEmail] = useState("")
 
   // Verify session on mount
   const verifySession = api.customerPortal.verifyToken.useMutation({
@@ -247,6 +256,36 @@ export default function CustomerPortalPage({ params }: PortalPageProps) {
     void refetchTickets()
   }
 
+  // Live updates for this client's tickets from agents and other portal users
+  const utils = api.useUtils()
+  api.customerPortal.onTicketChange.useSubscription(
+    {
+      companySlug: params.companySlug,
+      clientSlug: params.clientSlug,
+    },
+    {
+      enabled: isAuthenticated,
+      onData: (event) => {
+        if (event.type === "presence.updated") {
+          void utils.customerPortal.getTicketViewers.invalidate()
+          return
+        }
+        if (event.type === "ticket.created") {
+          resetAndRefetchTickets()
+        } else {
+          void utils.customerPortal.getCustomerTickets.invalidate()
+        }
+        if (event.type.startsWith("ticket.")) {
+          void utils.customerPortal.getSLAMetrics.invalidate()
+        }
+        if (event.ticketId === ticketId) void refetchTicket()
+      },
+      onError: (error) => {
+        console.error("Live ticket updates stopped:", error.message)
+      },
+    }
+  )
+
   // Resolve ticket mutation
   const resolveTicket = api.customerPortal.resolveTicket.useMutation({
     onSuccess: () => {
@@ -313,6 +352,13 @@ export default function CustomerPortalPage({ params }: PortalPageProps) {
       }
     )
 
+  // Team members in the portal show up as viewers in the app's ticket dialog
+  const ticketPresence = useTicketPresence(
+    ticketId,
+    isAuthenticated && !!selectedTicket?.isTeamMember,
+    { companySlug: params.companySlug, clientSlug: params.clientSlug }
+  )
+
   // Get team members for assignment
   const { data: teamMembers } = api.customerPortal.getTeamMembers.useQuery(
     {
@@ -394,11 +440,15 @@ export default function CustomerPortalPage({ params }: PortalPageProps) {
       },
     })
 
+  const commentAttachments = useAttachmentUploads(ticketId ?? undefined)
+
   const addComment = api.customerPortal.addComment.useMutation({
     onSuccess: () => {
       void refetchTicket()
       resetAndRefetchTickets()
       setNewCommentContent("")
+      ticketPresence.stopTyping()
+      commentAttachments.reset()
       toast.success("Comment added successfully")
     },
     onError: (error) => {
@@ -419,6 +469,26 @@ export default function CustomerPortalPage({ params }: PortalPageProps) {
     },
   })
 
+  const addFollower = api.customerPortal.addFollower.useMutation({
+    onSuccess: () => {
+      void refetchTicket()
+      setNewFollowerEmail("")
+      toast.success("Added to CC")
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to add CC")
+    },
+  })
+
+  const removeFollower = api.customerPortal.removeFollower.useMutation({
+    onSuccess: () => {
+      void refetchTicket()
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to remove CC")
+    },
+  })
+
   // Modal handlers
   const handleCloseModal = () => {
     router.push(`/portal/${params.companySlug}/${params.clientSlug}`)
@@ -514,6 +584,7 @@ export default function CustomerPortalPage({ params }: PortalPageProps) {
       clientSlug: params.clientSlug,
       ticketId: selectedTicket.id,
       content: newCommentContent,
+      attachmentIds: commentAttachments.uploads.map((upload) => upload.id),
     })
   }
 
@@ -1266,6 +1337,7 @@ export default function CustomerPortalPage({ params }: PortalPageProps) {
                       )}
                   </div>
                 </div>
+                <TicketViewers viewers={ticketPresence.viewers} />
               </div>
             </DialogHeader>
 
@@ -1556,6 +1628,75 @@ export default function CustomerPortalPage({ params }: PortalPageProps) {
                 </div>
               )}
 
+              {/* CC */}
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">CC</h4>
+                <p className="text-xs text-muted-foreground">
+                  People copied here get the same email updates as the
+                  requester.
+                </p>
+                {selectedTicket.followers.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {selectedTicket.followers.map((follower) => (
+                      <Badge
+                        key={follower.id}
+                        variant="secondary"
+                        className="gap-1 font-normal"
+                      >
+                        {follower.name
+                          ? `${follower.name} <${follower.email}>`
+                          : follower.email}
+                        <button
+                          type="button"
+                          aria-label={`Remove ${follower.email}`}
+                          className="ml-1 rounded-full hover:text-foreground"
+                          disabled={removeFollower.isPending}
+                          onClick={() =>
+                            removeFollower.mutate({
+                              companySlug: params.companySlug,
+                              clientSlug: params.clientSlug,
+                              ticketId: selectedTicket.id,
+                              followerId: follower.id,
+                            })
+                          }
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault()
+                    if (!newFollowerEmail.trim()) return
+                    addFollower.mutate({
+                      companySlug: params.companySlug,
+                      clientSlug: params.clientSlug,
+                      ticketId: selectedTicket.id,
+                      email: newFollowerEmail.trim(),
+                    })
+                  }}
+                >
+                  <Input
+                    type="email"
+                    value={newFollowerEmail}
+                    onChange={(e) => setNewFollowerEmail(e.target.value)}
+                    placeholder="colleague@example.com"
+                    className="h-8 text-sm"
+                  />
+                  <Button
+                    type="submit"
+                    size="sm"
+                    variant="outline"
+                    disabled={!newFollowerEmail.trim() || addFollower.isPending}
+                  >
+                    Add
+                  </Button>
+                </form>
+              </div>
+
               {/* Comments Section */}
               <div className="space-y-3">
                 <h4 className="text-sm font-medium">
@@ -1572,7 +1713,17 @@ export default function CustomerPortalPage({ params }: PortalPageProps) {
                 {selectedTicket.comments &&
                 selectedTicket.comments.length > 0 ? (
                   <div className="space-y-3">
-                    {selectedTicket.comments.map((comment: any) => {
+                    {buildTicketTimeline(
+                      selectedTicket.comments as any[],
+                      selectedTicket.events ?? []
+                    ).map((entry) => {
+                      if (entry.kind === "event") {
+                        return (
+                          <TicketEventItem key={entry.id} event={entry.event} />
+                        )
+                      }
+
+                      const comment = entry.comment
                       const isCustomer = !!comment.customerPortalAccess
                       const customerName = comment.customerPortalAccess?.name
                       const customerEmail = comment.customerPortalAccess?.email
@@ -1679,6 +1830,9 @@ export default function CustomerPortalPage({ params }: PortalPageProps) {
                                 <TextWithLinks text={comment.content} />
                               </p>
                             )}
+                            <CommentAttachments
+                              attachments={comment.attachments}
+                            />
                           </div>
                         </div>
                       )
@@ -1695,16 +1849,22 @@ export default function CustomerPortalPage({ params }: PortalPageProps) {
                   <Textarea
                     placeholder="Add a comment..."
                     value={newCommentContent}
-                    onChange={(e) => setNewCommentContent(e.target.value)}
+                    onChange={(e) => {
+                      setNewCommentContent(e.target.value)
+                      ticketPresence.notifyTyping()
+                    }}
                     rows={3}
                     className="resize-none"
                   />
-                  <div className="flex justify-end">
+                  <div className="flex items-center justify-between gap-2">
+                    <AttachmentPicker attachments={commentAttachments} />
                     <Button
                       type="submit"
                       size="sm"
                       disabled={
-                        !newCommentContent.trim() || addComment.isPending
+                        !newCommentContent.trim() ||
+                        addComment.isPending ||
+                        commentAttachments.isUploading
                       }
                     >
                       <MessageCircle className="mr-2 h-4 w-4" />
@@ -0,0 +1,107 @@
+"use client"
+
+import { useParams } from "next/navigation"
+import { BellOff, Bell, Loader2 } from "lucide-react"
+import { Button } from "~/components/ui/button"
+import { Avatar, AvatarFallback, AvatarImage } from "~/components/ui/avatar"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card"
+import { api } from "~/trpc/react"
+import { toast } from "sonner"
+
+export default function UnsubscribePage() {
+  const params = useParams()
+  const token = params?.token as string
+
+  const utils = api.useUtils()
+  const { data, isLoading, error } =
+    api.customerPortal.getTicketSubscription.useQuery(
+      { token },
+      { enabled: !!token, retry: false }
+    )
+
+  const setSubscription = api.customerPortal.setTicketSubscription.useMutation({
+    onSuccess: () => {
+      utils.customerPortal.getTicketSubscription.invalidate({ token })
+    },
+    onError: (error) => {
+      toast.error(error.message)
+    },
+  })
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (error || !data) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Link not valid</CardTitle>
+            <CardDescription>
+              This unsubscribe link doesn&apos;t match any ticket.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <Card
+        className="w-full max-w-md border-t-4"
+        style={{ borderTopColor: data.company.primary_color ?? undefined }}
+      >
+        <CardHeader>
+          <div className="mb-2 flex items-center gap-2">
+            <Avatar className="h-8 w-8">
+              <AvatarImage src={data.company.logo_url || undefined} />
+              <AvatarFallback className="text-xs">
+                {data.company.name.charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <span className="text-sm font-semibold text-muted-foreground">
+              {data.company.name}
+            </span>
+          </div>
+          <CardTitle className="flex items-center gap-2">
+            {data.muted ? (
+              <BellOff className="h-5 w-5" />
+            ) : (
+              <Bell className="h-5 w-5" />
+            )}
+            {data.muted ? "You're unsubscribed" : "Ticket emails"}
+          </CardTitle>
+          <CardDescription>
+            {data.muted
+              ? `You won't get emails about "${data.subject}" anymore.`
+              : `You get emails when "${data.subject}" is updated.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button
+            className="w-full"
+            variant={data.muted ? "outline" : "default"}
+            disabled={setSubscription.isPending}
+            onClick={() =>
+              setSubscription.mutate({ token, muted: !data.muted })
+            }
+          >
+            {data.muted ? "Resubscribe" : "Unsubscribe from this ticket"}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
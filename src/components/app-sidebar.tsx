@@ -11,6 +11,8 @@ import {
   MoreHorizontal,
   Key,
   BookOpen,
+  Inbox,
+  ListFilter,
 } from "lucide-react"
 
 import { Avatar, AvatarFallback, AvatarImage } from "~/components/ui/avatar"
@@ -35,6 +37,7 @@ import {
   SidebarGroupLabel,
   SidebarHeader,
   SidebarMenu,
+  SidebarMenuBadge,
   SidebarMenuButton,
   SidebarMenuItem,
   SidebarMenuSub,
@@ -46,6 +49,7 @@ import { createClient } from "~/utils/supabase/client"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
 import { CompanySwitcher } from "~/components/company-switcher"
+import { api } from "~/trpc/react"
 
 const supabase = createClient()
 
@@ -71,6 +75,14 @@ const data = {
           title: "My Tickets",
           url: "/tickets?filter=my",
         },
+        {
+          title: "Mentions",
+          url: "/tickets?filter=mentions",
+        },
+        {
+          title: "Quarantine",
+          url: "/tickets/quarantine",
+        },
       ],
     },
     {
@@ -116,6 +128,39 @@ const data = {
   ],
 }
 
+// Saved ticket views with how many tickets each currently matches
+function TicketQueues() {
+  const { data: views } = api.ticketViews.getAll.useQuery()
+  const { data: counts } = api.ticketViews.getCounts.useQuery()
+
+  if (!views?.length) return null
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupLabel>Queues</SidebarGroupLabel>
+      <SidebarMenu>
+        {views.map((view) => (
+          <SidebarMenuItem key={view.id}>
+            <SidebarMenuButton tooltip={view.name} size="sm" asChild>
+              <Link href={`/tickets?view=${view.id}` as any}>
+                {view.is_shared ? (
+                  <Inbox className="h-4 w-4" />
+                ) : (
+                  <ListFilter className="h-4 w-4" />
+                )}
+                <span>{view.name}</span>
+              </Link>
+            </SidebarMenuButton>
+            {counts?.[view.id] != null && (
+              <SidebarMenuBadge>{counts[view.id]}</SidebarMenuBadge>
+            )}
+          </SidebarMenuItem>
+        ))}
+      </SidebarMenu>
+    </SidebarGroup>
+  )
+}
+
 interface AppSidebarProps extends React.ComponentProps<typeof Sidebar> {
   user?: {
     first_name: string
@@ -205,6 +250,7 @@ export function AppSidebar({ user, ...props }: AppSidebarProps) {
             ))}
           </SidebarMenu>
         </SidebarGroup>
+        <TicketQueues />
       </SidebarContent>
       <SidebarFooter>
         <SidebarMenu>
@@ -0,0 +1,58 @@
+import * as React from "react"
+
+export interface UploadedAttachment {
+  id: string
+  filename: string
+  content_type: string
+  size: number
+}
+
+// Uploads files for a ticket comment ahead of sending it
+export function useAttachmentUploads(ticketId: string | undefined) {
+  const [uploads, setUploads] = React.useState<UploadedAttachment[]>([])
+  const [isUploading, setIsUploading] = React.useState(false)
+
+  const upload = React.useCallback(
+    async (files: FileList | File[]) => {
+      if (!ticketId) return
+      setIsUploading(true)
+      const errors: string[] = []
+
+      try {
+        for (const file of Array.from(files)) {
+          const formData = new FormData()
+          formData.append("ticketId", ticketId)
+          formData.append("file", file)
+
+          const response = await fetch("/api/attachments", {
+            method: "POST",
+            body: formData,
+          })
+          const result = (await response.json().catch(() => ({}))) as {
+            data?: UploadedAttachment
+            error?: string
+          }
+
+          if (response.ok && result.data) {
+            setUploads((current) => [...current, result.data!])
+          } else {
+            errors.push(result.error ?? `Failed to upload ${file.name}`)
+          }
+        }
+      } finally {
+        setIsUploading(false)
+      }
+
+      return errors
+    },
+    [ticketId]
+  )
+
+  const remove = React.useCallback((id: string) => {
+    setUploads((current) => current.filter((upload) => upload.id !== id))
+  }, [])
+
+  const reset = React.useCallback(() => setUploads([]), [])
+
+  return { uploads, isUploading, upload, remove, reset }
+}
@@ -0,0 +1,41 @@
+import { api } from "~/trpc/react"
+
+/**
+ * Refreshes cached ticket queries when a ticket or comment changes anywhere
+ * in the company, whether through the app, the portal, the API or email.
+ */
+export function useLiveTicketUpdates(enabled: boolean) {
+  const utils = api.useUtils()
+
+  api.realtime.onTicketChange.useSubscription(
+    {},
+    {
+      enabled,
+      // Also fires after a reconnect, so changes made while offline show up
+      onStarted: () => {
+        void utils.ticket.invalidate()
+        void utils.ticketViews.getCounts.invalidate()
+        void utils.dashboard.invalidate()
+      },
+      onData: (event) => {
+        if (event.type === "presence.updated") {
+          void utils.realtime.getViewers.invalidate({
+            ticketId: event.ticketId,
+          })
+          return
+        }
+        void utils.ticket.getAll.invalidate()
+        void utils.ticket.getById.invalidate({ id: event.ticketId })
+        // Queue counts; a new internal note can change who it mentions
+        void utils.ticketViews.getCounts.invalidate()
+        if (event.type.startsWith("ticket.")) {
+          void utils.ticket.getMetrics.invalidate()
+          void utils.dashboard.invalidate()
+        }
+      },
+      onError: (error) => {
+        console.error("Live ticket updates stopped:", error.message)
+      },
+    }
+  )
+}
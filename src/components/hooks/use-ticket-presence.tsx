@@ -0,0 +1,117 @@
+import * as React from "react"
+import { api } from "~/trpc/react"
+
+// Viewers that miss a few heartbeats drop off the server's list
+const HEARTBEAT_INTERVAL = 15_000
+// A reply stops counting as being typed after this long without a keystroke
+const TYPING_IDLE_TIMEOUT = 5_000
+
+interface PortalScope {
+  companySlug: string
+  clientSlug: string
+}
+
+/**
+ * Tells other team members that the current one has a ticket open, and
+ * whether they're typing a reply, for as long as `enabled` is set. Returns
+ * everyone else viewing it; pass `portal` when the ticket is open in the
+ * customer portal rather than the app.
+ */
+export function useTicketPresence(
+  ticketId: string | null | undefined,
+  enabled: boolean,
+  portal?: PortalScope
+) {
+  const active = enabled && !!ticketId
+  const companySlug = portal?.companySlug
+  const clientSlug = portal?.clientSlug
+  const [isTyping, setIsTyping] = React.useState(false)
+  const typingTimeout = React.useRef<ReturnType<typeof setTimeout>>()
+
+  const { mutate: touchAppPresence } = api.realtime.touchPresence.useMutation()
+  const { mutate: leaveAppTicket } = api.realtime.leaveTicket.useMutation()
+  const { mutate: touchPortalPresence } =
+    api.customerPortal.touchPresence.useMutation()
+  const { mutate: leavePortalTicket } =
+    api.customerPortal.leaveTicket.useMutation()
+
+  // Refetched on presence events too, see the live update subscriptions
+  const appViewers = api.realtime.getViewers.useQuery(
+    { ticketId: ticketId ?? "" },
+    { enabled: active && !portal, refetchInterval: HEARTBEAT_INTERVAL }
+  )
+  const portalViewers = api.customerPortal.getTicketViewers.useQuery(
+    {
+      companySlug: companySlug ?? "",
+      clientSlug: clientSlug ?? "",
+      ticketId: ticketId ?? "",
+    },
+    { enabled: active && !!portal, refetchInterval: HEARTBEAT_INTERVAL }
+  )
+
+  // Sent right away whenever typing starts or stops, then on every interval
+  React.useEffect(() => {
+    if (!active || !ticketId) return
+
+    const touch = () => {
+      if (companySlug && clientSlug) {
+        touchPortalPresence({ companySlug, clientSlug, ticketId, isTyping })
+      } else {
+        touchAppPresence({ ticketId, isTyping })
+      }
+    }
+    touch()
+    const interval = setInterval(touch, HEARTBEAT_INTERVAL)
+    return () => clearInterval(interval)
+  }, [
+    active,
+    ticketId,
+    companySlug,
+    clientSlug,
+    isTyping,
+    touchAppPresence,
+    touchPortalPresence,
+  ])
+
+  React.useEffect(() => {
+    if (!active || !ticketId) return
+
+    return () => {
+      clearTimeout(typingTimeout.current)
+      setIsTyping(false)
+      if (companySlug && clientSlug) {
+        leavePortalTicket({ companySlug, clientSlug, ticketId })
+      } else {
+        leaveAppTicket({ ticketId })
+      }
+    }
+  }, [
+    active,
+    ticketId,
+    companySlug,
+    clientSlug,
+    leaveAppTicket,
+    leavePortalTicket,
+  ])
+
+  // Call on every change to the reply being written
+  const notifyTyping = React.useCallback(() => {
+    setIsTyping(true)
+    clearTimeout(typingTimeout.current)
+    typingTimeout.current = setTimeout(
+      () => setIsTyping(false),
+      TYPING_IDLE_TIMEOUT
+    )
+  }, [])
+
+  const stopTyping = React.useCallback(() => {
+    clearTimeout(typingTimeout.current)
+    setIsTyping(false)
+  }, [])
+
+  return {
+    viewers: (portal ? portalViewers.data : appViewers.data) ?? [],
+    notifyTyping,
+    stopTyping,
+  }
+}
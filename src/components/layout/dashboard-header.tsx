@@ -1,5 +1,7 @@
 import { ReactNode } from "react"
 import { SidebarTrigger } from "~/components/ui/sidebar"
+import { NotificationBell } from "~/components/layout/notification-bell"
+import { GlobalSearch } from "~/components/layout/global-search"
 import {
   Breadcrumb,
   BreadcrumbItem,
@@ -66,6 +68,11 @@ export function DashboardHeader({
       </Breadcrumb>
 
       {children}
+
+      <div className="ml-auto flex items-center gap-2">
+        <GlobalSearch />
+        <NotificationBell />
+      </div>
     </header>
   )
 }
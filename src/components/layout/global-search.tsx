@@ -0,0 +1,41 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { Search } from "lucide-react"
+import { Input } from "~/components/ui/input"
+
+// Search box for tickets, articles and form submissions; results open on
+// the search page
+export function GlobalSearch() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const [value, setValue] = useState("")
+
+  // Keep the box in step with the search page's query
+  useEffect(() => {
+    if (pathname === "/search") setValue(searchParams?.get("q") ?? "")
+  }, [pathname, searchParams])
+
+  return (
+    <form
+      role="search"
+      onSubmit={(e) => {
+        e.preventDefault()
+        const query = value.trim()
+        if (query) router.push(`/search?q=${encodeURIComponent(query)}`)
+      }}
+      className="relative hidden w-64 md:block"
+    >
+      <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 transform text-gray-400" />
+      <Input
+        type="search"
+        placeholder="Search everything..."
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        className="h-9 pl-9"
+      />
+    </form>
+  )
+}
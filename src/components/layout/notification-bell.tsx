@@ -0,0 +1,167 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import {
+  AlertTriangle,
+  AtSign,
+  Bell,
+  BookOpen,
+  CheckCheck,
+  ClipboardList,
+  Clock,
+  KeyRound,
+  MessageSquare,
+  Ticket,
+  UserPlus,
+} from "lucide-react"
+import { Button } from "~/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "~/components/ui/dropdown-menu"
+import { api } from "~/trpc/react"
+import { cn, formatRelativeTime } from "~/lib/utils"
+
+const TYPE_ICONS: Record<string, typeof Bell> = {
+  assignment: UserPlus,
+  customer_reply: MessageSquare,
+  sla_warning: Clock,
+  mention: AtSign,
+  ticket_updated: Ticket,
+  escalation: AlertTriangle,
+  form_submission: ClipboardList,
+  portal_access_request: KeyRound,
+  article_updated: BookOpen,
+}
+
+// Polled until there is a push channel for new notifications
+const UNREAD_POLL_INTERVAL = 60_000
+
+export function NotificationBell() {
+  const router = useRouter()
+  const utils = api.useUtils()
+
+  const { data: unreadCount = 0 } = api.notifications.getUnreadCount.useQuery(
+    undefined,
+    { refetchInterval: UNREAD_POLL_INTERVAL }
+  )
+  const { data, isLoading } = api.notifications.getAll.useQuery({ limit: 20 })
+
+  const invalidate = () => {
+    void utils.notifications.getUnreadCount.invalidate()
+    void utils.notifications.getAll.invalidate()
+  }
+
+  const markRead = api.notifications.markRead.useMutation({
+    onSuccess: invalidate,
+  })
+  const markAllRead = api.notifications.markAllRead.useMutation({
+    onSuccess: invalidate,
+  })
+
+  const notifications = data?.notifications ?? []
+
+  return (
+    <DropdownMenu
+      onOpenChange={(open) => {
+        if (open) void utils.notifications.getAll.invalidate()
+      }}
+    >
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          aria-label={
+            unreadCount > 0
+              ? `Notifications (${unreadCount} unread)`
+              : "Notifications"
+          }
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-semibold text-white">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between px-3 py-2">
+          <DropdownMenuLabel className="p-0">Notifications</DropdownMenuLabel>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={unreadCount === 0 || markAllRead.isPending}
+            onClick={(e) => {
+              e.preventDefault()
+              markAllRead.mutate()
+            }}
+          >
+            <CheckCheck className="mr-1 h-3 w-3" />
+            Mark all read
+          </Button>
+        </div>
+        <DropdownMenuSeparator className="m-0" />
+        <div className="max-h-96 overflow-y-auto">
+          {isLoading ? (
+            <div className="py-8 text-center text-sm text-muted-foreground">
+              Loading...
+            </div>
+          ) : notifications.length === 0 ? (
+            <div className="py-8 text-center text-sm text-muted-foreground">
+              You&apos;re all caught up
+            </div>
+          ) : (
+            notifications.map((notification) => {
+              const Icon = TYPE_ICONS[notification.type] ?? Bell
+              const unread = !notification.read_at
+
+              return (
+                <DropdownMenuItem
+                  key={notification.id}
+                  className={cn(
+                    "flex cursor-pointer items-start gap-3 rounded-none px-3 py-2",
+                    unread && "bg-blue-50/60"
+                  )}
+                  onSelect={() => {
+                    if (unread) markRead.mutate({ ids: [notification.id] })
+                    if (notification.link) router.push(notification.link)
+                  }}
+                >
+                  <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1 space-y-0.5">
+                    <p
+                      className={cn(
+                        "line-clamp-2 text-sm",
+                        unread && "font-medium"
+                      )}
+                    >
+                      {notification.title}
+                    </p>
+                    {notification.body && (
+                      <p className="line-clamp-2 text-xs text-muted-foreground">
+                        {notification.body}
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {formatRelativeTime(notification.created_at)}
+                    </p>
+                  </div>
+                  {unread && (
+                    <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-blue-500" />
+                  )}
+                </DropdownMenuItem>
+              )
+            })
+          )}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
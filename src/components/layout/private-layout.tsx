@@ -8,6 +8,7 @@ import { SidebarProvider, SidebarInset } from "~/components/ui/sidebar"
 import { api } from "~/trpc/react"
 import { Loader } from "lucide-react"
 import { useCompany } from "~/contexts/company-context"
+import { useLiveTicketUpdates } from "~/components/hooks/use-live-ticket-updates"
 
 const supabase = createClient()
 
@@ -63,6 +64,8 @@ export default function PrivateLayout({ children }: PrivateLayoutProps) {
     }
   }, [router])
 
+  useLiveTicketUpdates(!!profile && !!currentCompanyId)
+
   useEffect(() => {
     if (authUser && !isProfileLoading) {
       if (!profile) {
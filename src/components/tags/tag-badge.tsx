@@ -0,0 +1,35 @@
+"use client"
+
+import { type ReactNode } from "react"
+import { Badge } from "~/components/ui/badge"
+import { cn } from "~/lib/utils"
+
+interface TagBadgeProps {
+  name: string
+  // Catalog color; tags outside the catalog are shown plain
+  color?: string | null
+  className?: string
+  children?: ReactNode
+}
+
+export default function TagBadge({
+  name,
+  color,
+  className,
+  children,
+}: TagBadgeProps) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn("text-xs font-medium", className)}
+      style={
+        color
+          ? { color, borderColor: color, backgroundColor: `${color}1a` }
+          : undefined
+      }
+    >
+      {name}
+      {children}
+    </Badge>
+  )
+}
@@ -0,0 +1,188 @@
+"use client"
+
+import { useState } from "react"
+import { X } from "lucide-react"
+import { Input } from "~/components/ui/input"
+import TagBadge from "~/components/tags/tag-badge"
+import { api } from "~/trpc/react"
+import { cn } from "~/lib/utils"
+
+const MAX_SUGGESTIONS = 8
+
+interface TagPickerProps {
+  value: string[]
+  onChange: (tags: string[]) => void
+  disabled?: boolean
+  placeholder?: string
+}
+
+/**
+ * Tag input that suggests tags from the company catalog. New tags can be
+ * typed in unless the catalog is locked; they join the catalog on save.
+ */
+export default function TagPicker({
+  value,
+  onChange,
+  disabled,
+  placeholder = "Add a tag...",
+}: TagPickerProps) {
+  const { data } = api.tags.getAll.useQuery(undefined, {
+    staleTime: 60_000,
+  })
+  const [query, setQuery] = useState("")
+  const [open, setOpen] = useState(false)
+  // -1 until a suggestion is picked with the arrow keys
+  const [highlighted, setHighlighted] = useState(-1)
+
+  const catalog = data?.tags ?? []
+  const locked = data?.locked ?? false
+  const selected = new Set(value.map((tag) => tag.toLowerCase()))
+  const trimmed = query.trim()
+
+  const suggestions = catalog
+    .filter(
+      (tag) =>
+        !selected.has(tag.name.toLowerCase()) &&
+        tag.name.toLowerCase().includes(trimmed.toLowerCase())
+    )
+    .slice(0, MAX_SUGGESTIONS)
+  const exactMatch = catalog.find(
+    (tag) => tag.name.toLowerCase() === trimmed.toLowerCase()
+  )
+  const canCreate =
+    !locked &&
+    trimmed !== "" &&
+    !exactMatch &&
+    !selected.has(trimmed.toLowerCase())
+  const showSuggestions = open && (suggestions.length > 0 || canCreate)
+
+  const getColor = (name: string) =>
+    catalog.find((tag) => tag.name.toLowerCase() === name.toLowerCase())?.color
+
+  const addTag = (name: string) => {
+    if (!selected.has(name.toLowerCase())) onChange([...value, name])
+    setQuery("")
+    setHighlighted(-1)
+  }
+
+  const removeTag = (name: string) =>
+    onChange(value.filter((tag) => tag !== name))
+
+  // Enter takes the highlighted suggestion, then the catalog tag typed in,
+  // then a new tag; a locked catalog falls back to the first suggestion
+  const commit = () => {
+    const suggestion =
+      suggestions[highlighted] ??
+      exactMatch ??
+      (locked && trimmed ? suggestions[0] : undefined)
+    if (suggestion) {
+      addTag(suggestion.name)
+    } else if (canCreate) {
+      addTag(trimmed)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Input
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setHighlighted(-1)
+            setOpen(true)
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={(e) => {
+            if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+              e.preventDefault()
+              setOpen(true)
+              if (suggestions.length === 0) return
+              const step = e.key === "ArrowDown" ? 1 : -1
+              setHighlighted((index) =>
+                index === -1 && step === -1
+                  ? suggestions.length - 1
+                  : (index + step + suggestions.length) % suggestions.length
+              )
+            } else if (e.key === "Enter" || e.key === ",") {
+              e.preventDefault()
+              commit()
+            } else if (e.key === "Escape") {
+              setOpen(false)
+            } else if (e.key === "Backspace" && query === "" && value.length) {
+              removeTag(value[value.length - 1]!)
+            }
+          }}
+          placeholder={
+            locked ? "Choose a tag from the catalog..." : placeholder
+          }
+          disabled={disabled}
+        />
+        {showSuggestions && (
+          <ul
+            role="listbox"
+            className="absolute left-0 top-full z-50 mt-1 max-h-64 w-full overflow-auto rounded-md border bg-popover py-1 text-sm shadow-md"
+          >
+            {suggestions.map((tag, index) => (
+              <li
+                key={tag.id}
+                role="option"
+                aria-selected={index === highlighted}
+                className={cn(
+                  "flex cursor-pointer items-center gap-2 px-3 py-1.5",
+                  index === highlighted && "bg-accent text-accent-foreground"
+                )}
+                onMouseDown={(e) => {
+                  // Keep focus in the input
+                  e.preventDefault()
+                  addTag(tag.name)
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+              >
+                <span
+                  className="h-2.5 w-2.5 shrink-0 rounded-full"
+                  style={{ backgroundColor: tag.color }}
+                />
+                <span className="truncate">{tag.name}</span>
+              </li>
+            ))}
+            {canCreate && (
+              <li
+                className="cursor-pointer px-3 py-1.5 text-muted-foreground hover:bg-accent"
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  addTag(trimmed)
+                }}
+              >
+                Create &quot;{trimmed}&quot;
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+      {locked && trimmed !== "" && !exactMatch && suggestions.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          Tags are limited to the catalog. Ask an admin to add new ones.
+        </p>
+      )}
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((tag) => (
+            <TagBadge key={tag} name={tag} color={getColor(tag)}>
+              {!disabled && (
+                <button
+                  type="button"
+                  onClick={() => removeTag(tag)}
+                  className="ml-1 hover:text-red-500"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </TagBadge>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,223 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Bell, Moon, Save } from "lucide-react"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card"
+import { Button } from "~/components/ui/button"
+import { Input } from "~/components/ui/input"
+import { Label } from "~/components/ui/label"
+import { Switch } from "~/components/ui/switch"
+import { api } from "~/trpc/react"
+import { toast } from "sonner"
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  resolveNotificationPreferences,
+  type AgentNotificationEvent,
+  type NotificationChannels,
+  type NotificationPreferences,
+} from "~/lib/notification-preferences"
+
+const AGENT_EVENTS: {
+  value: AgentNotificationEvent
+  label: string
+  description: string
+}[] = [
+  {
+    value: "assignment",
+    label: "Assigned to me",
+    description: "A ticket is assigned to this member by someone else",
+  },
+  {
+    value: "customer_reply",
+    label: "Customer replied",
+    description: "A customer replies on a ticket assigned to this member",
+  },
+  {
+    value: "sla_warning",
+    label: "SLA deadline approaching",
+    description: "An assigned ticket is due within the hour",
+  },
+  {
+    value: "mention",
+    label: "Mentioned",
+    description: "Someone mentions this member in an internal note",
+  },
+]
+
+interface NotificationPreferencesCardProps {
+  membershipId: string
+  preferences: unknown
+}
+
+export function NotificationPreferencesCard({
+  membershipId,
+  preferences: storedPreferences,
+}: NotificationPreferencesCardProps) {
+  const utils = api.useUtils()
+  const [preferences, setPreferences] = useState<NotificationPreferences>(
+    DEFAULT_NOTIFICATION_PREFERENCES
+  )
+
+  useEffect(() => {
+    const resolved = resolveNotificationPreferences(storedPreferences)
+    // Members who never saved get their browser's timezone for quiet hours
+    if (!(storedPreferences as Partial<NotificationPreferences>)?.quiet_hours) {
+      resolved.quiet_hours.timezone =
+        Intl.DateTimeFormat().resolvedOptions().timeZone
+    }
+    setPreferences(resolved)
+  }, [storedPreferences])
+
+  const updatePreferences = api.user.updateNotificationPreferences.useMutation({
+    onSuccess: () => {
+      toast.success("Notification preferences saved")
+      utils.user.getById.invalidate({ id: membershipId })
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to save notification preferences")
+    },
+  })
+
+  const setChannel = (
+    event: AgentNotificationEvent,
+    channel: keyof NotificationChannels,
+    enabled: boolean
+  ) => {
+    setPreferences((current) => ({
+      ...current,
+      events: {
+        ...current.events,
+        [event]: { ...current.events[event], [channel]: enabled },
+      },
+    }))
+  }
+
+  const setQuietHours = (
+    changes: Partial<NotificationPreferences["quiet_hours"]>
+  ) => {
+    setPreferences((current) => ({
+      ...current,
+      quiet_hours: { ...current.quiet_hours, ...changes },
+    }))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          Notifications
+        </CardTitle>
+        <CardDescription>
+          Choose how this member hears about ticket activity.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          <div className="grid grid-cols-[1fr_auto_auto] items-center gap-x-6 text-sm font-medium text-muted-foreground">
+            <span>Event</span>
+            <span>Email</span>
+            <span>In-app</span>
+          </div>
+          {AGENT_EVENTS.map((event) => (
+            <div
+              key={event.value}
+              className="grid grid-cols-[1fr_auto_auto] items-center gap-x-6"
+            >
+              <div className="space-y-0.5">
+                <Label>{event.label}</Label>
+                <p className="text-sm text-muted-foreground">
+                  {event.description}
+                </p>
+              </div>
+              <Switch
+                aria-label={`${event.label} by email`}
+                checked={preferences.events[event.value].email}
+                onCheckedChange={(checked) =>
+                  setChannel(event.value, "email", checked)
+                }
+              />
+              <Switch
+                aria-label={`${event.label} in app`}
+                checked={preferences.events[event.value].in_app}
+                onCheckedChange={(checked) =>
+                  setChannel(event.value, "in_app", checked)
+                }
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-4 border-t pt-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="quietHours" className="flex items-center gap-2">
+                <Moon className="h-4 w-4" />
+                Quiet hours
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                No notification emails during these hours. In-app notifications
+                still arrive.
+              </p>
+            </div>
+            <Switch
+              id="quietHours"
+              checked={preferences.quiet_hours.enabled}
+              onCheckedChange={(enabled) => setQuietHours({ enabled })}
+            />
+          </div>
+
+          {preferences.quiet_hours.enabled && (
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="quietStart">From</Label>
+                <Input
+                  id="quietStart"
+                  type="time"
+                  value={preferences.quiet_hours.start}
+                  onChange={(e) => setQuietHours({ start: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quietEnd">Until</Label>
+                <Input
+                  id="quietEnd"
+                  type="time"
+                  value={preferences.quiet_hours.end}
+                  onChange={(e) => setQuietHours({ end: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quietTimezone">Timezone</Label>
+                <Input
+                  id="quietTimezone"
+                  value={preferences.quiet_hours.timezone}
+                  onChange={(e) => setQuietHours({ timezone: e.target.value })}
+                  placeholder="e.g. Europe/Berlin"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={() =>
+              updatePreferences.mutate({ id: membershipId, preferences })
+            }
+            disabled={updatePreferences.isPending}
+          >
+            <Save className="mr-2 h-4 w-4" />
+            {updatePreferences.isPending ? "Saving..." : "Save Preferences"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,69 @@
+"use client"
+
+import { useRef } from "react"
+import { Loader2, Paperclip, X } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "~/components/ui/button"
+import { type useAttachmentUploads } from "~/components/hooks/use-attachment-uploads"
+import { formatFileSize } from "~/lib/utils"
+
+// File button and list of uploaded files for a comment form
+export default function AttachmentPicker({
+  attachments,
+}: {
+  attachments: ReturnType<typeof useAttachmentUploads>
+}) {
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return
+    const errors = await attachments.upload(files)
+    errors?.forEach((error) => toast.error(error))
+    if (inputRef.current) inputRef.current.value = ""
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={(e) => handleFiles(e.target.files)}
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={attachments.isUploading}
+      >
+        {attachments.isUploading ? (
+          <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+        ) : (
+          <Paperclip className="mr-1 h-4 w-4" />
+        )}
+        Attach
+      </Button>
+      {attachments.uploads.map((upload) => (
+        <span
+          key={upload.id}
+          className="flex max-w-xs items-center gap-1.5 rounded-md border px-2 py-1 text-xs"
+        >
+          <span className="truncate">{upload.filename}</span>
+          <span className="shrink-0 text-muted-foreground">
+            {formatFileSize(upload.size)}
+          </span>
+          <button
+            type="button"
+            onClick={() => attachments.remove(upload.id)}
+            className="hover:text-destructive"
+            aria-label={`Remove ${upload.filename}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,274 @@
+"use client"
+
+import { useState } from "react"
+import { CheckCircle, StickyNote, Tags, X } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "~/components/ui/button"
+import { Label } from "~/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select"
+import TagPicker from "~/components/tags/tag-picker"
+import MentionTextarea from "~/components/tickets/mention-textarea"
+import { api, type RouterInputs } from "~/trpc/react"
+
+type BulkChanges = Omit<RouterInputs["ticket"]["bulkUpdate"], "ids">
+
+// Select items can't have an empty value
+const NONE = "none"
+
+interface BulkTicketActionsProps {
+  ticketIds: string[]
+  members: { id: string; name: string }[]
+  clients: { id: string; name: string }[]
+  onClear: () => void
+  onUpdated: () => void
+}
+
+// Toolbar for changing every selected ticket at once
+export default function BulkTicketActions({
+  ticketIds,
+  members,
+  clients,
+  onClear,
+  onUpdated,
+}: BulkTicketActionsProps) {
+  const [tagsDialogOpen, setTagsDialogOpen] = useState(false)
+  const [addTags, setAddTags] = useState<string[]>([])
+  const [removeTags, setRemoveTags] = useState<string[]>([])
+  const [noteDialogOpen, setNoteDialogOpen] = useState(false)
+  const [note, setNote] = useState("")
+
+  const bulkUpdate = api.ticket.bulkUpdate.useMutation({
+    onSuccess: ({ results }) => {
+      const updated = results.filter((item) => item.result === "updated").length
+      const missing = results.filter(
+        (item) => item.result === "not_found"
+      ).length
+      toast.success(
+        `Updated ${updated} of ${results.length} tickets${missing ? ` (${missing} no longer exist)` : ""}`
+      )
+      setTagsDialogOpen(false)
+      setAddTags([])
+      setRemoveTags([])
+      setNoteDialogOpen(false)
+      setNote("")
+      onUpdated()
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update tickets")
+    },
+  })
+
+  const apply = (changes: BulkChanges) => {
+    bulkUpdate.mutate({ ids: ticketIds, ...changes })
+  }
+
+  const count = ticketIds.length
+  const isUpdating = bulkUpdate.isLoading
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-gray-50 p-3">
+      <span className="text-sm font-medium">
+        {count} ticket{count === 1 ? "" : "s"} selected
+      </span>
+
+      <Select
+        value=""
+        onValueChange={(value) =>
+          apply({ status: value as BulkChanges["status"] })
+        }
+        disabled={isUpdating}
+      >
+        <SelectTrigger className="h-8 w-36">
+          <SelectValue placeholder="Set status" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="open">Open</SelectItem>
+          <SelectItem value="in_progress">In Progress</SelectItem>
+          <SelectItem value="resolved">Resolved</SelectItem>
+          <SelectItem value="closed">Closed</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Select
+        value=""
+        onValueChange={(value) =>
+          apply({ priority: value as BulkChanges["priority"] })
+        }
+        disabled={isUpdating}
+      >
+        <SelectTrigger className="h-8 w-36">
+          <SelectValue placeholder="Set priority" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="low">Low</SelectItem>
+          <SelectItem value="medium">Medium</SelectItem>
+          <SelectItem value="high">High</SelectItem>
+          <SelectItem value="urgent">Urgent</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Select
+        value=""
+        onValueChange={(value) =>
+          apply({ assignedToId: value === NONE ? null : value })
+        }
+        disabled={isUpdating}
+      >
+        <SelectTrigger className="h-8 w-40">
+          <SelectValue placeholder="Assign to" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>Unassigned</SelectItem>
+          {members.map((member) => (
+            <SelectItem key={member.id} value={member.id}>
+              {member.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value=""
+        onValueChange={(value) =>
+          apply({ clientId: value === NONE ? null : value })
+        }
+        disabled={isUpdating}
+      >
+        <SelectTrigger className="h-8 w-40">
+          <SelectValue placeholder="Move to client" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>No client</SelectItem>
+          {clients.map((client) => (
+            <SelectItem key={client.id} value={client.id}>
+              {client.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setTagsDialogOpen(true)}
+        disabled={isUpdating}
+      >
+        <Tags className="mr-2 h-4 w-4" />
+        Tags
+      </Button>
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setNoteDialogOpen(true)}
+        disabled={isUpdating}
+      >
+        <StickyNote className="mr-2 h-4 w-4" />
+        Add Note
+      </Button>
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => {
+          if (confirm(`Close ${count} ticket${count === 1 ? "" : "s"}?`)) {
+            apply({ status: "closed" })
+          }
+        }}
+        disabled={isUpdating}
+      >
+        <CheckCircle className="mr-2 h-4 w-4" />
+        Close
+      </Button>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onClear}
+        className="ml-auto"
+        title="Clear selection"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={tagsDialogOpen} onOpenChange={setTagsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Change tags</DialogTitle>
+            <DialogDescription>
+              Other tags on the {count} selected tickets are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Add</Label>
+              <TagPicker value={addTags} onChange={setAddTags} />
+            </div>
+            <div className="space-y-2">
+              <Label>Remove</Label>
+              <TagPicker value={removeTags} onChange={setRemoveTags} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTagsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => apply({ addTags, removeTags })}
+              disabled={
+                isUpdating || (addTags.length === 0 && removeTags.length === 0)
+              }
+            >
+              Update Tags
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={noteDialogOpen} onOpenChange={setNoteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add internal note</DialogTitle>
+            <DialogDescription>
+              The note is added to each of the {count} selected tickets and is
+              only visible to your team.
+            </DialogDescription>
+          </DialogHeader>
+          <MentionTextarea
+            value={note}
+            onChange={setNote}
+            members={members}
+            mentionsEnabled
+            rows={4}
+            placeholder="Type @ to mention a teammate"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNoteDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => apply({ note })}
+              disabled={isUpdating || !note.trim()}
+            >
+              Add Note
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
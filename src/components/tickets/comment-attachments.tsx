@@ -0,0 +1,40 @@
+"use client"
+
+import { Paperclip } from "lucide-react"
+import { formatFileSize } from "~/lib/utils"
+
+export interface CommentAttachmentItem {
+  id: string
+  filename: string
+  size: number
+  url: string
+}
+
+export default function CommentAttachments({
+  attachments,
+}: {
+  attachments: CommentAttachmentItem[]
+}) {
+  if (attachments.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap gap-2 pt-1">
+      {attachments.map((attachment) => (
+        <a
+          key={attachment.id}
+          href={attachment.url}
+          download={attachment.filename}
+          className="flex max-w-xs items-center gap-1.5 rounded-md border px-2 py-1 text-xs hover:bg-muted"
+        >
+          <Paperclip className="h-3 w-3 shrink-0" />
+          <span className="truncate">{attachment.filename}</span>
+          {attachment.size > 0 && (
+            <span className="shrink-0 text-muted-foreground">
+              {formatFileSize(attachment.size)}
+            </span>
+          )}
+        </a>
+      ))}
+    </div>
+  )
+}
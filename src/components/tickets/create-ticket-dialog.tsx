@@ -20,6 +20,8 @@ import {
   SelectValue,
 } from "~/components/ui/select"
 import { api } from "~/trpc/react"
+import CustomFieldInputs from "~/components/tickets/custom-field-inputs"
+import TagPicker from "~/components/tags/tag-picker"
 
 type AssigneeType = "team" | "customer"
 
@@ -73,6 +75,10 @@ export default function CreateTicketDialog({
   const [clientId, setClientId] = useState<string>("none")
   const [customerEmail, setCustomerEmail] = useState("")
   const [customerName, setCustomerName] = useState("")
+  const [customFieldValues, setCustomFieldValues] = useState<
+    Record<string, unknown>
+  >({})
+  const [tags, setTags] = useState<string[]>([])
 
   // Merge agents and customer accesses into unified assignee list
   const unifiedAssignees = useMemo<UnifiedAssignee[]>(() => {
@@ -104,6 +110,20 @@ export default function CreateTicketDialog({
     limit: 50,
   })
 
+  // Picking a client can add fields of its own
+  const { data: customFields = [] } = api.customFields.getForClient.useQuery(
+    { clientId: clientId === "none" ? null : clientId },
+    { enabled: open }
+  )
+  const members = useMemo(
+    () =>
+      agents.map((agent) => ({
+        id: agent.id,
+        name: `${agent.user.first_name} ${agent.user.last_name}`,
+      })),
+    [agents]
+  )
+
   const resetForm = () => {
     setSubject("")
     setDescription("")
@@ -112,6 +132,8 @@ export default function CreateTicketDialog({
     setClientId("none")
     setCustomerEmail("")
     setCustomerName("")
+    setCustomFieldValues({})
+    setTags([])
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -136,6 +158,15 @@ export default function CreateTicketDialog({
       }
     }
 
+    // Leave out blanks and fields of a previously selected client
+    const customFieldInput: Record<string, unknown> = {}
+    for (const field of customFields) {
+      const value = customFieldValues[field.key]
+      if (value !== undefined && value !== null) {
+        customFieldInput[field.key] = value
+      }
+    }
+
     await createTicket.mutateAsync({
       subject: subject.trim(),
       description: description.trim(),
@@ -145,13 +176,15 @@ export default function CreateTicketDialog({
       clientId: clientId === "none" ? undefined : clientId,
       customerEmail: customerEmail || undefined,
       customerName: customerName || undefined,
+      tags,
+      customFields: customFieldInput,
     })
   }
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogTrigger asChild>{children}</DialogTrigger>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Create New Ticket</DialogTitle>
         </DialogHeader>
@@ -298,6 +331,23 @@ export default function CreateTicketDialog({
             </div>
           </div>
 
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Tags</label>
+            <TagPicker
+              value={tags}
+              onChange={setTags}
+              disabled={createTicket.isLoading}
+            />
+          </div>
+
+          <CustomFieldInputs
+            fields={customFields}
+            values={customFieldValues}
+            onChange={setCustomFieldValues}
+            members={members}
+            disabled={createTicket.isLoading}
+          />
+
           {createTicket.error && (
             <div className="text-sm text-red-600">
               {createTicket.error.message}
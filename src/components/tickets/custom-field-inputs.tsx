@@ -0,0 +1,207 @@
+"use client"
+
+import { Input } from "~/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select"
+import {
+  getFieldOptions,
+  type CustomFieldDefinition,
+} from "~/lib/custom-field-types"
+
+// Select items can't have an empty value
+const NO_VALUE = "__none"
+
+interface CustomFieldInputsProps {
+  fields: (CustomFieldDefinition & { id: string; description: string | null })[]
+  values: Record<string, unknown>
+  onChange: (values: Record<string, unknown>) => void
+  members: { id: string; name: string }[]
+  disabled?: boolean
+  // Picking values to filter tickets by: one option of a multi-select, and
+  // "any" for checkboxes
+  forFilters?: boolean
+}
+
+// One input per custom field; blank fields are set to null
+export default function CustomFieldInputs({
+  fields,
+  values,
+  onChange,
+  members,
+  disabled,
+  forFilters,
+}: CustomFieldInputsProps) {
+  if (fields.length === 0) return null
+
+  const setValue = (key: string, value: unknown) =>
+    onChange({ ...values, [key]: value })
+
+  return (
+    <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+      {fields.map((field) => {
+        const id = `custom-field-${field.id}`
+        const value = values[field.key]
+
+        const type =
+          forFilters && field.type === "multi_select" ? "dropdown" : field.type
+
+        let input: React.ReactNode
+        switch (type) {
+          case "number":
+            input = (
+              <Input
+                id={id}
+                type="number"
+                value={typeof value === "number" ? String(value) : ""}
+                onChange={(e) =>
+                  setValue(
+                    field.key,
+                    e.target.value === "" ? null : Number(e.target.value)
+                  )
+                }
+                disabled={disabled}
+              />
+            )
+            break
+          case "date":
+            input = (
+              <Input
+                id={id}
+                type="date"
+                value={typeof value === "string" ? value : ""}
+                onChange={(e) => setValue(field.key, e.target.value || null)}
+                disabled={disabled}
+              />
+            )
+            break
+          case "dropdown":
+          case "user":
+            input = (
+              <Select
+                value={typeof value === "string" ? value : NO_VALUE}
+                onValueChange={(selected) =>
+                  setValue(field.key, selected === NO_VALUE ? null : selected)
+                }
+                disabled={disabled}
+              >
+                <SelectTrigger id={id}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_VALUE}>
+                    {forFilters ? "Any" : "None"}
+                  </SelectItem>
+                  {field.type === "user"
+                    ? members.map((member) => (
+                        <SelectItem key={member.id} value={member.id}>
+                          {member.name}
+                        </SelectItem>
+                      ))
+                    : getFieldOptions(field).map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {option}
+                        </SelectItem>
+                      ))}
+                </SelectContent>
+              </Select>
+            )
+            break
+          case "multi_select": {
+            const selected = Array.isArray(value) ? (value as string[]) : []
+            input = (
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {getFieldOptions(field).map((option) => (
+                  <label
+                    key={option}
+                    className="flex items-center space-x-2 text-sm"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(option)}
+                      onChange={(e) =>
+                        setValue(
+                          field.key,
+                          e.target.checked
+                            ? [...selected, option]
+                            : selected.filter((item) => item !== option)
+                        )
+                      }
+                      disabled={disabled}
+                      className="rounded"
+                    />
+                    <span>{option}</span>
+                  </label>
+                ))}
+              </div>
+            )
+            break
+          }
+          case "checkbox":
+            input = forFilters ? (
+              <Select
+                value={typeof value === "boolean" ? String(value) : NO_VALUE}
+                onValueChange={(selected) =>
+                  setValue(
+                    field.key,
+                    selected === NO_VALUE ? null : selected === "true"
+                  )
+                }
+                disabled={disabled}
+              >
+                <SelectTrigger id={id}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_VALUE}>Any</SelectItem>
+                  <SelectItem value="true">Yes</SelectItem>
+                  <SelectItem value="false">No</SelectItem>
+                </SelectContent>
+              </Select>
+            ) : (
+              <label className="flex items-center space-x-2 text-sm">
+                <input
+                  id={id}
+                  type="checkbox"
+                  checked={value === true}
+                  onChange={(e) => setValue(field.key, e.target.checked)}
+                  disabled={disabled}
+                  className="rounded"
+                />
+                <span>Yes</span>
+              </label>
+            )
+            break
+          default:
+            input = (
+              <Input
+                id={id}
+                value={typeof value === "string" ? value : ""}
+                onChange={(e) => setValue(field.key, e.target.value)}
+                disabled={disabled}
+              />
+            )
+        }
+
+        return (
+          <div key={field.id} className="space-y-2">
+            <label htmlFor={id} className="text-sm font-medium">
+              {field.label}
+              {field.is_required && !forFilters && " *"}
+            </label>
+            {input}
+            {field.description && (
+              <p className="text-xs text-muted-foreground">
+                {field.description}
+              </p>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Textarea, type TextareaProps } from "~/components/ui/textarea"
+import { cn } from "~/lib/utils"
+import {
+  getActiveMention,
+  insertMention,
+  type MentionCandidate,
+} from "~/lib/mentions"
+
+const MAX_SUGGESTIONS = 6
+
+interface MentionTextareaProps
+  extends Omit<TextareaProps, "value" | "onChange"> {
+  value: string
+  onChange: (value: string) => void
+  members: MentionCandidate[]
+  // Off for customer-visible comments
+  mentionsEnabled: boolean
+}
+
+// Textarea that suggests team members after "@"
+export default function MentionTextarea({
+  value,
+  onChange,
+  members,
+  mentionsEnabled,
+  onKeyDown,
+  ...props
+}: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [caret, setCaret] = useState(0)
+  const [highlighted, setHighlighted] = useState(0)
+  const [dismissed, setDismissed] = useState(false)
+
+  const activeMention = mentionsEnabled ? getActiveMention(value, caret) : null
+  const suggestions = activeMention
+    ? members
+        .filter((member) =>
+          member.name.toLowerCase().includes(activeMention.query.toLowerCase())
+        )
+        .slice(0, MAX_SUGGESTIONS)
+    : []
+  const showSuggestions = !dismissed && suggestions.length > 0
+
+  const selectMember = (member: MentionCandidate) => {
+    if (!activeMention) return
+    const result = insertMention(value, activeMention, member.name)
+    onChange(result.text)
+    setCaret(result.caret)
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(result.caret, result.caret)
+    })
+  }
+
+  return (
+    <div className="relative">
+      <Textarea
+        {...props}
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value)
+          setCaret(e.target.selectionStart)
+          setHighlighted(0)
+          setDismissed(false)
+        }}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+        onKeyDown={(e) => {
+          if (showSuggestions) {
+            if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+              e.preventDefault()
+              const step = e.key === "ArrowDown" ? 1 : -1
+              setHighlighted(
+                (index) =>
+                  (index + step + suggestions.length) % suggestions.length
+              )
+              return
+            }
+            if (e.key === "Enter" || e.key === "Tab") {
+              e.preventDefault()
+              selectMember(suggestions[highlighted] ?? suggestions[0]!)
+              return
+            }
+            if (e.key === "Escape") {
+              e.preventDefault()
+              setDismissed(true)
+              return
+            }
+          }
+          onKeyDown?.(e)
+        }}
+      />
+      {showSuggestions && (
+        <ul
+          role="listbox"
+          className="absolute left-0 top-full z-50 mt-1 w-64 overflow-hidden rounded-md border bg-popover py-1 text-sm shadow-md"
+        >
+          {suggestions.map((member, index) => (
+            <li
+              key={member.id}
+              role="option"
+              aria-selected={index === highlighted}
+              className={cn(
+                "cursor-pointer px-3 py-1.5",
+                index === highlighted && "bg-accent text-accent-foreground"
+              )}
+              onMouseDown={(e) => {
+                // Keep focus in the textarea
+                e.preventDefault()
+                selectMember(member)
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+            >
+              @{member.name}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+"use client"
+
+import { useState } from "react"
+import { ChevronDown, ChevronRight } from "lucide-react"
+
+// Full imported email behind a toggle, for when the parsed reply cut too much
+export default function OriginalEmail({ content }: { content: string }) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  return (
+    <div className="pt-1">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+      >
+        {isOpen ? (
+          <ChevronDown className="h-3 w-3" />
+        ) : (
+          <ChevronRight className="h-3 w-3" />
+        )}
+        {isOpen ? "Hide original email" : "Show original email"}
+      </button>
+      {isOpen && (
+        <pre className="mt-2 max-h-96 overflow-auto whitespace-pre-wrap rounded bg-muted p-3 font-sans text-xs text-muted-foreground">
+          {content}
+        </pre>
+      )}
+    </div>
+  )
+}
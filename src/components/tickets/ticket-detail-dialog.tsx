@@ -21,6 +21,7 @@ import {
 } from "~/components/ui/select"
 import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card"
 import { api } from "~/trpc/react"
+import { toast } from "sonner"
 import {
   formatDateTime,
   getStatusColor,
@@ -29,6 +30,29 @@ import {
   parseTextForLinks,
 } from "~/lib/utils"
 import { Send, Edit, Save, Clock, User, FileText } from "lucide-react"
+import AttachmentPicker from "~/components/tickets/attachment-picker"
+import CommentAttachments from "~/components/tickets/comment-attachments"
+import OriginalEmail from "~/components/tickets/original-email"
+import MentionTextarea from "~/components/tickets/mention-textarea"
+import TicketFollowersCard from "~/components/tickets/ticket-followers-card"
+import TicketViewers from "~/components/tickets/ticket-viewers"
+import CustomFieldInputs from "~/components/tickets/custom-field-inputs"
+import { formatCustomFieldValue } from "~/lib/custom-field-types"
+import TagBadge from "~/components/tags/tag-badge"
+import TagPicker from "~/components/tags/tag-picker"
+import { findMentionedIds, splitMentions } from "~/lib/mentions"
+import { useAttachmentUploads } from "~/components/hooks/use-attachment-uploads"
+import { useTicketPresence } from "~/components/hooks/use-ticket-presence"
+import TicketEventItem, {
+  buildTicketTimeline,
+} from "~/components/tickets/ticket-event-item"
+
+const slaPolicyReasonLabels: Record<string, string> = {
+  client_priority: "Client policy for this priority",
+  client_default: "Client default policy",
+  company_priority: "Company policy for this priority",
+  company_default: "Company default policy",
+}
 
 type AssigneeType = "team" | "customer"
 
@@ -39,6 +63,18 @@ interface UnifiedAssignee {
   clientName?: string
 }
 
+function getCommentAuthorName(comment: {
+  membership?: {
+    user?: { first_name: string; last_name: string } | null
+  } | null
+  customerPortalAccess?: { name: string } | null
+}) {
+  if (comment.membership?.user) {
+    return `${comment.membership.user.first_name} ${comment.membership.user.last_name}`
+  }
+  return comment.customerPortalAccess?.name ?? "Customer"
+}
+
 interface TicketDetailDialogProps {
   ticketId: string
   open: boolean
@@ -83,8 +119,29 @@ export default function TicketDetailDialog({
     "low" | "medium" | "high" | "urgent"
   >("medium")
   const [editAssignedTo, setEditAssignedTo] = useState("unassigned")
+  const [editCustomFields, setEditCustomFields] = useState<
+    Record<string, unknown>
+  >({})
+  const [editTags, setEditTags] = useState<string[]>([])
   const [newComment, setNewComment] = useState("")
   const [isInternal, setIsInternal] = useState(false)
+  // Comments already on the ticket when it was opened, so replies posted by
+  // someone else in the meantime can be pointed out before sending
+  const [seenCommentIds, setSeenCommentIds] = useState<string[] | null>(null)
+  const [collisionWarning, setCollisionWarning] = useState<string | null>(null)
+  const presence = useTicketPresence(ticketId, open)
+
+  const mentionCandidates = useMemo(
+    () =>
+      agents.map((agent) => ({
+        id: agent.id,
+        name: `${agent.user.first_name} ${agent.user.last_name}`,
+      })),
+    [agents]
+  )
+  // The server rejects these too; warn before the customer could see them
+  const hasPublicMentions =
+    !isInternal && findMentionedIds(newComment, mentionCandidates).length > 0
 
   // Merge agents and customer accesses into unified assignee list
   const unifiedAssignees = useMemo<UnifiedAssignee[]>(() => {
@@ -107,30 +164,78 @@ export default function TicketDetailDialog({
   const {
     data: ticket,
     isLoading,
+    isFetching,
     refetch,
   } = api.ticket.getById.useQuery({ id: ticketId }, { enabled: open })
 
+  const { data: customFields = [] } = api.customFields.getForClient.useQuery(
+    { clientId: ticket?.client_id ?? null },
+    { enabled: open && !!ticket }
+  )
+  const storedCustomFields = (ticket?.custom_fields ?? {}) as Record<
+    string,
+    unknown
+  >
+  const ticketTags = Array.isArray(ticket?.tags)
+    ? (ticket.tags as string[])
+    : []
+  const { data: tagCatalog } = api.tags.getAll.useQuery(undefined, {
+    enabled: open,
+    staleTime: 60_000,
+  })
+
   const updateTicket = api.ticket.update.useMutation({
     onSuccess: () => {
       onTicketUpdated()
       refetch()
       setIsEditing(false)
     },
+    // Such as a required custom field left empty
+    onError: (error) => {
+      toast.error(error.message || "Failed to update ticket")
+    },
   })
 
+  const commentAttachments = useAttachmentUploads(ticketId)
+
   const addComment = api.ticket.addComment.useMutation({
-    onSuccess: () => {
+    onSuccess: (comment) => {
       setNewComment("")
+      setCollisionWarning(null)
+      presence.stopTyping()
+      commentAttachments.reset()
       refetch()
+      if (comment.emailError) {
+        toast.error(comment.emailError)
+      } else if (comment.gmail_message_id) {
+        toast.success("Reply emailed to the customer")
+      }
     },
   })
 
   useEffect(() => {
-    if (ticket) {
+    setSeenCommentIds(null)
+    setCollisionWarning(null)
+  }, [open, ticketId])
+
+  useEffect(() => {
+    // Wait for fresh data so earlier replies don't count as new ones
+    if (open && ticket && !isFetching && seenCommentIds === null) {
+      setSeenCommentIds(ticket.comments.map((comment) => comment.id))
+    }
+  }, [open, ticket, isFetching, seenCommentIds])
+
+  useEffect(() => {
+    // Live updates refetch the ticket; don't overwrite an edit in progress
+    if (ticket && !isEditing) {
       setEditSubject(ticket.subject)
       setEditDescription(ticket.description)
       setEditStatus(ticket.status)
       setEditPriority(ticket.priority)
+      setEditCustomFields(
+        (ticket.custom_fields ?? {}) as Record<string, unknown>
+      )
+      setEditTags(Array.isArray(ticket.tags) ? (ticket.tags as string[]) : [])
 
       // Set assignment value based on type
       if (ticket.assigned_to_membership_id) {
@@ -143,9 +248,9 @@ export default function TicketDetailDialog({
         setEditAssignedTo("unassigned")
       }
     }
-  }, [ticket])
+  }, [ticket, isEditing])
 
-  const handleSave = async () => {
+  const handleSave = () => {
     if (!ticket) return
 
     // Determine current assignment value
@@ -173,7 +278,19 @@ export default function TicketDetailDialog({
       }
     }
 
-    await updateTicket.mutateAsync({
+    // Only send the custom fields that were changed or cleared
+    const changedCustomFields: Record<string, unknown> = {}
+    for (const field of customFields) {
+      const value = editCustomFields[field.key] ?? null
+      if (
+        JSON.stringify(value) !==
+        JSON.stringify(storedCustomFields[field.key] ?? null)
+      ) {
+        changedCustomFields[field.key] = value
+      }
+    }
+
+    updateTicket.mutate({
       id: ticket.id,
       subject: editSubject !== ticket.subject ? editSubject : undefined,
       description:
@@ -182,17 +299,41 @@ export default function TicketDetailDialog({
       priority: editPriority !== ticket.priority ? editPriority : undefined,
       assignedToId,
       assignedToCustomerPortalAccessId,
+      customFields:
+        Object.keys(changedCustomFields).length > 0
+          ? changedCustomFields
+          : undefined,
+      tags:
+        JSON.stringify(editTags) !== JSON.stringify(ticketTags)
+          ? editTags
+          : undefined,
     })
   }
 
   const handleAddComment = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!newComment.trim()) return
+    if (!newComment.trim() || !ticket) return
+
+    const unseenComments = ticket.comments.filter(
+      (comment) =>
+        seenCommentIds !== null &&
+        !seenCommentIds.includes(comment.id) &&
+        comment.membership_id !== ticket.viewerMembershipId
+    )
+    if (unseenComments.length > 0) {
+      // Sending again after the warning posts the reply as written
+      setSeenCommentIds(ticket.comments.map((comment) => comment.id))
+      setCollisionWarning(
+        `${Array.from(new Set(unseenComments.map(getCommentAuthorName))).join(", ")} replied since you opened this ticket. Check the new ${unseenComments.length === 1 ? "comment" : "comments"}, then press Send again to post yours.`
+      )
+      return
+    }
 
     await addComment.mutateAsync({
-      ticketId: ticket!.id,
+      ticketId: ticket.id,
       content: newComment.trim(),
       isInternal,
+      attachmentIds: commentAttachments.uploads.map((upload) => upload.id),
     })
   }
 
@@ -238,6 +379,7 @@ export default function TicketDetailDialog({
               )}
             </div>
           </div>
+          <TicketViewers viewers={presence.viewers} />
         </DialogHeader>
 
         <div className="flex-1 overflow-y-auto">
@@ -293,6 +435,34 @@ export default function TicketDetailDialog({
                       </div>
                     )}
                   </div>
+
+                  {isEditing ? (
+                    <CustomFieldInputs
+                      fields={customFields}
+                      values={editCustomFields}
+                      onChange={setEditCustomFields}
+                      members={mentionCandidates}
+                    />
+                  ) : (
+                    customFields.length > 0 && (
+                      <dl className="grid grid-cols-1 gap-3 border-t pt-4 md:grid-cols-2">
+                        {customFields.map((field) => (
+                          <div key={field.id}>
+                            <dt className="text-xs font-medium text-muted-foreground">
+                              {field.label}
+                            </dt>
+                            <dd className="text-sm">
+                              {formatCustomFieldValue(
+                                field,
+                                storedCustomFields[field.key],
+                                mentionCandidates
+                              )}
+                            </dd>
+                          </div>
+                        ))}
+                      </dl>
+                    )
+                  )}
                 </CardContent>
               </Card>
 
@@ -387,63 +557,120 @@ export default function TicketDetailDialog({
                   <CardTitle>Comments</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  {ticket.comments?.map((comment) => (
-                    <div
-                      key={comment.id}
-                      className="flex space-x-3 rounded-lg border p-4"
-                    >
-                      <Avatar className="h-6 w-6">
-                        <AvatarImage
-                          src={
-                            comment.membership?.user?.avatar_url || undefined
-                          }
-                        />
-                        <AvatarFallback className="text-xs">
-                          {comment.membership?.user
-                            ? getInitials(
-                                `${comment.membership.user.first_name} ${comment.membership.user.last_name}`
-                              )
-                            : comment.customerPortalAccess
-                              ? getInitials(comment.customerPortalAccess.name)
-                              : "C"}
-                        </AvatarFallback>
-                      </Avatar>
-                      <div className="flex-1 space-y-1">
-                        <div className="flex items-center space-x-2">
-                          <span className="text-sm font-medium">
-                            {comment.membership?.user
-                              ? `${comment.membership.user.first_name} ${comment.membership.user.last_name}`
-                              : comment.customerPortalAccess
-                                ? comment.customerPortalAccess.name
-                                : "Customer"}
-                          </span>
-                          {comment.is_internal && (
-                            <Badge variant="secondary" className="text-xs">
-                              Internal
-                            </Badge>
-                          )}
-                          <span className="text-xs text-gray-500">
-                            {formatDateTime(comment.created_at)}
-                          </span>
+                  {buildTicketTimeline(ticket.comments, ticket.events).map(
+                    (entry) => {
+                      if (entry.kind === "event") {
+                        return (
+                          <TicketEventItem key={entry.id} event={entry.event} />
+                        )
+                      }
+
+                      const comment = entry.comment
+                      return (
+                        <div
+                          key={comment.id}
+                          className="flex space-x-3 rounded-lg border p-4"
+                        >
+                          <Avatar className="h-6 w-6">
+                            <AvatarImage
+                              src={
+                                comment.membership?.user?.avatar_url ||
+                                undefined
+                              }
+                            />
+                            <AvatarFallback className="text-xs">
+                              {comment.membership?.user
+                                ? getInitials(
+                                    `${comment.membership.user.first_name} ${comment.membership.user.last_name}`
+                                  )
+                                : comment.customerPortalAccess
+                                  ? getInitials(
+                                      comment.customerPortalAccess.name
+                                    )
+                                  : "C"}
+                            </AvatarFallback>
+                          </Avatar>
+                          <div className="flex-1 space-y-1">
+                            <div className="flex items-center space-x-2">
+                              <span className="text-sm font-medium">
+                                {getCommentAuthorName(comment)}
+                              </span>
+                              {comment.is_internal && (
+                                <Badge variant="secondary" className="text-xs">
+                                  Internal
+                                </Badge>
+                              )}
+                              <span className="text-xs text-gray-500">
+                                {formatDateTime(comment.created_at)}
+                              </span>
+                            </div>
+                            <p className="whitespace-pre-wrap text-sm">
+                              {splitMentions(
+                                comment.content,
+                                mentionCandidates
+                                  .filter((member) =>
+                                    (
+                                      comment.mentioned_membership_ids as string[]
+                                    ).includes(member.id)
+                                  )
+                                  .map((member) => member.name)
+                              ).map((part, index) =>
+                                part.mention ? (
+                                  <span
+                                    key={index}
+                                    className="rounded bg-blue-100 px-0.5 font-medium text-blue-800"
+                                  >
+                                    {part.text}
+                                  </span>
+                                ) : (
+                                  part.text
+                                )
+                              )}
+                            </p>
+                            {comment.raw_content && (
+                              <OriginalEmail content={comment.raw_content} />
+                            )}
+                            <CommentAttachments
+                              attachments={comment.attachments}
+                            />
+                          </div>
                         </div>
-                        <p className="whitespace-pre-wrap text-sm">
-                          {comment.content}
-                        </p>
-                      </div>
-                    </div>
-                  ))}
+                      )
+                    }
+                  )}
 
                   {/* Add Comment */}
                   <form
                     onSubmit={handleAddComment}
                     className="space-y-3 border-t pt-4"
                   >
-                    <Textarea
-                      placeholder="Add a comment..."
+                    <MentionTextarea
+                      placeholder={
+                        isInternal
+                          ? "Add an internal note... Type @ to mention a teammate"
+                          : "Add a comment..."
+                      }
                       value={newComment}
-                      onChange={(e) => setNewComment(e.target.value)}
+                      onChange={(value) => {
+                        setNewComment(value)
+                        presence.notifyTyping()
+                      }}
+                      members={mentionCandidates}
+                      mentionsEnabled={isInternal}
                       rows={3}
                     />
+                    {hasPublicMentions && (
+                      <p className="text-sm text-red-600">
+                        @mentions only work in internal notes. Remove them or
+                        mark this as an internal note.
+                      </p>
+                    )}
+                    {collisionWarning && (
+                      <p className="text-sm text-amber-600">
+                        {collisionWarning}
+                      </p>
+                    )}
+                    <AttachmentPicker attachments={commentAttachments} />
                     <div className="flex items-center justify-between">
                       <label className="flex items-center space-x-2">
                         <input
@@ -456,7 +683,12 @@ export default function TicketDetailDialog({
                       </label>
                       <Button
                         type="submit"
-                        disabled={!newComment.trim() || addComment.isLoading}
+                        disabled={
+                          !newComment.trim() ||
+                          hasPublicMentions ||
+                          addComment.isLoading ||
+                          commentAttachments.isUploading
+                        }
                         size="sm"
                       >
                         <Send className="mr-1 h-4 w-4" />
@@ -696,6 +928,43 @@ export default function TicketDetailDialog({
                 </CardContent>
               </Card>
 
+              {/* Tags */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm">Tags</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {isEditing ? (
+                    <TagPicker value={editTags} onChange={setEditTags} />
+                  ) : ticketTags.length > 0 ? (
+                    <div className="flex flex-wrap gap-1">
+                      {ticketTags.map((tag) => (
+                        <TagBadge
+                          key={tag}
+                          name={tag}
+                          color={
+                            tagCatalog?.tags.find(
+                              (entry) =>
+                                entry.name.toLowerCase() === tag.toLowerCase()
+                            )?.color
+                          }
+                        />
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No tags</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <TicketFollowersCard
+                ticketId={ticket.id}
+                followers={ticket.followers}
+                viewerFollowerId={ticket.viewerFollowerId}
+                agents={agents}
+                onChange={() => void refetch()}
+              />
+
               {/* Timestamps */}
               <Card>
                 <CardHeader>
@@ -728,6 +997,44 @@ export default function TicketDetailDialog({
                   )}
                 </CardContent>
               </Card>
+
+              {/* SLA */}
+              {ticket.slaPolicy && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-sm">SLA</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="text-sm font-medium">
+                      {ticket.slaPolicy.name}
+                    </div>
+                    {ticket.sla_policy_reason && (
+                      <p className="text-xs text-muted-foreground">
+                        {slaPolicyReasonLabels[ticket.sla_policy_reason] ??
+                          ticket.sla_policy_reason}
+                      </p>
+                    )}
+                    {ticket.sla_response_due_at && (
+                      <div className="flex items-center space-x-2 text-xs">
+                        <Clock className="h-3 w-3 text-gray-400" />
+                        <span className="text-gray-500">Response due:</span>
+                        <span>
+                          {formatDateTime(ticket.sla_response_due_at)}
+                        </span>
+                      </div>
+                    )}
+                    {ticket.sla_resolution_due_at && (
+                      <div className="flex items-center space-x-2 text-xs">
+                        <Clock className="h-3 w-3 text-gray-400" />
+                        <span className="text-gray-500">Resolution due:</span>
+                        <span>
+                          {formatDateTime(ticket.sla_resolution_due_at)}
+                        </span>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
             </div>
           </div>
         </div>
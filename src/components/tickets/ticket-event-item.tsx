@@ -0,0 +1,140 @@
+"use client"
+
+import { Badge } from "~/components/ui/badge"
+import {
+  formatRelativeTime,
+  getPriorityColor,
+  getStatusColor,
+} from "~/lib/utils"
+import { History } from "lucide-react"
+
+export interface TicketEventItemData {
+  id: string
+  field: string
+  from_value: unknown
+  to_value: unknown
+  actor: { type: string; name: string }
+  created_at: Date | string
+}
+
+// Chronological feed entry: a comment or a recorded ticket change
+export type TicketTimelineEntry<TComment> =
+  | {
+      kind: "comment"
+      id: string
+      created_at: Date | string
+      comment: TComment
+    }
+  | {
+      kind: "event"
+      id: string
+      created_at: Date | string
+      event: TicketEventItemData
+    }
+
+export function buildTicketTimeline<
+  TComment extends { id: string; created_at: Date | string },
+>(
+  comments: TComment[],
+  events: TicketEventItemData[]
+): TicketTimelineEntry<TComment>[] {
+  const entries: TicketTimelineEntry<TComment>[] = [
+    ...comments.map((comment) => ({
+      kind: "comment" as const,
+      id: comment.id,
+      created_at: comment.created_at,
+      comment,
+    })),
+    ...events.map((event) => ({
+      kind: "event" as const,
+      id: event.id,
+      created_at: event.created_at,
+      event,
+    })),
+  ]
+
+  return entries.sort(
+    (a, b) =>
+      new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  )
+}
+
+function formatLabel(value: string) {
+  return value.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase())
+}
+
+function renderValue(field: string, value: unknown) {
+  if (field === "status" && typeof value === "string") {
+    return (
+      <Badge className={getStatusColor(value as any)}>
+        {formatLabel(value)}
+      </Badge>
+    )
+  }
+
+  if (field === "priority" && typeof value === "string") {
+    return (
+      <Badge className={getPriorityColor(value as any)}>
+        {formatLabel(value)}
+      </Badge>
+    )
+  }
+
+  if (field === "assignee") {
+    const assignee = value as { name: string } | null
+    return <span className="font-medium">{assignee?.name ?? "Unassigned"}</span>
+  }
+
+  return <span className="font-medium">{String(value ?? "none")}</span>
+}
+
+function describeChange(event: TicketEventItemData) {
+  if (event.field === "tags") {
+    const before = (event.from_value as string[] | null) ?? []
+    const after = (event.to_value as string[] | null) ?? []
+    const added = after.filter((tag) => !before.includes(tag))
+    const removed = before.filter((tag) => !after.includes(tag))
+
+    return (
+      <>
+        {added.length > 0 && (
+          <>
+            added tags <span className="font-medium">{added.join(", ")}</span>
+          </>
+        )}
+        {added.length > 0 && removed.length > 0 && " and "}
+        {removed.length > 0 && (
+          <>
+            removed tags{" "}
+            <span className="font-medium">{removed.join(", ")}</span>
+          </>
+        )}
+        {added.length === 0 && removed.length === 0 && "reordered tags"}
+      </>
+    )
+  }
+
+  return (
+    <>
+      changed {event.field} from {renderValue(event.field, event.from_value)} to{" "}
+      {renderValue(event.field, event.to_value)}
+    </>
+  )
+}
+
+export default function TicketEventItem({
+  event,
+}: {
+  event: TicketEventItemData
+}) {
+  return (
+    <div className="flex items-center gap-2 px-1 text-xs text-muted-foreground">
+      <History className="h-3 w-3 shrink-0" />
+      <p className="flex flex-wrap items-center gap-1">
+        <span className="font-medium text-foreground">{event.actor.name}</span>
+        {describeChange(event)}
+        <span>• {formatRelativeTime(event.created_at)}</span>
+      </p>
+    </div>
+  )
+}
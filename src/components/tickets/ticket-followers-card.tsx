@@ -0,0 +1,192 @@
+"use client"
+
+import { useState } from "react"
+import { Bell, BellOff, Mail, Plus, X } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "~/components/ui/button"
+import { Input } from "~/components/ui/input"
+import { Badge } from "~/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select"
+import { api, type RouterOutputs } from "~/trpc/react"
+
+type Follower = RouterOutputs["ticket"]["getById"]["followers"][number]
+
+interface TicketFollowersCardProps {
+  ticketId: string
+  followers: Follower[]
+  viewerFollowerId: string | null
+  agents: Array<{
+    id: string
+    user: { first_name: string; last_name: string }
+  }>
+  onChange: () => void
+}
+
+function followerLabel(follower: Follower) {
+  if (follower.membership) {
+    const { first_name, last_name } = follower.membership.user
+    return `${first_name} ${last_name}`
+  }
+  return follower.name ? `${follower.name} <${follower.email}>` : follower.email
+}
+
+// Team members and CC contacts who get this ticket's notifications
+export default function TicketFollowersCard({
+  ticketId,
+  followers,
+  viewerFollowerId,
+  agents,
+  onChange,
+}: TicketFollowersCardProps) {
+  const [email, setEmail] = useState("")
+
+  const addFollower = api.ticket.addFollower.useMutation({
+    onSuccess: () => {
+      setEmail("")
+      onChange()
+    },
+    onError: (error) => toast.error(error.message),
+  })
+  const removeFollower = api.ticket.removeFollower.useMutation({
+    onSuccess: onChange,
+    onError: (error) => toast.error(error.message),
+  })
+
+  const followingIds = followers.map((follower) => follower.membership_id)
+  const availableAgents = agents.filter(
+    (agent) => !followingIds.includes(agent.id)
+  )
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-sm">Followers</CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          disabled={addFollower.isPending || removeFollower.isPending}
+          onClick={() =>
+            viewerFollowerId
+              ? removeFollower.mutate({
+                  ticketId,
+                  followerId: viewerFollowerId,
+                })
+              : addFollower.mutate({ ticketId })
+          }
+        >
+          {viewerFollowerId ? (
+            <>
+              <BellOff className="mr-1 h-3 w-3" />
+              Unfollow
+            </>
+          ) : (
+            <>
+              <Bell className="mr-1 h-3 w-3" />
+              Follow
+            </>
+          )}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {followers.length === 0 ? (
+          <p className="text-sm text-gray-500">No followers</p>
+        ) : (
+          <ul className="space-y-2">
+            {followers.map((follower) => (
+              <li
+                key={follower.id}
+                className="flex items-center justify-between gap-2 text-sm"
+              >
+                <div className="flex min-w-0 items-center gap-2">
+                  {!follower.membership && (
+                    <Mail className="h-3 w-3 shrink-0 text-gray-400" />
+                  )}
+                  <span className="truncate">{followerLabel(follower)}</span>
+                  {follower.membership ? (
+                    <Badge variant="secondary" className="text-xs">
+                      Team
+                    </Badge>
+                  ) : (
+                    follower.muted && (
+                      <Badge variant="outline" className="text-xs">
+                        Unsubscribed
+                      </Badge>
+                    )
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 shrink-0"
+                  aria-label="Remove follower"
+                  disabled={removeFollower.isPending}
+                  onClick={() =>
+                    removeFollower.mutate({ ticketId, followerId: follower.id })
+                  }
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {availableAgents.length > 0 && (
+          <Select
+            value=""
+            onValueChange={(membershipId) =>
+              addFollower.mutate({ ticketId, membershipId })
+            }
+          >
+            <SelectTrigger className="h-8 text-sm">
+              <SelectValue placeholder="Add team member" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableAgents.map((agent) => (
+                <SelectItem key={agent.id} value={agent.id}>
+                  {agent.user.first_name} {agent.user.last_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            if (email.trim()) {
+              addFollower.mutate({ ticketId, email: email.trim() })
+            }
+          }}
+        >
+          <Input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="CC email address"
+            className="h-8 text-sm"
+          />
+          <Button
+            type="submit"
+            variant="outline"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            aria-label="Add CC"
+            disabled={!email.trim() || addFollower.isPending}
+          >
+            <Plus className="h-3 w-3" />
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,475 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "~/components/ui/button"
+import { Input } from "~/components/ui/input"
+import { Label } from "~/components/ui/label"
+import { Switch } from "~/components/ui/switch"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select"
+import CustomFieldInputs from "~/components/tickets/custom-field-inputs"
+import TagPicker from "~/components/tags/tag-picker"
+import { api, type RouterOutputs } from "~/trpc/react"
+import { toast } from "sonner"
+import {
+  compactTicketFilters,
+  TICKET_PRIORITIES,
+  TICKET_SORT_FIELDS,
+  TICKET_SORT_LABELS,
+  TICKET_STATUSES,
+  type TicketFilters,
+  type TicketSortField,
+} from "~/lib/ticket-filter-types"
+
+export type TicketView = RouterOutputs["ticketViews"]["getAll"][number]
+
+export interface TicketListSettings {
+  filters: TicketFilters
+  sortBy: TicketSortField
+  sortOrder: "asc" | "desc"
+}
+
+// Select items can't have an empty value
+const ANY = "any"
+const UNASSIGNED = "unassigned"
+
+interface TicketViewDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // The list's current settings, which the dialog starts from
+  settings: TicketListSettings
+  // Set to edit a saved view instead of creating one
+  view?: TicketView | null
+  members: { id: string; name: string }[]
+  onApply: (settings: TicketListSettings) => void
+  onSaved: (view: { id: string }) => void
+}
+
+// Edits every ticket list criterion, then applies it or saves it as a view
+export default function TicketViewDialog({
+  open,
+  onOpenChange,
+  settings,
+  view,
+  members,
+  onApply,
+  onSaved,
+}: TicketViewDialogProps) {
+  const utils = api.useUtils()
+  const [name, setName] = useState("")
+  const [isShared, setIsShared] = useState(false)
+  const [filters, setFilters] = useState<TicketFilters>({})
+  const [sortBy, setSortBy] = useState<TicketSortField>("created_at")
+  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc")
+
+  useEffect(() => {
+    if (!open) return
+    setName(view?.name ?? "")
+    setIsShared(view?.is_shared ?? false)
+    setFilters(settings.filters)
+    setSortBy(settings.sortBy)
+    setSortOrder(settings.sortOrder)
+  }, [open, view, settings])
+
+  const { data: clients } = api.clients.getAll.useQuery(
+    { page: 1, limit: 50 },
+    { enabled: open }
+  )
+  const { data: customFields = [] } = api.customFields.getForClient.useQuery(
+    { clientId: filters.clientId ?? null },
+    { enabled: open }
+  )
+
+  const onMutationSuccess = (saved: { id: string }) => {
+    toast.success(view ? "View saved" : "View created")
+    void utils.ticketViews.invalidate()
+    onApply(getSettings())
+    onSaved(saved)
+    onOpenChange(false)
+  }
+  const createView = api.ticketViews.create.useMutation({
+    onSuccess: onMutationSuccess,
+    onError: (error) => {
+      toast.error(error.message || "Failed to create view")
+    },
+  })
+  const updateView = api.ticketViews.update.useMutation({
+    onSuccess: onMutationSuccess,
+    onError: (error) => {
+      toast.error(error.message || "Failed to save view")
+    },
+  })
+
+  const setFilter = <K extends keyof TicketFilters>(
+    key: K,
+    value: TicketFilters[K]
+  ) => setFilters((current) => ({ ...current, [key]: value }))
+
+  const toggle = <T extends string>(list: T[] | undefined, item: T) =>
+    list?.includes(item)
+      ? list.filter((entry) => entry !== item)
+      : [...(list ?? []), item]
+
+  // Blank custom field inputs come back as null or ""
+  const getSettings = (): TicketListSettings => {
+    const customFieldFilters: NonNullable<TicketFilters["customFields"]> = {}
+    for (const [key, value] of Object.entries(filters.customFields ?? {})) {
+      if (value !== null && value !== "") customFieldFilters[key] = value
+    }
+    return {
+      filters: compactTicketFilters({
+        ...filters,
+        customFields: customFieldFilters,
+      }),
+      sortBy,
+      sortOrder,
+    }
+  }
+
+  const handleSave = () => {
+    const settings = getSettings()
+    const input = {
+      name,
+      isShared,
+      filters: settings.filters,
+      sortBy: settings.sortBy,
+      sortOrder: settings.sortOrder,
+    }
+    if (view) {
+      updateView.mutate({ id: view.id, ...input })
+    } else {
+      createView.mutate(input)
+    }
+  }
+
+  const assignee = filters.unassigned
+    ? UNASSIGNED
+    : (filters.assignedToId ?? ANY)
+  const isSaving = createView.isLoading || updateView.isLoading
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{view ? `Edit "${view.name}"` : "Filters"}</DialogTitle>
+          <DialogDescription>
+            Apply the filters to the list, or save them as a view to find them
+            in the sidebar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {TICKET_STATUSES.map((status) => (
+                <label
+                  key={status}
+                  className="flex items-center space-x-2 text-sm capitalize"
+                >
+                  <input
+                    type="checkbox"
+                    checked={filters.statuses?.includes(status) ?? false}
+                    onChange={() =>
+                      setFilter("statuses", toggle(filters.statuses, status))
+                    }
+                    className="rounded"
+                  />
+                  <span>{status.replace("_", " ")}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Priority</Label>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {TICKET_PRIORITIES.map((priority) => (
+                <label
+                  key={priority}
+                  className="flex items-center space-x-2 text-sm capitalize"
+                >
+                  <input
+                    type="checkbox"
+                    checked={filters.priorities?.includes(priority) ?? false}
+                    onChange={() =>
+                      setFilter(
+                        "priorities",
+                        toggle(filters.priorities, priority)
+                      )
+                    }
+                    className="rounded"
+                  />
+                  <span>{priority}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="viewAssignee">Assignee</Label>
+              <Select
+                value={assignee}
+                onValueChange={(value) =>
+                  setFilters((current) => ({
+                    ...current,
+                    unassigned: value === UNASSIGNED || undefined,
+                    assignedToId:
+                      value === ANY || value === UNASSIGNED ? undefined : value,
+                  }))
+                }
+              >
+                <SelectTrigger id="viewAssignee">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Anyone</SelectItem>
+                  <SelectItem value={UNASSIGNED}>Unassigned only</SelectItem>
+                  {members.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="viewClient">Client</Label>
+              <Select
+                value={filters.clientId ?? ANY}
+                onValueChange={(value) =>
+                  setFilter("clientId", value === ANY ? undefined : value)
+                }
+              >
+                <SelectTrigger id="viewClient">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All clients</SelectItem>
+                  {clients?.clients?.map((client) => (
+                    <SelectItem key={client.id} value={client.id}>
+                      {client.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="viewSla">SLA</Label>
+              <Select
+                value={filters.sla ?? ANY}
+                onValueChange={(value) =>
+                  setFilter(
+                    "sla",
+                    value === ANY
+                      ? undefined
+                      : (value as NonNullable<TicketFilters["sla"]>)
+                  )
+                }
+              >
+                <SelectTrigger id="viewSla">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  <SelectItem value="at_risk">At risk of breaching</SelectItem>
+                  <SelectItem value="breached">Breached</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="viewSearch">Text</Label>
+              <Input
+                id="viewSearch"
+                value={filters.search ?? ""}
+                onChange={(e) => setFilter("search", e.target.value)}
+                placeholder="In subject, description or replies"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="viewCreatedFrom">Created from</Label>
+              <Input
+                id="viewCreatedFrom"
+                type="date"
+                value={filters.createdFrom ?? ""}
+                onChange={(e) =>
+                  setFilter("createdFrom", e.target.value || undefined)
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="viewCreatedTo">Created to</Label>
+              <Input
+                id="viewCreatedTo"
+                type="date"
+                value={filters.createdTo ?? ""}
+                onChange={(e) =>
+                  setFilter("createdTo", e.target.value || undefined)
+                }
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-x-6 gap-y-2">
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={filters.myTickets ?? false}
+                onChange={(e) => setFilter("myTickets", e.target.checked)}
+                className="rounded"
+              />
+              <span>Assigned to or created by the viewer</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={filters.mentionsMe ?? false}
+                onChange={(e) => setFilter("mentionsMe", e.target.checked)}
+                className="rounded"
+              />
+              <span>Internal notes mention the viewer</span>
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Tags</Label>
+              <Select
+                value={filters.tagMatch ?? "any"}
+                onValueChange={(value) =>
+                  setFilter("tagMatch", value as "any" | "all")
+                }
+              >
+                <SelectTrigger className="h-8 w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any of these</SelectItem>
+                  <SelectItem value="all">All of these</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <TagPicker
+              value={filters.tags ?? []}
+              onChange={(tags) => setFilter("tags", tags)}
+              placeholder="Filter by tag..."
+            />
+          </div>
+
+          {customFields.length > 0 && (
+            <div className="space-y-2">
+              <Label>Custom fields</Label>
+              <CustomFieldInputs
+                fields={customFields}
+                values={filters.customFields ?? {}}
+                onChange={(values) =>
+                  setFilter(
+                    "customFields",
+                    values as TicketFilters["customFields"]
+                  )
+                }
+                members={members}
+                forFilters
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="viewSortBy">Sort by</Label>
+              <Select
+                value={sortBy}
+                onValueChange={(value) => setSortBy(value as TicketSortField)}
+              >
+                <SelectTrigger id="viewSortBy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TICKET_SORT_FIELDS.map((field) => (
+                    <SelectItem key={field} value={field}>
+                      {TICKET_SORT_LABELS[field]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="viewSortOrder">Order</Label>
+              <Select
+                value={sortOrder}
+                onValueChange={(value) => setSortOrder(value as "asc" | "desc")}
+              >
+                <SelectTrigger id="viewSortOrder">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="asc">Ascending</SelectItem>
+                  <SelectItem value="desc">Descending</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-3 border-t pt-4">
+            <div className="space-y-2">
+              <Label htmlFor="viewName">View name</Label>
+              <Input
+                id="viewName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Urgent unassigned"
+                maxLength={100}
+              />
+            </div>
+            {(!view || view.isOwner) && (
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="viewShared"
+                  checked={isShared}
+                  onCheckedChange={setIsShared}
+                />
+                <Label htmlFor="viewShared">
+                  Share with the team as a queue
+                </Label>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => {
+              onApply(getSettings())
+              onOpenChange(false)
+            }}
+          >
+            Apply
+          </Button>
+          <Button onClick={handleSave} disabled={!name.trim() || isSaving}>
+            {view ? "Save view" : "Save as view"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,41 @@
+"use client"
+
+import { Eye } from "lucide-react"
+import { Badge } from "~/components/ui/badge"
+import { type RouterOutputs } from "~/trpc/react"
+
+export type TicketViewer = RouterOutputs["realtime"]["getViewers"][number]
+
+// Other team members with the ticket open, and who of them is replying
+export default function TicketViewers({
+  viewers,
+}: {
+  viewers: TicketViewer[]
+}) {
+  if (viewers.length === 0) return null
+
+  const typing = viewers.filter((viewer) => viewer.isTyping)
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+      <Eye className="h-3.5 w-3.5" />
+      <span>Also viewing:</span>
+      {viewers.map((viewer) => (
+        <Badge
+          key={viewer.membershipId}
+          variant="outline"
+          className="text-xs font-normal"
+        >
+          {viewer.name}
+          {viewer.source === "portal" && " (portal)"}
+        </Badge>
+      ))}
+      {typing.length > 0 && (
+        <span className="animate-pulse">
+          {typing.map((viewer) => viewer.name).join(", ")}{" "}
+          {typing.length === 1 ? "is" : "are"} typing a reply…
+        </span>
+      )}
+    </div>
+  )
+}
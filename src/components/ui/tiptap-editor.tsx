@@ -1,5 +1,6 @@
 "use client"
 
+import { useEffect } from "react"
 import { useEditor, EditorContent } from "@tiptap/react"
 import StarterKit from "@tiptap/starter-kit"
 import Placeholder from "@tiptap/extension-placeholder"
@@ -59,6 +60,13 @@ export function TiptapEditor({
     editable,
   })
 
+  // Read-only editors display whatever they're given, e.g. live previews
+  useEffect(() => {
+    if (editor && !editable && content !== editor.getHTML()) {
+      editor.commands.setContent(content)
+    }
+  }, [editor, editable, content])
+
   if (!editor) {
     return null
   }
@@ -16,4 +16,7 @@ const queryClient = postgres(process.env.DATABASE_URL!, {
 })
 export const db = drizzle(queryClient, { schema, casing: "camelCase" })
 
+// The `tx` handed to db.transaction callbacks
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
 export * from "./schema"
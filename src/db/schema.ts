@@ -1,5 +1,7 @@
 import {
   boolean,
+  customType,
+  index,
   integer,
   jsonb,
   pgEnum,
@@ -7,6 +9,7 @@ import {
   text,
   timestamp,
   unique,
+  uniqueIndex,
   uuid,
   varchar,
 } from "drizzle-orm/pg-core"
@@ -30,6 +33,26 @@ export const ticketPriorityEnum = pgEnum("ticket_priority", [
   "high",
   "urgent",
 ])
+export const ticketEventActorEnum = pgEnum("ticket_event_actor", [
+  "membership",
+  "customer_portal_access",
+  "api_key",
+  "system",
+])
+export const quarantinedEmailStatusEnum = pgEnum("quarantined_email_status", [
+  "pending",
+  "ticket_created",
+  "spam",
+])
+
+// Postgres full-text search document. Columns of this type are generated
+// from the row's text, so they never need writing.
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector"
+  },
+})
+
 export const companySizeEnum = pgEnum("company_size", [
   "1-10",
   "11-50",
@@ -46,6 +69,18 @@ export const companies = pgTable("companies", {
   logo_url: text("logo_url"),
   primary_color: varchar("primary_color", { length: 7 }).default("#3b82f6"), // hex color
   settings: jsonb("settings").default("{}"),
+  attachment_max_size_mb: integer("attachment_max_size_mb")
+    .default(10)
+    .notNull(),
+  attachment_allowed_types: jsonb("attachment_allowed_types")
+    .default("[]")
+    .notNull(), // MIME types ("image/*") or extensions (".log"); empty = built-in list
+  customer_notification_events: jsonb("customer_notification_events")
+    .default(
+      '["ticket_created","agent_reply","status_changed","ticket_resolved"]'
+    )
+    .notNull(), // Ticket events that email the customer (see ~/lib/customer-notifications)
+  tags_locked: boolean("tags_locked").default(false).notNull(), // Only tags in the catalog can be used
   created_at: timestamp("created_at").defaultNow().notNull(),
   updated_at: timestamp("updated_at").defaultNow().notNull(),
 }).enableRLS()
@@ -77,6 +112,9 @@ export const memberships = pgTable(
       .notNull(),
     role: membershipRoleEnum("role").notNull().default("agent"),
     is_active: boolean("is_active").default(true).notNull(),
+    notification_preferences: jsonb("notification_preferences")
+      .default("{}")
+      .notNull(), // Channels per event and quiet hours (see ~/lib/notification-preferences)
     joined_at: timestamp("joined_at").defaultNow().notNull(),
     created_at: timestamp("created_at").defaultNow().notNull(),
     updated_at: timestamp("updated_at").defaultNow().notNull(),
@@ -101,6 +139,24 @@ export const slaPolicies = pgTable("sla_policies", {
   response_time_minutes: integer("response_time_minutes").notNull(), // SLA response time
   resolution_time_minutes: integer("resolution_time_minutes").notNull(), // SLA resolution time
   is_default: boolean("is_default").default(false).notNull(),
+  business_hours_id: uuid("business_hours_id").references(
+    () => businessHours.id,
+    { onDelete: "set null" }
+  ), // Overrides the client's schedule; null = client schedule or wall clock
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+}).enableRLS()
+
+// Business hours schedules - SLA clocks only run inside these working hours
+export const businessHours = pgTable("business_hours", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  company_id: uuid("company_id")
+    .references(() => companies.id, { onDelete: "cascade" })
+    .notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  timezone: varchar("timezone", { length: 100 }).default("UTC").notNull(), // IANA timezone
+  weekly_hours: jsonb("weekly_hours").default("[]").notNull(), // Array of { day, start, end } in local time
+  holidays: jsonb("holidays").default("[]").notNull(), // Array of { date, name, recurring }
   created_at: timestamp("created_at").defaultNow().notNull(),
   updated_at: timestamp("updated_at").defaultNow().notNull(),
 }).enableRLS()
@@ -113,6 +169,11 @@ export const escalationPolicies = pgTable("escalation_policies", {
     .notNull(),
   name: varchar("name", { length: 255 }).notNull(),
   escalation_rules: jsonb("escalation_rules").notNull(), // Array of escalation steps
+  // Tickets are matched to a policy by client and/or priority (null/empty = any)
+  client_id: uuid("client_id").references(() => clients.id, {
+    onDelete: "cascade",
+  }),
+  priorities: jsonb("priorities").default("[]").notNull(), // Array of ticket priorities
   is_active: boolean("is_active").default(true).notNull(),
   created_at: timestamp("created_at").defaultNow().notNull(),
   updated_at: timestamp("updated_at").defaultNow().notNull(),
@@ -134,6 +195,10 @@ export const clients = pgTable("clients", {
   description: text("description"),
   is_active: boolean("is_active").default(true).notNull(),
   portal_enabled: boolean("portal_enabled").default(true).notNull(),
+  business_hours_id: uuid("business_hours_id").references(
+    () => businessHours.id,
+    { onDelete: "set null" }
+  ), // Working hours for this client's SLA clocks
   created_at: timestamp("created_at").defaultNow().notNull(),
   updated_at: timestamp("updated_at").defaultNow().notNull(),
 }).enableRLS()
@@ -162,10 +227,14 @@ export const tickets = pgTable(
       "assigned_to_customer_portal_access_id"
     ).references(() => customerPortalAccess.id),
     sla_policy_id: uuid("sla_policy_id").references(() => slaPolicies.id),
+    sla_policy_reason: varchar("sla_policy_reason", { length: 50 }), // Why the policy was chosen (client_priority, client_default, company_priority, company_default)
     first_response_at: timestamp("first_response_at"),
     resolved_at: timestamp("resolved_at"),
     sla_response_breach: boolean("sla_response_breach").default(false),
     sla_resolution_breach: boolean("sla_resolution_breach").default(false),
+    sla_response_due_at: timestamp("sla_response_due_at"),
+    sla_resolution_due_at: timestamp("sla_resolution_due_at"),
+    sla_warned_due_at: timestamp("sla_warned_due_at"), // Deadline the assignee was last warned about
     escalation_policy_id: uuid("escalation_policy_id").references(
       () => escalationPolicies.id
     ),
@@ -173,10 +242,22 @@ export const tickets = pgTable(
     client_id: uuid("client_id").references(() => clients.id),
     customer_email: varchar("customer_email", { length: 255 }),
     customer_name: varchar("customer_name", { length: 255 }),
+    customer_notifications_muted: boolean("customer_notifications_muted")
+      .default(false)
+      .notNull(), // Customer unsubscribed from this ticket's emails
+    customer_notification_token: uuid("customer_notification_token")
+      .defaultRandom()
+      .notNull()
+      .unique(), // Identifies the ticket in unsubscribe links
 
     // Metadata
     tags: jsonb("tags").default("[]"), // Array of strings
-    custom_fields: jsonb("custom_fields").default("{}"),
+    custom_fields: jsonb("custom_fields").default("{}"), // Values keyed by custom_field_definitions.key
+
+    // Subject ranks above description (see ~/lib/search)
+    search_vector: tsvector("search_vector").generatedAlwaysAs(
+      sql`setweight(to_tsvector('english', coalesce("subject", '')), 'A') || setweight(to_tsvector('english', coalesce("description", '')), 'B')`
+    ),
 
     created_at: timestamp("created_at").defaultNow().notNull(),
     updated_at: timestamp("updated_at").defaultNow().notNull(),
@@ -188,60 +269,277 @@ export const tickets = pgTable(
       table.company_id,
       table.client_id
     ),
+    searchIndex: index("tickets_search_vector_idx").using(
+      "gin",
+      table.search_vector
+    ),
   })
 ).enableRLS()
 
-export const ticketComments = pgTable("ticket_comments", {
+// Tag catalog shared by tickets and knowledge base articles, which store the
+// tag names themselves in their `tags` column
+export const tags = pgTable(
+  "tags",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    company_id: uuid("company_id")
+      .references(() => companies.id, { onDelete: "cascade" })
+      .notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    color: varchar("color", { length: 7 }).default("#6b7280").notNull(), // hex color
+    description: text("description"),
+    created_at: timestamp("created_at").defaultNow().notNull(),
+    updated_at: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    // Names differing only in case are the same tag
+    nameUnique: uniqueIndex("tags_company_id_name_unique").on(
+      table.company_id,
+      sql`lower(${table.name})`
+    ),
+  })
+).enableRLS()
+
+// Admin-defined ticket fields, for the whole company or a single client
+export const customFieldDefinitions = pgTable(
+  "custom_field_definitions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    company_id: uuid("company_id")
+      .references(() => companies.id, { onDelete: "cascade" })
+      .notNull(),
+    client_id: uuid("client_id").references(() => clients.id, {
+      onDelete: "cascade",
+    }), // null = every ticket in the company
+    key: varchar("key", { length: 64 }).notNull(), // Fixed at creation; names the value in tickets.custom_fields
+    label: varchar("label", { length: 255 }).notNull(),
+    description: text("description"),
+    type: varchar("type", { length: 20 }).notNull(), // See CUSTOM_FIELD_TYPES
+    options: jsonb("options").default("[]").notNull(), // Choices for dropdown and multi_select fields
+    is_required: boolean("is_required").default(false).notNull(),
+    position: integer("position").default(0).notNull(),
+    created_at: timestamp("created_at").defaultNow().notNull(),
+    updated_at: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    keyUnique: unique().on(table.company_id, table.key),
+  })
+).enableRLS()
+
+// Named ticket list filters; private to the owner unless shared as a team queue
+export const ticketViews = pgTable("ticket_views", {
   id: uuid("id").primaryKey().defaultRandom(),
+  company_id: uuid("company_id")
+    .references(() => companies.id, { onDelete: "cascade" })
+    .notNull(),
+  membership_id: uuid("membership_id")
+    .references(() => memberships.id, { onDelete: "cascade" })
+    .notNull(), // Owner
+  name: varchar("name", { length: 100 }).notNull(),
+  is_shared: boolean("is_shared").default(false).notNull(),
+  filters: jsonb("filters").default("{}").notNull(), // See ticketFiltersSchema
+  sort_by: varchar("sort_by", { length: 20 }).default("created_at").notNull(),
+  sort_order: varchar("sort_order", { length: 4 }).default("desc").notNull(),
+  position: integer("position").default(0).notNull(),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+}).enableRLS()
+
+export const ticketComments = pgTable(
+  "ticket_comments",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    company_id: uuid("company_id")
+      .references(() => companies.id, { onDelete: "cascade" })
+      .notNull(),
+    ticket_id: uuid("ticket_id")
+      .references(() => tickets.id, { onDelete: "cascade" })
+      .notNull(),
+    parent_comment_id: uuid("parent_comment_id").references(
+      (): any => ticketComments.id,
+      { onDelete: "cascade" }
+    ), // For nested replies (one level only)
+    // Polymorphic ownership: exactly one of these should be set
+    membership_id: uuid("membership_id").references(() => memberships.id), // For staff comments
+    customer_portal_access_id: uuid("customer_portal_access_id").references(
+      () => customerPortalAccess.id
+    ), // For customer comments
+    content: text("content").notNull(),
+    is_internal: boolean("is_internal").default(false).notNull(), // Internal notes vs customer-visible
+    is_system: boolean("is_system").default(false).notNull(), // System-generated comments
+    attachments: jsonb("attachments").default("[]"), // Stored file records (see ~/lib/attachments); older rows hold URLs
+    gmail_message_id: varchar("gmail_message_id", { length: 255 }), // Gmail message the comment was sent as or imported from
+    raw_content: text("raw_content"), // Full imported email body when quoted history or a signature was stripped from content
+    mentioned_membership_ids: jsonb("mentioned_membership_ids")
+      .default("[]")
+      .notNull(), // Members @mentioned in an internal note
+    created_at: timestamp("created_at").defaultNow().notNull(),
+    updated_at: timestamp("updated_at").defaultNow().notNull(),
+    edited_at: timestamp("edited_at"), // When the comment was last edited
+    edited_by_membership_id: uuid("edited_by_membership_id").references(
+      () => memberships.id
+    ), // Team member who edited
+    edited_by_customer_portal_access_id: uuid(
+      "edited_by_customer_portal_access_id"
+    ).references(() => customerPortalAccess.id), // Portal user who edited
+    search_vector: tsvector("search_vector").generatedAlwaysAs(
+      sql`to_tsvector('english', "content")`
+    ),
+  },
+  (table) => ({
+    // An email is imported into a ticket once, however many syncs see it
+    gmailMessageUnique: unique().on(table.ticket_id, table.gmail_message_id),
+    searchIndex: index("ticket_comments_search_vector_idx").using(
+      "gin",
+      table.search_vector
+    ),
+  })
+).enableRLS()
+
+// Team members and CC contacts who get a ticket's notifications alongside
+// the assignee and requester. Exactly one of membership_id and email is set.
+export const ticketFollowers = pgTable(
+  "ticket_followers",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    company_id: uuid("company_id")
+      .references(() => companies.id, { onDelete: "cascade" })
+      .notNull(),
+    ticket_id: uuid("ticket_id")
+      .references(() => tickets.id, { onDelete: "cascade" })
+      .notNull(),
+    membership_id: uuid("membership_id").references(() => memberships.id, {
+      onDelete: "cascade",
+    }), // Team member following the ticket
+    email: varchar("email", { length: 255 }), // Lowercased contact address
+    name: varchar("name", { length: 255 }),
+    customer_portal_access_id: uuid("customer_portal_access_id").references(
+      () => customerPortalAccess.id,
+      { onDelete: "set null" }
+    ), // Portal user with the contact's address, if any
+    added_by_membership_id: uuid("added_by_membership_id").references(
+      () => memberships.id,
+      { onDelete: "set null" }
+    ),
+    muted: boolean("muted").default(false).notNull(), // Contact unsubscribed from this ticket's emails
+    notification_token: uuid("notification_token")
+      .defaultRandom()
+      .notNull()
+      .unique(), // Identifies the contact in unsubscribe links
+    created_at: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    membershipUnique: unique().on(table.ticket_id, table.membership_id),
+    emailUnique: unique().on(table.ticket_id, table.email),
+  })
+).enableRLS()
+
+// Team members with a ticket open, refreshed by heartbeats from the ticket
+// dialog or the portal. Rows older than the presence TTL are ignored.
+export const ticketPresence = pgTable(
+  "ticket_presence",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    company_id: uuid("company_id")
+      .references(() => companies.id, { onDelete: "cascade" })
+      .notNull(),
+    ticket_id: uuid("ticket_id")
+      .references(() => tickets.id, { onDelete: "cascade" })
+      .notNull(),
+    membership_id: uuid("membership_id")
+      .references(() => memberships.id, { onDelete: "cascade" })
+      .notNull(),
+    source: varchar("source", { length: 20 }).notNull().default("app"), // "app" or "portal"
+    is_typing: boolean("is_typing").default(false).notNull(),
+    last_seen_at: timestamp("last_seen_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    viewerUnique: unique().on(table.ticket_id, table.membership_id),
+  })
+).enableRLS()
+
+// Uploaded files waiting to be attached to a comment by their uploader
+export const pendingAttachments = pgTable("pending_attachments", {
+  id: uuid("id").primaryKey(), // Becomes the attachment ID on the comment
   company_id: uuid("company_id")
     .references(() => companies.id, { onDelete: "cascade" })
     .notNull(),
   ticket_id: uuid("ticket_id")
     .references(() => tickets.id, { onDelete: "cascade" })
     .notNull(),
-  parent_comment_id: uuid("parent_comment_id").references(
-    (): any => ticketComments.id,
+  // Exactly one uploader: a signed-in agent or portal user, or an API key
+  uploaded_by_auth_user_id: uuid("uploaded_by_auth_user_id"),
+  uploaded_by_api_key_id: uuid("uploaded_by_api_key_id").references(
+    () => apiKeys.id,
     { onDelete: "cascade" }
-  ), // For nested replies (one level only)
-  // Polymorphic ownership: exactly one of these should be set
-  membership_id: uuid("membership_id").references(() => memberships.id), // For staff comments
-  customer_portal_access_id: uuid("customer_portal_access_id").references(
-    () => customerPortalAccess.id
-  ), // For customer comments
-  content: text("content").notNull(),
-  is_internal: boolean("is_internal").default(false).notNull(), // Internal notes vs customer-visible
-  is_system: boolean("is_system").default(false).notNull(), // System-generated comments
-  attachments: jsonb("attachments").default("[]"), // Array of file URLs
+  ),
+  filename: varchar("filename", { length: 255 }).notNull(),
+  content_type: varchar("content_type", { length: 255 }).notNull(),
+  size: integer("size").notNull(),
+  storage_driver: varchar("storage_driver", { length: 20 }).notNull(),
+  storage_key: text("storage_key").notNull(),
   created_at: timestamp("created_at").defaultNow().notNull(),
-  updated_at: timestamp("updated_at").defaultNow().notNull(),
-  edited_at: timestamp("edited_at"), // When the comment was last edited
-  edited_by_membership_id: uuid("edited_by_membership_id").references(
-    () => memberships.id
-  ), // Team member who edited
-  edited_by_customer_portal_access_id: uuid(
-    "edited_by_customer_portal_access_id"
-  ).references(() => customerPortalAccess.id), // Portal user who edited
 }).enableRLS()
 
-export const knowledgeBase = pgTable("knowledge_base", {
+// Audit trail of ticket field changes
+export const ticketEvents = pgTable("ticket_events", {
   id: uuid("id").primaryKey().defaultRandom(),
   company_id: uuid("company_id")
     .references(() => companies.id, { onDelete: "cascade" })
     .notNull(),
-  title: varchar("title", { length: 255 }).notNull(),
-  slug: varchar("slug", { length: 255 }).notNull(),
-  content: text("content").notNull(),
-  is_published: boolean("is_published").default(false).notNull(),
-  is_public: boolean("is_public").default(true).notNull(), // Visible to customers
-  author_membership_id: uuid("author_membership_id")
-    .references(() => memberships.id)
+  ticket_id: uuid("ticket_id")
+    .references(() => tickets.id, { onDelete: "cascade" })
     .notNull(),
-  view_count: integer("view_count").default(0).notNull(),
-  tags: jsonb("tags").default("[]"),
+  field: varchar("field", { length: 50 }).notNull(), // status, priority, assignee, tags
+  from_value: jsonb("from_value"),
+  to_value: jsonb("to_value"),
+  // Who made the change: actor_type says which of the ids below is set
+  actor_type: ticketEventActorEnum("actor_type").notNull(),
+  actor_membership_id: uuid("actor_membership_id").references(
+    () => memberships.id,
+    { onDelete: "set null" }
+  ),
+  actor_customer_portal_access_id: uuid(
+    "actor_customer_portal_access_id"
+  ).references(() => customerPortalAccess.id, { onDelete: "set null" }),
+  actor_api_key_id: uuid("actor_api_key_id").references(() => apiKeys.id, {
+    onDelete: "set null",
+  }),
   created_at: timestamp("created_at").defaultNow().notNull(),
-  updated_at: timestamp("updated_at").defaultNow().notNull(),
 }).enableRLS()
 
+export const knowledgeBase = pgTable(
+  "knowledge_base",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    company_id: uuid("company_id")
+      .references(() => companies.id, { onDelete: "cascade" })
+      .notNull(),
+    title: varchar("title", { length: 255 }).notNull(),
+    slug: varchar("slug", { length: 255 }).notNull(),
+    content: text("content").notNull(),
+    is_published: boolean("is_published").default(false).notNull(),
+    is_public: boolean("is_public").default(true).notNull(), // Visible to customers
+    author_membership_id: uuid("author_membership_id")
+      .references(() => memberships.id)
+      .notNull(),
+    view_count: integer("view_count").default(0).notNull(),
+    tags: jsonb("tags").default("[]"),
+    // Title ranks above content
+    search_vector: tsvector("search_vector").generatedAlwaysAs(
+      sql`setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("content", '')), 'B')`
+    ),
+    created_at: timestamp("created_at").defaultNow().notNull(),
+    updated_at: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    searchIndex: index("knowledge_base_search_vector_idx").using(
+      "gin",
+      table.search_vector
+    ),
+  })
+).enableRLS()
+
 // Customer Portal Access (for external customers)
 export const customerPortalAccess = pgTable("customer_portal_access", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -271,6 +569,7 @@ export const gmailIntegration = pgTable("gmail_integration", {
   token_expires_at: timestamp("token_expires_at"),
   last_sync_at: timestamp("last_sync_at"),
   last_history_id: varchar("last_history_id", { length: 255 }),
+  failed_messages: jsonb("failed_messages").default("[]").notNull(), // Array of { message_id, attempts, error } retried on later syncs
   is_active: boolean("is_active").default(true).notNull(),
   // Auto processing configuration
   auto_sync_enabled: boolean("auto_sync_enabled").default(true).notNull(),
@@ -285,6 +584,30 @@ export const gmailIntegration = pgTable("gmail_integration", {
   updated_at: timestamp("updated_at").defaultNow().notNull(),
 }).enableRLS()
 
+// One row per Gmail ingestion run, for troubleshooting missed mail
+export const gmailSyncRuns = pgTable("gmail_sync_runs", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  company_id: uuid("company_id")
+    .references(() => companies.id, { onDelete: "cascade" })
+    .notNull(),
+  gmail_integration_id: uuid("gmail_integration_id")
+    .references(() => gmailIntegration.id, { onDelete: "cascade" })
+    .notNull(),
+  trigger: varchar("trigger", { length: 20 }).notNull(), // manual, auto, cron, webhook
+  mode: varchar("mode", { length: 20 }).notNull(), // history (incremental) or full (initial or expired cursor)
+  start_history_id: varchar("start_history_id", { length: 255 }),
+  end_history_id: varchar("end_history_id", { length: 255 }),
+  messages_seen: integer("messages_seen").default(0).notNull(),
+  tickets_created: integer("tickets_created").default(0).notNull(),
+  replies_added: integer("replies_added").default(0).notNull(),
+  messages_skipped: integer("messages_skipped").default(0).notNull(),
+  messages_quarantined: integer("messages_quarantined").default(0).notNull(),
+  errors: jsonb("errors").default("[]").notNull(), // Array of { messageId, error }
+  status: varchar("status", { length: 20 }).default("running").notNull(), // running, completed, failed
+  started_at: timestamp("started_at").defaultNow().notNull(),
+  finished_at: timestamp("finished_at"),
+}).enableRLS()
+
 // Email threads to track conversations
 export const emailThreads = pgTable("email_threads", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -302,6 +625,100 @@ export const emailThreads = pgTable("email_threads", {
   updated_at: timestamp("updated_at").defaultNow().notNull(),
 }).enableRLS()
 
+// Inbound email threads whose sender matched no client, held for agent review
+export const quarantinedEmails = pgTable(
+  "quarantined_emails",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    company_id: uuid("company_id")
+      .references(() => companies.id, { onDelete: "cascade" })
+      .notNull(),
+    gmail_thread_id: varchar("gmail_thread_id", { length: 255 }).notNull(),
+    gmail_message_id: varchar("gmail_message_id", { length: 255 }).notNull(), // First customer message in the thread
+    sender_email: varchar("sender_email", { length: 255 }).notNull(),
+    sender_name: varchar("sender_name", { length: 255 }),
+    subject: text("subject").notNull(),
+    body: text("body").notNull(),
+    received_at: timestamp("received_at").notNull(),
+    status: quarantinedEmailStatusEnum("status").default("pending").notNull(),
+    ticket_id: uuid("ticket_id").references(() => tickets.id, {
+      onDelete: "set null",
+    }),
+    reviewed_by_membership_id: uuid("reviewed_by_membership_id").references(
+      () => memberships.id,
+      { onDelete: "set null" }
+    ),
+    reviewed_at: timestamp("reviewed_at"),
+    created_at: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    threadUnique: unique().on(table.company_id, table.gmail_thread_id),
+  })
+).enableRLS()
+
+// Senders marked as spam; their mail is dropped before client matching
+export const blockedSenders = pgTable(
+  "blocked_senders",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    company_id: uuid("company_id")
+      .references(() => companies.id, { onDelete: "cascade" })
+      .notNull(),
+    email: varchar("email", { length: 255 }).notNull(), // Lowercased address
+    created_by_membership_id: uuid("created_by_membership_id").references(
+      () => memberships.id,
+      { onDelete: "set null" }
+    ),
+    created_at: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    emailUnique: unique().on(table.company_id, table.email),
+  })
+).enableRLS()
+
+// In-app notifications for team members
+export const notifications = pgTable("notifications", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  company_id: uuid("company_id")
+    .references(() => companies.id, { onDelete: "cascade" })
+    .notNull(),
+  membership_id: uuid("membership_id")
+    .references(() => memberships.id, { onDelete: "cascade" })
+    .notNull(), // Recipient
+  type: varchar("type", { length: 50 }).notNull(), // e.g. "assignment", "sla_warning"
+  title: varchar("title", { length: 255 }).notNull(),
+  body: text("body"),
+  link: text("link"), // App path to open, e.g. "/tickets?ticket=..."
+  ticket_id: uuid("ticket_id").references(() => tickets.id, {
+    onDelete: "cascade",
+  }),
+  read_at: timestamp("read_at"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+}).enableRLS()
+
+// Company overrides of the built-in customer email templates (see ~/lib/email-templates)
+export const emailTemplates = pgTable(
+  "email_templates",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    company_id: uuid("company_id")
+      .references(() => companies.id, { onDelete: "cascade" })
+      .notNull(),
+    type: varchar("type", { length: 50 }).notNull(), // Notification type, e.g. "agent_reply"
+    subject: text("subject").notNull(),
+    body: text("body").notNull(), // HTML with {{variable}} placeholders
+    updated_by_membership_id: uuid("updated_by_membership_id").references(
+      () => memberships.id,
+      { onDelete: "set null" }
+    ),
+    created_at: timestamp("created_at").defaultNow().notNull(),
+    updated_at: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    typeUnique: unique().on(table.company_id, table.type),
+  })
+).enableRLS()
+
 // API Keys for external API access
 export const apiKeys = pgTable("api_keys", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -383,53 +800,71 @@ export const forms = pgTable(
 ).enableRLS()
 
 // Form submissions table
-export const formSubmissions = pgTable("form_submissions", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  form_id: uuid("form_id")
-    .references(() => forms.id, { onDelete: "cascade" })
-    .notNull(),
-  company_id: uuid("company_id")
-    .references(() => companies.id, { onDelete: "cascade" })
-    .notNull(), // Denormalized for performance
-
-  // Submitter identity (polymorphic)
-  submitted_by_email: varchar("submitted_by_email", { length: 255 }).notNull(),
-  submitted_by_name: varchar("submitted_by_name", { length: 255 }).notNull(),
-  submitted_by_customer_portal_access_id: uuid(
-    "submitted_by_customer_portal_access_id"
-  ).references(() => customerPortalAccess.id),
-  submitted_by_membership_id: uuid("submitted_by_membership_id").references(
-    () => memberships.id
-  ),
+export const formSubmissions = pgTable(
+  "form_submissions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    form_id: uuid("form_id")
+      .references(() => forms.id, { onDelete: "cascade" })
+      .notNull(),
+    company_id: uuid("company_id")
+      .references(() => companies.id, { onDelete: "cascade" })
+      .notNull(), // Denormalized for performance
 
-  // Response data
-  data: jsonb("data").notNull(), // Key-value pairs of field responses
-  description: text("description"), // Additional context/description for the submission
+    // Submitter identity (polymorphic)
+    submitted_by_email: varchar("submitted_by_email", {
+      length: 255,
+    }).notNull(),
+    submitted_by_name: varchar("submitted_by_name", { length: 255 }).notNull(),
+    submitted_by_customer_portal_access_id: uuid(
+      "submitted_by_customer_portal_access_id"
+    ).references(() => customerPortalAccess.id),
+    submitted_by_membership_id: uuid("submitted_by_membership_id").references(
+      () => memberships.id
+    ),
 
-  // External integration
-  external_id: varchar("external_id", { length: 255 }),
-  external_type: varchar("external_type", { length: 100 }),
+    // Response data
+    data: jsonb("data").notNull(), // Key-value pairs of field responses
+    description: text("description"), // Additional context/description for the submission
 
-  // Ticket creation
-  ticket_id: uuid("ticket_id").references(() => tickets.id),
-  ticket_created: boolean("ticket_created").default(false).notNull(),
+    // External integration
+    external_id: varchar("external_id", { length: 255 }),
+    external_type: varchar("external_type", { length: 100 }),
 
-  // Metadata
-  submitted_at: timestamp("submitted_at").defaultNow().notNull(),
-  ip_address: varchar("ip_address", { length: 45 }), // IPv6 support
-  user_agent: text("user_agent"),
+    // Ticket creation
+    ticket_id: uuid("ticket_id").references(() => tickets.id),
+    ticket_created: boolean("ticket_created").default(false).notNull(),
 
-  created_at: timestamp("created_at").defaultNow().notNull(),
-  updated_at: timestamp("updated_at").defaultNow().notNull(),
-}).enableRLS()
+    // Metadata
+    submitted_at: timestamp("submitted_at").defaultNow().notNull(),
+    ip_address: varchar("ip_address", { length: 45 }), // IPv6 support
+    user_agent: text("user_agent"),
+
+    created_at: timestamp("created_at").defaultNow().notNull(),
+    updated_at: timestamp("updated_at").defaultNow().notNull(),
+
+    // Submitter first, then the answers and notes
+    search_vector: tsvector("search_vector").generatedAlwaysAs(
+      sql`setweight(to_tsvector('english', coalesce("submitted_by_name", '') || ' ' || coalesce("submitted_by_email", '')), 'A') || setweight(jsonb_to_tsvector('english', "data", '["string", "numeric"]'), 'B') || setweight(to_tsvector('english', coalesce("description", '')), 'B')`
+    ),
+  },
+  (table) => ({
+    searchIndex: index("form_submissions_search_vector_idx").using(
+      "gin",
+      table.search_vector
+    ),
+  })
+).enableRLS()
 
 // Relations
 export const companiesRelations = relations(companies, ({ many }) => ({
   memberships: many(memberships),
   tickets: many(tickets),
   slaPolicies: many(slaPolicies),
+  businessHours: many(businessHours),
   escalationPolicies: many(escalationPolicies),
   ticketComments: many(ticketComments),
+  ticketEvents: many(ticketEvents),
   knowledgeBase: many(knowledgeBase),
   clients: many(clients),
   customerPortalAccess: many(customerPortalAccess),
@@ -437,6 +872,15 @@ export const companiesRelations = relations(companies, ({ many }) => ({
   invitationCodes: many(invitationCodes),
   forms: many(forms),
   formSubmissions: many(formSubmissions),
+  quarantinedEmails: many(quarantinedEmails),
+  blockedSenders: many(blockedSenders),
+  pendingAttachments: many(pendingAttachments),
+  emailTemplates: many(emailTemplates),
+  notifications: many(notifications),
+  ticketFollowers: many(ticketFollowers),
+  customFieldDefinitions: many(customFieldDefinitions),
+  tags: many(tags),
+  ticketViews: many(ticketViews),
 }))
 
 export const usersRelations = relations(users, ({ many }) => ({
@@ -460,8 +904,45 @@ export const membershipsRelations = relations(memberships, ({ one, many }) => ({
   sentInvitations: many(invitationCodes),
   createdForms: many(forms),
   formSubmissions: many(formSubmissions),
+  notifications: many(notifications),
+  followedTickets: many(ticketFollowers, {
+    relationName: "followerMembership",
+  }),
+  ticketViews: many(ticketViews),
 }))
 
+export const ticketViewsRelations = relations(ticketViews, ({ one }) => ({
+  company: one(companies, {
+    fields: [ticketViews.company_id],
+    references: [companies.id],
+  }),
+  membership: one(memberships, {
+    fields: [ticketViews.membership_id],
+    references: [memberships.id],
+  }),
+}))
+
+export const tagsRelations = relations(tags, ({ one }) => ({
+  company: one(companies, {
+    fields: [tags.company_id],
+    references: [companies.id],
+  }),
+}))
+
+export const customFieldDefinitionsRelations = relations(
+  customFieldDefinitions,
+  ({ one }) => ({
+    company: one(companies, {
+      fields: [customFieldDefinitions.company_id],
+      references: [companies.id],
+    }),
+    client: one(clients, {
+      fields: [customFieldDefinitions.client_id],
+      references: [clients.id],
+    }),
+  })
+)
+
 export const slaPoliciesRelations = relations(slaPolicies, ({ one, many }) => ({
   company: one(companies, {
     fields: [slaPolicies.company_id],
@@ -471,9 +952,25 @@ export const slaPoliciesRelations = relations(slaPolicies, ({ one, many }) => ({
     fields: [slaPolicies.client_id],
     references: [clients.id],
   }),
+  businessHours: one(businessHours, {
+    fields: [slaPolicies.business_hours_id],
+    references: [businessHours.id],
+  }),
   tickets: many(tickets),
 }))
 
+export const businessHoursRelations = relations(
+  businessHours,
+  ({ one, many }) => ({
+    company: one(companies, {
+      fields: [businessHours.company_id],
+      references: [companies.id],
+    }),
+    slaPolicies: many(slaPolicies),
+    clients: many(clients),
+  })
+)
+
 export const escalationPoliciesRelations = relations(
   escalationPolicies,
   ({ one, many }) => ({
@@ -481,6 +978,10 @@ export const escalationPoliciesRelations = relations(
       fields: [escalationPolicies.company_id],
       references: [companies.id],
     }),
+    client: one(clients, {
+      fields: [escalationPolicies.client_id],
+      references: [clients.id],
+    }),
     tickets: many(tickets),
   })
 )
@@ -517,7 +1018,72 @@ export const ticketsRelations = relations(tickets, ({ one, many }) => ({
     references: [escalationPolicies.id],
   }),
   comments: many(ticketComments),
+  events: many(ticketEvents),
   formSubmissions: many(formSubmissions),
+  notifications: many(notifications),
+  followers: many(ticketFollowers),
+  presence: many(ticketPresence),
+}))
+
+export const ticketPresenceRelations = relations(ticketPresence, ({ one }) => ({
+  company: one(companies, {
+    fields: [ticketPresence.company_id],
+    references: [companies.id],
+  }),
+  ticket: one(tickets, {
+    fields: [ticketPresence.ticket_id],
+    references: [tickets.id],
+  }),
+  membership: one(memberships, {
+    fields: [ticketPresence.membership_id],
+    references: [memberships.id],
+  }),
+}))
+
+export const ticketFollowersRelations = relations(
+  ticketFollowers,
+  ({ one }) => ({
+    company: one(companies, {
+      fields: [ticketFollowers.company_id],
+      references: [companies.id],
+    }),
+    ticket: one(tickets, {
+      fields: [ticketFollowers.ticket_id],
+      references: [tickets.id],
+    }),
+    membership: one(memberships, {
+      fields: [ticketFollowers.membership_id],
+      references: [memberships.id],
+      relationName: "followerMembership",
+    }),
+    customerPortalAccess: one(customerPortalAccess, {
+      fields: [ticketFollowers.customer_portal_access_id],
+      references: [customerPortalAccess.id],
+    }),
+  })
+)
+
+export const ticketEventsRelations = relations(ticketEvents, ({ one }) => ({
+  company: one(companies, {
+    fields: [ticketEvents.company_id],
+    references: [companies.id],
+  }),
+  ticket: one(tickets, {
+    fields: [ticketEvents.ticket_id],
+    references: [tickets.id],
+  }),
+  actorMembership: one(memberships, {
+    fields: [ticketEvents.actor_membership_id],
+    references: [memberships.id],
+  }),
+  actorCustomerPortalAccess: one(customerPortalAccess, {
+    fields: [ticketEvents.actor_customer_portal_access_id],
+    references: [customerPortalAccess.id],
+  }),
+  actorApiKey: one(apiKeys, {
+    fields: [ticketEvents.actor_api_key_id],
+    references: [apiKeys.id],
+  }),
 }))
 
 export const ticketCommentsRelations = relations(
@@ -550,6 +1116,24 @@ export const ticketCommentsRelations = relations(
   })
 )
 
+export const pendingAttachmentsRelations = relations(
+  pendingAttachments,
+  ({ one }) => ({
+    company: one(companies, {
+      fields: [pendingAttachments.company_id],
+      references: [companies.id],
+    }),
+    ticket: one(tickets, {
+      fields: [pendingAttachments.ticket_id],
+      references: [tickets.id],
+    }),
+    apiKey: one(apiKeys, {
+      fields: [pendingAttachments.uploaded_by_api_key_id],
+      references: [apiKeys.id],
+    }),
+  })
+)
+
 export const knowledgeBaseRelations = relations(knowledgeBase, ({ one }) => ({
   company: one(companies, {
     fields: [knowledgeBase.company_id],
@@ -566,10 +1150,16 @@ export const clientsRelations = relations(clients, ({ one, many }) => ({
     fields: [clients.company_id],
     references: [companies.id],
   }),
+  businessHours: one(businessHours, {
+    fields: [clients.business_hours_id],
+    references: [businessHours.id],
+  }),
   tickets: many(tickets),
   portalAccess: many(customerPortalAccess),
   slaPolicies: many(slaPolicies),
+  escalationPolicies: many(escalationPolicies),
   forms: many(forms),
+  customFieldDefinitions: many(customFieldDefinitions),
 }))
 
 export const customerPortalAccessRelations = relations(
@@ -586,6 +1176,7 @@ export const customerPortalAccessRelations = relations(
     ticketComments: many(ticketComments),
     assignedTickets: many(tickets),
     formSubmissions: many(formSubmissions),
+    followedTickets: many(ticketFollowers),
   })
 )
 
@@ -598,14 +1189,26 @@ export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
 
 export const gmailIntegrationRelations = relations(
   gmailIntegration,
-  ({ one }) => ({
+  ({ one, many }) => ({
     company: one(companies, {
       fields: [gmailIntegration.company_id],
       references: [companies.id],
     }),
+    syncRuns: many(gmailSyncRuns),
   })
 )
 
+export const gmailSyncRunsRelations = relations(gmailSyncRuns, ({ one }) => ({
+  company: one(companies, {
+    fields: [gmailSyncRuns.company_id],
+    references: [companies.id],
+  }),
+  gmailIntegration: one(gmailIntegration, {
+    fields: [gmailSyncRuns.gmail_integration_id],
+    references: [gmailIntegration.id],
+  }),
+}))
+
 export const emailThreadsRelations = relations(emailThreads, ({ one }) => ({
   company: one(companies, {
     fields: [emailThreads.company_id],
@@ -617,6 +1220,61 @@ export const emailThreadsRelations = relations(emailThreads, ({ one }) => ({
   }),
 }))
 
+export const quarantinedEmailsRelations = relations(
+  quarantinedEmails,
+  ({ one }) => ({
+    company: one(companies, {
+      fields: [quarantinedEmails.company_id],
+      references: [companies.id],
+    }),
+    ticket: one(tickets, {
+      fields: [quarantinedEmails.ticket_id],
+      references: [tickets.id],
+    }),
+    reviewedBy: one(memberships, {
+      fields: [quarantinedEmails.reviewed_by_membership_id],
+      references: [memberships.id],
+    }),
+  })
+)
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  company: one(companies, {
+    fields: [notifications.company_id],
+    references: [companies.id],
+  }),
+  membership: one(memberships, {
+    fields: [notifications.membership_id],
+    references: [memberships.id],
+  }),
+  ticket: one(tickets, {
+    fields: [notifications.ticket_id],
+    references: [tickets.id],
+  }),
+}))
+
+export const emailTemplatesRelations = relations(emailTemplates, ({ one }) => ({
+  company: one(companies, {
+    fields: [emailTemplates.company_id],
+    references: [companies.id],
+  }),
+  updatedBy: one(memberships, {
+    fields: [emailTemplates.updated_by_membership_id],
+    references: [memberships.id],
+  }),
+}))
+
+export const blockedSendersRelations = relations(blockedSenders, ({ one }) => ({
+  company: one(companies, {
+    fields: [blockedSenders.company_id],
+    references: [companies.id],
+  }),
+  createdBy: one(memberships, {
+    fields: [blockedSenders.created_by_membership_id],
+    references: [memberships.id],
+  }),
+}))
+
 export const invitationCodesRelations = relations(
   invitationCodes,
   ({ one }) => ({
@@ -0,0 +1,19 @@
+import { PGlite } from "@electric-sql/pglite"
+import { drizzle } from "drizzle-orm/pglite"
+import { migrate } from "drizzle-orm/pglite/migrator"
+import * as schema from "./schema"
+
+// In-memory Postgres that stands in for `~/db` when tests run (see
+// tsconfig.test.json). Each test file gets its own database.
+const client = new PGlite()
+export const db = drizzle(client, { schema, casing: "camelCase" })
+export const migrationDb = db
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+// Creates the tables; call once before a test file touches the database
+export async function migrateTestDb() {
+  await migrate(db, { migrationsFolder: "supabase/migrations" })
+}
+
+export * from "./schema"
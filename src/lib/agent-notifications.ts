@@ -0,0 +1,231 @@
+import { db } from "~/db"
+import { companies, memberships } from "~/db/schema"
+import { and, eq, inArray } from "drizzle-orm"
+import { emailService } from "~/lib/email"
+import { publishNotification, ticketLink } from "~/lib/notifications"
+import { TICKET_STATUS_LABELS } from "~/lib/email-templates"
+import { getFollowerMembershipIds } from "~/lib/ticket-followers"
+import {
+  isInQuietHours,
+  resolveNotificationPreferences,
+  type AgentNotificationEvent,
+} from "~/lib/notification-preferences"
+
+interface AgentNotification {
+  title: string
+  body: string
+  link: string
+  ticketId?: string | null
+}
+
+interface NotifiableTicket {
+  id: string
+  company_id: string
+  subject: string
+  priority: string
+  assigned_to_membership_id: string | null
+}
+
+// The assignee plus any team members following the ticket
+async function getTicketWatchers(
+  ticket: NotifiableTicket,
+  actorMembershipId?: string | null
+) {
+  const watchers = [
+    ...(ticket.assigned_to_membership_id
+      ? [ticket.assigned_to_membership_id]
+      : []),
+    ...(await getFollowerMembershipIds(ticket.id).catch((error) => {
+      console.error("Failed to load ticket followers:", error)
+      return []
+    })),
+  ]
+  return watchers.filter((id) => id !== actorMembershipId)
+}
+
+function excerpt(text: string, length = 300) {
+  const plain = text
+    .replace(/<[^>]*>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+  return plain.length > length ? `${plain.slice(0, length)}…` : plain
+}
+
+/**
+ * Delivers an event to team members on the channels each of them chose.
+ * During a member's quiet hours the email is dropped but the in-app
+ * notification is still recorded. Never throws.
+ */
+export async function notifyAgents(
+  companyId: string,
+  membershipIds: string[],
+  event: AgentNotificationEvent,
+  notification: AgentNotification
+) {
+  const recipientIds = Array.from(new Set(membershipIds))
+  if (recipientIds.length === 0) return
+
+  try {
+    const recipients = await db.query.memberships.findMany({
+      where: and(
+        inArray(memberships.id, recipientIds),
+        eq(memberships.company_id, companyId),
+        eq(memberships.is_active, true)
+      ),
+      columns: { id: true, notification_preferences: true },
+      with: { user: { columns: { email: true } } },
+    })
+
+    const now = new Date()
+    const inApp: string[] = []
+    const email: string[] = []
+    for (const recipient of recipients) {
+      const preferences = resolveNotificationPreferences(
+        recipient.notification_preferences
+      )
+      const channels = preferences.events[event]
+      if (channels.in_app) inApp.push(recipient.id)
+      if (channels.email && !isInQuietHours(preferences.quiet_hours, now)) {
+        email.push(recipient.user.email)
+      }
+    }
+
+    await publishNotification({
+      companyId,
+      membershipIds: inApp,
+      type: event,
+      title: notification.title,
+      body: notification.body,
+      link: notification.link,
+      ticketId: notification.ticketId,
+    })
+
+    if (email.length === 0) return
+
+    const company = await db.query.companies.findFirst({
+      where: eq(companies.id, companyId),
+      columns: { name: true },
+    })
+
+    for (const to of email) {
+      await emailService
+        .sendAgentNotification({
+          to,
+          subject: notification.title,
+          title: notification.title,
+          message: notification.body,
+          url: `${process.env.NEXT_PUBLIC_APP_URL}${notification.link}`,
+          companyName: company?.name ?? "Help Desk",
+        })
+        .catch((error) => {
+          console.error(`Failed to email ${event} notification:`, error)
+        })
+    }
+  } catch (error) {
+    console.error(`Failed to send ${event} notifications:`, error)
+  }
+}
+
+// Tells the new assignee, unless they assigned the ticket to themselves
+export async function notifyAssignment(
+  before: { assigned_to_membership_id: string | null } | null,
+  after: NotifiableTicket,
+  actorMembershipId?: string | null
+) {
+  const assigneeId = after.assigned_to_membership_id
+  if (!assigneeId || assigneeId === before?.assigned_to_membership_id) return
+  if (assigneeId === actorMembershipId) return
+
+  await notifyAgents(after.company_id, [assigneeId], "assignment", {
+    title: `Ticket assigned to you: ${after.subject}`,
+    body: `A ${after.priority} priority ticket was assigned to you.`,
+    link: ticketLink(after.id),
+    ticketId: after.id,
+  })
+}
+
+export async function notifyMentions(
+  ticket: Pick<NotifiableTicket, "id" | "company_id" | "subject">,
+  membershipIds: string[],
+  authorName: string,
+  content: string
+) {
+  await notifyAgents(ticket.company_id, membershipIds, "mention", {
+    title: `${authorName} mentioned you: ${ticket.subject}`,
+    body: excerpt(content),
+    link: ticketLink(ticket.id),
+    ticketId: ticket.id,
+  })
+}
+
+/**
+ * Lets the assignee and followers know someone else changed the status or
+ * priority of the ticket. In-app only; there is no email preference for it.
+ */
+export async function notifyTicketUpdate(
+  before: { status: string; priority: string },
+  after: NotifiableTicket & { status: string },
+  actorMembershipId?: string | null
+) {
+  const changes: string[] = []
+  if (before.status !== after.status) {
+    changes.push(
+      `Status changed to ${TICKET_STATUS_LABELS[after.status] ?? after.status}`
+    )
+  }
+  if (before.priority !== after.priority) {
+    changes.push(`Priority changed to ${after.priority}`)
+  }
+  if (changes.length === 0) return
+
+  await publishNotification({
+    companyId: after.company_id,
+    membershipIds: await getTicketWatchers(after, actorMembershipId),
+    type: "ticket_updated",
+    title: `Ticket updated: ${after.subject}`,
+    body: changes.join("\n"),
+    link: ticketLink(after.id),
+    ticketId: after.id,
+  })
+}
+
+export async function notifyCustomerReply(
+  ticket: NotifiableTicket,
+  authorName: string,
+  content: string
+) {
+  await notifyAgents(
+    ticket.company_id,
+    await getTicketWatchers(ticket),
+    "customer_reply",
+    {
+      title: `New reply from ${authorName}: ${ticket.subject}`,
+      body: excerpt(content),
+      link: ticketLink(ticket.id),
+      ticketId: ticket.id,
+    }
+  )
+}
+
+export async function notifySlaWarning(
+  ticket: NotifiableTicket & { first_response_at: Date | null },
+  dueAt: Date
+) {
+  const minutesLeft = Math.max(
+    0,
+    Math.round((dueAt.getTime() - Date.now()) / 60000)
+  )
+  const deadline = ticket.first_response_at ? "resolution" : "first response"
+
+  await notifyAgents(
+    ticket.company_id,
+    await getTicketWatchers(ticket),
+    "sla_warning",
+    {
+      title: `SLA ${deadline} due in ${minutesLeft} min: ${ticket.subject}`,
+      body: `The ${deadline} deadline for this ${ticket.priority} priority ticket is ${dueAt.toUTCString()}.`,
+      link: ticketLink(ticket.id),
+      ticketId: ticket.id,
+    }
+  )
+}
@@ -0,0 +1,368 @@
+import { randomUUID } from "crypto"
+import { db } from "~/db"
+import { pendingAttachments, type companies } from "~/db/schema"
+import { and, eq, inArray, lt } from "drizzle-orm"
+import { getStorage } from "~/lib/storage"
+
+/**
+ * A stored file as kept in `ticketComments.attachments`. Older rows may hold
+ * plain URLs instead, which `toAttachmentViews` passes through.
+ */
+export interface CommentAttachment {
+  id: string
+  filename: string
+  content_type: string
+  size: number
+  storage_driver: string
+  storage_key: string
+}
+
+// Shape sent to clients, without storage details
+export interface CommentAttachmentView {
+  id: string
+  filename: string
+  content_type: string
+  size: number
+  url: string
+}
+
+// Used when a company hasn't set its own list
+export const DEFAULT_ALLOWED_ATTACHMENT_TYPES = [
+  "image/*",
+  "text/plain",
+  "text/csv",
+  "application/pdf",
+  "application/zip",
+  "application/json",
+  ".log",
+  ".doc",
+  ".docx",
+  ".xls",
+  ".xlsx",
+  ".ppt",
+  ".pptx",
+  ".odt",
+  ".ods",
+]
+
+export type AttachmentUploader = { authUserId: string } | { apiKeyId: string }
+
+type AttachmentLimits = Pick<
+  typeof companies.$inferSelect,
+  "attachment_max_size_mb" | "attachment_allowed_types"
+>
+
+function sanitizeFilename(filename: string) {
+  const cleaned = filename
+    .replace(/[/\\?%*:|"<>\x00-\x1f]/g, "_")
+    .trim()
+    .slice(0, 200)
+  return cleaned || "attachment"
+}
+
+/**
+ * Writes a file for a ticket to the configured storage and returns the record
+ * to put in the comment's attachments.
+ */
+export async function storeTicketAttachment({
+  companyId,
+  ticketId,
+  filename,
+  contentType,
+  data,
+}: {
+  companyId: string
+  ticketId: string
+  filename: string
+  contentType: string
+  data: Buffer
+}): Promise<CommentAttachment> {
+  const storage = getStorage()
+  const id = randomUUID()
+  const safeFilename = sanitizeFilename(filename)
+  const key = `${companyId}/${ticketId}/${id}-${safeFilename}`
+
+  await storage.put(key, data, contentType)
+
+  return {
+    id,
+    filename: safeFilename,
+    content_type: contentType || "application/octet-stream",
+    size: data.length,
+    storage_driver: storage.name,
+    storage_key: key,
+  }
+}
+
+function matchesAllowedType(
+  filename: string,
+  contentType: string,
+  allowedType: string
+) {
+  const rule = allowedType.trim().toLowerCase()
+  if (rule.startsWith(".")) return filename.toLowerCase().endsWith(rule)
+  if (rule.endsWith("/*")) return contentType.startsWith(rule.slice(0, -1))
+  return contentType === rule
+}
+
+/**
+ * Why a company would refuse a file, or null when it is within the company's
+ * size limit and allowed types.
+ */
+export function getAttachmentRejection(
+  company: AttachmentLimits,
+  file: { filename: string; contentType: string; size: number }
+) {
+  const maxBytes = company.attachment_max_size_mb * 1024 * 1024
+  if (file.size > maxBytes) {
+    return `${file.filename} is larger than the ${company.attachment_max_size_mb} MB limit`
+  }
+
+  const companyTypes = company.attachment_allowed_types as string[]
+  const allowedTypes =
+    companyTypes.length > 0 ? companyTypes : DEFAULT_ALLOWED_ATTACHMENT_TYPES
+  const contentType = file.contentType.toLowerCase()
+  if (
+    !allowedTypes.some((type) =>
+      matchesAllowedType(file.filename, contentType, type)
+    )
+  ) {
+    return `${file.filename} is not an allowed file type`
+  }
+
+  return null
+}
+
+/**
+ * Stores an uploaded file and holds it until its uploader attaches it to a
+ * comment on the same ticket. Check `getAttachmentRejection` first.
+ */
+export async function createPendingAttachment({
+  companyId,
+  ticketId,
+  filename,
+  contentType,
+  data,
+  uploader,
+}: {
+  companyId: string
+  ticketId: string
+  filename: string
+  contentType: string
+  data: Buffer
+  uploader: AttachmentUploader
+}) {
+  const attachment = await storeTicketAttachment({
+    companyId,
+    ticketId,
+    filename,
+    contentType,
+    data,
+  })
+
+  const [pending] = await db
+    .insert(pendingAttachments)
+    .values({
+      ...attachment,
+      company_id: companyId,
+      ticket_id: ticketId,
+      uploaded_by_auth_user_id:
+        "authUserId" in uploader ? uploader.authUserId : null,
+      uploaded_by_api_key_id: "apiKeyId" in uploader ? uploader.apiKeyId : null,
+    })
+    .returning()
+
+  return {
+    id: pending!.id,
+    filename: pending!.filename,
+    content_type: pending!.content_type,
+    size: pending!.size,
+  }
+}
+
+/**
+ * Looks up uploads for a new comment. Returns null unless every ID is a
+ * pending upload by this uploader on this ticket.
+ */
+export async function getPendingAttachments(
+  ids: string[],
+  ticketId: string,
+  uploader: AttachmentUploader
+): Promise<CommentAttachment[] | null> {
+  if (ids.length === 0) return []
+
+  const pending = await db.query.pendingAttachments.findMany({
+    where: and(
+      inArray(pendingAttachments.id, ids),
+      eq(pendingAttachments.ticket_id, ticketId),
+      "authUserId" in uploader
+        ? eq(pendingAttachments.uploaded_by_auth_user_id, uploader.authUserId)
+        : eq(pendingAttachments.uploaded_by_api_key_id, uploader.apiKeyId)
+    ),
+  })
+
+  if (pending.length !== new Set(ids).size) return null
+
+  return pending.map((upload) => ({
+    id: upload.id,
+    filename: upload.filename,
+    content_type: upload.content_type,
+    size: upload.size,
+    storage_driver: upload.storage_driver,
+    storage_key: upload.storage_key,
+  }))
+}
+
+// Call once the comment holding the uploads is saved
+export async function clearPendingAttachments(ids: string[]) {
+  if (ids.length === 0) return
+  await db.delete(pendingAttachments).where(inArray(pendingAttachments.id, ids))
+}
+
+// Removes the files of a comment that ended up not being saved
+export async function deleteStoredAttachments(
+  attachments: CommentAttachment[]
+) {
+  for (const attachment of attachments) {
+    try {
+      await getStorage(attachment.storage_driver).delete(attachment.storage_key)
+    } catch (error) {
+      console.error(`Failed to delete attachment ${attachment.id}:`, error)
+    }
+  }
+}
+
+// Uploads never attached to a comment are removed after this long
+const PENDING_ATTACHMENT_TTL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Deletes uploads that were never attached to a comment, along with their
+ * stored files. Returns how many were removed.
+ */
+export async function deleteStalePendingAttachments() {
+  const stale = await db.query.pendingAttachments.findMany({
+    where: lt(
+      pendingAttachments.created_at,
+      new Date(Date.now() - PENDING_ATTACHMENT_TTL_MS)
+    ),
+    columns: { id: true, storage_driver: true, storage_key: true },
+  })
+
+  const deletedIds: string[] = []
+  for (const upload of stale) {
+    try {
+      await getStorage(upload.storage_driver).delete(upload.storage_key)
+      deletedIds.push(upload.id)
+    } catch (error) {
+      // Kept so the next run tries again
+      console.error(`Failed to delete pending upload ${upload.id}:`, error)
+    }
+  }
+
+  await clearPendingAttachments(deletedIds)
+  return deletedIds.length
+}
+
+export function getCommentAttachments(value: unknown): CommentAttachment[] {
+  if (!Array.isArray(value)) return []
+  return value.filter(
+    (item): item is CommentAttachment =>
+      typeof item === "object" && item !== null && "storage_key" in item
+  )
+}
+
+export function getAttachmentUrl(
+  commentId: string,
+  attachmentId: string,
+  basePath = "/api/attachments"
+) {
+  return `${basePath}/${commentId}/${attachmentId}`
+}
+
+/**
+ * Attachments of a comment as returned to the browser. Legacy URL entries are
+ * passed through as links.
+ */
+export function toAttachmentViews(
+  comment: {
+    id: string
+    attachments: unknown
+  },
+  basePath?: string
+): CommentAttachmentView[] {
+  if (!Array.isArray(comment.attachments)) return []
+
+  return comment.attachments.flatMap((item): CommentAttachmentView[] => {
+    if (typeof item === "string") {
+      return [
+        {
+          id: item,
+          filename: item.split("/").pop() || item,
+          content_type: "application/octet-stream",
+          size: 0,
+          url: item,
+        },
+      ]
+    }
+    const [attachment] = getCommentAttachments([item])
+    if (!attachment) return []
+    return [
+      {
+        id: attachment.id,
+        filename: attachment.filename,
+        content_type: attachment.content_type,
+        size: attachment.size,
+        url: getAttachmentUrl(comment.id, attachment.id, basePath),
+      },
+    ]
+  })
+}
+
+/**
+ * Whether the signed-in user may read or add files on a ticket. Team members
+ * can use any ticket in their company, including internal notes; portal users
+ * only their own client's tickets and never internal notes.
+ */
+export async function canAccessTicketFiles(
+  authUser: { id: string; email?: string | null },
+  ticket: { company_id: string; client_id: string | null },
+  { isInternal = false }: { isInternal?: boolean } = {}
+) {
+  const user = await db.query.users.findFirst({
+    where: (users, { eq }) => eq(users.auth_user_id, authUser.id),
+    columns: { id: true },
+  })
+
+  if (user) {
+    const membership = await db.query.memberships.findFirst({
+      where: (memberships, { and, eq }) =>
+        and(
+          eq(memberships.user_id, user.id),
+          eq(memberships.company_id, ticket.company_id),
+          eq(memberships.is_active, true)
+        ),
+      columns: { id: true },
+    })
+    if (membership) return true
+  }
+
+  if (isInternal || !ticket.client_id || !authUser.email) return false
+
+  const client = await db.query.clients.findFirst({
+    where: (clients, { eq }) => eq(clients.id, ticket.client_id!),
+    columns: { portal_enabled: true },
+  })
+  if (!client?.portal_enabled) return false
+
+  const access = await db.query.customerPortalAccess.findFirst({
+    where: (customerPortalAccess, { and, eq }) =>
+      and(
+        eq(customerPortalAccess.client_id, ticket.client_id!),
+        eq(customerPortalAccess.email, authUser.email!),
+        eq(customerPortalAccess.is_active, true)
+      ),
+    columns: { id: true },
+  })
+
+  return !!access
+}
@@ -5,6 +5,10 @@ import { eq, and } from "drizzle-orm"
 import bcrypt from "bcryptjs"
 
 export interface ApiKeyContext {
+  apiKey: {
+    id: string
+    name: string
+  }
   company: {
     id: string
     name: string
@@ -69,6 +73,7 @@ export async function validateApiKey(
       .where(eq(apiKeys.id, keyRecord.id))
 
     return {
+      apiKey: { id: keyRecord.id, name: keyRecord.name },
       company: keyRecord.company,
       permissions: keyRecord.permissions as string[],
     }
@@ -0,0 +1,116 @@
+import { describe, test } from "node:test"
+import assert from "node:assert/strict"
+import { addBusinessMinutes, type BusinessSchedule } from "./business-hours"
+import { calculateSlaDueDates } from "./sla"
+
+// Monday to Friday, 9:00 to 17:00 in New York
+const officeHours: BusinessSchedule = {
+  timezone: "America/New_York",
+  weekly_hours: [1, 2, 3, 4, 5].map((day) => ({
+    day,
+    start: "09:00",
+    end: "17:00",
+  })),
+  holidays: [],
+}
+
+describe("addBusinessMinutes", () => {
+  test("rolls over the weekend to Monday morning", () => {
+    // Friday 16:00 EDT
+    const due = addBusinessMinutes(
+      new Date("2025-06-06T20:00:00Z"),
+      120,
+      officeHours
+    )
+    // Monday 10:00 EDT
+    assert.equal(due.toISOString(), "2025-06-09T14:00:00.000Z")
+  })
+
+  test("opens at local time after a DST change", () => {
+    // Friday 16:00 EST; clocks go forward on Sunday 9 March
+    const due = addBusinessMinutes(
+      new Date("2025-03-07T21:00:00Z"),
+      120,
+      officeHours
+    )
+    // Monday 10:00 EDT
+    assert.equal(due.toISOString(), "2025-03-10T14:00:00.000Z")
+  })
+
+  test("skips a recurring holiday in later years", () => {
+    const schedule = {
+      ...officeHours,
+      holidays: [{ date: "2020-12-25", name: "Christmas", recurring: true }],
+    }
+    // Wednesday 24 December, 16:00 EST
+    const due = addBusinessMinutes(
+      new Date("2025-12-24T21:00:00Z"),
+      120,
+      schedule
+    )
+    // Friday 26 December, 10:00 EST
+    assert.equal(due.toISOString(), "2025-12-26T15:00:00.000Z")
+  })
+
+  test("treats a 24:00 close as midnight at the end of the day", () => {
+    const evenings: BusinessSchedule = {
+      timezone: "UTC",
+      weekly_hours: [1, 2].map((day) => ({
+        day,
+        start: "20:00",
+        end: "24:00",
+      })),
+      holidays: [],
+    }
+    // Monday 23:00: one hour left on Monday, the rest on Tuesday evening
+    const due = addBusinessMinutes(
+      new Date("2025-06-09T23:00:00Z"),
+      90,
+      evenings
+    )
+    assert.equal(due.toISOString(), "2025-06-10T20:30:00.000Z")
+  })
+
+  test("counts every minute when the schedule has no hours", () => {
+    const due = addBusinessMinutes(new Date("2025-06-07T12:00:00Z"), 90, {
+      timezone: "America/New_York",
+      weekly_hours: [],
+      holidays: [],
+    })
+    assert.equal(due.toISOString(), "2025-06-07T13:30:00.000Z")
+  })
+})
+
+describe("calculateSlaDueDates", () => {
+  const policy = { response_time_minutes: 60, resolution_time_minutes: 600 }
+
+  test("counts only working hours with a schedule", () => {
+    // Thursday 16:00 EDT
+    const due = calculateSlaDueDates(
+      policy,
+      new Date("2025-06-05T20:00:00Z"),
+      officeHours
+    )
+    // Thursday 17:00 EDT, and Monday 10:00 EDT after the nine hours left
+    assert.equal(
+      due.sla_response_due_at.toISOString(),
+      "2025-06-05T21:00:00.000Z"
+    )
+    assert.equal(
+      due.sla_resolution_due_at.toISOString(),
+      "2025-06-09T14:00:00.000Z"
+    )
+  })
+
+  test("runs around the clock without a schedule", () => {
+    const due = calculateSlaDueDates(policy, new Date("2025-06-07T12:00:00Z"))
+    assert.equal(
+      due.sla_response_due_at.toISOString(),
+      "2025-06-07T13:00:00.000Z"
+    )
+    assert.equal(
+      due.sla_resolution_due_at.toISOString(),
+      "2025-06-07T22:00:00.000Z"
+    )
+  })
+})
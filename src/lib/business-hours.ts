@@ -0,0 +1,157 @@
+export interface WorkingHoursInterval {
+  day: number // 0 = Sunday ... 6 = Saturday
+  start: string // "HH:mm" local time
+  end: string // "HH:mm" local time, "24:00" for midnight
+}
+
+export interface Holiday {
+  date: string // "YYYY-MM-DD"
+  name?: string
+  recurring?: boolean // Repeats every year on the same month and day
+}
+
+export interface BusinessSchedule {
+  timezone: string
+  weekly_hours: WorkingHoursInterval[]
+  holidays: Holiday[]
+}
+
+const MINUTE_MS = 60 * 1000
+
+// Give up after two years without enough working time (e.g. every day is a holiday)
+const MAX_DAYS_SCANNED = 366 * 2
+
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date)
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0)
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  }
+}
+
+// Milliseconds the timezone is ahead of UTC at the given instant
+function getTimeZoneOffset(date: Date, timeZone: string) {
+  const zoned = getZonedParts(date, timeZone)
+  const asUtc = Date.UTC(
+    zoned.year,
+    zoned.month - 1,
+    zoned.day,
+    zoned.hour,
+    zoned.minute,
+    zoned.second
+  )
+  return asUtc - (date.getTime() - date.getMilliseconds())
+}
+
+// Instant at which the wall clock in timeZone reads the given local date and time
+function zonedTimeToDate(
+  calendarDay: Date,
+  minutesOfDay: number,
+  timeZone: string
+) {
+  const guess = calendarDay.getTime() + minutesOfDay * MINUTE_MS
+  const offset = getTimeZoneOffset(new Date(guess), timeZone)
+  // Re-check the offset at the candidate instant so DST switches land correctly
+  const correctedOffset = getTimeZoneOffset(new Date(guess - offset), timeZone)
+  return guess - correctedOffset
+}
+
+export function parseTimeOfDay(time: string) {
+  const [hours, minutes] = time.split(":").map(Number)
+  return (hours ?? 0) * 60 + (minutes ?? 0)
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function isHoliday(calendarDay: Date, holidays: Holiday[]) {
+  const dateKey = calendarDay.toISOString().slice(0, 10)
+  return holidays.some((holiday) =>
+    holiday.recurring
+      ? holiday.date.slice(5) === dateKey.slice(5)
+      : holiday.date === dateKey
+  )
+}
+
+/**
+ * Adds working minutes to a start time, skipping time outside the schedule's
+ * weekly hours and its holidays. A schedule without any hours counts every minute.
+ */
+export function addBusinessMinutes(
+  start: Date,
+  minutes: number,
+  schedule: BusinessSchedule
+) {
+  if (schedule.weekly_hours.length === 0) {
+    return new Date(start.getTime() + minutes * MINUTE_MS)
+  }
+
+  let remaining = minutes * MINUTE_MS
+  let cursor = start.getTime()
+
+  // UTC midnight of the local calendar day, used only for calendar arithmetic
+  const local = getZonedParts(start, schedule.timezone)
+  const calendarDay = new Date(Date.UTC(local.year, local.month - 1, local.day))
+
+  for (let scanned = 0; scanned < MAX_DAYS_SCANNED; scanned++) {
+    if (!isHoliday(calendarDay, schedule.holidays)) {
+      const intervals = schedule.weekly_hours
+        .filter((interval) => interval.day === calendarDay.getUTCDay())
+        .map((interval) => ({
+          start: parseTimeOfDay(interval.start),
+          end: parseTimeOfDay(interval.end),
+        }))
+        .sort((a, b) => a.start - b.start)
+
+      for (const interval of intervals) {
+        const opensAt = zonedTimeToDate(
+          calendarDay,
+          interval.start,
+          schedule.timezone
+        )
+        const closesAt = zonedTimeToDate(
+          calendarDay,
+          interval.end,
+          schedule.timezone
+        )
+        const from = Math.max(cursor, opensAt)
+
+        if (from >= closesAt) continue
+
+        if (from + remaining <= closesAt) {
+          return new Date(from + remaining)
+        }
+
+        remaining -= closesAt - from
+        cursor = closesAt
+      }
+    }
+
+    calendarDay.setUTCDate(calendarDay.getUTCDate() + 1)
+  }
+
+  return new Date(cursor + remaining)
+}
@@ -0,0 +1,161 @@
+// Shared with the ticket forms, so no server imports here
+
+export const CUSTOM_FIELD_TYPES = [
+  "text",
+  "number",
+  "date",
+  "dropdown",
+  "multi_select",
+  "checkbox",
+  "user",
+] as const
+
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number]
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  dropdown: "Dropdown",
+  multi_select: "Multi-select",
+  checkbox: "Checkbox",
+  user: "Team member",
+}
+
+// Dates are stored as "YYYY-MM-DD" and users as membership IDs
+export type CustomFieldValue = string | number | boolean | string[]
+
+// Stored in `tickets.custom_fields`, keyed by the field's key
+export type CustomFieldValues = Record<string, CustomFieldValue>
+
+export interface CustomFieldDefinition {
+  key: string
+  label: string
+  type: string
+  options: unknown
+  is_required: boolean
+}
+
+const MAX_TEXT_LENGTH = 5000
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Also rejects days that don't exist, which Date would roll over
+function isCalendarDate(value: string) {
+  if (!DATE_PATTERN.test(value)) return false
+  const date = new Date(`${value}T00:00:00Z`)
+  return (
+    !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+  )
+}
+
+export function hasFieldOptions(type: string) {
+  return type === "dropdown" || type === "multi_select"
+}
+
+export function getFieldOptions(field: CustomFieldDefinition) {
+  return Array.isArray(field.options) ? (field.options as string[]) : []
+}
+
+// A field left blank; required fields can't be saved like this
+export function isEmptyCustomFieldValue(value: unknown) {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === "string" && value.trim() === "") ||
+    (Array.isArray(value) && value.length === 0)
+  )
+}
+
+// Readable text for a stored value
+export function formatCustomFieldValue(
+  field: CustomFieldDefinition,
+  value: unknown,
+  members: { id: string; name: string }[] = []
+) {
+  if (isEmptyCustomFieldValue(value)) return "—"
+
+  switch (field.type) {
+    case "checkbox":
+      return value ? "Yes" : "No"
+    case "multi_select":
+      return Array.isArray(value) ? value.join(", ") : String(value)
+    case "user":
+      return (
+        members.find((member) => member.id === value)?.name ?? "Unknown member"
+      )
+    case "date":
+      return typeof value === "string" && DATE_PATTERN.test(value)
+        ? new Date(`${value}T00:00:00`).toLocaleDateString()
+        : String(value)
+    default:
+      return String(value)
+  }
+}
+
+/**
+ * Checks a value against its field's type and options, returning it in the
+ * form it's stored in, or why it can't be. Team member fields only get their
+ * format checked here; the server also checks the membership exists.
+ */
+export function parseCustomFieldValue(
+  field: CustomFieldDefinition,
+  value: unknown
+): { value: CustomFieldValue } | { error: string } {
+  const invalid = (expected: string) => ({
+    error: `${field.label} must be ${expected}`,
+  })
+
+  switch (field.type) {
+    case "text":
+      if (typeof value !== "string") return invalid("text")
+      if (value.length > MAX_TEXT_LENGTH) {
+        return invalid(`at most ${MAX_TEXT_LENGTH} characters`)
+      }
+      return { value: value.trim() }
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return invalid("a number")
+      }
+      return { value }
+    case "date":
+      if (typeof value !== "string" || !isCalendarDate(value)) {
+        return invalid("a date in YYYY-MM-DD format")
+      }
+      return { value }
+    case "dropdown":
+      if (
+        typeof value !== "string" ||
+        !getFieldOptions(field).includes(value)
+      ) {
+        return invalid(`one of: ${getFieldOptions(field).join(", ")}`)
+      }
+      return { value }
+    case "multi_select": {
+      const options = getFieldOptions(field)
+      if (
+        !Array.isArray(value) ||
+        !value.every(
+          (item) => typeof item === "string" && options.includes(item)
+        )
+      ) {
+        return invalid(`a list of: ${options.join(", ")}`)
+      }
+      return { value: Array.from(new Set(value as string[])) }
+    }
+    case "checkbox":
+      if (typeof value !== "boolean") return invalid("true or false")
+      return { value }
+    case "user":
+      if (
+        typeof value !== "string" ||
+        !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+          value
+        )
+      ) {
+        return invalid("a team member ID")
+      }
+      return { value }
+    default:
+      return { error: `${field.label} has an unknown type` }
+  }
+}
@@ -0,0 +1,145 @@
+import { db } from "~/db"
+import { customFieldDefinitions, memberships, tickets } from "~/db/schema"
+import { and, asc, eq, inArray, isNull, or, sql, type SQL } from "drizzle-orm"
+import {
+  isEmptyCustomFieldValue,
+  parseCustomFieldValue,
+  type CustomFieldValues,
+} from "~/lib/custom-field-types"
+
+// Fields shown on a ticket: the company-wide ones plus its client's own
+export async function getCustomFieldDefinitions(
+  companyId: string,
+  clientId?: string | null
+) {
+  return db.query.customFieldDefinitions.findMany({
+    where: and(
+      eq(customFieldDefinitions.company_id, companyId),
+      clientId
+        ? or(
+            isNull(customFieldDefinitions.client_id),
+            eq(customFieldDefinitions.client_id, clientId)
+          )
+        : isNull(customFieldDefinitions.client_id)
+    ),
+    orderBy: [
+      asc(customFieldDefinitions.position),
+      asc(customFieldDefinitions.created_at),
+    ],
+  })
+}
+
+/**
+ * Validates the custom field values sent for a new ticket, or for an update
+ * when `current` holds the ticket's stored values, and merges them over
+ * those. Blank values clear a field. Returns the values to store, or why
+ * they were rejected.
+ */
+export async function resolveCustomFieldValues(
+  ticket: { companyId: string; clientId?: string | null; current?: unknown },
+  input: Record<string, unknown>
+): Promise<{ values: CustomFieldValues } | { error: string }> {
+  const fields = await getCustomFieldDefinitions(
+    ticket.companyId,
+    ticket.clientId
+  )
+  const isNew = ticket.current === undefined
+  const values: CustomFieldValues = {
+    ...((ticket.current ?? {}) as CustomFieldValues),
+  }
+  const memberIds: string[] = []
+
+  for (const [key, value] of Object.entries(input)) {
+    const field = fields.find((field) => field.key === key)
+    if (!field) return { error: `Unknown custom field: ${key}` }
+
+    if (isEmptyCustomFieldValue(value)) {
+      delete values[key]
+      continue
+    }
+
+    const parsed = parseCustomFieldValue(field, value)
+    if ("error" in parsed) return parsed
+    values[key] = parsed.value
+    if (field.type === "user") memberIds.push(parsed.value as string)
+  }
+
+  // Tickets from before a field became required only fail once it's cleared
+  for (const field of fields) {
+    if (
+      field.is_required &&
+      (isNew || field.key in input) &&
+      isEmptyCustomFieldValue(values[field.key])
+    ) {
+      return { error: `${field.label} is required` }
+    }
+  }
+
+  if (memberIds.length > 0) {
+    const members = await db.query.memberships.findMany({
+      where: and(
+        inArray(memberships.id, memberIds),
+        eq(memberships.company_id, ticket.companyId),
+        eq(memberships.is_active, true)
+      ),
+      columns: { id: true },
+    })
+    if (members.length < new Set(memberIds).size) {
+      return { error: "Team member not found" }
+    }
+  }
+
+  return { values }
+}
+
+/**
+ * Conditions matching tickets with the given custom field values. Values
+ * may come from a query string, so numbers and checkboxes are also read
+ * from text. Multi-select fields match tickets that include the value.
+ */
+export async function getCustomFieldConditions(
+  companyId: string,
+  filters: Record<string, string | number | boolean>
+): Promise<{ conditions: SQL[] } | { error: string }> {
+  const keys = Object.keys(filters)
+  if (keys.length === 0) return { conditions: [] }
+
+  const fields = await db.query.customFieldDefinitions.findMany({
+    where: and(
+      eq(customFieldDefinitions.company_id, companyId),
+      inArray(customFieldDefinitions.key, keys)
+    ),
+  })
+
+  const conditions: SQL[] = []
+  for (const key of keys) {
+    const field = fields.find((field) => field.key === key)
+    if (!field) return { error: `Unknown custom field: ${key}` }
+
+    let value: unknown = filters[key]
+    if (typeof value === "string") {
+      if (field.type === "number") value = Number(value)
+      if (
+        field.type === "checkbox" &&
+        (value === "true" || value === "false")
+      ) {
+        value = value === "true"
+      }
+    }
+
+    const parsed = parseCustomFieldValue(
+      field,
+      field.type === "multi_select" ? [value] : value
+    )
+    if ("error" in parsed) return parsed
+
+    // Tickets saved before a checkbox existed have no value for it
+    const matches = (value: unknown) =>
+      sql`${tickets.custom_fields} @> ${JSON.stringify({ [key]: value })}::jsonb`
+    conditions.push(
+      parsed.value === false ? sql`not ${matches(true)}` : matches(parsed.value)
+    )
+  }
+
+  return { conditions }
+}
@@ -0,0 +1,136 @@
+import { db } from "~/db"
+import { emailTemplates, tickets } from "~/db/schema"
+import { and, eq } from "drizzle-orm"
+import { emailService } from "~/lib/email"
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  TICKET_STATUS_LABELS,
+  renderEmailTemplate,
+  type CustomerNotificationEvent,
+  type EmailTemplate,
+  type EmailTemplateVariables,
+} from "~/lib/email-templates"
+import { getFollowerContacts } from "~/lib/ticket-followers"
+
+export interface CustomerNotificationDetails {
+  // The public reply, for agent_reply
+  reply?: { content: string; authorName: string }
+}
+
+// The company's override for a notification type, or the built-in one
+export async function getEmailTemplate(
+  companyId: string,
+  type: CustomerNotificationEvent
+): Promise<EmailTemplate> {
+  const override = await db.query.emailTemplates.findFirst({
+    where: and(
+      eq(emailTemplates.company_id, companyId),
+      eq(emailTemplates.type, type)
+    ),
+    columns: { subject: true, body: true },
+  })
+  return override ?? DEFAULT_EMAIL_TEMPLATES[type]
+}
+
+/**
+ * Emails the ticket's customer and contact followers about an event, unless
+ * the company turned the event off. Anyone who unsubscribed from the ticket
+ * is skipped. Never throws, so a mail failure can't undo the change that
+ * triggered it. Returns whether an email was sent.
+ */
+export async function notifyCustomer(
+  ticketId: string,
+  event: CustomerNotificationEvent,
+  details: CustomerNotificationDetails = {}
+) {
+  try {
+    const ticket = await db.query.tickets.findFirst({
+      where: eq(tickets.id, ticketId),
+      with: {
+        company: true,
+        client: { columns: { slug: true, portal_enabled: true } },
+      },
+    })
+
+    if (!ticket) return false
+
+    const enabledEvents = ticket.company
+      .customer_notification_events as string[]
+    if (!enabledEvents.includes(event)) return false
+
+    const recipients = [
+      ...(ticket.customer_email && !ticket.customer_notifications_muted
+        ? [
+            {
+              email: ticket.customer_email,
+              name: ticket.customer_name,
+              notification_token: ticket.customer_notification_token,
+            },
+          ]
+        : []),
+      ...(await getFollowerContacts(ticket.id)),
+    ]
+    if (recipients.length === 0) return false
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL
+    const ticketUrl = ticket.client?.portal_enabled
+      ? `${appUrl}/portal/${ticket.company.slug}/${ticket.client.slug}?ticket=${ticket.id}`
+      : null
+
+    const template = await getEmailTemplate(ticket.company_id, event)
+    let sent = false
+    for (const recipient of recipients) {
+      const variables: EmailTemplateVariables = {
+        ticket: {
+          id: ticket.id,
+          subject: ticket.subject,
+          status: TICKET_STATUS_LABELS[ticket.status] ?? ticket.status,
+          priority: ticket.priority,
+        },
+        customer: {
+          name: recipient.name || "there",
+          email: recipient.email,
+        },
+        company: { name: ticket.company.name },
+        portal_url: ticketUrl ?? "",
+        reply: {
+          content: details.reply?.content ?? "",
+          author: details.reply?.authorName ?? "",
+        },
+      }
+
+      // One follower's bad address shouldn't stop the others' emails
+      try {
+        await emailService.sendTicketNotification({
+          to: recipient.email,
+          ...renderEmailTemplate(template, variables),
+          companyName: ticket.company.name,
+          logoUrl: ticket.company.logo_url,
+          primaryColor: ticket.company.primary_color,
+          ticketUrl,
+          unsubscribeUrl: `${appUrl}/unsubscribe/${recipient.notification_token}`,
+        })
+        sent = true
+      } catch (error) {
+        console.error(`Failed to email ${event} notification:`, error)
+      }
+    }
+
+    return sent
+  } catch (error) {
+    console.error(`Failed to send ${event} notification:`, error)
+    return false
+  }
+}
+
+// Resolving gets its own email; other status moves share one
+export async function notifyCustomerOfStatusChange(
+  before: { status: string },
+  after: { id: string; status: string }
+) {
+  if (before.status === after.status) return false
+  return notifyCustomer(
+    after.id,
+    after.status === "resolved" ? "ticket_resolved" : "status_changed"
+  )
+}
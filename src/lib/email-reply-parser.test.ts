@@ -0,0 +1,24 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { readFileSync } from "fs"
+import { parseEmailReply } from "./email-reply-parser"
+
+interface EmailReplyFixture {
+  name: string
+  body: string
+  // The comment we expect to keep
+  expected: string
+}
+
+const fixtures: EmailReplyFixture[] = JSON.parse(
+  readFileSync(
+    new URL("./__fixtures__/email-replies.json", import.meta.url),
+    "utf8"
+  )
+)
+
+for (const fixture of fixtures) {
+  test(fixture.name, () => {
+    assert.equal(parseEmailReply(fixture.body).content, fixture.expected)
+  })
+}
@@ -0,0 +1,123 @@
+export interface ParsedEmailReply {
+  // What the sender wrote, without quoted history or signature
+  content: string
+  // Whether anything was removed; when false `content` is the whole body
+  stripped: boolean
+}
+
+// "On Tue, 3 Jun 2025 at 10:00, Jane <jane@acme.com> wrote:" and translations
+const QUOTE_HEADER_PATTERNS = [
+  /^On\s.+\swrote:$/i,
+  /^Le\s.+\sa écrit\s?:$/i,
+  /^Am\s.+\sschrieb\s.+:$/i,
+  /^El\s.+\sescribió:$/i,
+  /^Op\s.+\sschreef\s.+:$/i,
+  /^Il giorno\s.+\sha scritto:$/i,
+]
+
+const ORIGINAL_MESSAGE_PATTERN =
+  /^-{2,}\s*(Original Message|Ursprüngliche Nachricht|Message d'origine)\s*-{2,}$/i
+
+// Forwarded mail is what the sender wants us to read, so it is never history
+const FORWARD_PATTERN =
+  /^(-{2,}\s*Forwarded message\s*-{2,}|Begin forwarded message:)$/i
+
+// Outlook header block fields, in any order after "From:"
+const OUTLOOK_FIELD_PATTERN = /^\*?(Sent|Date|To|Subject|Cc)\*?:/i
+
+// Footers added by mobile and webmail clients
+const CLIENT_FOOTER_PATTERNS = [
+  /^Sent from my (iPhone|iPad|Android|Samsung|mobile|BlackBerry)/i,
+  /^Sent from (Mail|Outlook|Yahoo Mail|Gmail|ProtonMail|Proton Mail)\b/i,
+  /^Get Outlook for (iOS|Android)/i,
+  /^Sent with Proton Mail/i,
+  /^Sent via /i,
+]
+
+function isQuoted(line: string) {
+  return line.trimStart().startsWith(">")
+}
+
+// Gmail and Apple Mail wrap long "On ... wrote:" lines over two or three lines
+function isQuoteHeaderAt(lines: string[], index: number) {
+  for (let span = 1; span <= 3 && index + span <= lines.length; span++) {
+    const joined = lines
+      .slice(index, index + span)
+      .map((line) => line.trim())
+      .join(" ")
+    if (QUOTE_HEADER_PATTERNS.some((pattern) => pattern.test(joined))) {
+      return true
+    }
+  }
+  return false
+}
+
+// "From: ..." followed by at least two of Sent/To/Subject within a few lines
+function isOutlookHeaderAt(lines: string[], index: number) {
+  if (!/^\*?From\*?:/i.test(lines[index]!.trim())) return false
+  const following = lines
+    .slice(index + 1, index + 6)
+    .filter((line) => OUTLOOK_FIELD_PATTERN.test(line.trim()))
+  return following.length >= 2
+}
+
+function findQuoteStart(lines: string[]) {
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!.trim()
+
+    if (FORWARD_PATTERN.test(line)) break
+
+    if (
+      ORIGINAL_MESSAGE_PATTERN.test(line) ||
+      isQuoteHeaderAt(lines, i) ||
+      isOutlookHeaderAt(lines, i)
+    ) {
+      // Outlook often draws a rule of underscores above its header block
+      return i > 0 && /^_{10,}$/.test(lines[i - 1]!.trim()) ? i - 1 : i
+    }
+
+    // A ">" block only counts as history when nothing but quotes follows it;
+    // quotes with answers between them are an inline reply and stay
+    if (
+      isQuoted(line) &&
+      lines.slice(i).every((rest) => !rest.trim() || isQuoted(rest))
+    ) {
+      return i
+    }
+  }
+  return lines.length
+}
+
+function findSignatureStart(lines: string[]) {
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!
+    // RFC 3676 delimiter "-- ", which some clients send without the space
+    if (line === "-- " || line === "--") return i
+    if (CLIENT_FOOTER_PATTERNS.some((pattern) => pattern.test(line.trim()))) {
+      return i
+    }
+  }
+  return lines.length
+}
+
+/**
+ * Splits what the sender wrote in an email reply from the quoted thread and
+ * signature their mail client appended. Takes the plain text produced by
+ * `extractMessageText`.
+ */
+export function parseEmailReply(body: string): ParsedEmailReply {
+  const normalized = body.replace(/\r\n?/g, "\n").trim()
+  const lines = normalized.split("\n")
+
+  const withoutQuote = lines.slice(0, findQuoteStart(lines))
+  const withoutSignature = withoutQuote.slice(
+    0,
+    findSignatureStart(withoutQuote)
+  )
+  const content = withoutSignature.join("\n").trim()
+
+  // Nothing left means we misread the message; show it as it came
+  if (!content) return { content: normalized, stripped: false }
+
+  return { content, stripped: content !== normalized }
+}
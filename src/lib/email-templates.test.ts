@@ -0,0 +1,59 @@
+import { describe, test } from "node:test"
+import assert from "node:assert/strict"
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  SAMPLE_TEMPLATE_VARIABLES,
+  renderEmailTemplate,
+  renderTemplateString,
+} from "./email-templates"
+
+const variables = {
+  ...SAMPLE_TEMPLATE_VARIABLES,
+  ticket: {
+    ...SAMPLE_TEMPLATE_VARIABLES.ticket,
+    subject: "<script>alert(1)</script> & more",
+  },
+}
+
+describe("renderTemplateString", () => {
+  test("escapes values in HTML bodies", () => {
+    assert.equal(
+      renderTemplateString("<p>{{ticket.subject}}</p>", variables, {
+        html: true,
+      }),
+      "<p>&lt;script&gt;alert(1)&lt;/script&gt; &amp; more</p>"
+    )
+  })
+
+  test("keeps values as plain text in subject lines", () => {
+    assert.equal(
+      renderTemplateString("Re: {{ ticket.subject }}", variables),
+      "Re: <script>alert(1)</script> & more"
+    )
+  })
+
+  test("keeps line breaks in HTML and renders unknown names empty", () => {
+    const reply = { ...variables.reply, content: "First line\nSecond line" }
+    assert.equal(
+      renderTemplateString(
+        "<p>{{reply.content}}</p>{{ticket.missing}}",
+        { ...variables, reply },
+        { html: true }
+      ),
+      "<p>First line<br>Second line</p>"
+    )
+  })
+})
+
+test("renderEmailTemplate escapes the body but not the subject", () => {
+  const rendered = renderEmailTemplate(
+    DEFAULT_EMAIL_TEMPLATES.ticket_created,
+    variables
+  )
+  assert.equal(
+    rendered.subject,
+    "We received your request: <script>alert(1)</script> & more"
+  )
+  assert.ok(!rendered.bodyHtml.includes("<script>"))
+  assert.match(rendered.bodyHtml, /<strong>&lt;script&gt;alert\(1\)/)
+})
@@ -0,0 +1,129 @@
+// Kept free of server imports so the template editor can render previews
+import { escapeHtml } from "~/lib/utils"
+
+export const CUSTOMER_NOTIFICATION_EVENTS = [
+  "ticket_created",
+  "agent_reply",
+  "status_changed",
+  "ticket_resolved",
+] as const
+
+export type CustomerNotificationEvent =
+  (typeof CUSTOMER_NOTIFICATION_EVENTS)[number]
+
+export interface EmailTemplate {
+  subject: string
+  // HTML as produced by the tiptap editor
+  body: string
+}
+
+export interface EmailTemplateVariables {
+  ticket: { id: string; subject: string; status: string; priority: string }
+  customer: { name: string; email: string }
+  company: { name: string }
+  portal_url: string
+  reply: { content: string; author: string }
+}
+
+export const EMAIL_TEMPLATE_VARIABLES: {
+  name: string
+  description: string
+}[] = [
+  { name: "ticket.subject", description: "Ticket subject" },
+  { name: "ticket.status", description: "Ticket status, e.g. In progress" },
+  { name: "ticket.priority", description: "Ticket priority" },
+  { name: "ticket.id", description: "Ticket ID" },
+  { name: "customer.name", description: "Customer name" },
+  { name: "customer.email", description: "Customer email" },
+  { name: "company.name", description: "Your company name" },
+  { name: "portal_url", description: "Link to the ticket in the portal" },
+  { name: "reply.content", description: "Agent reply text (agent reply)" },
+  { name: "reply.author", description: "Agent name (agent reply)" },
+]
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<
+  CustomerNotificationEvent,
+  EmailTemplate
+> = {
+  ticket_created: {
+    subject: "We received your request: {{ticket.subject}}",
+    body: "<p>Hi {{customer.name}},</p><p>Thanks for contacting us. We've received your ticket <strong>{{ticket.subject}}</strong> and will get back to you soon.</p>",
+  },
+  agent_reply: {
+    subject: "New reply on your ticket: {{ticket.subject}}",
+    body: "<p>Hi {{customer.name}},</p><p>{{reply.author}} replied to your ticket <strong>{{ticket.subject}}</strong>:</p><blockquote><p>{{reply.content}}</p></blockquote>",
+  },
+  status_changed: {
+    subject: "Your ticket is now {{ticket.status}}: {{ticket.subject}}",
+    body: "<p>Hi {{customer.name}},</p><p>The status of your ticket <strong>{{ticket.subject}}</strong> changed to <strong>{{ticket.status}}</strong>.</p>",
+  },
+  ticket_resolved: {
+    subject: "Your ticket has been resolved: {{ticket.subject}}",
+    body: "<p>Hi {{customer.name}},</p><p>Your ticket <strong>{{ticket.subject}}</strong> has been resolved. If the problem isn't fixed, reply from the portal and we'll reopen it.</p>",
+  },
+}
+
+// Stand-in values for previews and test sends
+export const SAMPLE_TEMPLATE_VARIABLES: EmailTemplateVariables = {
+  ticket: {
+    id: "00000000-0000-0000-0000-000000000000",
+    subject: "Can't export the monthly report",
+    status: "In progress",
+    priority: "high",
+  },
+  customer: { name: "Jane Doe", email: "jane@example.com" },
+  company: { name: "Your Company" },
+  portal_url: "https://example.com/portal",
+  reply: {
+    content:
+      "Thanks for the details. We've found the cause and a fix is on its way.",
+    author: "Alex from Support",
+  },
+}
+
+export const TICKET_STATUS_LABELS: Record<string, string> = {
+  open: "Open",
+  in_progress: "In progress",
+  resolved: "Resolved",
+  closed: "Closed",
+}
+
+function lookupVariable(variables: EmailTemplateVariables, path: string) {
+  let value: unknown = variables
+  for (const key of path.split(".")) {
+    if (typeof value !== "object" || value === null || !(key in value)) {
+      return ""
+    }
+    value = (value as Record<string, unknown>)[key]
+  }
+  return typeof value === "string" ? value : ""
+}
+
+/**
+ * Replaces `{{name}}` placeholders with values. Only plain lookups are
+ * supported, and unknown names render empty. With `html`, values are escaped
+ * and line breaks kept.
+ */
+export function renderTemplateString(
+  template: string,
+  variables: EmailTemplateVariables,
+  { html = false }: { html?: boolean } = {}
+) {
+  return template.replace(
+    /\{\{\s*([a-z_]+(?:\.[a-z_]+)*)\s*\}\}/g,
+    (_match, path: string) => {
+      const value = lookupVariable(variables, path)
+      return html ? escapeHtml(value).replace(/\n/g, "<br>") : value
+    }
+  )
+}
+
+export function renderEmailTemplate(
+  template: EmailTemplate,
+  variables: EmailTemplateVariables
+) {
+  return {
+    subject: renderTemplateString(template.subject, variables),
+    bodyHtml: renderTemplateString(template.body, variables, { html: true }),
+  }
+}
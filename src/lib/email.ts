@@ -1,4 +1,5 @@
 import { Resend } from "resend"
+import { escapeHtml } from "~/lib/utils"
 
 const resend = new Resend(process.env.RESEND_API_KEY || "")
 
@@ -234,4 +235,203 @@ export const emailService = {
       throw error
     }
   },
+
+  async sendEscalationNotice({
+    to,
+    companyName,
+    ticketId,
+    ticketSubject,
+    priority,
+    level,
+    assigneeName,
+  }: {
+    to: string | string[]
+    companyName: string
+    ticketId: string
+    ticketSubject: string
+    priority: string
+    level: number
+    assigneeName?: string | null
+  }) {
+    try {
+      const ticketUrl = `${process.env.NEXT_PUBLIC_APP_URL}/tickets?ticket=${ticketId}`
+
+      const { data, error } = await resend.emails.send({
+        from: process.env.FROM_EMAIL || "noreply@resend.dev",
+        to,
+        subject: `[Escalation L${level}] ${ticketSubject}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2>Ticket escalated to level ${level}</h2>
+            <p>A ${escapeHtml(priority)} priority ticket at ${escapeHtml(companyName)} has been unresolved past its escalation timeout.</p>
+
+            <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0;">
+              <ul style="margin: 0; padding-left: 20px;">
+                <li><strong>Subject:</strong> ${escapeHtml(ticketSubject)}</li>
+                <li><strong>Priority:</strong> ${escapeHtml(priority)}</li>
+                <li><strong>Escalation level:</strong> ${level}</li>
+                <li><strong>Assigned to:</strong> ${escapeHtml(assigneeName || "Unchanged")}</li>
+              </ul>
+            </div>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${ticketUrl}"
+                 style="background-color: #ef4444; color: white; padding: 12px 24px;
+                        text-decoration: none; border-radius: 6px; display: inline-block;">
+                View Ticket
+              </a>
+            </div>
+
+            <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
+            <p style="color: #666; font-size: 12px;">
+              You are receiving this email because you are listed on an escalation policy for ${escapeHtml(companyName)}.
+            </p>
+          </div>
+        `,
+      })
+
+      if (error) {
+        console.error("Escalation email failed:", error)
+        throw error
+      }
+
+      return { success: true, data }
+    } catch (error) {
+      console.error("Escalation email service error:", error)
+      throw error
+    }
+  },
+
+  /**
+   * Ticket update sent to a customer in the company's colors. `bodyHtml` is
+   * inserted as is, so callers escape anything user-provided.
+   */
+  async sendTicketNotification({
+    to,
+    subject,
+    bodyHtml,
+    companyName,
+    logoUrl,
+    primaryColor,
+    ticketUrl,
+    unsubscribeUrl,
+  }: {
+    to: string
+    subject: string
+    bodyHtml: string
+    companyName: string
+    logoUrl?: string | null
+    primaryColor?: string | null
+    ticketUrl?: string | null
+    unsubscribeUrl: string
+  }) {
+    try {
+      const color = primaryColor || "#3b82f6"
+
+      const { data, error } = await resend.emails.send({
+        from: process.env.FROM_EMAIL || "noreply@resend.dev",
+        to,
+        subject,
+        headers: { "List-Unsubscribe": `<${unsubscribeUrl}>` },
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <div style="border-bottom: 3px solid ${color}; padding: 16px 0; margin-bottom: 24px;">
+              ${
+                logoUrl
+                  ? `<img src="${escapeHtml(logoUrl)}" alt="${escapeHtml(companyName)}" style="max-height: 40px;">`
+                  : `<strong style="font-size: 18px; color: ${color};">${escapeHtml(companyName)}</strong>`
+              }
+            </div>
+
+            ${bodyHtml}
+
+            ${
+              ticketUrl
+                ? `<div style="text-align: center; margin: 30px 0;">
+              <a href="${ticketUrl}"
+                 style="background-color: ${color}; color: white; padding: 12px 24px;
+                        text-decoration: none; border-radius: 6px; display: inline-block;">
+                View Ticket
+              </a>
+            </div>`
+                : ""
+            }
+
+            <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
+            <p style="color: #666; font-size: 12px;">
+              You are receiving this email because you opened a support ticket with ${escapeHtml(companyName)}.
+              <a href="${unsubscribeUrl}" style="color: #666;">Unsubscribe from updates on this ticket</a>
+            </p>
+          </div>
+        `,
+      })
+
+      if (error) {
+        console.error("Ticket notification email failed:", error)
+        throw error
+      }
+
+      return { success: true, data }
+    } catch (error) {
+      console.error("Ticket notification email service error:", error)
+      throw error
+    }
+  },
+
+  // Assignment, reply and SLA alerts for team members
+  async sendAgentNotification({
+    to,
+    subject,
+    title,
+    message,
+    url,
+    companyName,
+  }: {
+    to: string
+    subject: string
+    title: string
+    message: string
+    url: string
+    companyName: string
+  }) {
+    try {
+      const { data, error } = await resend.emails.send({
+        from: process.env.FROM_EMAIL || "noreply@resend.dev",
+        to,
+        subject,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2>${escapeHtml(title)}</h2>
+
+            <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0; white-space: pre-line;">
+              ${escapeHtml(message)}
+            </div>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${url}"
+                 style="background-color: #3b82f6; color: white; padding: 12px 24px;
+                        text-decoration: none; border-radius: 6px; display: inline-block;">
+                Open in ${escapeHtml(companyName)}
+              </a>
+            </div>
+
+            <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
+            <p style="color: #666; font-size: 12px;">
+              You can change which notifications you get by email on your team member page.
+            </p>
+          </div>
+        `,
+      })
+
+      if (error) {
+        console.error("Agent notification email failed:", error)
+        throw error
+      }
+
+      return { success: true, data }
+    } catch (error) {
+      console.error("Agent notification email service error:", error)
+      throw error
+    }
+  },
 }
@@ -0,0 +1,294 @@
+import { db } from "~/db"
+import {
+  escalationPolicies,
+  memberships,
+  tickets,
+  ticketComments,
+  users,
+} from "~/db/schema"
+import { and, eq, inArray, isNotNull, isNull } from "drizzle-orm"
+import { emailService } from "~/lib/email"
+import { recordTicketChanges } from "~/lib/ticket-events"
+import { notifyAssignment } from "~/lib/agent-notifications"
+import { publishNotification, ticketLink } from "~/lib/notifications"
+import { getFollowerMembershipIds } from "~/lib/ticket-followers"
+
+export interface EscalationRule {
+  level: number
+  timeoutMinutes: number
+  assignToUserId?: string
+  assignToRole?: "admin" | "agent"
+  notifyEmails?: string[]
+}
+
+type EscalationPolicy = typeof escalationPolicies.$inferSelect
+type TicketPriority = (typeof tickets.$inferSelect)["priority"]
+
+// Statuses that keep a ticket on the escalation clock
+const ACTIVE_STATUSES = ["open", "in_progress"] as const
+
+/**
+ * Picks the most specific active escalation policy for a ticket: one scoped to
+ * its client and priority, then client only, then priority only, then a
+ * company-wide policy.
+ */
+export function matchEscalationPolicy(
+  policies: EscalationPolicy[],
+  ticket: { client_id: string | null; priority: TicketPriority }
+) {
+  let bestMatch: EscalationPolicy | undefined
+  let bestScore = -1
+
+  for (const policy of policies) {
+    if (!policy.is_active) continue
+
+    const priorities = (policy.priorities as TicketPriority[]) ?? []
+    if (policy.client_id && policy.client_id !== ticket.client_id) continue
+    if (priorities.length > 0 && !priorities.includes(ticket.priority)) continue
+
+    const score = (policy.client_id ? 2 : 0) + (priorities.length > 0 ? 1 : 0)
+    if (score > bestScore) {
+      bestMatch = policy
+      bestScore = score
+    }
+  }
+
+  return bestMatch
+}
+
+// Team members among a rule's notify list, so they also get it in-app
+async function findMembershipIdsByEmail(companyId: string, emails: string[]) {
+  if (emails.length === 0) return []
+
+  const rows = await db
+    .select({ id: memberships.id })
+    .from(memberships)
+    .innerJoin(users, eq(users.id, memberships.user_id))
+    .where(
+      and(
+        eq(memberships.company_id, companyId),
+        eq(memberships.is_active, true),
+        inArray(users.email, emails)
+      )
+    )
+  return rows.map((row) => row.id)
+}
+
+// Resolve the membership a rule escalates to within the ticket's company
+async function findEscalationAssignee(companyId: string, rule: EscalationRule) {
+  if (rule.assignToUserId) {
+    const membership = await db.query.memberships.findFirst({
+      where: (memberships, { and, eq, or }) =>
+        and(
+          eq(memberships.company_id, companyId),
+          eq(memberships.is_active, true),
+          or(
+            eq(memberships.user_id, rule.assignToUserId!),
+            eq(memberships.id, rule.assignToUserId!)
+          )
+        ),
+      with: { user: true },
+    })
+    if (membership) return membership
+  }
+
+  if (rule.assignToRole) {
+    const candidates = await db.query.memberships.findMany({
+      where: (memberships, { and, eq }) =>
+        and(
+          eq(memberships.company_id, companyId),
+          eq(memberships.role, rule.assignToRole!),
+          eq(memberships.is_active, true)
+        ),
+      with: { user: true },
+    })
+
+    if (candidates.length === 0) return null
+
+    // Hand the ticket to whoever in the role has the fewest active tickets
+    const activeTickets = await db.query.tickets.findMany({
+      where: and(
+        eq(tickets.company_id, companyId),
+        inArray(tickets.status, [...ACTIVE_STATUSES]),
+        inArray(
+          tickets.assigned_to_membership_id,
+          candidates.map((c) => c.id)
+        )
+      ),
+      columns: { assigned_to_membership_id: true },
+    })
+
+    const workload = new Map<string, number>()
+    activeTickets.forEach((t) => {
+      const id = t.assigned_to_membership_id!
+      workload.set(id, (workload.get(id) ?? 0) + 1)
+    })
+
+    return candidates.reduce((least, candidate) =>
+      (workload.get(candidate.id) ?? 0) < (workload.get(least.id) ?? 0)
+        ? candidate
+        : least
+    )
+  }
+
+  return null
+}
+
+/**
+ * Attaches matching escalation policies to running tickets that have none, then
+ * escalates every ticket that has stayed unresolved past its next step's
+ * timeout (measured from ticket creation).
+ */
+export async function runEscalations(now = new Date()) {
+  const activePolicies = await db.query.escalationPolicies.findMany({
+    where: eq(escalationPolicies.is_active, true),
+  })
+
+  const policiesByCompany = new Map<string, EscalationPolicy[]>()
+  activePolicies.forEach((policy) => {
+    const list = policiesByCompany.get(policy.company_id) ?? []
+    list.push(policy)
+    policiesByCompany.set(policy.company_id, list)
+  })
+
+  // Attach policies to tickets that don't have one yet
+  let policiesAttached = 0
+  if (policiesByCompany.size > 0) {
+    const unattachedTickets = await db.query.tickets.findMany({
+      where: and(
+        isNull(tickets.escalation_policy_id),
+        inArray(tickets.status, [...ACTIVE_STATUSES]),
+        inArray(tickets.company_id, Array.from(policiesByCompany.keys()))
+      ),
+      columns: { id: true, company_id: true, client_id: true, priority: true },
+    })
+
+    for (const ticket of unattachedTickets) {
+      const policy = matchEscalationPolicy(
+        policiesByCompany.get(ticket.company_id) ?? [],
+        ticket
+      )
+      if (!policy) continue
+
+      await db
+        .update(tickets)
+        .set({ escalation_policy_id: policy.id, escalation_level: 0 })
+        .where(eq(tickets.id, ticket.id))
+
+      policiesAttached++
+    }
+  }
+
+  const candidates = await db.query.tickets.findMany({
+    where: and(
+      isNotNull(tickets.escalation_policy_id),
+      inArray(tickets.status, [...ACTIVE_STATUSES])
+    ),
+    with: {
+      escalationPolicy: true,
+      company: { columns: { id: true, name: true } },
+    },
+  })
+
+  let ticketsEscalated = 0
+  let emailsSent = 0
+
+  for (const ticket of candidates) {
+    const policy = ticket.escalationPolicy
+    if (!policy?.is_active) continue
+
+    const currentLevel = ticket.escalation_level ?? 0
+    const minutesOpen = (now.getTime() - ticket.created_at.getTime()) / 60000
+
+    // Jump straight to the highest step that is due, in case runs were missed
+    const dueRule = (policy.escalation_rules as EscalationRule[])
+      .filter(
+        (rule) =>
+          rule.level > currentLevel && rule.timeoutMinutes <= minutesOpen
+      )
+      .sort((a, b) => b.level - a.level)[0]
+
+    if (!dueRule) continue
+
+    try {
+      const assignee = await findEscalationAssignee(ticket.company_id, dueRule)
+      const assigneeName = assignee
+        ? `${assignee.user.first_name} ${assignee.user.last_name}`
+        : null
+
+      const [escalatedTicket] = await db
+        .update(tickets)
+        .set({
+          escalation_level: dueRule.level,
+          ...(assignee && {
+            assigned_to_membership_id: assignee.id,
+            assigned_to_customer_portal_access_id: null,
+          }),
+          updated_at: now,
+        })
+        .where(eq(tickets.id, ticket.id))
+        .returning()
+
+      await recordTicketChanges(ticket, escalatedTicket, { type: "system" })
+      await notifyAssignment(ticket, escalatedTicket)
+
+      await db.insert(ticketComments).values({
+        company_id: ticket.company_id,
+        ticket_id: ticket.id,
+        content: `Escalated to level ${dueRule.level} by policy "${policy.name}" after ${dueRule.timeoutMinutes} minutes unresolved.${
+          assigneeName ? ` Reassigned to ${assigneeName}.` : ""
+        }`,
+        is_internal: true,
+        is_system: true,
+      })
+
+      await publishNotification({
+        companyId: ticket.company_id,
+        membershipIds: [
+          ...(escalatedTicket.assigned_to_membership_id
+            ? [escalatedTicket.assigned_to_membership_id]
+            : []),
+          ...(await findMembershipIdsByEmail(
+            ticket.company_id,
+            dueRule.notifyEmails ?? []
+          )),
+          ...(await getFollowerMembershipIds(ticket.id)),
+        ],
+        type: "escalation",
+        title: `Escalated to level ${dueRule.level}: ${ticket.subject}`,
+        body: `Unresolved for ${dueRule.timeoutMinutes} minutes under policy "${policy.name}".`,
+        link: ticketLink(ticket.id),
+        ticketId: ticket.id,
+      })
+
+      if (dueRule.notifyEmails?.length) {
+        try {
+          await emailService.sendEscalationNotice({
+            to: dueRule.notifyEmails,
+            companyName: ticket.company.name,
+            ticketId: ticket.id,
+            ticketSubject: ticket.subject,
+            priority: ticket.priority,
+            level: dueRule.level,
+            assigneeName,
+          })
+          emailsSent += dueRule.notifyEmails.length
+        } catch (emailError) {
+          // The escalation itself already happened; don't retry it for a mail failure
+          console.error("Failed to send escalation email:", emailError)
+        }
+      }
+
+      ticketsEscalated++
+    } catch (error) {
+      console.error(`Error escalating ticket ${ticket.id}:`, error)
+    }
+  }
+
+  return {
+    policiesAttached,
+    ticketsEscalated,
+    emailsSent,
+    evaluatedAt: now.toISOString(),
+  }
+}
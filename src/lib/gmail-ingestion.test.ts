@@ -0,0 +1,275 @@
+import { before, describe, test } from "node:test"
+import assert from "node:assert/strict"
+import type { gmail_v1 } from "googleapis"
+import { eq } from "drizzle-orm"
+import {
+  clients,
+  companies,
+  db,
+  emailThreads,
+  gmailIntegration,
+  ticketComments,
+  tickets,
+} from "~/db"
+import { migrateTestDb } from "~/db/test-db"
+import {
+  appendThreadReplies,
+  ingestGmail,
+  type GmailReader,
+} from "./gmail-ingestion"
+
+const OWN_EMAIL = "support@helpdesk.test"
+
+function gmailMessage(
+  id: string,
+  threadId: string,
+  { from, body, sent = false }: { from: string; body: string; sent?: boolean }
+): gmail_v1.Schema$Message {
+  return {
+    id,
+    threadId,
+    labelIds: sent ? ["SENT"] : ["INBOX"],
+    internalDate: String(Date.now()),
+    payload: {
+      mimeType: "text/plain",
+      headers: [
+        { name: "From", value: from },
+        { name: "Subject", value: "Printer is offline" },
+        { name: "Date", value: "Tue, 3 Jun 2025 10:00:00 +0000" },
+      ],
+      body: { data: Buffer.from(body).toString("base64") },
+    },
+  }
+}
+
+// A mailbox held in memory. `receive` adds mail the way Gmail would, with a
+// history entry for the next incremental sync.
+class FakeGmail implements GmailReader {
+  private messages: gmail_v1.Schema$Message[] = []
+  private history: { id: number; messageId: string }[] = []
+  private historyId = 100
+  failingMessageIds = new Set<string>()
+
+  receive(message: gmail_v1.Schema$Message) {
+    this.messages.push(message)
+    this.history.push({ id: ++this.historyId, messageId: message.id! })
+  }
+
+  // The same history entry again, as a retried webhook would deliver it
+  redeliver(messageId: string) {
+    this.history.push({ id: ++this.historyId, messageId })
+  }
+
+  users = {
+    getProfile: async () => ({
+      data: { historyId: String(this.historyId) },
+    }),
+    history: {
+      list: async (params: gmail_v1.Params$Resource$Users$History$List) => ({
+        data: {
+          history: this.history
+            .filter((entry) => entry.id > Number(params.startHistoryId))
+            .map((entry) => ({
+              messagesAdded: [{ message: { id: entry.messageId } }],
+            })),
+          historyId: String(this.historyId),
+        },
+      }),
+    },
+    messages: {
+      list: async () => ({
+        data: {
+          messages: this.messages
+            .filter((message) => message.labelIds?.includes("INBOX"))
+            .map((message) => ({ id: message.id }))
+            .reverse(),
+        },
+      }),
+      get: async (params: gmail_v1.Params$Resource$Users$Messages$Get) => {
+        if (this.failingMessageIds.has(params.id!)) {
+          throw new Error("Backend Error")
+        }
+        const message = this.messages.find((m) => m.id === params.id)
+        if (!message) throw Object.assign(new Error("Not Found"), { code: 404 })
+        return { data: message }
+      },
+      attachments: {
+        get: async () => ({ data: {} }),
+      },
+    },
+    threads: {
+      get: async (params: gmail_v1.Params$Resource$Users$Threads$Get) => ({
+        data: {
+          id: params.id,
+          messages: this.messages.filter((m) => m.threadId === params.id),
+        },
+      }),
+    },
+  }
+}
+
+describe("ingestGmail", () => {
+  const gmail = new FakeGmail()
+  let integrationId: string
+
+  const loadIntegration = async () =>
+    (await db.query.gmailIntegration.findFirst({
+      where: eq(gmailIntegration.id, integrationId),
+    }))!
+
+  const loadComments = (ticketId: string) =>
+    db.query.ticketComments.findMany({
+      where: eq(ticketComments.ticket_id, ticketId),
+      columns: { content: true, gmail_message_id: true },
+    })
+
+  before(async () => {
+    await migrateTestDb()
+
+    const [company] = await db
+      .insert(companies)
+      .values({
+        name: "Helpdesk",
+        slug: "helpdesk",
+        size: "1-10",
+        // Keeps the test from sending email
+        customer_notification_events: [],
+      })
+      .returning()
+    await db.insert(clients).values({
+      company_id: company!.id,
+      name: "Acme",
+      slug: "acme",
+      email_domains: ["acme.com"],
+    })
+    const [integration] = await db
+      .insert(gmailIntegration)
+      .values({
+        company_id: company!.id,
+        email: OWN_EMAIL,
+        refresh_token: "unused",
+      })
+      .returning()
+    integrationId = integration!.id
+  })
+
+  test("creates a ticket for a new thread and skips our own", async () => {
+    gmail.receive(
+      gmailMessage("m1", "t1", {
+        from: "Jane Doe <jane@acme.com>",
+        body: "The printer on floor 2 is offline.",
+      })
+    )
+    gmail.receive(
+      gmailMessage("m2", "t2", {
+        from: `Helpdesk <${OWN_EMAIL}>`,
+        body: "Scheduled maintenance tonight.",
+      })
+    )
+
+    const stats = await ingestGmail(await loadIntegration(), {
+      trigger: "manual",
+      gmail,
+    })
+
+    assert.equal(stats.mode, "full")
+    assert.equal(stats.ticketsCreated, 1)
+    assert.equal(stats.messagesSkipped, 1)
+    assert.deepEqual(stats.errors, [])
+
+    const created = await db.query.tickets.findMany({
+      columns: { subject: true, customer_email: true },
+    })
+    assert.deepEqual(created, [
+      { subject: "Printer is offline", customer_email: "jane@acme.com" },
+    ])
+    assert.equal((await loadIntegration()).last_history_id, "102")
+  })
+
+  test("adds a customer reply without the quoted thread", async () => {
+    gmail.receive(
+      gmailMessage("m3", "t1", {
+        from: "Jane Doe <jane@acme.com>",
+        body: "Still offline this morning.\n\nOn Tue, 3 Jun 2025 at 10:00, Helpdesk wrote:\n> Could you restart it?",
+      })
+    )
+    gmail.receive(
+      gmailMessage("m4", "t1", {
+        from: `Helpdesk <${OWN_EMAIL}>`,
+        body: "We're sending a technician.",
+        sent: true,
+      })
+    )
+
+    const stats = await ingestGmail(await loadIntegration(), {
+      trigger: "cron",
+      gmail,
+    })
+
+    assert.equal(stats.mode, "history")
+    assert.equal(stats.repliesAdded, 1)
+
+    const ticket = (await db.query.tickets.findFirst({
+      columns: { id: true },
+    }))!
+    const comments = await loadComments(ticket.id)
+    assert.equal(comments.length, 1)
+    assert.equal(comments[0]!.gmail_message_id, "m3")
+    assert.match(comments[0]!.content, /Still offline this morning\.$/)
+  })
+
+  test("imports nothing twice when a run repeats", async () => {
+    gmail.redeliver("m1")
+    gmail.redeliver("m3")
+
+    const stats = await ingestGmail(await loadIntegration(), {
+      trigger: "webhook",
+      gmail,
+    })
+    assert.equal(stats.ticketsCreated, 0)
+    assert.equal(stats.repliesAdded, 0)
+
+    const thread = (await db.query.emailThreads.findFirst({
+      where: eq(emailThreads.gmail_thread_id, "t1"),
+    }))!
+    // Even with the cursor moved back, known messages are skipped
+    const rewound = { ...thread, last_message_id: "m1" }
+    assert.equal(
+      await appendThreadReplies(gmail, await loadIntegration(), rewound),
+      0
+    )
+
+    assert.equal((await db.select().from(tickets)).length, 1)
+    assert.equal((await loadComments(thread.ticket_id!)).length, 1)
+  })
+
+  test("moves on past a failing message and retries it later", async () => {
+    gmail.receive(
+      gmailMessage("m5", "t5", {
+        from: "Bob <bob@acme.com>",
+        body: "The scanner jams.",
+      })
+    )
+    gmail.failingMessageIds.add("m5")
+
+    const failed = await ingestGmail(await loadIntegration(), {
+      trigger: "cron",
+      gmail,
+    })
+    assert.equal(failed.errors.length, 1)
+
+    const afterFailure = await loadIntegration()
+    assert.equal(afterFailure.last_history_id, failed.endHistoryId)
+    assert.deepEqual(afterFailure.failed_messages, [
+      { message_id: "m5", attempts: 1, error: "Backend Error" },
+    ])
+
+    gmail.failingMessageIds.clear()
+    const retried = await ingestGmail(afterFailure, {
+      trigger: "cron",
+      gmail,
+    })
+    assert.equal(retried.ticketsCreated, 1)
+    assert.deepEqual((await loadIntegration()).failed_messages, [])
+  })
+})
@@ -0,0 +1,913 @@
+import type { gmail_v1 } from "googleapis"
+import { db } from "~/db"
+import {
+  blockedSenders,
+  emailThreads,
+  gmailIntegration,
+  gmailSyncRuns,
+  quarantinedEmails,
+  ticketComments,
+  tickets,
+} from "~/db/schema"
+import { and, eq } from "drizzle-orm"
+import {
+  createGmailClient,
+  extractMessageText,
+  getMessageAttachmentParts,
+  getMessageHeader,
+  parseAddressList,
+  parseEmailAddress,
+} from "~/lib/gmail"
+import {
+  deleteStoredAttachments,
+  storeTicketAttachment,
+  type CommentAttachment,
+} from "~/lib/attachments"
+import { parseEmailReply } from "~/lib/email-reply-parser"
+import { notifyCustomer } from "~/lib/customer-notifications"
+import { notifyCustomerReply } from "~/lib/agent-notifications"
+import { getTicketSlaFields } from "~/lib/sla"
+import { recordTicketChanges } from "~/lib/ticket-events"
+import {
+  addTicketFollowers,
+  type FollowerContact,
+} from "~/lib/ticket-followers"
+
+type GmailIntegration = typeof gmailIntegration.$inferSelect
+type EmailThread = typeof emailThreads.$inferSelect
+type QuarantinedEmail = typeof quarantinedEmails.$inferSelect
+
+interface GmailResponse<T> {
+  data: T
+}
+
+/**
+ * The part of the Gmail API that ingestion reads from. The googleapis client
+ * satisfies it; a fake serving recorded responses can be passed instead.
+ */
+export interface GmailReader {
+  users: {
+    getProfile(
+      params: gmail_v1.Params$Resource$Users$Getprofile
+    ): Promise<GmailResponse<gmail_v1.Schema$Profile>>
+    history: {
+      list(
+        params: gmail_v1.Params$Resource$Users$History$List
+      ): Promise<GmailResponse<gmail_v1.Schema$ListHistoryResponse>>
+    }
+    messages: {
+      list(
+        params: gmail_v1.Params$Resource$Users$Messages$List
+      ): Promise<GmailResponse<gmail_v1.Schema$ListMessagesResponse>>
+      get(
+        params: gmail_v1.Params$Resource$Users$Messages$Get
+      ): Promise<GmailResponse<gmail_v1.Schema$Message>>
+      attachments: {
+        get(
+          params: gmail_v1.Params$Resource$Users$Messages$Attachments$Get
+        ): Promise<GmailResponse<gmail_v1.Schema$MessagePartBody>>
+      }
+    }
+    threads: {
+      get(
+        params: gmail_v1.Params$Resource$Users$Threads$Get
+      ): Promise<GmailResponse<gmail_v1.Schema$Thread>>
+    }
+  }
+}
+
+// A message that failed to import, retried on the next syncs
+export interface FailedGmailMessage {
+  message_id: string
+  attempts: number
+  error: string
+}
+
+// Syncs that try a failing message before it is given up on
+export const MAX_MESSAGE_ATTEMPTS = 5
+
+export type GmailSyncTrigger = "manual" | "auto" | "cron" | "webhook"
+
+export interface GmailIngestionOptions {
+  trigger: GmailSyncTrigger
+  gmail?: GmailReader
+  // Recorded as the creator of new tickets; defaults to the first active admin
+  createdByMembershipId?: string
+  // How far back the full scan looks when there is no usable history cursor
+  initialLookbackDays?: number
+}
+
+export interface GmailIngestionStats {
+  runId: string
+  mode: "history" | "full"
+  messagesSeen: number
+  ticketsCreated: number
+  repliesAdded: number
+  messagesSkipped: number
+  messagesQuarantined: number
+  errors: { messageId: string; error: string }[]
+  startHistoryId: string | null
+  endHistoryId: string | null
+}
+
+type MessageOutcome =
+  | "ticket_created"
+  | "replies_added"
+  | "quarantined"
+  | "skipped"
+
+function isNotFoundError(error: unknown) {
+  const gaxiosError = error as {
+    code?: number | string
+    status?: number
+    response?: { status?: number }
+  } | null
+  return (
+    gaxiosError?.code?.toString() === "404" ||
+    gaxiosError?.status === 404 ||
+    gaxiosError?.response?.status === 404
+  )
+}
+
+// IDs of messages added to the mailbox since the cursor, oldest first
+async function listHistoryMessageIds(
+  gmail: GmailReader,
+  startHistoryId: string
+) {
+  const messageIds: string[] = []
+  const seen = new Set<string>()
+  let latestHistoryId = startHistoryId
+  let pageToken: string | undefined
+
+  do {
+    const response = await gmail.users.history.list({
+      userId: "me",
+      startHistoryId,
+      historyTypes: ["messageAdded"],
+      maxResults: 500,
+      pageToken,
+    })
+
+    for (const record of response.data.history ?? []) {
+      for (const added of record.messagesAdded ?? []) {
+        const id = added.message?.id
+        if (id && !seen.has(id)) {
+          seen.add(id)
+          messageIds.push(id)
+        }
+      }
+    }
+
+    latestHistoryId = response.data.historyId ?? latestHistoryId
+    pageToken = response.data.nextPageToken ?? undefined
+  } while (pageToken)
+
+  return { messageIds, latestHistoryId }
+}
+
+// Inbox messages received after the given date, oldest first
+async function listInboxMessageIds(gmail: GmailReader, since: Date) {
+  const messageIds: string[] = []
+  let pageToken: string | undefined
+
+  do {
+    const response = await gmail.users.messages.list({
+      userId: "me",
+      q: `in:inbox after:${Math.floor(since.getTime() / 1000)}`,
+      maxResults: 500,
+      pageToken,
+    })
+
+    for (const message of response.data.messages ?? []) {
+      if (message.id) messageIds.push(message.id)
+    }
+
+    pageToken = response.data.nextPageToken ?? undefined
+  } while (pageToken)
+
+  return messageIds.reverse()
+}
+
+function isOwnMessage(
+  message: gmail_v1.Schema$Message,
+  integration: GmailIntegration
+) {
+  return (
+    !!message.labelIds?.includes("SENT") ||
+    parseEmailAddress(getMessageHeader(message, "From")) ===
+      integration.email.toLowerCase()
+  )
+}
+
+// People copied on a customer's message, who follow the ticket from then on
+function getCcContacts(
+  message: gmail_v1.Schema$Message,
+  integration: GmailIntegration
+): FollowerContact[] {
+  const ownEmail = integration.email.toLowerCase()
+  return parseAddressList(getMessageHeader(message, "Cc")).filter(
+    (address) => address.email !== ownEmail
+  )
+}
+
+// Comment fields for an imported reply; the untrimmed body stays in raw_content
+function formatReplyComment(message: gmail_v1.Schema$Message, body: string) {
+  const reply = parseEmailReply(body)
+  return {
+    content: `Reply from: ${getMessageHeader(message, "From")}\nDate: ${getMessageHeader(message, "Date")}\n\n${reply.content}`,
+    raw_content: reply.stripped ? body : null,
+  }
+}
+
+// Gmail's own limit for received mail
+const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024
+
+// Downloads the files attached to a message into ticket storage
+async function storeMessageAttachments(
+  gmail: GmailReader,
+  companyId: string,
+  ticketId: string,
+  message: gmail_v1.Schema$Message
+) {
+  const stored: CommentAttachment[] = []
+
+  for (const part of getMessageAttachmentParts(message)) {
+    if (part.size > MAX_ATTACHMENT_BYTES) continue
+
+    let data = part.data
+    if (!data && part.attachmentId) {
+      const response = await gmail.users.messages.attachments.get({
+        userId: "me",
+        messageId: message.id!,
+        id: part.attachmentId,
+      })
+      data = response.data.data ?? null
+    }
+    if (!data) continue
+
+    stored.push(
+      await storeTicketAttachment({
+        companyId,
+        ticketId,
+        filename: part.filename,
+        contentType: part.mimeType,
+        data: Buffer.from(data, "base64"),
+      })
+    )
+  }
+
+  return stored
+}
+
+/**
+ * Appends the messages that arrived in a ticket's Gmail thread after its last
+ * known message as customer-visible comments, skipping our own outgoing mail
+ * and messages imported before. A customer reply reopens a resolved ticket.
+ * Returns the number of comments added.
+ */
+export async function appendThreadReplies(
+  gmail: GmailReader,
+  integration: GmailIntegration,
+  thread: EmailThread
+) {
+  if (!thread.ticket_id) return 0
+
+  const fullThread = await gmail.users.threads.get({
+    userId: "me",
+    id: thread.gmail_thread_id,
+    format: "full",
+  })
+  const messages = fullThread.data.messages ?? []
+  if (messages.length === 0) return 0
+
+  const lastIndex = messages.findIndex((m) => m.id === thread.last_message_id)
+  // If the cursor message is gone, only trust messages newer than the thread record
+  const newMessages =
+    lastIndex >= 0
+      ? messages.slice(lastIndex + 1)
+      : messages.filter(
+          (m) => Number(m.internalDate ?? 0) > thread.updated_at.getTime()
+        )
+
+  const participants = new Set(thread.participants as string[])
+  const ccContacts: FollowerContact[] = []
+  let repliesAdded = 0
+  let latestReply: { from: string; body: string } | null = null
+
+  for (const message of newMessages) {
+    if (isOwnMessage(message, integration)) continue
+
+    const alreadyImported = await db.query.ticketComments.findFirst({
+      where: and(
+        eq(ticketComments.ticket_id, thread.ticket_id),
+        eq(ticketComments.gmail_message_id, message.id!)
+      ),
+      columns: { id: true },
+    })
+    if (alreadyImported) continue
+
+    const body = extractMessageText(message)
+    const attachments = await storeMessageAttachments(
+      gmail,
+      thread.company_id,
+      thread.ticket_id,
+      message
+    )
+    if (!body && attachments.length === 0) continue
+
+    const [comment] = await db
+      .insert(ticketComments)
+      .values({
+        company_id: thread.company_id,
+        ticket_id: thread.ticket_id,
+        ...formatReplyComment(message, body),
+        is_internal: false,
+        is_system: true,
+        attachments,
+        gmail_message_id: message.id!,
+      })
+      .onConflictDoNothing()
+      .returning({ id: ticketComments.id })
+
+    // A concurrent sync imported it first
+    if (!comment) {
+      await deleteStoredAttachments(attachments)
+      continue
+    }
+
+    participants.add(getMessageHeader(message, "From"))
+    ccContacts.push(...getCcContacts(message, integration))
+    latestReply = { from: getMessageHeader(message, "From"), body }
+    repliesAdded++
+  }
+
+  await db
+    .update(emailThreads)
+    .set({
+      last_message_id: messages[messages.length - 1]!.id!,
+      participants: Array.from(participants),
+      updated_at: new Date(),
+    })
+    .where(eq(emailThreads.id, thread.id))
+
+  if (repliesAdded > 0) {
+    const ticket = await db.query.tickets.findFirst({
+      where: eq(tickets.id, thread.ticket_id),
+    })
+
+    if (ticket?.status === "resolved") {
+      const [reopenedTicket] = await db
+        .update(tickets)
+        .set({ status: "open", resolved_at: null, updated_at: new Date() })
+        .where(eq(tickets.id, ticket.id))
+        .returning()
+
+      await recordTicketChanges(ticket, reopenedTicket, { type: "system" })
+    } else if (ticket) {
+      await db
+        .update(tickets)
+        .set({ updated_at: new Date() })
+        .where(eq(tickets.id, ticket.id))
+    }
+
+    if (ticket && ccContacts.length > 0) {
+      await addTicketFollowers(ticket, { contacts: ccContacts })
+    }
+
+    // One heads-up per sync, even when several replies came in
+    if (ticket && latestReply) {
+      await notifyCustomerReply(
+        ticket,
+        latestReply.from,
+        parseEmailReply(latestReply.body).content
+      )
+    }
+  }
+
+  return repliesAdded
+}
+
+async function findClientForSender(companyId: string, senderEmail: string) {
+  const senderDomain = senderEmail.split("@")[1]
+  if (!senderDomain) return null
+
+  const companyClients = await db.query.clients.findMany({
+    where: (clients, { and, eq }) =>
+      and(eq(clients.company_id, companyId), eq(clients.is_active, true)),
+  })
+
+  return (
+    companyClients.find((client) =>
+      ((client.email_domains as string[] | null) ?? []).some(
+        (domain) => domain?.toLowerCase() === senderDomain
+      )
+    ) ?? null
+  )
+}
+
+async function isBlockedSender(companyId: string, senderEmail: string) {
+  const blocked = await db.query.blockedSenders.findFirst({
+    where: and(
+      eq(blockedSenders.company_id, companyId),
+      eq(blockedSenders.email, senderEmail)
+    ),
+    columns: { id: true },
+  })
+  return !!blocked
+}
+
+/**
+ * Creates a ticket for the given client from a Gmail thread, starting at
+ * `firstIndex`, with later customer messages and any attached files as
+ * comments and the thread linked for replies. Returns null when a ticket for that message already exists.
+ */
+async function insertThreadTicket(
+  gmail: GmailReader,
+  integration: GmailIntegration,
+  threadId: string,
+  messages: gmail_v1.Schema$Message[],
+  firstIndex: number,
+  clientId: string,
+  createdByMembershipId: string | undefined
+) {
+  const firstMessage = messages[firstIndex]!
+  const from = getMessageHeader(firstMessage, "From")
+  const subject = getMessageHeader(firstMessage, "Subject") || "No Subject"
+  const senderEmail = parseEmailAddress(from)
+  const priority = integration.default_ticket_priority ?? "medium"
+
+  const slaFields = await getTicketSlaFields({
+    companyId: integration.company_id,
+    clientId,
+    priority,
+  })
+
+  // The ticket, its comments and the thread link are saved together, so a
+  // failed run leaves nothing behind and the thread is picked up again
+  const created = await db.transaction(async (tx) => {
+    const [newTicket] = await tx
+      .insert(tickets)
+      .values({
+        company_id: integration.company_id,
+        client_id: clientId,
+        subject,
+        description: `Email from: ${from}\n\nSubject: ${subject}\n\n${extractMessageText(firstMessage)}`,
+        status: "open",
+        priority,
+        customer_email: senderEmail,
+        customer_name: from.split("<")[0]?.trim() || senderEmail,
+        created_by_membership_id: createdByMembershipId,
+        external_id: firstMessage.id,
+        external_type: "gmail",
+        ...slaFields,
+      })
+      .onConflictDoNothing()
+      .returning()
+
+    // Another run created the ticket for this message first
+    if (!newTicket) return null
+
+    // Tickets have no files of their own, so the first email's go on a comment
+    const firstAttachments = await storeMessageAttachments(
+      gmail,
+      integration.company_id,
+      newTicket.id,
+      firstMessage
+    )
+    if (firstAttachments.length > 0) {
+      await tx.insert(ticketComments).values({
+        company_id: integration.company_id,
+        ticket_id: newTicket.id,
+        content: `Attachments from the original email from ${from}`,
+        is_internal: false,
+        is_system: true,
+        attachments: firstAttachments,
+        gmail_message_id: firstMessage.id,
+      })
+    }
+
+    const ccContacts = getCcContacts(firstMessage, integration)
+
+    for (const message of messages.slice(firstIndex + 1)) {
+      if (isOwnMessage(message, integration)) continue
+      ccContacts.push(...getCcContacts(message, integration))
+
+      const body = extractMessageText(message)
+      const attachments = await storeMessageAttachments(
+        gmail,
+        integration.company_id,
+        newTicket.id,
+        message
+      )
+      if (!body && attachments.length === 0) continue
+
+      await tx.insert(ticketComments).values({
+        company_id: integration.company_id,
+        ticket_id: newTicket.id,
+        ...formatReplyComment(message, body),
+        is_internal: false,
+        is_system: true,
+        attachments,
+        gmail_message_id: message.id,
+      })
+    }
+
+    const participants = Array.from(
+      new Set(messages.map((m) => getMessageHeader(m, "From")).filter(Boolean))
+    )
+
+    await tx.insert(emailThreads).values({
+      company_id: integration.company_id,
+      ticket_id: newTicket.id,
+      gmail_thread_id: threadId,
+      subject,
+      participants,
+      last_message_id: messages[messages.length - 1]!.id!,
+    })
+
+    return { newTicket, ccContacts }
+  })
+
+  if (!created) return null
+  const { newTicket, ccContacts } = created
+
+  await notifyCustomer(newTicket.id, "ticket_created")
+  await addTicketFollowers(newTicket, { contacts: ccContacts })
+
+  return newTicket
+}
+
+// Turns a Gmail thread we haven't seen before into a ticket, or holds it for
+// review when the sender matches no client
+async function createTicketFromThread(
+  gmail: GmailReader,
+  integration: GmailIntegration,
+  threadId: string,
+  createdByMembershipId: string | undefined
+): Promise<MessageOutcome> {
+  const fullThread = await gmail.users.threads.get({
+    userId: "me",
+    id: threadId,
+    format: "full",
+  })
+  const messages = fullThread.data.messages ?? []
+
+  // Threads we started ourselves begin at the first customer message
+  const firstIndex = messages.findIndex((m) => !isOwnMessage(m, integration))
+  const firstMessage = messages[firstIndex]
+  if (!firstMessage) return "skipped"
+
+  const from = getMessageHeader(firstMessage, "From")
+  const senderEmail = parseEmailAddress(from)
+
+  if (await isBlockedSender(integration.company_id, senderEmail)) {
+    return "skipped"
+  }
+
+  const matchedClient = await findClientForSender(
+    integration.company_id,
+    senderEmail
+  )
+
+  if (!matchedClient) {
+    // One entry per thread; later messages in it don't add another
+    await db
+      .insert(quarantinedEmails)
+      .values({
+        company_id: integration.company_id,
+        gmail_thread_id: threadId,
+        gmail_message_id: firstMessage.id!,
+        sender_email: senderEmail,
+        sender_name: from.split("<")[0]?.trim().replace(/^"|"$/g, "") || null,
+        subject: getMessageHeader(firstMessage, "Subject") || "No Subject",
+        body: extractMessageText(firstMessage),
+        received_at: new Date(Number(firstMessage.internalDate ?? Date.now())),
+      })
+      .onConflictDoNothing()
+    return "quarantined"
+  }
+
+  const newTicket = await insertThreadTicket(
+    gmail,
+    integration,
+    threadId,
+    messages,
+    firstIndex,
+    matchedClient.id,
+    createdByMembershipId
+  )
+
+  return newTicket ? "ticket_created" : "skipped"
+}
+
+/**
+ * Creates the ticket for a quarantined thread under the chosen client, using
+ * the current state of the Gmail thread so replies received while it waited
+ * are included. Marks the entry as handled and returns the ticket ID.
+ */
+export async function releaseQuarantinedEmail(
+  integration: GmailIntegration,
+  entry: QuarantinedEmail,
+  clientId: string,
+  reviewedByMembershipId: string,
+  gmail: GmailReader = createGmailClient(integration)
+) {
+  // The thread may have been linked since, e.g. after a domain was added
+  const existingThread = await db.query.emailThreads.findFirst({
+    where: and(
+      eq(emailThreads.company_id, entry.company_id),
+      eq(emailThreads.gmail_thread_id, entry.gmail_thread_id)
+    ),
+  })
+
+  let ticketId = existingThread?.ticket_id ?? null
+
+  if (!existingThread) {
+    const fullThread = await gmail.users.threads.get({
+      userId: "me",
+      id: entry.gmail_thread_id,
+      format: "full",
+    })
+    const messages = fullThread.data.messages ?? []
+    const firstIndex = messages.findIndex(
+      (m) => m.id === entry.gmail_message_id
+    )
+    if (firstIndex < 0) {
+      throw new Error("The original email is no longer in the mailbox")
+    }
+
+    const newTicket = await insertThreadTicket(
+      gmail,
+      integration,
+      entry.gmail_thread_id,
+      messages,
+      firstIndex,
+      clientId,
+      reviewedByMembershipId
+    )
+    ticketId =
+      newTicket?.id ??
+      (
+        await db.query.tickets.findFirst({
+          where: and(
+            eq(tickets.company_id, entry.company_id),
+            eq(tickets.external_type, "gmail"),
+            eq(tickets.external_id, entry.gmail_message_id)
+          ),
+          columns: { id: true },
+        })
+      )?.id ??
+      null
+  }
+
+  await db
+    .update(quarantinedEmails)
+    .set({
+      status: "ticket_created",
+      ticket_id: ticketId,
+      reviewed_by_membership_id: reviewedByMembershipId,
+      reviewed_at: new Date(),
+    })
+    .where(eq(quarantinedEmails.id, entry.id))
+
+  return ticketId
+}
+
+async function ingestMessage(
+  gmail: GmailReader,
+  integration: GmailIntegration,
+  messageId: string,
+  createdByMembershipId: string | undefined
+): Promise<MessageOutcome> {
+  let message: gmail_v1.Schema$Message
+  try {
+    const response = await gmail.users.messages.get({
+      userId: "me",
+      id: messageId,
+      format: "metadata",
+      metadataHeaders: ["From"],
+    })
+    message = response.data
+  } catch (error) {
+    // Deleted between the history entry and now
+    if (isNotFoundError(error)) return "skipped"
+    throw error
+  }
+
+  if (message.labelIds?.includes("DRAFT") || !message.threadId) {
+    return "skipped"
+  }
+
+  const existingThread = await db.query.emailThreads.findFirst({
+    where: and(
+      eq(emailThreads.company_id, integration.company_id),
+      eq(emailThreads.gmail_thread_id, message.threadId)
+    ),
+  })
+
+  if (existingThread) {
+    const repliesAdded = await appendThreadReplies(
+      gmail,
+      integration,
+      existingThread
+    )
+    return repliesAdded > 0 ? "replies_added" : "skipped"
+  }
+
+  if (!integration.auto_create_tickets || isOwnMessage(message, integration)) {
+    return "skipped"
+  }
+
+  return createTicketFromThread(
+    gmail,
+    integration,
+    message.threadId,
+    createdByMembershipId
+  )
+}
+
+/**
+ * Imports everything that reached the integration's mailbox since the last
+ * run: new threads from client domains become tickets, threads from unknown
+ * senders are quarantined for review and messages in known threads become
+ * comments. Reads the Gmail History API from
+ * `last_history_id`, falling back to a full inbox scan when there is no cursor
+ * or Gmail has expired it. Every message is handled idempotently, so a run can
+ * safely repeat work. Messages that fail are retried on the next runs, up to
+ * `MAX_MESSAGE_ATTEMPTS` times, while the cursor moves on.
+ */
+export async function ingestGmail(
+  integration: GmailIntegration,
+  options: GmailIngestionOptions
+): Promise<GmailIngestionStats> {
+  const gmail = options.gmail ?? createGmailClient(integration)
+  const startedAt = new Date()
+
+  const [run] = await db
+    .insert(gmailSyncRuns)
+    .values({
+      company_id: integration.company_id,
+      gmail_integration_id: integration.id,
+      trigger: options.trigger,
+      mode: integration.last_history_id ? "history" : "full",
+      start_history_id: integration.last_history_id,
+      started_at: startedAt,
+    })
+    .returning()
+
+  const stats: GmailIngestionStats = {
+    runId: run!.id,
+    mode: integration.last_history_id ? "history" : "full",
+    messagesSeen: 0,
+    ticketsCreated: 0,
+    repliesAdded: 0,
+    messagesSkipped: 0,
+    messagesQuarantined: 0,
+    errors: [],
+    startHistoryId: integration.last_history_id,
+    endHistoryId: null,
+  }
+
+  try {
+    let messageIds: string[] | null = null
+
+    if (integration.last_history_id) {
+      try {
+        const history = await listHistoryMessageIds(
+          gmail,
+          integration.last_history_id
+        )
+        messageIds = history.messageIds
+        stats.endHistoryId = history.latestHistoryId
+      } catch (error) {
+        if (!isNotFoundError(error)) throw error
+        // Gmail only keeps about a week of history
+        stats.mode = "full"
+      }
+    }
+
+    if (!messageIds) {
+      // Take the cursor first so mail arriving during the scan isn't missed
+      const profile = await gmail.users.getProfile({ userId: "me" })
+      stats.endHistoryId = profile.data.historyId ?? null
+
+      const lookbackDays = options.initialLookbackDays ?? 7
+      const since =
+        integration.last_sync_at ??
+        new Date(startedAt.getTime() - lookbackDays * 24 * 60 * 60 * 1000)
+      messageIds = await listInboxMessageIds(gmail, since)
+    }
+
+    const createdByMembershipId =
+      options.createdByMembershipId ??
+      (
+        await db.query.memberships.findFirst({
+          where: (memberships, { and, eq }) =>
+            and(
+              eq(memberships.company_id, integration.company_id),
+              eq(memberships.role, "admin"),
+              eq(memberships.is_active, true)
+            ),
+          columns: { id: true },
+        })
+      )?.id
+
+    // Messages that failed on earlier runs are retried first
+    const previousFailures = integration.failed_messages as FailedGmailMessage[]
+    messageIds = Array.from(
+      new Set(
+        previousFailures.map((failure) => failure.message_id).concat(messageIds)
+      )
+    )
+
+    for (const messageId of messageIds) {
+      stats.messagesSeen++
+      try {
+        const outcome = await ingestMessage(
+          gmail,
+          integration,
+          messageId,
+          createdByMembershipId
+        )
+        if (outcome === "ticket_created") stats.ticketsCreated++
+        else if (outcome === "replies_added") stats.repliesAdded++
+        else if (outcome === "quarantined") stats.messagesQuarantined++
+        else stats.messagesSkipped++
+      } catch (error) {
+        console.error(`Error ingesting Gmail message ${messageId}:`, error)
+        stats.errors.push({
+          messageId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        })
+      }
+    }
+
+    // The cursors always advance; failed messages are kept to retry instead,
+    // so one bad message can't hold back the rest of the mailbox
+    const failedMessages: FailedGmailMessage[] = []
+    for (const { messageId, error } of stats.errors) {
+      const attempts =
+        (previousFailures.find((failure) => failure.message_id === messageId)
+          ?.attempts ?? 0) + 1
+      if (attempts < MAX_MESSAGE_ATTEMPTS) {
+        failedMessages.push({ message_id: messageId, attempts, error })
+      } else {
+        console.error(
+          `Giving up on Gmail message ${messageId} after ${attempts} attempts`
+        )
+      }
+    }
+
+    const finishedAt = new Date()
+    await db
+      .update(gmailIntegration)
+      .set({
+        last_history_id: stats.endHistoryId,
+        last_sync_at: finishedAt,
+        failed_messages: failedMessages,
+        updated_at: finishedAt,
+      })
+      .where(eq(gmailIntegration.id, integration.id))
+
+    await db
+      .update(gmailSyncRuns)
+      .set({
+        mode: stats.mode,
+        end_history_id: stats.endHistoryId,
+        messages_seen: stats.messagesSeen,
+        tickets_created: stats.ticketsCreated,
+        replies_added: stats.repliesAdded,
+        messages_skipped: stats.messagesSkipped,
+        messages_quarantined: stats.messagesQuarantined,
+        errors: stats.errors,
+        status: "completed",
+        finished_at: finishedAt,
+      })
+      .where(eq(gmailSyncRuns.id, stats.runId))
+
+    return stats
+  } catch (error) {
+    await db
+      .update(gmailSyncRuns)
+      .set({
+        mode: stats.mode,
+        messages_seen: stats.messagesSeen,
+        tickets_created: stats.ticketsCreated,
+        replies_added: stats.repliesAdded,
+        messages_skipped: stats.messagesSkipped,
+        messages_quarantined: stats.messagesQuarantined,
+        errors: [
+          ...stats.errors,
+          {
+            messageId: null,
+            error: error instanceof Error ? error.message : "Unknown error",
+          },
+        ],
+        status: "failed",
+        finished_at: new Date(),
+      })
+      .where(eq(gmailSyncRuns.id, stats.runId))
+
+    throw error
+  }
+}
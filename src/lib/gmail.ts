@@ -0,0 +1,291 @@
+import { google, type gmail_v1 } from "googleapis"
+import sanitizeHtml from "sanitize-html"
+import { db } from "~/db"
+import { gmailIntegration, ticketComments } from "~/db/schema"
+import { eq } from "drizzle-orm"
+import { getFollowerContacts } from "~/lib/ticket-followers"
+
+type GmailIntegration = typeof gmailIntegration.$inferSelect
+export type GmailClient = gmail_v1.Gmail
+
+/**
+ * Authenticated Gmail API client for a company's integration. Access tokens
+ * refreshed by googleapis are written back so later runs start with them.
+ */
+export function createGmailClient(integration: GmailIntegration): GmailClient {
+  const oauth2Client = new google.auth.OAuth2(
+    process.env.GOOGLE_CLIENT_ID,
+    process.env.GOOGLE_CLIENT_SECRET,
+    process.env.GOOGLE_REDIRECT_URI
+  )
+
+  oauth2Client.setCredentials({
+    access_token: integration.access_token,
+    refresh_token: integration.refresh_token,
+  })
+
+  oauth2Client.on("tokens", (tokens) => {
+    if (!tokens.access_token) return
+
+    db.update(gmailIntegration)
+      .set({
+        access_token: tokens.access_token,
+        token_expires_at: tokens.expiry_date
+          ? new Date(tokens.expiry_date)
+          : null,
+        updated_at: new Date(),
+      })
+      .where(eq(gmailIntegration.id, integration.id))
+      .catch((error) =>
+        console.error("Failed to store refreshed Gmail token:", error)
+      )
+  })
+
+  return google.gmail({ version: "v1", auth: oauth2Client })
+}
+
+// RFC 2047 encoding so non-ASCII subjects and names survive the headers
+function encodeHeader(value: string) {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf-8").toString("base64")}?=`
+}
+
+function buildReplySubject(subject: string) {
+  return /^re:/i.test(subject.trim()) ? subject : `Re: ${subject}`
+}
+
+/**
+ * Builds a plain-text MIME reply, base64url encoded for the Gmail send API.
+ */
+export function buildReplyMessage({
+  from,
+  to,
+  cc = [],
+  subject,
+  body,
+  inReplyTo,
+  references,
+}: {
+  from: string
+  to: string
+  cc?: string[]
+  subject: string
+  body: string
+  inReplyTo?: string | null
+  references?: string | null
+}) {
+  const headers = [
+    `From: ${from}`,
+    `To: ${to}`,
+    `Subject: ${encodeHeader(buildReplySubject(subject))}`,
+    "MIME-Version: 1.0",
+    'Content-Type: text/plain; charset="UTF-8"',
+    "Content-Transfer-Encoding: base64",
+  ]
+
+  if (cc.length > 0) headers.splice(2, 0, `Cc: ${cc.join(", ")}`)
+
+  if (inReplyTo) {
+    headers.push(`In-Reply-To: ${inReplyTo}`)
+    headers.push(
+      `References: ${references ? `${references} ${inReplyTo}` : inReplyTo}`
+    )
+  }
+
+  const encodedBody = Buffer.from(body, "utf-8")
+    .toString("base64")
+    .replace(/(.{76})/g, "$1\r\n")
+
+  return Buffer.from(`${headers.join("\r\n")}\r\n\r\n${encodedBody}`)
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "")
+}
+
+/**
+ * Sends a public comment back to the customer as a reply in the ticket's
+ * Gmail thread. Does nothing for tickets that didn't come from email or when
+ * the company has no active integration. Returns the sent Gmail message ID.
+ */
+export async function sendTicketReplyEmail({
+  ticket,
+  commentId,
+  content,
+  senderName,
+}: {
+  ticket: {
+    id: string
+    company_id: string
+    customer_email: string | null
+  }
+  commentId: string
+  content: string
+  senderName: string
+}) {
+  const thread = await db.query.emailThreads.findFirst({
+    where: (emailThreads, { eq }) => eq(emailThreads.ticket_id, ticket.id),
+  })
+  if (!thread) return null
+
+  const integration = await db.query.gmailIntegration.findFirst({
+    where: (gmailIntegration, { and, eq }) =>
+      and(
+        eq(gmailIntegration.company_id, ticket.company_id),
+        eq(gmailIntegration.is_active, true)
+      ),
+  })
+  if (!integration) return null
+
+  const recipient =
+    ticket.customer_email ?? (thread.participants as string[])[0] ?? null
+  if (!recipient) return null
+
+  // Contact followers stay on the email conversation
+  const cc = (await getFollowerContacts(ticket.id))
+    .map((follower) => follower.email)
+    .filter((email) => email !== recipient.toLowerCase())
+
+  const gmail = createGmailClient(integration)
+
+  // Thread against the RFC 822 Message-ID of the latest message we know about
+  let inReplyTo: string | null = null
+  let references: string | null = null
+  if (thread.last_message_id) {
+    const lastMessage = await gmail.users.messages.get({
+      userId: "me",
+      id: thread.last_message_id,
+      format: "metadata",
+      metadataHeaders: ["Message-ID", "References"],
+    })
+    inReplyTo = getMessageHeader(lastMessage.data, "Message-ID") || null
+    references = getMessageHeader(lastMessage.data, "References") || null
+  }
+
+  const sent = await gmail.users.messages.send({
+    userId: "me",
+    requestBody: {
+      threadId: thread.gmail_thread_id,
+      raw: buildReplyMessage({
+        from: `${encodeHeader(senderName)} <${integration.email}>`,
+        to: recipient,
+        cc,
+        subject: thread.subject,
+        body: content,
+        inReplyTo,
+        references,
+      }),
+    },
+  })
+
+  const sentMessageId = sent.data.id
+  if (!sentMessageId) return null
+
+  // The thread cursor stays put: replies received before this one may not
+  // be synced yet, and inbound sync skips our own messages anyway
+  await db
+    .update(ticketComments)
+    .set({ gmail_message_id: sentMessageId })
+    .where(eq(ticketComments.id, commentId))
+
+  return sentMessageId
+}
+
+export function getMessageHeader(
+  message: gmail_v1.Schema$Message,
+  name: string
+) {
+  const headers = message.payload?.headers ?? []
+  return (
+    headers.find((h) => h.name?.toLowerCase() === name.toLowerCase())?.value ??
+    ""
+  )
+}
+
+// Bare address from a header value like "Jane Doe <jane@acme.com>"
+export function parseEmailAddress(value: string) {
+  const match = value.match(/<([^>]+)>/) || value.match(/([^\s]+@[^\s]+)/)
+  return (match ? match[1] || match[0] : value).trim().toLowerCase()
+}
+
+// Addresses in a To or Cc header, e.g. `"Doe, Jane" <jane@x.com>, bob@y.com`
+export function parseAddressList(value: string) {
+  const entries = value.match(/(?:"[^"]*"|<[^>]*>|[^,"<])+/g) ?? []
+  return entries
+    .map((entry) => {
+      const email = parseEmailAddress(entry)
+      const name = entry.includes("<")
+        ? entry.split("<")[0]!.trim().replace(/^"|"$/g, "")
+        : ""
+      return { email, name: name || null }
+    })
+    .filter((address) => address.email.includes("@"))
+}
+
+function decodeBody(data: string) {
+  return Buffer.from(data, "base64").toString("utf-8")
+}
+
+/**
+ * Plain-text body of a Gmail message. Prefers text/plain parts and falls back
+ * to HTML with the markup stripped.
+ */
+export function extractMessageText(message: gmail_v1.Schema$Message) {
+  const extractFromParts = (parts: gmail_v1.Schema$MessagePart[]): string => {
+    let text = ""
+    for (const part of parts) {
+      // Attached .txt/.html files are attachments, not the message body
+      if (part.filename) continue
+      if (part.mimeType === "text/plain" && part.body?.data) {
+        text += decodeBody(part.body.data) + "\n"
+      } else if (part.mimeType === "text/html" && part.body?.data && !text) {
+        text +=
+          sanitizeHtml(decodeBody(part.body.data), {
+            allowedTags: [],
+            allowedAttributes: {},
+          }) + "\n"
+      } else if (part.parts) {
+        text += extractFromParts(part.parts)
+      }
+    }
+    return text
+  }
+
+  const payload = message.payload
+  if (payload?.parts) return extractFromParts(payload.parts).trim()
+  if (payload?.body?.data) return decodeBody(payload.body.data).trim()
+  return ""
+}
+
+/**
+ * Parts of a Gmail message that carry a named file. Small files come inline
+ * in `data`; larger ones need a separate fetch by `attachmentId`.
+ */
+export function getMessageAttachmentParts(message: gmail_v1.Schema$Message) {
+  const attachments: {
+    filename: string
+    mimeType: string
+    attachmentId: string | null
+    data: string | null
+    size: number
+  }[] = []
+
+  const collect = (parts: gmail_v1.Schema$MessagePart[]) => {
+    for (const part of parts) {
+      if (part.filename && (part.body?.attachmentId || part.body?.data)) {
+        attachments.push({
+          filename: part.filename,
+          mimeType: part.mimeType || "application/octet-stream",
+          attachmentId: part.body.attachmentId ?? null,
+          data: part.body.data ?? null,
+          size: part.body.size ?? 0,
+        })
+      }
+      if (part.parts) collect(part.parts)
+    }
+  }
+
+  if (message.payload) collect([message.payload])
+  return attachments
+}
@@ -0,0 +1,80 @@
+// Used by the comment editor and the ticket router alike
+export interface MentionCandidate {
+  id: string
+  name: string
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * The `@query` being typed right before the caret, if any. Mentions start at
+ * the beginning of the text or after whitespace.
+ */
+export function getActiveMention(text: string, caret: number) {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret))
+  if (!match) return null
+  return { start: match.index + match[1]!.length, query: match[2]! }
+}
+
+// Replaces the `@query` at `start` with the full mention
+export function insertMention(
+  text: string,
+  mention: { start: number; query: string },
+  name: string
+) {
+  const before = text.slice(0, mention.start)
+  const after = text.slice(mention.start + 1 + mention.query.length)
+  const inserted = `@${name} `
+  return {
+    text: before + inserted + after.replace(/^ /, ""),
+    caret: before.length + inserted.length,
+  }
+}
+
+export function findMentionedIds(
+  content: string,
+  candidates: MentionCandidate[]
+) {
+  const mentionedNames = splitMentions(
+    content,
+    candidates.map((candidate) => candidate.name)
+  )
+    .filter((part) => part.mention)
+    .map((part) => part.text.slice(1))
+
+  return candidates
+    .filter((candidate) => mentionedNames.includes(candidate.name))
+    .map((candidate) => candidate.id)
+}
+
+// Splits text so mentions of the given names can be highlighted
+export function splitMentions(content: string, names: string[]) {
+  if (names.length === 0) return [{ text: content, mention: false }]
+
+  // Longest first, so "@Jane Doe" wins over "@Jane"
+  const alternatives = names
+    .slice()
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|")
+  const pattern = new RegExp(`@(?:${alternatives})(?![\\p{L}\\p{N}])`, "gu")
+
+  const parts: { text: string; mention: boolean }[] = []
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(content))) {
+    const start = match.index
+    if (start > 0 && !/\s/.test(content[start - 1]!)) continue
+    if (start > lastIndex) {
+      parts.push({ text: content.slice(lastIndex, start), mention: false })
+    }
+    parts.push({ text: match[0], mention: true })
+    lastIndex = start + match[0].length
+  }
+  if (lastIndex < content.length) {
+    parts.push({ text: content.slice(lastIndex), mention: false })
+  }
+  return parts
+}
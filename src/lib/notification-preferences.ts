@@ -0,0 +1,90 @@
+// Shared with the preferences form, so no server imports here
+import { parseTimeOfDay } from "~/lib/business-hours"
+
+export const AGENT_NOTIFICATION_EVENTS = [
+  "assignment",
+  "customer_reply",
+  "sla_warning",
+  "mention",
+] as const
+
+export type AgentNotificationEvent = (typeof AGENT_NOTIFICATION_EVENTS)[number]
+
+export interface NotificationChannels {
+  email: boolean
+  in_app: boolean
+}
+
+export interface QuietHours {
+  enabled: boolean
+  start: string // "HH:MM", local to timezone
+  end: string
+  timezone: string
+}
+
+// Stored in `memberships.notification_preferences`
+export interface NotificationPreferences {
+  events: Record<AgentNotificationEvent, NotificationChannels>
+  quiet_hours: QuietHours
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  events: {
+    assignment: { email: true, in_app: true },
+    customer_reply: { email: true, in_app: true },
+    sla_warning: { email: true, in_app: true },
+    mention: { email: true, in_app: true },
+  },
+  quiet_hours: {
+    enabled: false,
+    start: "22:00",
+    end: "07:00",
+    timezone: "UTC",
+  },
+}
+
+/**
+ * Preferences as stored, filled in with defaults for anything missing, such
+ * as events added after the member last saved.
+ */
+export function resolveNotificationPreferences(
+  value: unknown
+): NotificationPreferences {
+  const stored = (value ?? {}) as Partial<NotificationPreferences>
+  const events = { ...DEFAULT_NOTIFICATION_PREFERENCES.events }
+  for (const event of AGENT_NOTIFICATION_EVENTS) {
+    events[event] = { ...events[event], ...stored.events?.[event] }
+  }
+  return {
+    events,
+    quiet_hours: {
+      ...DEFAULT_NOTIFICATION_PREFERENCES.quiet_hours,
+      ...stored.quiet_hours,
+    },
+  }
+}
+
+// Whether `now` falls in the quiet window, which may run past midnight
+export function isInQuietHours(quietHours: QuietHours, now = new Date()) {
+  if (!quietHours.enabled) return false
+
+  let localTime: string
+  try {
+    localTime = new Intl.DateTimeFormat("en-US", {
+      timeZone: quietHours.timezone,
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).format(now)
+  } catch {
+    return false
+  }
+
+  const current = parseTimeOfDay(localTime)
+  const start = parseTimeOfDay(quietHours.start)
+  const end = parseTimeOfDay(quietHours.end)
+
+  return start <= end
+    ? current >= start && current < end
+    : current >= start || current < end
+}
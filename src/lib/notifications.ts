@@ -0,0 +1,119 @@
+import { db } from "~/db"
+import { memberships, notifications } from "~/db/schema"
+import { and, eq, gte, isNull, or } from "drizzle-orm"
+
+export interface NotificationInput {
+  companyId: string
+  membershipIds: string[]
+  // An agent notification event, or e.g. "form_submission", "escalation"
+  type: string
+  title: string
+  body?: string | null
+  // App path the notification opens, built with the helpers below
+  link?: string | null
+  ticketId?: string | null
+}
+
+export const ticketLink = (ticketId: string) => `/tickets?ticket=${ticketId}`
+
+export const formSubmissionLink = (formId: string, submissionId: string) =>
+  `/form-builder/${formId}/submissions?submission=${submissionId}`
+
+export const articleLink = (slug: string) => `/knowledge/${slug}`
+
+export const clientPortalLink = (clientId: string) =>
+  `/settings/clients/${clientId}/portal`
+
+export async function getCompanyAdminIds(companyId: string) {
+  const admins = await db.query.memberships.findMany({
+    where: and(
+      eq(memberships.company_id, companyId),
+      eq(memberships.role, "admin"),
+      eq(memberships.is_active, true)
+    ),
+    columns: { id: true },
+  })
+  return admins.map((admin) => admin.id)
+}
+
+/**
+ * Adds the notification to each recipient's in-app list. Never throws, so
+ * callers can publish after their own work is saved without guarding it.
+ */
+export async function publishNotification({
+  companyId,
+  membershipIds,
+  type,
+  title,
+  body,
+  link,
+  ticketId,
+}: NotificationInput) {
+  const recipients = Array.from(new Set(membershipIds))
+  if (recipients.length === 0) return []
+
+  try {
+    return await db
+      .insert(notifications)
+      .values(
+        recipients.map((membershipId) => ({
+          company_id: companyId,
+          membership_id: membershipId,
+          type,
+          title: title.slice(0, 255),
+          body: body ?? null,
+          link: link ?? null,
+          ticket_id: ticketId ?? null,
+        }))
+      )
+      .returning()
+  } catch (error) {
+    console.error(`Failed to publish ${type} notification:`, error)
+    return []
+  }
+}
+
+// Sign-in attempts are unauthenticated, so admins hear about at most one per
+// client in this window
+const ACCESS_REQUEST_INTERVAL_MS = 60 * 60 * 1000
+
+// Tells admins someone without access tried to sign in, once per email until
+// the notification is read and at most hourly per client. Never throws, so
+// the sign-in error still shows.
+export async function notifyPortalAccessRequest(
+  client: { id: string; name: string; company_id: string },
+  email: string
+) {
+  const link = clientPortalLink(client.id)
+  const body = `${email} tried to sign in to the portal but doesn't have access.`
+
+  try {
+    const pending = await db.query.notifications.findFirst({
+      where: and(
+        eq(notifications.company_id, client.company_id),
+        eq(notifications.type, "portal_access_request"),
+        eq(notifications.link, link),
+        or(
+          and(eq(notifications.body, body), isNull(notifications.read_at)),
+          gte(
+            notifications.created_at,
+            new Date(Date.now() - ACCESS_REQUEST_INTERVAL_MS)
+          )
+        )
+      ),
+      columns: { id: true },
+    })
+    if (pending) return
+
+    await publishNotification({
+      companyId: client.company_id,
+      membershipIds: await getCompanyAdminIds(client.company_id),
+      type: "portal_access_request",
+      title: `Portal access requested for ${client.name}`,
+      body,
+      link,
+    })
+  } catch (error) {
+    console.error("Failed to notify admins of portal access request:", error)
+  }
+}
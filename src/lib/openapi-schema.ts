@@ -65,6 +65,23 @@ const options: swaggerJsdoc.Options = {
               nullable: true,
               description: "Customer name",
             },
+            sla_policy_id: {
+              type: "string",
+              format: "uuid",
+              nullable: true,
+              description: "SLA policy applied to the ticket",
+            },
+            sla_policy_reason: {
+              type: "string",
+              enum: [
+                "client_priority",
+                "client_default",
+                "company_priority",
+                "company_default",
+              ],
+              nullable: true,
+              description: "Why the SLA policy was selected",
+            },
             tags: {
               type: "array",
               items: {
@@ -72,6 +89,9 @@ const options: swaggerJsdoc.Options = {
               },
               description: "Ticket tags for categorization",
             },
+            custom_fields: {
+              $ref: "#/components/schemas/CustomFieldValues",
+            },
             created_at: {
               type: "string",
               format: "date-time",
@@ -113,13 +133,25 @@ const options: swaggerJsdoc.Options = {
               type: "string",
               description: "Customer name",
             },
+            client_id: {
+              type: "string",
+              format: "uuid",
+              description:
+                "Client the ticket belongs to; selects the client's SLA policy",
+            },
             tags: {
               type: "array",
               items: {
                 type: "string",
               },
               default: [],
-              description: "Ticket tags for categorization",
+              description:
+                "Ticket tags for categorization. Tags are matched to the company's tag catalog ignoring case; when the catalog is locked, unknown tags are rejected with a 400.",
+            },
+            custom_fields: {
+              $ref: "#/components/schemas/CustomFieldValues",
+              description:
+                "Values for the company's custom fields and the client's own. Required fields must be set.",
             },
           },
         },
@@ -145,12 +177,154 @@ const options: swaggerJsdoc.Options = {
               enum: ["low", "medium", "high", "urgent"],
               description: "Ticket priority level",
             },
+            client_id: {
+              type: "string",
+              format: "uuid",
+              nullable: true,
+              description:
+                "Move the ticket to another client; the SLA policy is re-resolved",
+            },
             tags: {
               type: "array",
               items: {
                 type: "string",
               },
-              description: "Ticket tags for categorization",
+              description:
+                "Replaces the ticket's tags. Tags are matched to the company's tag catalog ignoring case; when the catalog is locked, unknown tags are rejected with a 400.",
+            },
+            custom_fields: {
+              $ref: "#/components/schemas/CustomFieldValues",
+              description:
+                "Only the fields to change; other values are kept. Set a field to null to clear it.",
+            },
+          },
+        },
+        BulkUpdateTickets: {
+          type: "object",
+          required: ["ids"],
+          properties: {
+            ids: {
+              type: "array",
+              items: { type: "string", format: "uuid" },
+              minItems: 1,
+              maxItems: 500,
+              description: "Tickets to update",
+            },
+            status: {
+              type: "string",
+              enum: ["open", "in_progress", "resolved", "closed"],
+            },
+            priority: {
+              type: "string",
+              enum: ["low", "medium", "high", "urgent"],
+            },
+            assigned_to_id: {
+              type: "string",
+              format: "uuid",
+              nullable: true,
+              description:
+                "Team member (membership ID) to assign; null unassigns",
+            },
+            client_id: {
+              type: "string",
+              format: "uuid",
+              nullable: true,
+              description:
+                "Move the tickets to another client; SLA policies are re-resolved",
+            },
+            add_tags: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                "Tags to add, matched to the tag catalog like UpdateTicket's tags",
+            },
+            remove_tags: {
+              type: "array",
+              items: { type: "string" },
+              description: "Tags to remove, ignoring case",
+            },
+            note: {
+              type: "string",
+              description: "Internal note added to every ticket",
+            },
+          },
+        },
+        BulkTicketResult: {
+          type: "object",
+          properties: {
+            id: { type: "string", format: "uuid" },
+            result: {
+              type: "string",
+              enum: ["updated", "unchanged", "not_found"],
+              description:
+                "`not_found` tickets don't exist or belong to another company and were skipped",
+            },
+          },
+        },
+        CustomFieldValues: {
+          type: "object",
+          description:
+            "Custom field values keyed by field key. Text and dropdown fields take a string, number fields a number, date fields a YYYY-MM-DD string, multi-select fields an array of options, checkbox fields a boolean and team member fields a membership ID.",
+          additionalProperties: {
+            oneOf: [
+              { type: "string" },
+              { type: "number" },
+              { type: "boolean" },
+              { type: "array", items: { type: "string" } },
+            ],
+          },
+          example: { contract_number: "C-1042", affected_users: 12 },
+        },
+        CustomField: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              format: "uuid",
+              description: "Custom field identifier",
+            },
+            key: {
+              type: "string",
+              description: "Name of the field in custom_fields",
+            },
+            label: {
+              type: "string",
+              description: "Name shown to agents",
+            },
+            description: {
+              type: "string",
+              nullable: true,
+              description: "Help text shown with the field",
+            },
+            type: {
+              type: "string",
+              enum: [
+                "text",
+                "number",
+                "date",
+                "dropdown",
+                "multi_select",
+                "checkbox",
+                "user",
+              ],
+              description: "Kind of value the field holds",
+            },
+            options: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                "Allowed values for dropdown and multi_select fields",
+            },
+            is_required: {
+              type: "boolean",
+              description: "Whether new tickets must set the field",
+            },
+            client_id: {
+              type: "string",
+              format: "uuid",
+              nullable: true,
+              description:
+                "Client whose tickets use the field; null for every ticket",
             },
           },
         },
@@ -166,10 +340,21 @@ const options: swaggerJsdoc.Options = {
               type: "string",
               description: "Comment content",
             },
+            raw_content: {
+              type: "string",
+              nullable: true,
+              description:
+                "For replies imported from email, the full message body when quoted history or a signature was removed from content",
+            },
             is_internal: {
               type: "boolean",
               description: "Whether comment is internal or public",
             },
+            attachments: {
+              type: "array",
+              items: { $ref: "#/components/schemas/Attachment" },
+              description: "Files attached to the comment",
+            },
             created_at: {
               type: "string",
               format: "date-time",
@@ -177,6 +362,140 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        Attachment: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "Attachment identifier",
+            },
+            filename: {
+              type: "string",
+              description: "Original file name",
+            },
+            content_type: {
+              type: "string",
+              description: "MIME type of the file",
+            },
+            size: {
+              type: "integer",
+              description: "File size in bytes",
+            },
+            url: {
+              type: "string",
+              description:
+                "Download path, relative to the app URL; API responses point at GET /attachments/{commentId}/{attachmentId}",
+            },
+          },
+        },
+        TicketEvent: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              format: "uuid",
+              description: "Unique event identifier",
+            },
+            field: {
+              type: "string",
+              enum: ["status", "priority", "assignee", "tags"],
+              description: "Ticket field that changed",
+            },
+            from_value: {
+              nullable: true,
+              description:
+                "Previous value; assignees are objects with type, id and name",
+            },
+            to_value: {
+              nullable: true,
+              description:
+                "New value; assignees are objects with type, id and name",
+            },
+            actor: {
+              type: "object",
+              properties: {
+                type: {
+                  type: "string",
+                  enum: [
+                    "membership",
+                    "customer_portal_access",
+                    "api_key",
+                    "system",
+                  ],
+                },
+                id: { type: "string", format: "uuid", nullable: true },
+                name: { type: "string" },
+              },
+              description: "Who made the change",
+            },
+            created_at: {
+              type: "string",
+              format: "date-time",
+              description: "When the change was made",
+            },
+          },
+        },
+        TicketFollower: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              format: "uuid",
+              description: "Unique follower identifier",
+            },
+            type: {
+              type: "string",
+              enum: ["member", "contact"],
+              description: "Team member or email contact",
+            },
+            membership_id: {
+              type: "string",
+              format: "uuid",
+              nullable: true,
+              description: "Team member following the ticket",
+            },
+            email: {
+              type: "string",
+              format: "email",
+              nullable: true,
+            },
+            name: { type: "string", nullable: true },
+            muted: {
+              type: "boolean",
+              description:
+                "Whether the contact unsubscribed from the ticket's emails",
+            },
+            created_at: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+        },
+        AddTicketFollowers: {
+          type: "object",
+          properties: {
+            membership_ids: {
+              type: "array",
+              items: { type: "string", format: "uuid" },
+              maxItems: 50,
+              description: "Team members to add",
+            },
+            contacts: {
+              type: "array",
+              maxItems: 50,
+              items: {
+                type: "object",
+                required: ["email"],
+                properties: {
+                  email: { type: "string", format: "email" },
+                  name: { type: "string" },
+                },
+              },
+              description:
+                "Email contacts to CC; addresses of team members are added as those members",
+            },
+          },
+        },
         CreateComment: {
           type: "object",
           required: ["content"],
@@ -191,6 +510,13 @@ const options: swaggerJsdoc.Options = {
               default: false,
               description: "Whether comment is internal or public",
             },
+            attachment_ids: {
+              type: "array",
+              items: { type: "string", format: "uuid" },
+              maxItems: 10,
+              description:
+                "Files uploaded with POST /tickets/{id}/attachments to attach to the comment",
+            },
           },
         },
         PaginatedResponse: {
@@ -292,7 +618,29 @@ const paths = {
           name: "search",
           in: "query",
           schema: { type: "string" },
-          description: "Search in ticket subject and description",
+          description:
+            'Full-text search of the ticket subject, description and comments. Matches whole words in any form ("billing" finds "billed"); use quotes for a phrase, `or` between alternatives and `-` before a word to exclude it',
+        },
+        {
+          name: "custom_fields[key]",
+          in: "query",
+          schema: { type: "string" },
+          description:
+            "Filter by a custom field value, e.g. custom_fields[region]=EMEA. Multi-select fields match tickets that include the value. Repeat for more fields.",
+        },
+        {
+          name: "tags",
+          in: "query",
+          schema: { type: "string" },
+          description:
+            "Comma-separated tags to filter by, e.g. tags=billing,refund. Case-insensitive.",
+        },
+        {
+          name: "tag_match",
+          in: "query",
+          schema: { type: "string", enum: ["any", "all"], default: "any" },
+          description:
+            "Whether tickets must have any or all of the tags given in `tags`",
         },
       ],
       responses: {
@@ -387,6 +735,48 @@ const paths = {
       },
     },
   },
+  "/tickets/bulk": {
+    patch: {
+      tags: ["Tickets"],
+      summary: "Bulk update tickets",
+      description:
+        "Apply the same changes to up to 500 tickets in one transaction. Each ticket records its own history and notifications, as with a single update.",
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: {
+              $ref: "#/components/schemas/BulkUpdateTickets",
+            },
+          },
+        },
+      },
+      responses: {
+        "200": {
+          description: "Result for each requested ticket",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  data: {
+                    type: "array",
+                    items: {
+                      $ref: "#/components/schemas/BulkTicketResult",
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        "400": {
+          description:
+            "Invalid request body, no changes given, or an unknown assignee, client or tag",
+        },
+      },
+    },
+  },
   "/tickets/{id}": {
     get: {
       tags: ["Tickets"],
@@ -578,6 +968,304 @@ const paths = {
       },
     },
   },
+  "/tickets/{id}/attachments": {
+    post: {
+      tags: ["Comments"],
+      summary: "Upload attachment",
+      description:
+        "Upload a file to attach to a new comment on this ticket. Pass the returned ID in the comment's attachment_ids. Size and type limits are set per company.",
+      parameters: [
+        {
+          name: "id",
+          in: "path",
+          required: true,
+          schema: { type: "string", format: "uuid" },
+          description: "Ticket ID",
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          "multipart/form-data": {
+            schema: {
+              type: "object",
+              required: ["file"],
+              properties: {
+                file: { type: "string", format: "binary" },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        "201": {
+          description: "File stored and waiting to be attached",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  data: {
+                    type: "object",
+                    properties: {
+                      id: { type: "string", format: "uuid" },
+                      filename: { type: "string" },
+                      content_type: { type: "string" },
+                      size: { type: "integer" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        "400": {
+          description: "Missing file, file too large or type not allowed",
+        },
+        "404": {
+          description: "Ticket not found",
+        },
+      },
+    },
+  },
+  "/attachments/{commentId}/{attachmentId}": {
+    get: {
+      tags: ["Comments"],
+      summary: "Download attachment",
+      description: "Download a file attached to a public comment",
+      parameters: [
+        {
+          name: "commentId",
+          in: "path",
+          required: true,
+          schema: { type: "string", format: "uuid" },
+          description: "Comment ID",
+        },
+        {
+          name: "attachmentId",
+          in: "path",
+          required: true,
+          schema: { type: "string" },
+          description: "Attachment ID",
+        },
+      ],
+      responses: {
+        "200": {
+          description: "The file contents",
+          content: {
+            "application/octet-stream": {
+              schema: { type: "string", format: "binary" },
+            },
+          },
+        },
+        "404": {
+          description: "Attachment not found",
+        },
+      },
+    },
+  },
+  "/tickets/{id}/events": {
+    get: {
+      tags: ["Tickets"],
+      summary: "List ticket events",
+      description:
+        "Retrieve the change history of a ticket (status, priority, assignee and tags), oldest first",
+      parameters: [
+        {
+          name: "id",
+          in: "path",
+          required: true,
+          schema: { type: "string", format: "uuid" },
+          description: "Ticket ID",
+        },
+      ],
+      responses: {
+        "200": {
+          description: "List of ticket events",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  data: {
+                    type: "array",
+                    items: {
+                      $ref: "#/components/schemas/TicketEvent",
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        "404": {
+          description: "Ticket not found",
+        },
+      },
+    },
+  },
+  "/tickets/{id}/followers": {
+    get: {
+      tags: ["Tickets"],
+      summary: "List ticket followers",
+      description:
+        "Team members and email contacts who get the ticket's notifications alongside the assignee and requester",
+      parameters: [
+        {
+          name: "id",
+          in: "path",
+          required: true,
+          schema: { type: "string", format: "uuid" },
+          description: "Ticket ID",
+        },
+      ],
+      responses: {
+        "200": {
+          description: "List of followers",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  data: {
+                    type: "array",
+                    items: {
+                      $ref: "#/components/schemas/TicketFollower",
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        "404": {
+          description: "Ticket not found",
+        },
+      },
+    },
+    post: {
+      tags: ["Tickets"],
+      summary: "Add ticket followers",
+      description:
+        "Add team members or CC email contacts. Existing followers and the requester are skipped.",
+      parameters: [
+        {
+          name: "id",
+          in: "path",
+          required: true,
+          schema: { type: "string", format: "uuid" },
+          description: "Ticket ID",
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: {
+              $ref: "#/components/schemas/AddTicketFollowers",
+            },
+          },
+        },
+      },
+      responses: {
+        "201": {
+          description: "All followers of the ticket after the change",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  data: {
+                    type: "array",
+                    items: {
+                      $ref: "#/components/schemas/TicketFollower",
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        "400": {
+          description: "Invalid request body",
+        },
+        "404": {
+          description: "Ticket not found",
+        },
+      },
+    },
+  },
+  "/tickets/{id}/followers/{followerId}": {
+    delete: {
+      tags: ["Tickets"],
+      summary: "Remove ticket follower",
+      parameters: [
+        {
+          name: "id",
+          in: "path",
+          required: true,
+          schema: { type: "string", format: "uuid" },
+          description: "Ticket ID",
+        },
+        {
+          name: "followerId",
+          in: "path",
+          required: true,
+          schema: { type: "string", format: "uuid" },
+          description: "Follower ID",
+        },
+      ],
+      responses: {
+        "200": {
+          description: "Follower removed",
+        },
+        "404": {
+          description: "Follower not found",
+        },
+      },
+    },
+  },
+  "/custom-fields": {
+    get: {
+      tags: ["Custom Fields"],
+      summary: "List custom fields",
+      description:
+        "Custom ticket fields defined by the company, which tickets set through custom_fields",
+      parameters: [
+        {
+          name: "client_id",
+          in: "query",
+          schema: { type: "string", format: "uuid" },
+          description:
+            "Only the fields used by this client's tickets: the company-wide ones and the client's own",
+        },
+      ],
+      responses: {
+        "200": {
+          description: "List of custom fields",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  data: {
+                    type: "array",
+                    items: { $ref: "#/components/schemas/CustomField" },
+                  },
+                },
+              },
+            },
+          },
+        },
+        "401": {
+          description: "Invalid or missing API key",
+        },
+        "403": {
+          description: "Insufficient permissions",
+        },
+      },
+    },
+  },
 }
 
 // Add paths to the definition
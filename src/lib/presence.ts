@@ -0,0 +1,140 @@
+import { db } from "~/db"
+import { memberships, ticketPresence, users } from "~/db/schema"
+import { and, asc, eq, gt, lt, ne } from "drizzle-orm"
+import { publishRealtimeEvent } from "~/lib/realtime"
+
+// Clients heartbeat every 15 seconds; a viewer that misses a couple is gone
+const PRESENCE_TTL_MS = 45_000
+
+export type PresenceSource = "app" | "portal"
+
+interface PresenceTicket {
+  id: string
+  company_id: string
+  client_id: string | null
+}
+
+const activeSince = () => new Date(Date.now() - PRESENCE_TTL_MS)
+
+async function publishPresenceChange(ticket: PresenceTicket) {
+  try {
+    await publishRealtimeEvent({
+      type: "presence.updated",
+      companyId: ticket.company_id,
+      clientId: ticket.client_id,
+      ticketId: ticket.id,
+    })
+  } catch (error) {
+    console.error("Failed to publish presence change:", error)
+  }
+}
+
+/**
+ * Records that a team member has the ticket open, and whether they're typing
+ * a reply. Other viewers are only told when that changes the list they see,
+ * since most heartbeats just extend an existing entry.
+ */
+export async function touchTicketPresence(
+  ticket: PresenceTicket,
+  membershipId: string,
+  state: { source: PresenceSource; isTyping: boolean }
+) {
+  const now = new Date()
+  const previous = await db.query.ticketPresence.findFirst({
+    where: and(
+      eq(ticketPresence.ticket_id, ticket.id),
+      eq(ticketPresence.membership_id, membershipId)
+    ),
+    columns: { last_seen_at: true, is_typing: true, source: true },
+  })
+
+  await db
+    .insert(ticketPresence)
+    .values({
+      company_id: ticket.company_id,
+      ticket_id: ticket.id,
+      membership_id: membershipId,
+      source: state.source,
+      is_typing: state.isTyping,
+      last_seen_at: now,
+    })
+    .onConflictDoUpdate({
+      target: [ticketPresence.ticket_id, ticketPresence.membership_id],
+      set: {
+        source: state.source,
+        is_typing: state.isTyping,
+        last_seen_at: now,
+      },
+    })
+
+  // Expired entries for this ticket are no longer shown to anyone
+  await db
+    .delete(ticketPresence)
+    .where(
+      and(
+        eq(ticketPresence.ticket_id, ticket.id),
+        lt(ticketPresence.last_seen_at, activeSince())
+      )
+    )
+
+  const changed =
+    !previous ||
+    previous.last_seen_at < activeSince() ||
+    previous.is_typing !== state.isTyping ||
+    previous.source !== state.source
+  if (changed) await publishPresenceChange(ticket)
+}
+
+// Called when a viewer closes the ticket, so they disappear right away
+export async function clearTicketPresence(
+  ticket: PresenceTicket,
+  membershipId: string
+) {
+  const removed = await db
+    .delete(ticketPresence)
+    .where(
+      and(
+        eq(ticketPresence.ticket_id, ticket.id),
+        eq(ticketPresence.membership_id, membershipId)
+      )
+    )
+    .returning({ id: ticketPresence.id })
+  if (removed.length > 0) await publishPresenceChange(ticket)
+}
+
+// Team members other than the caller with the ticket currently open
+export async function getTicketViewers(
+  ticket: PresenceTicket,
+  excludeMembershipId: string
+) {
+  const viewers = await db
+    .select({
+      membershipId: ticketPresence.membership_id,
+      source: ticketPresence.source,
+      isTyping: ticketPresence.is_typing,
+      firstName: users.first_name,
+      lastName: users.last_name,
+      email: users.email,
+    })
+    .from(ticketPresence)
+    .innerJoin(memberships, eq(memberships.id, ticketPresence.membership_id))
+    .innerJoin(users, eq(users.id, memberships.user_id))
+    .where(
+      and(
+        eq(ticketPresence.ticket_id, ticket.id),
+        eq(ticketPresence.company_id, ticket.company_id),
+        ne(ticketPresence.membership_id, excludeMembershipId),
+        gt(ticketPresence.last_seen_at, activeSince())
+      )
+    )
+    .orderBy(asc(users.first_name), asc(users.last_name))
+
+  return viewers.map((viewer) => ({
+    membershipId: viewer.membershipId,
+    source: viewer.source as PresenceSource,
+    isTyping: viewer.isTyping,
+    name:
+      [viewer.firstName, viewer.lastName].filter(Boolean).join(" ") ||
+      viewer.email,
+  }))
+}
@@ -0,0 +1,69 @@
+import { EventEmitter } from "events"
+import postgres from "postgres"
+import { sql } from "drizzle-orm"
+import { db } from "~/db"
+
+// Notified by the triggers in the ticket_change_notifications migration, and
+// by publishRealtimeEvent for changes that aren't table writes clients track
+const CHANNEL = "ticket_changes"
+
+export interface RealtimeEvent {
+  type:
+    | "ticket.created"
+    | "ticket.updated"
+    | "comment.created"
+    | "comment.updated"
+    | "presence.updated"
+  companyId: string
+  clientId: string | null
+  ticketId: string
+  // Set for comment events
+  commentId?: string
+  isInternal?: boolean
+}
+
+const emitter = new EventEmitter()
+// One listener per open subscription
+emitter.setMaxListeners(0)
+
+let listenClient: postgres.Sql | null = null
+
+/**
+ * Starts this server's LISTEN on first use. postgres-js keeps a dedicated
+ * connection for it and re-issues the LISTEN after reconnecting, so one per
+ * process is enough however many clients subscribe.
+ */
+function ensureListening() {
+  if (listenClient) return
+
+  listenClient = postgres(process.env.DATABASE_URL!, { max: 1 })
+  listenClient
+    .listen(CHANNEL, (payload) => {
+      try {
+        emitter.emit("event", JSON.parse(payload) as RealtimeEvent)
+      } catch (error) {
+        console.error("Ignoring malformed realtime payload:", error)
+      }
+    })
+    .catch((error) => {
+      console.error("Failed to listen for ticket changes:", error)
+      void listenClient?.end()
+      listenClient = null
+    })
+}
+
+// Calls the listener for every ticket or comment change; returns the unsubscribe
+export function subscribeToRealtimeEvents(
+  listener: (event: RealtimeEvent) => void
+) {
+  ensureListening()
+  emitter.on("event", listener)
+  return () => {
+    emitter.off("event", listener)
+  }
+}
+
+// Announces an event to every app server, the same way the triggers do
+export async function publishRealtimeEvent(event: RealtimeEvent) {
+  await db.execute(sql`select pg_notify(${CHANNEL}, ${JSON.stringify(event)})`)
+}
@@ -0,0 +1,48 @@
+import { describe, test } from "node:test"
+import assert from "node:assert/strict"
+import { parseSearchQuery } from "./search"
+
+function parse(input: string) {
+  const result = parseSearchQuery(input)
+  if ("error" in result) assert.fail(result.error)
+  return result.query
+}
+
+describe("parseSearchQuery", () => {
+  test("reads a quoted prefix value as one value", () => {
+    const query = parse('client:"acme corp" printer')
+    assert.deepEqual(query.clients, ["acme corp"])
+    assert.equal(query.text, "printer")
+  })
+
+  test("keeps unknown prefixes in the text", () => {
+    const query = parse("meeting at 10:30 note:urgent")
+    assert.equal(query.text, "meeting at 10:30 note:urgent")
+    assert.deepEqual(query.types, ["ticket", "article", "submission"])
+  })
+
+  test("rejects an unknown status", () => {
+    assert.deepEqual(parseSearchQuery("status:done"), {
+      error:
+        'Unknown status "done". Use one of: open, in_progress, resolved, closed',
+    })
+  })
+
+  test("rejects an unknown type", () => {
+    assert.deepEqual(parseSearchQuery("type:invoice"), {
+      error: 'Unknown type "invoice". Use ticket, article or submission',
+    })
+  })
+
+  test("only finds tickets with a status or assignee", () => {
+    assert.deepEqual(parse("status:in-progress").types, ["ticket"])
+    assert.deepEqual(parse("assignee:me").types, ["ticket"])
+    assert.deepEqual(parse("status:open type:article").types, [])
+  })
+
+  test("rules out submissions with a tag", () => {
+    const query = parse("tag:billing tag:vip")
+    assert.deepEqual(query.tags, ["billing", "vip"])
+    assert.deepEqual(query.types, ["ticket", "article"])
+  })
+})
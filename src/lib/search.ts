@@ -0,0 +1,251 @@
+import {
+  formSubmissions,
+  knowledgeBase,
+  ticketComments,
+  tickets,
+} from "~/db/schema"
+import { getTableColumns, or, sql, type AnyColumn, type SQL } from "drizzle-orm"
+import { TICKET_PRIORITIES, TICKET_STATUSES } from "~/lib/ticket-filter-types"
+
+export const SEARCH_TYPES = ["ticket", "article", "submission"] as const
+export type SearchType = (typeof SEARCH_TYPES)[number]
+
+const TYPE_ALIASES: Record<string, SearchType> = {
+  ticket: "ticket",
+  tickets: "ticket",
+  article: "article",
+  articles: "article",
+  kb: "article",
+  submission: "submission",
+  submissions: "submission",
+  form: "submission",
+}
+
+export interface SearchQuery {
+  // Free text in web search syntax: "quoted phrases", or, -excluded
+  text: string
+  // Result types the field prefixes leave possible
+  types: SearchType[]
+  statuses: (typeof TICKET_STATUSES)[number][]
+  priorities: (typeof TICKET_PRIORITIES)[number][]
+  clients: string[]
+  tags: string[]
+  // "me", "none" or part of a team member's name
+  assignees: string[]
+}
+
+// `key:value` or `key:"quoted value"`, a quoted phrase, or a bare word
+const TOKEN_PATTERN = /([a-z]+):(?:"([^"]*)"?|(\S+))|("[^"]*"?)|(\S+)/gi
+
+/**
+ * Splits a search box query into free text and field prefixes such as
+ * `client:acme status:open`. Repeating a prefix matches any of its values,
+ * except `tag:`, where tickets and articles need every tag. Prefixes that
+ * only apply to some result types rule out the others, so `status:open`
+ * only finds tickets.
+ */
+export function parseSearchQuery(
+  input: string
+): { query: SearchQuery } | { error: string } {
+  const query: SearchQuery = {
+    text: "",
+    types: [...SEARCH_TYPES],
+    statuses: [],
+    priorities: [],
+    clients: [],
+    tags: [],
+    assignees: [],
+  }
+  const text: string[] = []
+  const requestedTypes: SearchType[] = []
+
+  const pattern = new RegExp(TOKEN_PATTERN.source, TOKEN_PATTERN.flags)
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(input))) {
+    const [token, rawKey, quotedValue, plainValue] = match
+    const key = rawKey?.toLowerCase()
+    const value = (quotedValue ?? plainValue ?? "").trim()
+
+    if (!key || !value) {
+      text.push(token)
+      continue
+    }
+
+    switch (key) {
+      case "type": {
+        const type = TYPE_ALIASES[value.toLowerCase()]
+        if (!type) {
+          return {
+            error: `Unknown type "${value}". Use ticket, article or submission`,
+          }
+        }
+        requestedTypes.push(type)
+        break
+      }
+      case "status": {
+        const status = TICKET_STATUSES.find(
+          (status) => status === value.toLowerCase().replace("-", "_")
+        )
+        if (!status) {
+          return {
+            error: `Unknown status "${value}". Use one of: ${TICKET_STATUSES.join(", ")}`,
+          }
+        }
+        query.statuses.push(status)
+        break
+      }
+      case "priority": {
+        const priority = TICKET_PRIORITIES.find(
+          (priority) => priority === value.toLowerCase()
+        )
+        if (!priority) {
+          return {
+            error: `Unknown priority "${value}". Use one of: ${TICKET_PRIORITIES.join(", ")}`,
+          }
+        }
+        query.priorities.push(priority)
+        break
+      }
+      case "client":
+        query.clients.push(value)
+        break
+      case "tag":
+        query.tags.push(value)
+        break
+      case "assignee":
+        query.assignees.push(value.toLowerCase())
+        break
+      default:
+        // Not a prefix we know, e.g. a time like 10:30
+        text.push(token)
+    }
+  }
+
+  query.text = text.join(" ").trim()
+
+  const allowed = (type: SearchType) => {
+    if (requestedTypes.length > 0 && !requestedTypes.includes(type)) {
+      return false
+    }
+    if (
+      type !== "ticket" &&
+      (query.statuses.length ||
+        query.priorities.length ||
+        query.assignees.length)
+    ) {
+      return false
+    }
+    if (type === "article" && query.clients.length) return false
+    if (type === "submission" && query.tags.length) return false
+    return true
+  }
+  query.types = SEARCH_TYPES.filter(allowed)
+
+  return { query }
+}
+
+// Whether the query has anything to search for
+export function hasSearchCriteria(query: SearchQuery) {
+  return (
+    query.text !== "" ||
+    query.statuses.length > 0 ||
+    query.priorities.length > 0 ||
+    query.clients.length > 0 ||
+    query.tags.length > 0 ||
+    query.assignees.length > 0
+  )
+}
+
+export function toTsQuery(text: string) {
+  return sql`websearch_to_tsquery('english', ${text})`
+}
+
+export function matchesTsQuery(vector: AnyColumn, tsQuery: SQL) {
+  return sql`${vector} @@ ${tsQuery}`
+}
+
+// Title-weighted relevance of a match, higher is better
+export function tsRank(vector: AnyColumn, tsQuery: SQL) {
+  return sql<number>`ts_rank_cd(${vector}, ${tsQuery})`
+}
+
+/**
+ * Tickets whose subject, description or comments contain the text. Used by
+ * the ticket list's search box and the API's `search` parameter.
+ */
+export function getTicketTextCondition(text: string): SQL {
+  const tsQuery = toTsQuery(text)
+  return or(
+    matchesTsQuery(tickets.search_vector, tsQuery),
+    sql`exists (select 1 from ${ticketComments} where ${ticketComments.ticket_id} = ${tickets.id} and ${matchesTsQuery(ticketComments.search_vector, tsQuery)})`
+  )!
+}
+
+// ts_headline wraps matches in these, which can't appear in stored text
+const HIGHLIGHT_START = "\u0002"
+const HIGHLIGHT_END = "\u0003"
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MinWords=12, MaxWords=30, MaxFragments=2, FragmentDelimiter=" … "`
+
+/**
+ * Excerpt of `source` around the query's matches, with HTML tags removed.
+ * Pass the result through `toSnippet`.
+ */
+export function headline(source: SQL | AnyColumn, tsQuery: SQL) {
+  return sql<string>`ts_headline('english', regexp_replace(${source}, '<[^>]*>', ' ', 'g'), ${tsQuery}, ${HEADLINE_OPTIONS})`
+}
+
+export type SnippetPart = { text: string; highlight: boolean }
+
+// Splits a `headline` into plain and highlighted parts for display
+export function toSnippet(headline: string): SnippetPart[] {
+  const [first = "", ...rest] = headline.split(HIGHLIGHT_START)
+  const parts: SnippetPart[] = []
+  if (first) parts.push({ text: first, highlight: false })
+  for (const segment of rest) {
+    const [highlighted = "", after = ""] = segment.split(HIGHLIGHT_END)
+    parts.push({ text: highlighted, highlight: true })
+    if (after) parts.push({ text: after, highlight: false })
+  }
+  return parts
+}
+
+const PLAIN_SNIPPET_LENGTH = 200
+
+// Opening of an HTML or plain text body, for results without text matches
+export function plainSnippet(source: string | null): SnippetPart[] {
+  const text = (source ?? "")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+  if (!text) return []
+  return [
+    {
+      text:
+        text.length > PLAIN_SNIPPET_LENGTH
+          ? `${text.slice(0, PLAIN_SNIPPET_LENGTH)}…`
+          : text,
+      highlight: false,
+    },
+  ]
+}
+
+function withoutSearchVector<T extends { search_vector: unknown }>(
+  columns: T
+): Omit<T, "search_vector"> {
+  const selected: Partial<T> = { ...columns }
+  delete selected.search_vector
+  return selected as Omit<T, "search_vector">
+}
+
+// For `.returning()` on rows sent to clients, which don't need the search
+// vector; queries leave it out with `columns: { search_vector: false }`
+export const ticketColumns = withoutSearchVector(getTableColumns(tickets))
+export const ticketCommentColumns = withoutSearchVector(
+  getTableColumns(ticketComments)
+)
+export const knowledgeBaseColumns = withoutSearchVector(
+  getTableColumns(knowledgeBase)
+)
+export const formSubmissionColumns = withoutSearchVector(
+  getTableColumns(formSubmissions)
+)
@@ -0,0 +1,162 @@
+import { before, describe, test } from "node:test"
+import assert from "node:assert/strict"
+import { clients, companies, db, slaPolicies } from "~/db"
+import { migrateTestDb } from "~/db/test-db"
+import { getSlaPolicyChange, resolveSlaPolicy } from "./sla"
+
+describe("SLA policy precedence", () => {
+  let companyId: string
+  let acmeId: string
+  let globexId: string
+  // Policy ids by name
+  const policyIds: Record<string, string> = {}
+
+  before(async () => {
+    await migrateTestDb()
+
+    const [company] = await db
+      .insert(companies)
+      .values({ name: "Helpdesk", slug: "helpdesk", size: "1-10" })
+      .returning()
+    companyId = company!.id
+
+    // Acme has its own policies, Globex relies on the company's
+    const [acme, globex] = await db
+      .insert(clients)
+      .values([
+        { company_id: companyId, name: "Acme", slug: "acme" },
+        { company_id: companyId, name: "Globex", slug: "globex" },
+      ])
+      .returning()
+    acmeId = acme!.id
+    globexId = globex!.id
+
+    const policies = await db
+      .insert(slaPolicies)
+      .values(
+        [
+          {
+            name: "Company default",
+            priority: "low" as const,
+            is_default: true,
+          },
+          { name: "Company high", priority: "high" as const },
+          {
+            name: "Acme default",
+            priority: "low" as const,
+            is_default: true,
+            client_id: acmeId,
+          },
+          {
+            name: "Acme urgent",
+            priority: "urgent" as const,
+            client_id: acmeId,
+          },
+        ].map((policy) => ({
+          ...policy,
+          company_id: companyId,
+          response_time_minutes: 60,
+          resolution_time_minutes: 480,
+        }))
+      )
+      .returning()
+    for (const policy of policies) policyIds[policy.name] = policy.id
+  })
+
+  const resolve = async (
+    clientId: string | null,
+    priority: "low" | "medium" | "high" | "urgent"
+  ) => {
+    const resolved = await resolveSlaPolicy({ companyId, clientId, priority })
+    return resolved && { name: resolved.policy.name, reason: resolved.reason }
+  }
+
+  test("prefers the client's policy for the priority", async () => {
+    assert.deepEqual(await resolve(acmeId, "urgent"), {
+      name: "Acme urgent",
+      reason: "client_priority",
+    })
+  })
+
+  test("prefers the client's default over the company's priority policy", async () => {
+    assert.deepEqual(await resolve(acmeId, "high"), {
+      name: "Acme default",
+      reason: "client_default",
+    })
+  })
+
+  test("falls back to the company's policies for other clients", async () => {
+    assert.deepEqual(await resolve(globexId, "high"), {
+      name: "Company high",
+      reason: "company_priority",
+    })
+    assert.deepEqual(await resolve(globexId, "urgent"), {
+      name: "Company default",
+      reason: "company_default",
+    })
+  })
+
+  test("ignores client policies for a ticket without a client", async () => {
+    assert.deepEqual(await resolve(null, "urgent"), {
+      name: "Company default",
+      reason: "company_default",
+    })
+    assert.deepEqual(await resolve(null, "high"), {
+      name: "Company high",
+      reason: "company_priority",
+    })
+  })
+
+  describe("getSlaPolicyChange", () => {
+    const ticket = (clientId: string | null, policyName: string) => ({
+      company_id: companyId,
+      client_id: clientId,
+      priority: "medium" as const,
+      sla_policy_id: policyIds[policyName]!,
+      created_at: new Date("2025-06-02T09:00:00Z"),
+    })
+
+    // Every policy allows 60 and 480 minutes, counted from created_at
+    const switchedTo = (policyName: string, reason: string) => ({
+      sla_policy_id: policyIds[policyName],
+      sla_policy_reason: reason,
+      sla_response_due_at: new Date("2025-06-02T10:00:00Z"),
+      sla_resolution_due_at: new Date("2025-06-02T17:00:00Z"),
+      sla_response_breach: false,
+      sla_resolution_breach: false,
+    })
+
+    test("switches policy when the priority changes", async () => {
+      const change = await getSlaPolicyChange(
+        ticket(globexId, "Company default"),
+        { priority: "high" }
+      )
+      assert.deepEqual(change, switchedTo("Company high", "company_priority"))
+    })
+
+    test("keeps everything when the same policy still applies", async () => {
+      assert.deepEqual(
+        await getSlaPolicyChange(ticket(acmeId, "Acme default"), {
+          priority: "high",
+        }),
+        {}
+      )
+    })
+
+    test("moves to the company's policies when the client is removed", async () => {
+      const change = await getSlaPolicyChange(ticket(acmeId, "Acme default"), {
+        clientId: null,
+        priority: "urgent",
+      })
+      assert.deepEqual(change, switchedTo("Company default", "company_default"))
+    })
+
+    test("picks up the client's policy when a client is set", async () => {
+      const change = await getSlaPolicyChange(ticket(null, "Company default"), {
+        clientId: acmeId,
+        priority: "urgent",
+      })
+      assert.deepEqual(change, switchedTo("Acme urgent", "client_priority"))
+    })
+  })
+})
@@ -0,0 +1,463 @@
+import { db } from "~/db"
+import {
+  clients,
+  slaPolicies,
+  ticketFollowers,
+  tickets,
+  type businessHours,
+} from "~/db/schema"
+import {
+  and,
+  eq,
+  exists,
+  gt,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  or,
+  sql,
+} from "drizzle-orm"
+import { addBusinessMinutes, type BusinessSchedule } from "~/lib/business-hours"
+import { notifySlaWarning } from "~/lib/agent-notifications"
+
+type SlaPolicy = typeof slaPolicies.$inferSelect
+type BusinessHours = typeof businessHours.$inferSelect
+type TicketPriority = (typeof tickets.$inferSelect)["priority"]
+
+export type SlaPolicyReason =
+  | "client_priority"
+  | "client_default"
+  | "company_priority"
+  | "company_default"
+
+// Statuses whose SLA clocks are still running
+const ACTIVE_STATUSES = ["open", "in_progress"] as const
+
+// How long before a deadline the assignee is warned
+const SLA_WARNING_MINUTES = 60
+
+// Earliest deadline a ticket can still miss: the response due date until the
+// first response lands, the resolution due date after that.
+export const slaNextDueAt = sql<Date | null>`case when ${tickets.first_response_at} is null then least(${tickets.sla_response_due_at}, ${tickets.sla_resolution_due_at}) else ${tickets.sla_resolution_due_at} end`
+
+// Tickets that missed a response or resolution deadline
+export const slaBreachedCondition = sql`(${tickets.sla_response_breach} is true or ${tickets.sla_resolution_breach} is true)`
+
+// Running tickets whose next deadline is within the warning window, before
+// they breach
+export function getSlaAtRiskCondition(now = new Date()) {
+  const warningCutoff = new Date(now.getTime() + SLA_WARNING_MINUTES * 60000)
+  return and(
+    inArray(tickets.status, [...ACTIVE_STATUSES]),
+    sql`${slaNextDueAt} > ${now.toISOString()}`,
+    sql`${slaNextDueAt} <= ${warningCutoff.toISOString()}`
+  )!
+}
+
+export function toBusinessSchedule(
+  hours: BusinessHours | null | undefined
+): BusinessSchedule | null {
+  if (!hours) return null
+
+  return {
+    timezone: hours.timezone,
+    weekly_hours: hours.weekly_hours as BusinessSchedule["weekly_hours"],
+    holidays: hours.holidays as BusinessSchedule["holidays"],
+  }
+}
+
+export function calculateSlaDueDates(
+  policy: Pick<SlaPolicy, "response_time_minutes" | "resolution_time_minutes">,
+  startedAt: Date,
+  schedule?: BusinessSchedule | null
+) {
+  // Without a schedule the SLA clock runs around the clock
+  const addMinutes = (minutes: number) =>
+    schedule
+      ? addBusinessMinutes(startedAt, minutes, schedule)
+      : new Date(startedAt.getTime() + minutes * 60 * 1000)
+
+  return {
+    sla_response_due_at: addMinutes(policy.response_time_minutes),
+    sla_resolution_due_at: addMinutes(policy.resolution_time_minutes),
+  }
+}
+
+/**
+ * Picks the working hours an SLA policy is measured in: the policy's own
+ * schedule first, then the ticket client's schedule.
+ */
+export async function getSlaSchedule(
+  policy: Pick<SlaPolicy, "business_hours_id">,
+  clientId?: string | null
+) {
+  if (policy.business_hours_id) {
+    const hours = await db.query.businessHours.findFirst({
+      where: (businessHours, { eq }) =>
+        eq(businessHours.id, policy.business_hours_id!),
+    })
+    return toBusinessSchedule(hours)
+  }
+
+  if (clientId) {
+    const client = await db.query.clients.findFirst({
+      where: (clients, { eq }) => eq(clients.id, clientId),
+      columns: { id: true },
+      with: { businessHours: true },
+    })
+    return toBusinessSchedule(client?.businessHours)
+  }
+
+  return null
+}
+
+export async function resolveSlaDueDates(
+  policy: SlaPolicy,
+  { clientId, startedAt }: { clientId?: string | null; startedAt: Date }
+) {
+  const schedule = await getSlaSchedule(policy, clientId)
+  return calculateSlaDueDates(policy, startedAt, schedule)
+}
+
+/**
+ * Picks the most specific SLA policy for a ticket: the client's policy for the
+ * ticket priority, then the client's default, then the company-wide policy for
+ * the priority, then the company default.
+ */
+export async function resolveSlaPolicy({
+  companyId,
+  clientId,
+  priority,
+}: {
+  companyId: string
+  clientId?: string | null
+  priority: TicketPriority
+}): Promise<{ policy: SlaPolicy; reason: SlaPolicyReason } | null> {
+  const candidates = await db.query.slaPolicies.findMany({
+    where: (slaPolicies, { and, eq, isNull, or }) =>
+      and(
+        eq(slaPolicies.company_id, companyId),
+        clientId
+          ? or(
+              isNull(slaPolicies.client_id),
+              eq(slaPolicies.client_id, clientId)
+            )
+          : isNull(slaPolicies.client_id)
+      ),
+    orderBy: (slaPolicies, { asc }) => [asc(slaPolicies.created_at)],
+  })
+
+  const clientPolicies = clientId
+    ? candidates.filter((p) => p.client_id === clientId)
+    : []
+  const companyPolicies = candidates.filter((p) => !p.client_id)
+
+  const matches: [SlaPolicy | undefined, SlaPolicyReason][] = [
+    [clientPolicies.find((p) => p.priority === priority), "client_priority"],
+    [clientPolicies.find((p) => p.is_default), "client_default"],
+    [companyPolicies.find((p) => p.priority === priority), "company_priority"],
+    [companyPolicies.find((p) => p.is_default), "company_default"],
+  ]
+
+  for (const [policy, reason] of matches) {
+    if (policy) return { policy, reason }
+  }
+
+  return null
+}
+
+/**
+ * SLA columns for a new ticket: the resolved policy, why it was chosen and the
+ * deadlines counted from the ticket's creation.
+ */
+export async function getTicketSlaFields({
+  companyId,
+  clientId,
+  priority,
+  startedAt = new Date(),
+}: {
+  companyId: string
+  clientId?: string | null
+  priority: TicketPriority
+  startedAt?: Date
+}) {
+  const resolved = await resolveSlaPolicy({ companyId, clientId, priority })
+
+  if (!resolved) {
+    return {
+      sla_policy_id: null,
+      sla_policy_reason: null,
+      sla_response_due_at: null,
+      sla_resolution_due_at: null,
+    }
+  }
+
+  return {
+    sla_policy_id: resolved.policy.id,
+    sla_policy_reason: resolved.reason,
+    ...(await resolveSlaDueDates(resolved.policy, { clientId, startedAt })),
+  }
+}
+
+/**
+ * Re-resolves the SLA policy after a ticket's priority or client changed.
+ * Returns the columns to update, or an empty object when the policy stays the
+ * same. Breach flags are cleared so the next evaluation re-checks the new
+ * deadlines.
+ */
+export async function getSlaPolicyChange(
+  ticket: Pick<
+    typeof tickets.$inferSelect,
+    "company_id" | "client_id" | "priority" | "sla_policy_id" | "created_at"
+  >,
+  changes: { clientId?: string | null; priority?: TicketPriority }
+) {
+  const clientId =
+    changes.clientId !== undefined ? changes.clientId : ticket.client_id
+  const priority = changes.priority ?? ticket.priority
+
+  if (clientId === ticket.client_id && priority === ticket.priority) {
+    return {}
+  }
+
+  const fields = await getTicketSlaFields({
+    companyId: ticket.company_id,
+    clientId,
+    priority,
+    startedAt: ticket.created_at,
+  })
+
+  // A new client can mean different business hours even under the same policy
+  if (
+    fields.sla_policy_id === ticket.sla_policy_id &&
+    clientId === ticket.client_id
+  ) {
+    return {}
+  }
+
+  return {
+    ...fields,
+    sla_response_breach: false,
+    sla_resolution_breach: false,
+  }
+}
+
+/**
+ * Assigns due dates to tickets that have an SLA policy but no deadlines yet,
+ * then flags every ticket whose response or resolution deadline has passed.
+ * Due dates already count only working time, so the breach checks compare
+ * timestamps directly.
+ */
+export async function evaluateSlaBreaches(now = new Date()) {
+  // Tickets created before due dates were tracked, or whose policy was attached later
+  const unscheduledTickets = await db.query.tickets.findMany({
+    where: and(
+      isNotNull(tickets.sla_policy_id),
+      or(
+        isNull(tickets.sla_response_due_at),
+        isNull(tickets.sla_resolution_due_at)
+      )
+    ),
+    columns: {
+      id: true,
+      created_at: true,
+    },
+    with: {
+      slaPolicy: {
+        with: { businessHours: true },
+      },
+      client: {
+        columns: { id: true },
+        with: { businessHours: true },
+      },
+    },
+  })
+
+  let dueDatesAssigned = 0
+  for (const ticket of unscheduledTickets) {
+    if (!ticket.slaPolicy) continue
+
+    const schedule = toBusinessSchedule(
+      ticket.slaPolicy.businessHours ?? ticket.client?.businessHours
+    )
+
+    await db
+      .update(tickets)
+      .set(calculateSlaDueDates(ticket.slaPolicy, ticket.created_at, schedule))
+      .where(eq(tickets.id, ticket.id))
+
+    dueDatesAssigned++
+  }
+
+  // A response is late if it (or the resolution, when nobody replied first)
+  // landed after the deadline, or if the ticket is still waiting past it
+  const responseBreaches = await db
+    .update(tickets)
+    .set({ sla_response_breach: true })
+    .where(
+      and(
+        sql`${tickets.sla_response_breach} is not true`,
+        isNotNull(tickets.sla_response_due_at),
+        or(
+          sql`coalesce(${tickets.first_response_at}, ${tickets.resolved_at}) > ${tickets.sla_response_due_at}`,
+          and(
+            isNull(tickets.first_response_at),
+            isNull(tickets.resolved_at),
+            inArray(tickets.status, [...ACTIVE_STATUSES]),
+            lt(tickets.sla_response_due_at, now)
+          )
+        )
+      )
+    )
+    .returning({ id: tickets.id })
+
+  const resolutionBreaches = await db
+    .update(tickets)
+    .set({ sla_resolution_breach: true })
+    .where(
+      and(
+        sql`${tickets.sla_resolution_breach} is not true`,
+        isNotNull(tickets.sla_resolution_due_at),
+        or(
+          gt(tickets.resolved_at, tickets.sla_resolution_due_at),
+          and(
+            isNull(tickets.resolved_at),
+            inArray(tickets.status, [...ACTIVE_STATUSES]),
+            lt(tickets.sla_resolution_due_at, now)
+          )
+        )
+      )
+    )
+    .returning({ id: tickets.id })
+
+  // Warn assignees and following members once per deadline; a later due date (such as resolution
+  // after the first response) gets its own warning
+  const approachingTickets = await db
+    .select({
+      id: tickets.id,
+      company_id: tickets.company_id,
+      subject: tickets.subject,
+      priority: tickets.priority,
+      assigned_to_membership_id: tickets.assigned_to_membership_id,
+      first_response_at: tickets.first_response_at,
+      next_due_at: sql<Date | null>`${slaNextDueAt}`.mapWith(
+        tickets.sla_resolution_due_at
+      ),
+    })
+    .from(tickets)
+    .where(
+      and(
+        or(
+          isNotNull(tickets.assigned_to_membership_id),
+          exists(
+            db
+              .select({ id: ticketFollowers.id })
+              .from(ticketFollowers)
+              .where(
+                and(
+                  eq(ticketFollowers.ticket_id, tickets.id),
+                  isNotNull(ticketFollowers.membership_id)
+                )
+              )
+          )
+        ),
+        getSlaAtRiskCondition(now),
+        sql`${tickets.sla_warned_due_at} is distinct from ${slaNextDueAt}`
+      )
+    )
+
+  for (const ticket of approachingTickets) {
+    if (!ticket.next_due_at) continue
+
+    await db
+      .update(tickets)
+      .set({ sla_warned_due_at: ticket.next_due_at })
+      .where(eq(tickets.id, ticket.id))
+    await notifySlaWarning(ticket, ticket.next_due_at)
+  }
+
+  return {
+    dueDatesAssigned,
+    responseBreaches: responseBreaches.length,
+    resolutionBreaches: resolutionBreaches.length,
+    slaWarnings: approachingTickets.length,
+    evaluatedAt: now.toISOString(),
+  }
+}
+
+/**
+ * Drops the stored deadlines of still-running tickets measured in the given
+ * schedule so the next evaluation recomputes them from the new hours.
+ */
+export async function resetSlaDueDatesForSchedule(businessHoursId: string) {
+  const policiesUsingSchedule = db
+    .select({ id: slaPolicies.id })
+    .from(slaPolicies)
+    .where(eq(slaPolicies.business_hours_id, businessHoursId))
+  const policiesWithoutSchedule = db
+    .select({ id: slaPolicies.id })
+    .from(slaPolicies)
+    .where(isNull(slaPolicies.business_hours_id))
+  const clientsUsingSchedule = db
+    .select({ id: clients.id })
+    .from(clients)
+    .where(eq(clients.business_hours_id, businessHoursId))
+
+  const result = await db
+    .update(tickets)
+    .set({ sla_response_due_at: null, sla_resolution_due_at: null })
+    .where(
+      and(
+        inArray(tickets.status, [...ACTIVE_STATUSES]),
+        or(
+          inArray(tickets.sla_policy_id, policiesUsingSchedule),
+          and(
+            inArray(tickets.client_id, clientsUsingSchedule),
+            inArray(tickets.sla_policy_id, policiesWithoutSchedule)
+          )
+        )
+      )
+    )
+    .returning({ id: tickets.id })
+
+  return result.length
+}
+
+// Same as above for a client that switched to different working hours
+export async function resetSlaDueDatesForClient(clientId: string) {
+  const policiesWithoutSchedule = db
+    .select({ id: slaPolicies.id })
+    .from(slaPolicies)
+    .where(isNull(slaPolicies.business_hours_id))
+
+  const result = await db
+    .update(tickets)
+    .set({ sla_response_due_at: null, sla_resolution_due_at: null })
+    .where(
+      and(
+        eq(tickets.client_id, clientId),
+        inArray(tickets.status, [...ACTIVE_STATUSES]),
+        inArray(tickets.sla_policy_id, policiesWithoutSchedule)
+      )
+    )
+    .returning({ id: tickets.id })
+
+  return result.length
+}
+
+// Same as above for a policy whose targets or schedule changed
+export async function resetSlaDueDatesForPolicy(slaPolicyId: string) {
+  const result = await db
+    .update(tickets)
+    .set({ sla_response_due_at: null, sla_resolution_due_at: null })
+    .where(
+      and(
+        eq(tickets.sla_policy_id, slaPolicyId),
+        inArray(tickets.status, [...ACTIVE_STATUSES])
+      )
+    )
+    .returning({ id: tickets.id })
+
+  return result.length
+}
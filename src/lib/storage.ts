@@ -0,0 +1,221 @@
+import { createHash, createHmac } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+
+/**
+ * Where file contents live. Keys are slash-separated relative paths chosen by
+ * the caller; drivers only need to store and return bytes for them.
+ */
+export interface StorageDriver {
+  readonly name: string
+  put(key: string, data: Buffer, contentType: string): Promise<void>
+  get(key: string): Promise<Buffer | null>
+  delete(key: string): Promise<void>
+}
+
+// Files on the server's disk, for self-hosted installs
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = "local"
+
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string) {
+    const root = path.resolve(this.rootDir)
+    const filePath = path.resolve(root, key)
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return filePath
+  }
+
+  async put(key: string, data: Buffer) {
+    const filePath = this.resolve(key)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, data)
+  }
+
+  async get(key: string) {
+    try {
+      return await fs.readFile(this.resolve(key))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+      throw error
+    }
+  }
+
+  async delete(key: string) {
+    await fs.rm(this.resolve(key), { force: true })
+  }
+}
+
+// RFC 3986 encoding as required for the S3 canonical request
+function encodeKeySegment(segment: string) {
+  return encodeURIComponent(segment).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  )
+}
+
+function sha256Hex(data: Buffer | string) {
+  return createHash("sha256").update(data).digest("hex")
+}
+
+function hmac(key: Buffer | string, data: string) {
+  return createHmac("sha256", key).update(data).digest()
+}
+
+/**
+ * Any S3-compatible object store (AWS S3, MinIO, R2, ...). Requests are
+ * signed with AWS Signature V4. A custom endpoint uses path-style URLs.
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = "s3"
+
+  constructor(
+    private readonly config: {
+      bucket: string
+      region: string
+      accessKeyId: string
+      secretAccessKey: string
+      endpoint?: string
+    }
+  ) {}
+
+  private objectUrl(key: string) {
+    const encodedKey = key.split("/").map(encodeKeySegment).join("/")
+    const { bucket, region, endpoint } = this.config
+    return endpoint
+      ? `${endpoint.replace(/\/$/, "")}/${bucket}/${encodedKey}`
+      : `https://${bucket}.s3.${region}.amazonaws.com/${encodedKey}`
+  }
+
+  private async send(
+    method: "GET" | "PUT" | "DELETE",
+    key: string,
+    body?: Buffer,
+    contentType?: string
+  ) {
+    const url = new URL(this.objectUrl(key))
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "")
+    const dateStamp = amzDate.slice(0, 8)
+    const payloadHash = sha256Hex(body ?? "")
+
+    const headers: Record<string, string> = {
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    }
+    if (contentType) headers["content-type"] = contentType
+
+    // fetch sets Host itself, but it still has to be signed
+    const signedHeaders: Record<string, string> = { ...headers, host: url.host }
+    const headerNames = Object.keys(signedHeaders).sort()
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      headerNames.map((name) => `${name}:${signedHeaders[name]}\n`).join(""),
+      headerNames.join(";"),
+      payloadHash,
+    ].join("\n")
+
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      sha256Hex(canonicalRequest),
+    ].join("\n")
+
+    const signingKey = hmac(
+      hmac(
+        hmac(
+          hmac(`AWS4${this.config.secretAccessKey}`, dateStamp),
+          this.config.region
+        ),
+        "s3"
+      ),
+      "aws4_request"
+    )
+    const signature = createHmac("sha256", signingKey)
+      .update(stringToSign)
+      .digest("hex")
+
+    return fetch(url, {
+      method,
+      headers: {
+        ...headers,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${headerNames.join(";")}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    })
+  }
+
+  async put(key: string, data: Buffer, contentType: string) {
+    const response = await this.send("PUT", key, data, contentType)
+    if (!response.ok) {
+      throw new Error(`S3 upload failed with status ${response.status}`)
+    }
+  }
+
+  async get(key: string) {
+    const response = await this.send("GET", key)
+    if (response.status === 404) return null
+    if (!response.ok) {
+      throw new Error(`S3 download failed with status ${response.status}`)
+    }
+    return Buffer.from(await response.arrayBuffer())
+  }
+
+  async delete(key: string) {
+    const response = await this.send("DELETE", key)
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete failed with status ${response.status}`)
+    }
+  }
+}
+
+const drivers: Record<string, () => StorageDriver> = {
+  local: () =>
+    new LocalStorageDriver(
+      process.env.STORAGE_LOCAL_PATH ?? path.join(process.cwd(), "storage")
+    ),
+  s3: () => {
+    const bucket = process.env.S3_BUCKET
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY
+    if (!bucket || !accessKeyId || !secretAccessKey) {
+      throw new Error(
+        "S3 storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY"
+      )
+    }
+    return new S3StorageDriver({
+      bucket,
+      region: process.env.S3_REGION ?? "us-east-1",
+      accessKeyId,
+      secretAccessKey,
+      endpoint: process.env.S3_ENDPOINT,
+    })
+  },
+}
+
+const instances = new Map<string, StorageDriver>()
+
+/**
+ * A storage driver by name, created once per process. Without a name this is
+ * the driver new files are written to, set by STORAGE_DRIVER (default
+ * "local"); reads pass the name recorded with the file.
+ */
+export function getStorage(
+  driverName: string = process.env.STORAGE_DRIVER ?? "local"
+): StorageDriver {
+  let storage = instances.get(driverName)
+  if (!storage) {
+    const createDriver = drivers[driverName]
+    if (!createDriver) {
+      throw new Error(`Unknown storage driver: ${driverName}`)
+    }
+    storage = createDriver()
+    instances.set(driverName, storage)
+  }
+  return storage
+}
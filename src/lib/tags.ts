@@ -0,0 +1,199 @@
+import { db } from "~/db"
+import { companies, knowledgeBase, tags, tickets } from "~/db/schema"
+import { and, asc, eq, sql, type AnyColumn, type SQL } from "drizzle-orm"
+
+export type TagMatch = "any" | "all"
+
+// Longest tag name the catalog stores
+export const MAX_TAG_LENGTH = 100
+
+// Catalog entries, alphabetically
+export async function getTagCatalog(companyId: string) {
+  return db.query.tags.findMany({
+    where: eq(tags.company_id, companyId),
+    orderBy: [asc(sql`lower(${tags.name})`)],
+  })
+}
+
+/**
+ * Normalizes the tags sent for a ticket or article: trims them, drops
+ * duplicates that differ only in case and uses the catalog's spelling. Tags
+ * missing from the catalog are added to it, or rejected while the company
+ * has locked its tags.
+ */
+export async function resolveTags(
+  companyId: string,
+  names: string[]
+): Promise<{ tags: string[] } | { error: string }> {
+  const requested: string[] = []
+  for (const name of names) {
+    const trimmed = name.trim()
+    if (
+      trimmed &&
+      !requested.some((tag) => tag.toLowerCase() === trimmed.toLowerCase())
+    ) {
+      requested.push(trimmed)
+    }
+  }
+  if (requested.length === 0) return { tags: [] }
+
+  const [company, catalog] = await Promise.all([
+    db.query.companies.findFirst({
+      where: eq(companies.id, companyId),
+      columns: { tags_locked: true },
+    }),
+    getTagCatalog(companyId),
+  ])
+
+  const resolved: string[] = []
+  const missing: string[] = []
+  for (const name of requested) {
+    const tag = catalog.find(
+      (tag) => tag.name.toLowerCase() === name.toLowerCase()
+    )
+    if (tag) {
+      resolved.push(tag.name)
+    } else {
+      resolved.push(name)
+      missing.push(name)
+    }
+  }
+
+  if (missing.length > 0) {
+    const tooLong = missing.find((name) => name.length > MAX_TAG_LENGTH)
+    if (tooLong) {
+      return {
+        error: `Tags can be at most ${MAX_TAG_LENGTH} characters: ${tooLong}`,
+      }
+    }
+    if (company?.tags_locked) {
+      return { error: `Tags not in the catalog: ${missing.join(", ")}` }
+    }
+    await db
+      .insert(tags)
+      .values(missing.map((name) => ({ company_id: companyId, name })))
+      .onConflictDoNothing()
+  }
+
+  return { tags: resolved }
+}
+
+// Tags of a jsonb `tags` column as text rows, treating anything other than
+// an array as no tags
+function tagElements(column: AnyColumn) {
+  return sql`jsonb_array_elements_text(case when jsonb_typeof(${column}) = 'array' then ${column} else '[]'::jsonb end)`
+}
+
+// Matches rows whose jsonb `tags` column has any or all of the given tags,
+// ignoring case
+export function getTagConditions(
+  column: AnyColumn,
+  names: string[],
+  match: TagMatch
+): SQL[] {
+  const hasAny = (values: string[]) =>
+    sql`exists (select 1 from ${tagElements(column)} as tag where lower(tag) in ${values.map(
+      (name) => name.toLowerCase()
+    )})`
+
+  const trimmed = names.map((name) => name.trim()).filter(Boolean)
+  if (trimmed.length === 0) return []
+  return match === "all"
+    ? trimmed.map((name) => hasAny([name]))
+    : [hasAny(trimmed)]
+}
+
+/**
+ * Rewrites tags across the company's tickets and articles: every tag in
+ * `from` becomes `to`, or is removed when `to` is null. Tag order is kept
+ * and any duplicate the rename creates is dropped.
+ */
+export async function replaceTags(
+  companyId: string,
+  from: string[],
+  to: string | null
+) {
+  const lowered = from.map((name) => name.toLowerCase())
+  if (lowered.length === 0) return
+
+  for (const table of [tickets, knowledgeBase]) {
+    const renamed =
+      to === null
+        ? sql`select tag as name, position from jsonb_array_elements_text(${table.tags}) with ordinality as t(tag, position) where lower(tag) not in ${lowered}`
+        : sql`select case when lower(tag) in ${lowered} then ${to} else tag end as name, position from jsonb_array_elements_text(${table.tags}) with ordinality as t(tag, position)`
+
+    await db
+      .update(table)
+      .set({
+        tags: sql`(select coalesce(jsonb_agg(name order by position), '[]'::jsonb) from (select distinct on (lower(name)) name, position from (${renamed}) as renamed order by lower(name), position) as deduped)`,
+      })
+      .where(
+        and(
+          eq(table.company_id, companyId),
+          ...getTagConditions(table.tags, from, "any")
+        )
+      )
+  }
+}
+
+// How many tickets and articles use each tag, keyed by lowercased name
+export async function getTagUsage(companyId: string) {
+  const usage = new Map<string, { tickets: number; articles: number }>()
+
+  for (const [table, key] of [
+    [tickets, "tickets"],
+    [knowledgeBase, "articles"],
+  ] as const) {
+    const rows = await db
+      .select({
+        name: sql<string>`lower(tag)`,
+        count: sql<number>`count(distinct ${table.id})::int`,
+      })
+      .from(table)
+      .innerJoin(sql`${tagElements(table.tags)} as tag`, sql`true`)
+      .where(eq(table.company_id, companyId))
+      .groupBy(sql`lower(tag)`)
+
+    for (const row of rows) {
+      const counts = usage.get(row.name) ?? { tickets: 0, articles: 0 }
+      counts[key] = row.count
+      usage.set(row.name, counts)
+    }
+  }
+
+  return usage
+}
+
+/**
+ * Ticket counts per tag for the dashboard, busiest first. Tags are listed
+ * under their catalog spelling and color when they have one.
+ */
+export async function getTicketCountsByTag(
+  companyId: string,
+  conditions: SQL[] = []
+) {
+  const [rows, catalog] = await Promise.all([
+    db
+      .select({
+        name: sql<string>`min(tag)`,
+        key: sql<string>`lower(tag)`,
+        count: sql<number>`count(distinct ${tickets.id})::int`,
+      })
+      .from(tickets)
+      .innerJoin(sql`${tagElements(tickets.tags)} as tag`, sql`true`)
+      .where(and(eq(tickets.company_id, companyId), ...conditions))
+      .groupBy(sql`lower(tag)`),
+    getTagCatalog(companyId),
+  ])
+
+  return rows
+    .map((row) => {
+      const tag = catalog.find((tag) => tag.name.toLowerCase() === row.key)
+      return {
+        name: tag?.name ?? row.name,
+        color: tag?.color ?? null,
+        count: row.count,
+      }
+    })
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+}
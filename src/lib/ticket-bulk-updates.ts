@@ -0,0 +1,270 @@
+import { db } from "~/db"
+import { ticketComments, tickets } from "~/db/schema"
+import { and, eq, inArray } from "drizzle-orm"
+import { getSlaPolicyChange } from "~/lib/sla"
+import { recordTicketChanges, type TicketEventActor } from "~/lib/ticket-events"
+import { resolveTags } from "~/lib/tags"
+import { findMentionedIds } from "~/lib/mentions"
+import { notifyCustomerOfStatusChange } from "~/lib/customer-notifications"
+import {
+  notifyAssignment,
+  notifyMentions,
+  notifyTicketUpdate,
+} from "~/lib/agent-notifications"
+import type {
+  TICKET_PRIORITIES,
+  TICKET_STATUSES,
+} from "~/lib/ticket-filter-types"
+
+// Tickets one bulk update may change
+export const MAX_BULK_TICKETS = 500
+
+export interface BulkTicketChanges {
+  status?: (typeof TICKET_STATUSES)[number]
+  priority?: (typeof TICKET_PRIORITIES)[number]
+  // A team member; null unassigns
+  assignedToId?: string | null
+  clientId?: string | null
+  addTags?: string[]
+  removeTags?: string[]
+  // Added to every ticket as an internal note
+  note?: string
+}
+
+export interface BulkTicketResult {
+  id: string
+  result: "updated" | "unchanged" | "not_found"
+}
+
+/**
+ * Applies the same changes to many tickets at once. Every ticket is updated
+ * in one transaction and gets the events, SLA recalculation and
+ * notifications a single update would. Tickets that are missing or belong
+ * to another company are reported as not found and skipped. Returns why the
+ * changes can't be applied, such as an unknown client, without touching any
+ * ticket.
+ */
+export async function bulkUpdateTickets(
+  {
+    companyId,
+    actor,
+    authorName,
+  }: {
+    companyId: string
+    actor: TicketEventActor
+    // Shown on mention notifications from the note
+    authorName: string
+  },
+  ticketIds: string[],
+  changes: BulkTicketChanges
+): Promise<{ results: BulkTicketResult[] } | { error: string }> {
+  const actorMembershipId =
+    actor.type === "membership" ? actor.membershipId : null
+
+  if (
+    changes.status === undefined &&
+    changes.priority === undefined &&
+    changes.assignedToId === undefined &&
+    changes.clientId === undefined &&
+    !changes.addTags?.length &&
+    !changes.removeTags?.length &&
+    !changes.note
+  ) {
+    return { error: "No changes given" }
+  }
+
+  if (changes.assignedToId) {
+    const assignee = await db.query.memberships.findFirst({
+      where: (memberships, { and, eq }) =>
+        and(
+          eq(memberships.id, changes.assignedToId!),
+          eq(memberships.company_id, companyId),
+          eq(memberships.is_active, true)
+        ),
+      columns: { id: true },
+    })
+    if (!assignee) return { error: "Assignee not found" }
+  }
+
+  if (changes.clientId) {
+    const client = await db.query.clients.findFirst({
+      where: (clients, { and, eq }) =>
+        and(
+          eq(clients.id, changes.clientId!),
+          eq(clients.company_id, companyId)
+        ),
+      columns: { id: true },
+    })
+    if (!client) return { error: "Client not found" }
+  }
+
+  let addTags: string[] = []
+  if (changes.addTags?.length) {
+    const resolved = await resolveTags(companyId, changes.addTags)
+    if ("error" in resolved) return resolved
+    addTags = resolved.tags
+  }
+  const removeTags = (changes.removeTags ?? []).map((tag) =>
+    tag.trim().toLowerCase()
+  )
+
+  let mentionedIds: string[] = []
+  if (changes.note) {
+    const activeMembers = await db.query.memberships.findMany({
+      where: (memberships, { and, eq }) =>
+        and(
+          eq(memberships.company_id, companyId),
+          eq(memberships.is_active, true)
+        ),
+      columns: { id: true },
+      with: { user: { columns: { first_name: true, last_name: true } } },
+    })
+    mentionedIds = findMentionedIds(
+      changes.note,
+      activeMembers.map((member) => ({
+        id: member.id,
+        name: `${member.user.first_name} ${member.user.last_name}`,
+      }))
+    )
+  }
+
+  const ids = Array.from(new Set(ticketIds))
+  const existingTickets = await db.query.tickets.findMany({
+    where: and(eq(tickets.company_id, companyId), inArray(tickets.id, ids)),
+    columns: { search_vector: false },
+  })
+
+  // Worked out up front, as SLA policies are looked up per ticket
+  const planned: {
+    ticket: (typeof existingTickets)[number]
+    updateData: Record<string, any>
+  }[] = []
+  for (const ticket of existingTickets) {
+    const updateData: Record<string, any> = {}
+
+    if (changes.status && changes.status !== ticket.status) {
+      updateData.status = changes.status
+
+      // Mark resolved timestamp
+      if (changes.status === "resolved") {
+        updateData.resolved_at = new Date()
+      }
+    }
+    if (changes.priority && changes.priority !== ticket.priority) {
+      updateData.priority = changes.priority
+    }
+    if (
+      changes.assignedToId !== undefined &&
+      (changes.assignedToId !== ticket.assigned_to_membership_id ||
+        ticket.assigned_to_customer_portal_access_id)
+    ) {
+      updateData.assigned_to_membership_id = changes.assignedToId
+      updateData.assigned_to_customer_portal_access_id = null
+    }
+    if (
+      changes.clientId !== undefined &&
+      changes.clientId !== ticket.client_id
+    ) {
+      updateData.client_id = changes.clientId
+    }
+
+    if (addTags.length || removeTags.length) {
+      const currentTags = (ticket.tags as string[] | null) ?? []
+      const tags = currentTags.filter(
+        (tag) => !removeTags.includes(tag.toLowerCase())
+      )
+      for (const tag of addTags) {
+        if (!tags.some((name) => name.toLowerCase() === tag.toLowerCase())) {
+          tags.push(tag)
+        }
+      }
+      if (JSON.stringify(tags) !== JSON.stringify(currentTags)) {
+        updateData.tags = tags
+      }
+    }
+
+    // A new priority or client may fall under a different SLA policy
+    Object.assign(
+      updateData,
+      await getSlaPolicyChange(ticket, {
+        clientId: changes.clientId,
+        priority: changes.priority,
+      })
+    )
+
+    planned.push({ ticket, updateData })
+  }
+
+  const applied = await db.transaction(async (tx) => {
+    const updates: {
+      before: (typeof existingTickets)[number]
+      after: typeof tickets.$inferSelect | null
+    }[] = []
+
+    for (const { ticket, updateData } of planned) {
+      let after: typeof tickets.$inferSelect | null = null
+
+      if (Object.keys(updateData).length > 0) {
+        updateData.updated_at = new Date()
+        const [updatedTicket] = await tx
+          .update(tickets)
+          .set(updateData)
+          .where(eq(tickets.id, ticket.id))
+          .returning()
+
+        await recordTicketChanges(ticket, updatedTicket, actor, tx)
+        after = updatedTicket
+      }
+
+      if (changes.note) {
+        await tx.insert(ticketComments).values({
+          company_id: companyId,
+          ticket_id: ticket.id,
+          membership_id: actorMembershipId,
+          content: changes.note,
+          is_internal: true,
+          // API notes have no team member behind them
+          is_system: !actorMembershipId,
+          mentioned_membership_ids: mentionedIds,
+        })
+      }
+
+      updates.push({ before: ticket, after })
+    }
+
+    return updates
+  })
+
+  // Notifications only go out once every change is saved
+  for (const { before, after } of applied) {
+    if (after) {
+      await notifyCustomerOfStatusChange(before, after)
+      await notifyAssignment(before, after, actorMembershipId)
+      await notifyTicketUpdate(before, after, actorMembershipId)
+    }
+    if (changes.note) {
+      await notifyMentions(
+        before,
+        mentionedIds.filter((id) => id !== actorMembershipId),
+        authorName,
+        changes.note
+      )
+    }
+  }
+
+  const changedIds = applied
+    .filter(({ after }) => after || changes.note)
+    .map(({ before }) => before.id)
+  const foundIds = existingTickets.map((ticket) => ticket.id)
+
+  return {
+    results: ids.map((id) => ({
+      id,
+      result: changedIds.includes(id)
+        ? "updated"
+        : foundIds.includes(id)
+          ? "unchanged"
+          : "not_found",
+    })),
+  }
+}
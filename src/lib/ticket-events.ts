@@ -0,0 +1,213 @@
+import { db, type Transaction } from "~/db"
+import { ticketEvents, type tickets } from "~/db/schema"
+
+export type TicketEventActor =
+  | { type: "membership"; membershipId: string }
+  | { type: "customer_portal_access"; customerPortalAccessId: string }
+  | { type: "api_key"; apiKeyId: string }
+  | { type: "system" }
+
+export type TicketEventField = "status" | "priority" | "assignee" | "tags"
+
+// Assignees are stored with their name so the history survives later renames
+export interface TicketAssigneeValue {
+  type: "membership" | "customer_portal_access"
+  id: string
+  name: string
+}
+
+type TrackedTicket = Pick<
+  typeof tickets.$inferSelect,
+  | "id"
+  | "company_id"
+  | "status"
+  | "priority"
+  | "tags"
+  | "assigned_to_membership_id"
+  | "assigned_to_customer_portal_access_id"
+>
+
+async function describeAssignee(
+  ticket: TrackedTicket
+): Promise<TicketAssigneeValue | null> {
+  if (ticket.assigned_to_membership_id) {
+    const membership = await db.query.memberships.findFirst({
+      where: (memberships, { eq }) =>
+        eq(memberships.id, ticket.assigned_to_membership_id!),
+      with: { user: { columns: { first_name: true, last_name: true } } },
+    })
+    return {
+      type: "membership",
+      id: ticket.assigned_to_membership_id,
+      name: membership
+        ? `${membership.user.first_name} ${membership.user.last_name}`
+        : "Unknown",
+    }
+  }
+
+  if (ticket.assigned_to_customer_portal_access_id) {
+    const access = await db.query.customerPortalAccess.findFirst({
+      where: (customerPortalAccess, { eq }) =>
+        eq(
+          customerPortalAccess.id,
+          ticket.assigned_to_customer_portal_access_id!
+        ),
+      columns: { name: true },
+    })
+    return {
+      type: "customer_portal_access",
+      id: ticket.assigned_to_customer_portal_access_id,
+      name: access?.name ?? "Unknown",
+    }
+  }
+
+  return null
+}
+
+/**
+ * Compares a ticket before and after an update and stores one event per
+ * tracked field that changed, inside `executor` when the update is part of
+ * a transaction. Returns the number of events recorded.
+ */
+export async function recordTicketChanges(
+  before: TrackedTicket,
+  after: TrackedTicket,
+  actor: TicketEventActor,
+  executor: typeof db | Transaction = db
+) {
+  const changes: {
+    field: TicketEventField
+    from_value: unknown
+    to_value: unknown
+  }[] = []
+
+  if (before.status !== after.status) {
+    changes.push({
+      field: "status",
+      from_value: before.status,
+      to_value: after.status,
+    })
+  }
+
+  if (before.priority !== after.priority) {
+    changes.push({
+      field: "priority",
+      from_value: before.priority,
+      to_value: after.priority,
+    })
+  }
+
+  if (
+    before.assigned_to_membership_id !== after.assigned_to_membership_id ||
+    before.assigned_to_customer_portal_access_id !==
+      after.assigned_to_customer_portal_access_id
+  ) {
+    changes.push({
+      field: "assignee",
+      from_value: await describeAssignee(before),
+      to_value: await describeAssignee(after),
+    })
+  }
+
+  const beforeTags = (before.tags as string[] | null) ?? []
+  const afterTags = (after.tags as string[] | null) ?? []
+  if (JSON.stringify(beforeTags) !== JSON.stringify(afterTags)) {
+    changes.push({ field: "tags", from_value: beforeTags, to_value: afterTags })
+  }
+
+  if (changes.length === 0) return 0
+
+  await executor.insert(ticketEvents).values(
+    changes.map((change) => ({
+      company_id: after.company_id,
+      ticket_id: after.id,
+      ...change,
+      actor_type: actor.type,
+      actor_membership_id:
+        actor.type === "membership" ? actor.membershipId : null,
+      actor_customer_portal_access_id:
+        actor.type === "customer_portal_access"
+          ? actor.customerPortalAccessId
+          : null,
+      actor_api_key_id: actor.type === "api_key" ? actor.apiKeyId : null,
+    }))
+  )
+
+  return changes.length
+}
+
+/**
+ * Loads a ticket's history oldest first, with the actor flattened to a type
+ * and display name.
+ */
+export async function getTicketEvents(ticketId: string) {
+  const events = await db.query.ticketEvents.findMany({
+    where: (ticketEvents, { eq }) => eq(ticketEvents.ticket_id, ticketId),
+    with: {
+      actorMembership: {
+        columns: { id: true },
+        with: {
+          user: { columns: { first_name: true, last_name: true } },
+        },
+      },
+      actorCustomerPortalAccess: { columns: { id: true, name: true } },
+      actorApiKey: { columns: { id: true, name: true } },
+    },
+    orderBy: (ticketEvents, { asc }) => [asc(ticketEvents.created_at)],
+  })
+
+  return events.map((event) => {
+    let actorName = "System"
+    if (event.actorMembership) {
+      actorName = `${event.actorMembership.user.first_name} ${event.actorMembership.user.last_name}`
+    } else if (event.actorCustomerPortalAccess) {
+      actorName = event.actorCustomerPortalAccess.name
+    } else if (event.actorApiKey) {
+      actorName = `API key "${event.actorApiKey.name}"`
+    } else if (event.actor_type !== "system") {
+      actorName = "Deleted user"
+    }
+
+    return {
+      id: event.id,
+      ticket_id: event.ticket_id,
+      field: event.field as TicketEventField,
+      from_value: event.from_value,
+      to_value: event.to_value,
+      actor: {
+        type: event.actor_type,
+        id:
+          event.actor_membership_id ??
+          event.actor_customer_portal_access_id ??
+          event.actor_api_key_id,
+        name: actorName,
+      },
+      created_at: event.created_at,
+    }
+  })
+}
+
+/**
+ * A ticket's history as customers see it in the portal: only status and
+ * priority changes, with the team and API keys shown under the company's
+ * name instead of who made the change.
+ */
+export function toCustomerTicketEvents(
+  events: Awaited<ReturnType<typeof getTicketEvents>>,
+  companyName: string
+) {
+  return events
+    .filter((event) => event.field === "status" || event.field === "priority")
+    .map((event) =>
+      event.actor.type === "customer_portal_access"
+        ? event
+        : {
+            ...event,
+            actor: {
+              type: event.actor.type,
+              id: null,
+              name: event.actor.type === "system" ? "System" : companyName,
+            },
+          }
+    )
+}
@@ -0,0 +1,78 @@
+// Shared with the tickets page and the saved view editor, so no server
+// imports here
+import { z } from "zod"
+
+export const TICKET_STATUSES = [
+  "open",
+  "in_progress",
+  "resolved",
+  "closed",
+] as const
+
+export const TICKET_PRIORITIES = ["low", "medium", "high", "urgent"] as const
+
+export const TICKET_SORT_FIELDS = [
+  "created_at",
+  "updated_at",
+  "priority",
+  "sla_due_at",
+] as const
+
+export const TICKET_SORT_LABELS: Record<TicketSortField, string> = {
+  created_at: "Created",
+  updated_at: "Last updated",
+  priority: "Priority",
+  sla_due_at: "Time to SLA breach",
+}
+
+export const SLA_FILTERS = ["breached", "at_risk"] as const
+
+const calendarDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Use a YYYY-MM-DD date")
+
+/**
+ * Criteria for the ticket list, also stored as a saved view's `filters`.
+ * Every criterion is optional and they all have to match.
+ */
+export const ticketFiltersSchema = z.object({
+  statuses: z.array(z.enum(TICKET_STATUSES)).optional(),
+  priorities: z.array(z.enum(TICKET_PRIORITIES)).optional(),
+  assignedToId: z.string().uuid().optional(),
+  unassigned: z.boolean().optional(), // Neither a team member nor a customer
+  clientId: z.string().uuid().optional(),
+  myTickets: z.boolean().optional(), // Assigned to or created by the viewer
+  mentionsMe: z.boolean().optional(), // An internal note mentions the viewer
+  search: z.string().optional(), // Full-text, including comments
+  sla: z.enum(SLA_FILTERS).optional(),
+  // Inclusive, in UTC
+  createdFrom: calendarDate.optional(),
+  createdTo: calendarDate.optional(),
+  tags: z.array(z.string()).optional(),
+  tagMatch: z.enum(["any", "all"]).optional(),
+  // Custom field key to value; multi-select fields match any ticket that
+  // includes the value
+  customFields: z
+    .record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+    .optional(),
+})
+
+export type TicketFilters = z.infer<typeof ticketFiltersSchema>
+export type TicketSortField = (typeof TICKET_SORT_FIELDS)[number]
+
+// Drops empty criteria so saved views and their counts only keep what's set
+export function compactTicketFilters(filters: TicketFilters): TicketFilters {
+  const compact: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(filters)) {
+    if (value === undefined || value === false || value === "") continue
+    if (Array.isArray(value) && value.length === 0) continue
+    if (
+      key === "customFields" &&
+      Object.keys(value as Record<string, unknown>).length === 0
+    ) {
+      continue
+    }
+    compact[key] = value
+  }
+  return compact as TicketFilters
+}
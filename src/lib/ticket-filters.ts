@@ -0,0 +1,99 @@
+import { ticketComments, tickets } from "~/db/schema"
+import { eq, gte, inArray, isNull, lt, or, sql, type SQL } from "drizzle-orm"
+import { getCustomFieldConditions } from "~/lib/custom-fields"
+import { getTicketTextCondition } from "~/lib/search"
+import { getSlaAtRiskCondition, slaBreachedCondition } from "~/lib/sla"
+import { getTagConditions } from "~/lib/tags"
+import { type TicketFilters } from "~/lib/ticket-filter-types"
+
+/**
+ * Conditions matching the company's tickets that meet every criterion in
+ * `filters`. "My tickets" and mentions are relative to the viewing member,
+ * so a shared view shows each member their own. Returns why the filters
+ * can't be applied, such as an unknown custom field.
+ */
+export async function getTicketFilterConditions(
+  viewer: { companyId: string; membershipId: string },
+  filters: TicketFilters
+): Promise<{ conditions: SQL[] } | { error: string }> {
+  const conditions: SQL[] = [eq(tickets.company_id, viewer.companyId)]
+
+  if (filters.statuses?.length) {
+    conditions.push(inArray(tickets.status, filters.statuses))
+  }
+
+  if (filters.priorities?.length) {
+    conditions.push(inArray(tickets.priority, filters.priorities))
+  }
+
+  if (filters.assignedToId) {
+    conditions.push(eq(tickets.assigned_to_membership_id, filters.assignedToId))
+  }
+
+  if (filters.unassigned) {
+    conditions.push(
+      isNull(tickets.assigned_to_membership_id),
+      isNull(tickets.assigned_to_customer_portal_access_id)
+    )
+  }
+
+  if (filters.clientId) {
+    conditions.push(eq(tickets.client_id, filters.clientId))
+  }
+
+  if (filters.myTickets) {
+    // Show tickets assigned to current user or created by current user
+    conditions.push(
+      or(
+        eq(tickets.assigned_to_membership_id, viewer.membershipId),
+        eq(tickets.created_by_membership_id, viewer.membershipId)
+      )!
+    )
+  }
+
+  if (filters.mentionsMe) {
+    conditions.push(
+      sql`exists (select 1 from ${ticketComments} where ${ticketComments.ticket_id} = ${tickets.id} and ${ticketComments.mentioned_membership_ids} @> ${JSON.stringify([viewer.membershipId])}::jsonb)`
+    )
+  }
+
+  if (filters.search) {
+    conditions.push(getTicketTextCondition(filters.search))
+  }
+
+  if (filters.sla === "breached") {
+    conditions.push(slaBreachedCondition)
+  } else if (filters.sla === "at_risk") {
+    conditions.push(getSlaAtRiskCondition())
+  }
+
+  if (filters.createdFrom) {
+    conditions.push(
+      gte(tickets.created_at, new Date(`${filters.createdFrom}T00:00:00Z`))
+    )
+  }
+
+  if (filters.createdTo) {
+    // Up to the end of the day
+    const end = new Date(`${filters.createdTo}T00:00:00Z`)
+    end.setUTCDate(end.getUTCDate() + 1)
+    conditions.push(lt(tickets.created_at, end))
+  }
+
+  if (filters.tags?.length) {
+    conditions.push(
+      ...getTagConditions(tickets.tags, filters.tags, filters.tagMatch ?? "any")
+    )
+  }
+
+  if (filters.customFields) {
+    const customFieldFilter = await getCustomFieldConditions(
+      viewer.companyId,
+      filters.customFields
+    )
+    if ("error" in customFieldFilter) return customFieldFilter
+    conditions.push(...customFieldFilter.conditions)
+  }
+
+  return { conditions }
+}
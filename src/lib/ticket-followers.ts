@@ -0,0 +1,162 @@
+import { db } from "~/db"
+import {
+  customerPortalAccess,
+  memberships,
+  ticketFollowers,
+  users,
+} from "~/db/schema"
+import { and, asc, eq, inArray, isNotNull, sql } from "drizzle-orm"
+
+export interface FollowerContact {
+  email: string
+  name?: string | null
+}
+
+interface FollowedTicket {
+  id: string
+  company_id: string
+  client_id: string | null
+  customer_email: string | null
+}
+
+/**
+ * Adds team members and email contacts as followers of a ticket. Contacts
+ * whose address belongs to a team member follow as that member, the
+ * requester is skipped since they're notified anyway, and existing
+ * followers are left alone. Returns the followers that were added.
+ */
+export async function addTicketFollowers(
+  ticket: FollowedTicket,
+  followers: { membershipIds?: string[]; contacts?: FollowerContact[] },
+  addedByMembershipId?: string | null
+) {
+  const requester = ticket.customer_email?.toLowerCase()
+  const contacts = new Map<string, string | null>()
+  for (const contact of followers.contacts ?? []) {
+    const email = contact.email.trim().toLowerCase()
+    if (!email || email === requester || contacts.has(email)) continue
+    contacts.set(email, contact.name?.trim() || null)
+  }
+  const emails = Array.from(contacts.keys())
+
+  const teamMembers =
+    emails.length > 0
+      ? await db
+          .select({ id: memberships.id, email: users.email })
+          .from(memberships)
+          .innerJoin(users, eq(users.id, memberships.user_id))
+          .where(
+            and(
+              eq(memberships.company_id, ticket.company_id),
+              eq(memberships.is_active, true),
+              inArray(sql`lower(${users.email})`, emails)
+            )
+          )
+      : []
+  const teamEmails = teamMembers.map((member) => member.email.toLowerCase())
+  const contactEmails = emails.filter((email) => !teamEmails.includes(email))
+
+  const portalUsers =
+    ticket.client_id && contactEmails.length > 0
+      ? await db.query.customerPortalAccess.findMany({
+          where: and(
+            eq(customerPortalAccess.client_id, ticket.client_id),
+            eq(customerPortalAccess.is_active, true),
+            inArray(sql`lower(${customerPortalAccess.email})`, contactEmails)
+          ),
+          columns: { id: true, email: true, name: true },
+        })
+      : []
+
+  // Requested members must belong to the ticket's company
+  const requestedMembers =
+    followers.membershipIds && followers.membershipIds.length > 0
+      ? await db.query.memberships.findMany({
+          where: and(
+            inArray(memberships.id, followers.membershipIds),
+            eq(memberships.company_id, ticket.company_id),
+            eq(memberships.is_active, true)
+          ),
+          columns: { id: true },
+        })
+      : []
+  const membershipIds = Array.from(
+    new Set([
+      ...requestedMembers.map((member) => member.id),
+      ...teamMembers.map((member) => member.id),
+    ])
+  )
+
+  const rows = [
+    ...membershipIds.map((membershipId) => ({
+      company_id: ticket.company_id,
+      ticket_id: ticket.id,
+      membership_id: membershipId,
+      added_by_membership_id: addedByMembershipId ?? null,
+    })),
+    ...contactEmails.map((email) => {
+      const portalUser = portalUsers.find(
+        (user) => user.email.toLowerCase() === email
+      )
+      return {
+        company_id: ticket.company_id,
+        ticket_id: ticket.id,
+        email,
+        name: contacts.get(email) ?? portalUser?.name ?? null,
+        customer_portal_access_id: portalUser?.id ?? null,
+        added_by_membership_id: addedByMembershipId ?? null,
+      }
+    }),
+  ]
+  if (rows.length === 0) return []
+
+  return db
+    .insert(ticketFollowers)
+    .values(rows)
+    .onConflictDoNothing()
+    .returning()
+}
+
+// Followers as shown in the dashboard, portal and API
+export async function getTicketFollowers(ticketId: string) {
+  return db.query.ticketFollowers.findMany({
+    where: eq(ticketFollowers.ticket_id, ticketId),
+    with: {
+      membership: {
+        columns: { id: true },
+        with: {
+          user: { columns: { first_name: true, last_name: true, email: true } },
+        },
+      },
+    },
+    orderBy: [asc(ticketFollowers.created_at)],
+  })
+}
+
+export async function getFollowerMembershipIds(ticketId: string) {
+  const followers = await db.query.ticketFollowers.findMany({
+    where: and(
+      eq(ticketFollowers.ticket_id, ticketId),
+      isNotNull(ticketFollowers.membership_id)
+    ),
+    columns: { membership_id: true },
+  })
+  return followers.map((follower) => follower.membership_id!)
+}
+
+// Contacts that still want the ticket's customer emails
+export async function getFollowerContacts(ticketId: string) {
+  const followers = await db.query.ticketFollowers.findMany({
+    where: and(
+      eq(ticketFollowers.ticket_id, ticketId),
+      isNotNull(ticketFollowers.email),
+      eq(ticketFollowers.muted, false)
+    ),
+    columns: { email: true, name: true, notification_token: true },
+  })
+  return followers.map((follower) => ({
+    email: follower.email!,
+    name: follower.name,
+    notification_token: follower.notification_token,
+  }))
+}
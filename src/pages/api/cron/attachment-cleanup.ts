@@ -0,0 +1,32 @@
+import { NextApiRequest, NextApiResponse } from "next"
+import { deleteStalePendingAttachments } from "~/lib/attachments"
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" })
+  }
+
+  // Verify cron secret for security
+  const cronSecret = req.headers.authorization?.replace("Bearer ", "")
+  if (cronSecret !== process.env.CRON_SECRET) {
+    return res.status(401).json({ error: "Unauthorized" })
+  }
+
+  try {
+    const staleUploadsDeleted = await deleteStalePendingAttachments()
+
+    return res.status(200).json({
+      success: true,
+      staleUploadsDeleted,
+    })
+  } catch (error) {
+    console.error("Attachment cleanup cron error:", error)
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextApiRequest, NextApiResponse } from "next"
+import { runEscalations } from "~/lib/escalations"
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" })
+  }
+
+  // Verify cron secret for security
+  const cronSecret = req.headers.authorization?.replace("Bearer ", "")
+  if (cronSecret !== process.env.CRON_SECRET) {
+    return res.status(401).json({ error: "Unauthorized" })
+  }
+
+  try {
+    const result = await runEscalations()
+
+    return res.status(200).json({
+      success: true,
+      ...result,
+    })
+  } catch (error) {
+    console.error("Escalation cron error:", error)
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextApiRequest, NextApiResponse } from "next"
+import { evaluateSlaBreaches } from "~/lib/sla"
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" })
+  }
+
+  // Verify cron secret for security
+  const cronSecret = req.headers.authorization?.replace("Bearer ", "")
+  if (cronSecret !== process.env.CRON_SECRET) {
+    return res.status(401).json({ error: "Unauthorized" })
+  }
+
+  try {
+    const result = await evaluateSlaBreaches()
+
+    return res.status(200).json({
+      success: true,
+      ...result,
+    })
+  } catch (error) {
+    console.error("SLA evaluation cron error:", error)
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    })
+  }
+}
@@ -1,35 +1,9 @@
 import { NextApiRequest, NextApiResponse } from "next"
-import { google } from "googleapis"
-import sanitizeHtml from "sanitize-html"
 import { db } from "~/db"
-import {
-  gmailIntegration,
-  tickets,
-  ticketComments,
-  emailThreads,
-  clients,
-  memberships,
-} from "~/db/schema"
+import { ingestGmail } from "~/lib/gmail-ingestion"
+import { gmailIntegration } from "~/db/schema"
 import { eq, and } from "drizzle-orm"
 
-// Helper function to create OAuth client with token refresh handling
-const createOAuthClientWithRefresh = () => {
-  const client = new google.auth.OAuth2(
-    process.env.GOOGLE_CLIENT_ID,
-    process.env.GOOGLE_CLIENT_SECRET,
-    process.env.GOOGLE_REDIRECT_URI
-  )
-
-  // Enable automatic token refresh
-  client.on("tokens", (tokens) => {
-    if (tokens.refresh_token) {
-      console.log("New refresh token received in webhook")
-    }
-  })
-
-  return client
-}
-
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -78,20 +52,26 @@ export default async function handler(
       const integrations = await db.query.gmailIntegration.findMany({
         where: and(
           eq(gmailIntegration.is_active, true),
-          eq(gmailIntegration.auto_sync_enabled, true),
-          eq(gmailIntegration.auto_create_tickets, true)
+          eq(gmailIntegration.auto_sync_enabled, true)
         ),
         with: {
           company: true,
         },
       })
 
-      const totalResults = { messagesProcessed: 0, ticketsCreated: 0 }
+      const totalResults = {
+        messagesProcessed: 0,
+        ticketsCreated: 0,
+        repliesAdded: 0,
+      }
       for (const integration of integrations) {
         try {
-          const result = await processGmailIntegration(integration)
-          totalResults.messagesProcessed += result.messagesProcessed
+          const result = await ingestGmail(integration, {
+            trigger: "webhook",
+          })
+          totalResults.messagesProcessed += result.messagesSeen
           totalResults.ticketsCreated += result.ticketsCreated
+          totalResults.repliesAdded += result.repliesAdded
         } catch (error) {
           console.error(
             `Error processing integration ${integration.id}:`,
@@ -112,8 +92,7 @@ export default async function handler(
       where: and(
         eq(gmailIntegration.email, emailAddress),
         eq(gmailIntegration.is_active, true),
-        eq(gmailIntegration.auto_sync_enabled, true),
-        eq(gmailIntegration.auto_create_tickets, true)
+        eq(gmailIntegration.auto_sync_enabled, true)
       ),
       with: {
         company: true,
@@ -128,11 +107,12 @@ export default async function handler(
     }
 
     // Process new emails for this integration
-    const result = await processGmailIntegration(integration)
+    const result = await ingestGmail(integration, { trigger: "webhook" })
 
     return res.status(200).json({
       companyId: integration.company_id,
       ...result,
+      messagesProcessed: result.messagesSeen,
       success: true,
     })
   } catch (error) {
@@ -143,274 +123,3 @@ export default async function handler(
     })
   }
 }
-
-async function processGmailIntegration(integration: any) {
-  const oauth2ClientInstance = createOAuthClientWithRefresh()
-  oauth2ClientInstance.setCredentials({
-    access_token: integration.access_token,
-    refresh_token: integration.refresh_token,
-  })
-
-  const gmail = google.gmail({ version: "v1", auth: oauth2ClientInstance })
-
-  // Get messages since last sync (or last hour)
-  const lastSyncDate =
-    integration.last_sync_at || new Date(Date.now() - 60 * 60 * 1000)
-
-  console.log("Using regular message query")
-  const query = `is:unread after:${Math.floor(lastSyncDate.getTime() / 1000)}`
-  const messages = await gmail.users.messages.list({
-    userId: "me",
-    q: query,
-    maxResults: 50,
-  })
-
-  // Get company clients for domain filtering
-  const companyClients = await db.query.clients.findMany({
-    where: and(
-      eq(clients.company_id, integration.company_id),
-      eq(clients.is_active, true)
-    ),
-  })
-
-  const domainToClient = new Map<string, (typeof companyClients)[0]>()
-  companyClients.forEach((client: any) => {
-    const domains = Array.isArray(client.email_domains)
-      ? client.email_domains
-      : []
-    domains.forEach((domain: string) => {
-      if (domain && typeof domain === "string") {
-        domainToClient.set(domain.toLowerCase(), client)
-      }
-    })
-  })
-
-  let ticketsCreated = 0
-  let messagesProcessed = 0
-
-  if (messages.data.messages) {
-    for (const message of messages.data.messages) {
-      try {
-        const fullMessage = await gmail.users.messages.get({
-          userId: "me",
-          id: message.id!,
-          format: "full",
-        })
-
-        messagesProcessed++
-
-        const headers = fullMessage.data.payload?.headers || []
-        const subject =
-          headers.find((h) => h.name === "Subject")?.value || "No Subject"
-        const from = headers.find((h) => h.name === "From")?.value || ""
-        const threadId = fullMessage.data.threadId
-
-        // Extract sender domain
-        const emailMatch =
-          from.match(/<([^>]+)>/) || from.match(/([^\s]+@[^\s]+)/)
-        const senderEmail = emailMatch ? emailMatch[1] || emailMatch[0] : from
-        const senderDomain = senderEmail.includes("@")
-          ? senderEmail.split("@")[1]?.toLowerCase()
-          : ""
-
-        const matchedClient = senderDomain
-          ? domainToClient.get(senderDomain)
-          : null
-
-        if (!matchedClient) {
-          continue
-        }
-
-        // Check if this thread already exists
-        const existingThread = await db.query.emailThreads.findFirst({
-          where: eq(emailThreads.gmail_thread_id, threadId!),
-          with: {
-            ticket: true,
-          },
-        })
-
-        if (existingThread) {
-          // This is a reply to an existing thread - add as comment
-          console.log(
-            `📧 Found reply to existing ticket ${existingThread.ticket_id}`
-          )
-
-          // Extract email body
-          let emailBody = ""
-          const extractTextFromParts = (parts: any[]): string => {
-            let text = ""
-            for (const part of parts) {
-              if (part.mimeType === "text/plain" && part.body?.data) {
-                text +=
-                  Buffer.from(part.body.data, "base64").toString("utf-8") + "\n"
-              } else if (
-                part.mimeType === "text/html" &&
-                part.body?.data &&
-                !text
-              ) {
-                text +=
-                  sanitizeHtml(
-                    Buffer.from(part.body.data, "base64").toString("utf-8")
-                  ) + "\n"
-              } else if (part.parts) {
-                text += extractTextFromParts(part.parts)
-              }
-            }
-            return text
-          }
-
-          if (fullMessage.data.payload?.parts) {
-            emailBody = extractTextFromParts(fullMessage.data.payload.parts)
-          } else if (fullMessage.data.payload?.body?.data) {
-            emailBody = Buffer.from(
-              fullMessage.data.payload.body.data,
-              "base64"
-            ).toString("utf-8")
-          }
-
-          if (emailBody.trim()) {
-            const date = headers.find((h) => h.name === "Date")?.value || ""
-
-            // Check if we already processed this specific Gmail message
-            const existingComment = await db.query.ticketComments.findFirst({
-              where: and(
-                eq(ticketComments.ticket_id, existingThread.ticket_id!),
-                eq(ticketComments.is_system, true),
-                // Use message content as a simple deduplication check
-                eq(
-                  ticketComments.content,
-                  `Reply from: ${from}\nDate: ${date}\n\n${emailBody.trim()}`
-                )
-              ),
-            })
-
-            if (existingComment) {
-              console.log(
-                `⚠️ Duplicate message ${message.id} already processed, skipping`
-              )
-              continue
-            }
-
-            // Create ticket comment for this reply
-            await db.insert(ticketComments).values({
-              company_id: integration.company_id,
-              ticket_id: existingThread.ticket_id!,
-              membership_id: undefined,
-              customer_portal_access_id: undefined,
-              content: `Reply from: ${from}\nDate: ${date}\n\n${emailBody.trim()}`,
-              is_internal: false,
-              is_system: true,
-            })
-
-            // Update thread's last message ID
-            await db
-              .update(emailThreads)
-              .set({
-                last_message_id: message.id!,
-                updated_at: new Date(),
-              })
-              .where(eq(emailThreads.id, existingThread.id))
-
-            console.log(
-              `✅ Added reply as comment to ticket ${existingThread.ticket_id}`
-            )
-          }
-
-          continue // Skip creating a new ticket
-        }
-
-        // This is a new thread - create a new ticket
-        console.log(`🆕 Creating new ticket for thread ${threadId}`)
-
-        if (true) {
-          // Changed condition to always enter this block for new threads
-          // Extract email body
-          let emailBody = ""
-          const extractTextFromParts = (parts: any[]): string => {
-            let text = ""
-            for (const part of parts) {
-              if (part.mimeType === "text/plain" && part.body?.data) {
-                text +=
-                  Buffer.from(part.body.data, "base64").toString("utf-8") + "\n"
-              } else if (
-                part.mimeType === "text/html" &&
-                part.body?.data &&
-                !text
-              ) {
-                text +=
-                  sanitizeHtml(
-                    Buffer.from(part.body.data, "base64").toString("utf-8")
-                  ) + "\n"
-              } else if (part.parts) {
-                text += extractTextFromParts(part.parts)
-              }
-            }
-            return text
-          }
-
-          if (fullMessage.data.payload?.parts) {
-            emailBody = extractTextFromParts(fullMessage.data.payload.parts)
-          } else if (fullMessage.data.payload?.body?.data) {
-            emailBody = Buffer.from(
-              fullMessage.data.payload.body.data,
-              "base64"
-            ).toString("utf-8")
-          }
-
-          // Get admin membership
-          const adminMembership = await db.query.memberships.findFirst({
-            where: and(
-              eq(memberships.company_id, integration.company_id),
-              eq(memberships.role, "admin"),
-              eq(memberships.is_active, true)
-            ),
-          })
-
-          const [newTicket] = await db
-            .insert(tickets)
-            .values({
-              company_id: integration.company_id,
-              client_id: matchedClient.id,
-              subject,
-              description: `Email from: ${from}\n\nSubject: ${subject}\n\n${emailBody.trim()}`,
-              status: "open",
-              priority: integration.default_ticket_priority || "medium",
-              customer_email: senderEmail,
-              customer_name: from.split("<")[0]?.trim() || senderEmail,
-              created_by_membership_id: adminMembership?.id,
-            })
-            .returning()
-
-          await db.insert(emailThreads).values({
-            company_id: integration.company_id,
-            ticket_id: newTicket.id,
-            gmail_thread_id: threadId!,
-            subject,
-            participants: [from],
-            last_message_id: message.id!,
-          })
-
-          ticketsCreated++
-        }
-      } catch (messageError) {
-        console.error("Error processing message:", messageError)
-        continue
-      }
-    }
-  }
-
-  // Update last sync time
-  await db
-    .update(gmailIntegration)
-    .set({
-      last_sync_at: new Date(),
-      updated_at: new Date(),
-    })
-    .where(eq(gmailIntegration.id, integration.id))
-
-  return {
-    success: true,
-    messagesProcessed,
-    ticketsCreated,
-  }
-}
@@ -8,9 +8,18 @@ import { dashboardRouter } from "./routers/dashboard"
 import { customerPortalRouter } from "./routers/customerPortal"
 import { clientRouter } from "./routers/client"
 import { slaRouter } from "./routers/sla"
+import { businessHoursRouter } from "./routers/businessHours"
 import { gmailRouter } from "./routers/gmail"
 import { apiKeysRouter } from "./routers/apiKeys"
 import { formsRouter } from "./routers/forms"
+import { quarantineRouter } from "./routers/quarantine"
+import { emailTemplatesRouter } from "./routers/emailTemplates"
+import { notificationsRouter } from "./routers/notifications"
+import { realtimeRouter } from "./routers/realtime"
+import { customFieldsRouter } from "./routers/customFields"
+import { tagsRouter } from "./routers/tags"
+import { ticketViewsRouter } from "./routers/ticketViews"
+import { searchRouter } from "./routers/search"
 
 /**
  * This is the primary router for your server.
@@ -27,9 +36,18 @@ export const appRouter = createTRPCRouter({
   customerPortal: customerPortalRouter,
   clients: clientRouter,
   sla: slaRouter,
+  businessHours: businessHoursRouter,
   gmail: gmailRouter,
   apiKeys: apiKeysRouter,
   forms: formsRouter,
+  quarantine: quarantineRouter,
+  emailTemplates: emailTemplatesRouter,
+  notifications: notificationsRouter,
+  realtime: realtimeRouter,
+  customFields: customFieldsRouter,
+  tags: tagsRouter,
+  ticketViews: ticketViewsRouter,
+  search: searchRouter,
 })
 
 // export type definition of API
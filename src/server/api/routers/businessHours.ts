@@ -0,0 +1,190 @@
+import { z } from "zod"
+import {
+  createTRPCRouter,
+  adminCompanyProcedure,
+  companyProcedure,
+} from "~/server/api/trpc"
+import { businessHours } from "~/db/schema"
+import { eq } from "drizzle-orm"
+import { TRPCError } from "@trpc/server"
+import { isValidTimeZone, parseTimeOfDay } from "~/lib/business-hours"
+import { resetSlaDueDatesForSchedule } from "~/lib/sla"
+
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, "Use HH:mm (24-hour) format")
+
+const weeklyHoursSchema = z
+  .array(
+    z
+      .object({
+        day: z.number().int().min(0).max(6),
+        start: timeOfDaySchema,
+        end: timeOfDaySchema,
+      })
+      .refine(
+        (interval) =>
+          parseTimeOfDay(interval.end) > parseTimeOfDay(interval.start),
+        { message: "Closing time must be after opening time" }
+      )
+  )
+  .max(50)
+
+const holidaysSchema = z
+  .array(
+    z.object({
+      date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD format"),
+      name: z.string().max(255).optional(),
+      recurring: z.boolean().default(false),
+    })
+  )
+  .max(500)
+
+const timezoneSchema = z
+  .string()
+  .min(1)
+  .refine(isValidTimeZone, { message: "Unknown timezone" })
+
+export const businessHoursRouter = createTRPCRouter({
+  // Get all business hours schedules for the company
+  getAll: companyProcedure.query(async ({ ctx }) => {
+    return await ctx.db.query.businessHours.findMany({
+      where: (businessHours, { eq }) =>
+        eq(businessHours.company_id, ctx.company.id),
+      orderBy: (businessHours, { asc }) => [asc(businessHours.name)],
+    })
+  }),
+
+  // Get a single schedule by ID
+  getById: companyProcedure
+    .input(
+      z.object({
+        id: z.string().uuid(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const schedule = await ctx.db.query.businessHours.findFirst({
+        where: (businessHours, { and, eq }) =>
+          and(
+            eq(businessHours.id, input.id),
+            eq(businessHours.company_id, ctx.company.id)
+          ),
+      })
+
+      if (!schedule) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Business hours not found",
+        })
+      }
+
+      return schedule
+    }),
+
+  // Create business hours schedule (admin only)
+  create: adminCompanyProcedure
+    .input(
+      z.object({
+        name: z.string().min(1),
+        timezone: timezoneSchema,
+        weeklyHours: weeklyHoursSchema,
+        holidays: holidaysSchema.default([]),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const [schedule] = await ctx.db
+        .insert(businessHours)
+        .values({
+          company_id: ctx.company.id,
+          name: input.name,
+          timezone: input.timezone,
+          weekly_hours: input.weeklyHours,
+          holidays: input.holidays,
+        })
+        .returning()
+
+      return schedule
+    }),
+
+  // Update business hours schedule (admin only)
+  update: adminCompanyProcedure
+    .input(
+      z.object({
+        id: z.string().uuid(),
+        name: z.string().min(1).optional(),
+        timezone: timezoneSchema.optional(),
+        weeklyHours: weeklyHoursSchema.optional(),
+        holidays: holidaysSchema.optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existingSchedule = await ctx.db.query.businessHours.findFirst({
+        where: (businessHours, { and, eq }) =>
+          and(
+            eq(businessHours.id, input.id),
+            eq(businessHours.company_id, ctx.company.id)
+          ),
+      })
+
+      if (!existingSchedule) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Business hours not found",
+        })
+      }
+
+      const updateData: Record<string, any> = {}
+
+      if (input.name) updateData.name = input.name
+      if (input.timezone) updateData.timezone = input.timezone
+      if (input.weeklyHours) updateData.weekly_hours = input.weeklyHours
+      if (input.holidays) updateData.holidays = input.holidays
+
+      if (Object.keys(updateData).length > 0) {
+        updateData.updated_at = new Date()
+
+        const [updatedSchedule] = await ctx.db
+          .update(businessHours)
+          .set(updateData)
+          .where(eq(businessHours.id, input.id))
+          .returning()
+
+        // Running tickets get new deadlines on the next SLA evaluation
+        await resetSlaDueDatesForSchedule(input.id)
+
+        return updatedSchedule
+      }
+
+      return existingSchedule
+    }),
+
+  // Delete business hours schedule (admin only)
+  delete: adminCompanyProcedure
+    .input(
+      z.object({
+        id: z.string().uuid(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existingSchedule = await ctx.db.query.businessHours.findFirst({
+        where: (businessHours, { and, eq }) =>
+          and(
+            eq(businessHours.id, input.id),
+            eq(businessHours.company_id, ctx.company.id)
+          ),
+      })
+
+      if (!existingSchedule) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Business hours not found",
+        })
+      }
+
+      // Reset before the delete unlinks policies and clients from the schedule
+      await resetSlaDueDatesForSchedule(input.id)
+      await ctx.db.delete(businessHours).where(eq(businessHours.id, input.id))
+
+      return { success: true }
+    }),
+})
@@ -3,6 +3,7 @@ import { createTRPCRouter, companyProcedure } from "~/server/api/trpc"
 import { clients, customerPortalAccess } from "~/db/schema"
 import { eq, and } from "drizzle-orm"
 import { TRPCError } from "@trpc/server"
+import { resetSlaDueDatesForClient } from "~/lib/sla"
 
 export const clientRouter = createTRPCRouter({
   // Get all clients for a company
@@ -71,12 +72,14 @@ export const clientRouter = createTRPCRouter({
         ),
         with: {
           company: true,
+          businessHours: true,
           portalAccess: {
             orderBy: (portalAccess, { desc }) => [
               desc(portalAccess.created_at),
             ],
           },
           tickets: {
+            columns: { search_vector: false },
             with: {
               assignedToMembership: {
                 with: {
@@ -170,6 +173,7 @@ export const clientRouter = createTRPCRouter({
         logo_url: z.string().url().optional(),
         portal_enabled: z.boolean().optional(),
         is_active: z.boolean().optional(),
+        business_hours_id: z.string().uuid().nullable().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -204,12 +208,37 @@ export const clientRouter = createTRPCRouter({
         }
       }
 
+      if (input.business_hours_id) {
+        const schedule = await ctx.db.query.businessHours.findFirst({
+          where: (businessHours, { and, eq }) =>
+            and(
+              eq(businessHours.id, input.business_hours_id!),
+              eq(businessHours.company_id, ctx.company.id)
+            ),
+        })
+
+        if (!schedule) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Business hours not found",
+          })
+        }
+      }
+
       const [updatedClient] = await ctx.db
         .update(clients)
         .set({ ...updateData, updated_at: new Date() })
         .where(eq(clients.id, id))
         .returning()
 
+      // Recompute running SLA deadlines against the client's new working hours
+      if (
+        input.business_hours_id !== undefined &&
+        input.business_hours_id !== existingClient.business_hours_id
+      ) {
+        await resetSlaDueDatesForClient(id)
+      }
+
       return updatedClient
     }),
 
@@ -4,8 +4,66 @@ import {
   adminCompanyProcedure,
   companyProcedure,
 } from "~/server/api/trpc"
-import { companies, slaPolicies, escalationPolicies } from "~/db/schema"
-import { eq } from "drizzle-orm"
+import {
+  companies,
+  slaPolicies,
+  escalationPolicies,
+  tickets,
+} from "~/db/schema"
+import { and, eq, inArray, isNull, or, sql } from "drizzle-orm"
+import { TRPCError } from "@trpc/server"
+import type { db } from "~/db"
+import { CUSTOMER_NOTIFICATION_EVENTS } from "~/lib/email-templates"
+
+const ticketPrioritySchema = z.enum(["low", "medium", "high", "urgent"])
+
+const escalationRuleSchema = z.object({
+  level: z.number().min(1),
+  timeoutMinutes: z.number().min(1),
+  assignToUserId: z.string().uuid().optional(),
+  assignToRole: z.enum(["admin", "agent"]).optional(),
+  notifyEmails: z.array(z.string().email()).optional(),
+})
+
+// Ensure a client belongs to the caller's company
+async function verifyClient(
+  ctx: { db: typeof db; company: { id: string } },
+  clientId: string
+) {
+  const client = await ctx.db.query.clients.findFirst({
+    where: (clients, { and, eq }) =>
+      and(eq(clients.id, clientId), eq(clients.company_id, ctx.company.id)),
+  })
+
+  if (!client) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Client not found",
+    })
+  }
+}
+
+async function findEscalationPolicy(
+  ctx: { db: typeof db; company: { id: string } },
+  id: string
+) {
+  const policy = await ctx.db.query.escalationPolicies.findFirst({
+    where: (escalationPolicies, { and, eq }) =>
+      and(
+        eq(escalationPolicies.id, id),
+        eq(escalationPolicies.company_id, ctx.company.id)
+      ),
+  })
+
+  if (!policy) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Escalation policy not found",
+    })
+  }
+
+  return policy
+}
 
 export const companyRouter = createTRPCRouter({
   // Get company settings
@@ -24,6 +82,14 @@ export const companyRouter = createTRPCRouter({
           .regex(/^#[0-9A-F]{6}$/i)
           .optional(),
         settings: z.record(z.any()).optional(),
+        attachmentMaxSizeMb: z.number().int().min(1).max(100).optional(),
+        // MIME types ("image/*", "application/pdf") or extensions (".log")
+        attachmentAllowedTypes: z
+          .array(z.string().regex(/^(\.[\w-]+|[\w.+-]+\/(\*|[\w.+-]+))$/))
+          .optional(),
+        customerNotificationEvents: z
+          .array(z.enum(CUSTOMER_NOTIFICATION_EVENTS))
+          .optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -33,6 +99,13 @@ export const companyRouter = createTRPCRouter({
       if (input.logoUrl) updateData.logo_url = input.logoUrl
       if (input.primaryColor) updateData.primary_color = input.primaryColor
       if (input.settings) updateData.settings = input.settings
+      if (input.attachmentMaxSizeMb)
+        updateData.attachment_max_size_mb = input.attachmentMaxSizeMb
+      if (input.attachmentAllowedTypes)
+        updateData.attachment_allowed_types = input.attachmentAllowedTypes
+      if (input.customerNotificationEvents)
+        updateData.customer_notification_events =
+          input.customerNotificationEvents
 
       if (Object.keys(updateData).length > 0) {
         updateData.updated_at = new Date()
@@ -144,6 +217,11 @@ export const companyRouter = createTRPCRouter({
     return await ctx.db.query.escalationPolicies.findMany({
       where: (escalationPolicies, { eq }) =>
         eq(escalationPolicies.company_id, ctx.company.id),
+      with: {
+        client: {
+          columns: { id: true, name: true },
+        },
+      },
       orderBy: (escalationPolicies, { desc }) => [
         desc(escalationPolicies.created_at),
       ],
@@ -155,25 +233,25 @@ export const companyRouter = createTRPCRouter({
     .input(
       z.object({
         name: z.string().min(1),
-        escalationRules: z.array(
-          z.object({
-            level: z.number().min(1),
-            timeoutMinutes: z.number().min(1),
-            assignToUserId: z.string().uuid().optional(),
-            assignToRole: z.enum(["admin", "agent"]).optional(),
-            notifyEmails: z.array(z.string().email()).optional(),
-          })
-        ),
+        escalationRules: z.array(escalationRuleSchema),
+        clientId: z.string().uuid().optional(),
+        priorities: z.array(ticketPrioritySchema).default([]),
         isActive: z.boolean().default(true),
       })
     )
     .mutation(async ({ ctx, input }) => {
+      if (input.clientId) {
+        await verifyClient(ctx, input.clientId)
+      }
+
       const [escalationPolicy] = await ctx.db
         .insert(escalationPolicies)
         .values({
           company_id: ctx.company.id,
           name: input.name,
           escalation_rules: input.escalationRules,
+          client_id: input.clientId,
+          priorities: input.priorities,
           is_active: input.isActive,
         })
         .returning()
@@ -181,6 +259,125 @@ export const companyRouter = createTRPCRouter({
       return escalationPolicy
     }),
 
+  // Update escalation policy (admin only)
+  updateEscalationPolicy: adminCompanyProcedure
+    .input(
+      z.object({
+        id: z.string().uuid(),
+        name: z.string().min(1).optional(),
+        escalationRules: z.array(escalationRuleSchema).optional(),
+        clientId: z.string().uuid().nullable().optional(),
+        priorities: z.array(ticketPrioritySchema).optional(),
+        isActive: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existingPolicy = await findEscalationPolicy(ctx, input.id)
+
+      const updateData: Record<string, any> = {}
+
+      if (input.name) updateData.name = input.name
+      if (input.escalationRules)
+        updateData.escalation_rules = input.escalationRules
+      if (input.clientId !== undefined) {
+        if (input.clientId) {
+          await verifyClient(ctx, input.clientId)
+        }
+        updateData.client_id = input.clientId
+      }
+      if (input.priorities) updateData.priorities = input.priorities
+      if (typeof input.isActive === "boolean")
+        updateData.is_active = input.isActive
+
+      if (Object.keys(updateData).length > 0) {
+        updateData.updated_at = new Date()
+
+        const [updatedPolicy] = await ctx.db
+          .update(escalationPolicies)
+          .set(updateData)
+          .where(eq(escalationPolicies.id, input.id))
+          .returning()
+
+        return updatedPolicy
+      }
+
+      return existingPolicy
+    }),
+
+  // Delete escalation policy (admin only)
+  deleteEscalationPolicy: adminCompanyProcedure
+    .input(
+      z.object({
+        id: z.string().uuid(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await findEscalationPolicy(ctx, input.id)
+
+      // Detach tickets so the escalation runner can match them to another policy
+      await ctx.db
+        .update(tickets)
+        .set({ escalation_policy_id: null, updated_at: new Date() })
+        .where(eq(tickets.escalation_policy_id, input.id))
+
+      await ctx.db
+        .delete(escalationPolicies)
+        .where(eq(escalationPolicies.id, input.id))
+
+      return { success: true }
+    }),
+
+  // Attach an escalation policy to the open tickets in its client/priority scope (admin only)
+  applyEscalationPolicy: adminCompanyProcedure
+    .input(
+      z.object({
+        id: z.string().uuid(),
+        // Replace a policy already attached to a ticket instead of skipping it
+        overwrite: z.boolean().default(false),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const policy = await findEscalationPolicy(ctx, input.id)
+      const priorities = policy.priorities as z.infer<
+        typeof ticketPrioritySchema
+      >[]
+
+      const whereConditions = [
+        eq(tickets.company_id, ctx.company.id),
+        inArray(tickets.status, ["open", "in_progress"]),
+      ]
+
+      if (policy.client_id) {
+        whereConditions.push(eq(tickets.client_id, policy.client_id))
+      }
+
+      if (priorities.length > 0) {
+        whereConditions.push(inArray(tickets.priority, priorities))
+      }
+
+      if (!input.overwrite) {
+        whereConditions.push(
+          or(
+            isNull(tickets.escalation_policy_id),
+            eq(tickets.escalation_policy_id, policy.id)
+          )!
+        )
+      }
+
+      const updated = await ctx.db
+        .update(tickets)
+        .set({
+          escalation_policy_id: policy.id,
+          // Tickets moving over from another policy start at its first level
+          escalation_level: sql`case when ${tickets.escalation_policy_id} = ${policy.id} then ${tickets.escalation_level} else 0 end`,
+          updated_at: new Date(),
+        })
+        .where(and(...whereConditions))
+        .returning({ id: tickets.id })
+
+      return { success: true, ticketsUpdated: updated.length }
+    }),
+
   // Delete company (owner only) - this will cascade delete all related data
   deleteCompany: adminCompanyProcedure
     .input(
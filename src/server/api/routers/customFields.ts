@@ -0,0 +1,198 @@
+import { z } from "zod"
+import {
+  createTRPCRouter,
+  adminCompanyProcedure,
+  companyProcedure,
+} from "~/server/api/trpc"
+import { customFieldDefinitions } from "~/db/schema"
+import { and, eq } from "drizzle-orm"
+import { TRPCError } from "@trpc/server"
+import type { db } from "~/db"
+import { CUSTOM_FIELD_TYPES, hasFieldOptions } from "~/lib/custom-field-types"
+import { getCustomFieldDefinitions } from "~/lib/custom-fields"
+
+const fieldSettingsInput = z.object({
+  label: z.string().trim().min(1).max(255),
+  description: z.string().max(1000).nullable().optional(),
+  clientId: z.string().uuid().nullable().default(null),
+  options: z.array(z.string().trim().min(1).max(255)).max(200).default([]),
+  isRequired: z.boolean().default(false),
+  position: z.number().int().min(0).default(0),
+})
+
+// Ensure a client belongs to the caller's company
+async function verifyClient(
+  ctx: { db: typeof db; company: { id: string } },
+  clientId: string
+) {
+  const client = await ctx.db.query.clients.findFirst({
+    where: (clients, { and, eq }) =>
+      and(eq(clients.id, clientId), eq(clients.company_id, ctx.company.id)),
+    columns: { id: true },
+  })
+
+  if (!client) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Client not found",
+    })
+  }
+}
+
+// Choice lists are only kept for the types that use them
+function getOptionsForType(type: string, options: string[]) {
+  if (!hasFieldOptions(type)) return []
+
+  const unique = Array.from(new Set(options))
+  if (unique.length === 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Add at least one option",
+    })
+  }
+  return unique
+}
+
+// "Contract number" becomes "contract_number"
+function keyFromLabel(label: string) {
+  return (
+    label
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "")
+      .slice(0, 64) || "field"
+  )
+}
+
+export const customFieldsRouter = createTRPCRouter({
+  // Every field in the company, for the settings page
+  getAll: companyProcedure.query(({ ctx }) =>
+    ctx.db.query.customFieldDefinitions.findMany({
+      where: eq(customFieldDefinitions.company_id, ctx.company.id),
+      with: { client: { columns: { id: true, name: true } } },
+      orderBy: (customFieldDefinitions, { asc }) => [
+        asc(customFieldDefinitions.position),
+        asc(customFieldDefinitions.created_at),
+      ],
+    })
+  ),
+
+  // The fields shown on a ticket for this client, or on tickets without one
+  getForClient: companyProcedure
+    .input(z.object({ clientId: z.string().uuid().nullable() }))
+    .query(({ ctx, input }) =>
+      getCustomFieldDefinitions(ctx.company.id, input.clientId)
+    ),
+
+  create: adminCompanyProcedure
+    .input(
+      fieldSettingsInput.extend({
+        type: z.enum(CUSTOM_FIELD_TYPES),
+        // Defaults to one made from the label
+        key: z
+          .string()
+          .regex(
+            /^[a-z][a-z0-9_]{0,63}$/,
+            "Use lowercase letters, numbers and underscores, starting with a letter"
+          )
+          .optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.clientId) await verifyClient(ctx, input.clientId)
+
+      const key = input.key ?? keyFromLabel(input.label)
+      const existing = await ctx.db.query.customFieldDefinitions.findFirst({
+        where: and(
+          eq(customFieldDefinitions.company_id, ctx.company.id),
+          eq(customFieldDefinitions.key, key)
+        ),
+        columns: { id: true },
+      })
+
+      if (existing) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: `A custom field with the key "${key}" already exists`,
+        })
+      }
+
+      const [field] = await ctx.db
+        .insert(customFieldDefinitions)
+        .values({
+          company_id: ctx.company.id,
+          client_id: input.clientId,
+          key,
+          label: input.label,
+          description: input.description || null,
+          type: input.type,
+          options: getOptionsForType(input.type, input.options),
+          is_required: input.isRequired,
+          position: input.position,
+        })
+        .returning()
+
+      return field
+    }),
+
+  // The key and type can't change, since tickets already store values by them
+  update: adminCompanyProcedure
+    .input(fieldSettingsInput.extend({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const field = await ctx.db.query.customFieldDefinitions.findFirst({
+        where: and(
+          eq(customFieldDefinitions.id, input.id),
+          eq(customFieldDefinitions.company_id, ctx.company.id)
+        ),
+      })
+
+      if (!field) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Custom field not found",
+        })
+      }
+
+      if (input.clientId) await verifyClient(ctx, input.clientId)
+
+      const [updated] = await ctx.db
+        .update(customFieldDefinitions)
+        .set({
+          client_id: input.clientId,
+          label: input.label,
+          description: input.description || null,
+          options: getOptionsForType(field.type, input.options),
+          is_required: input.isRequired,
+          position: input.position,
+          updated_at: new Date(),
+        })
+        .where(eq(customFieldDefinitions.id, field.id))
+        .returning()
+
+      return updated
+    }),
+
+  // Values already saved on tickets are kept but no longer shown
+  delete: adminCompanyProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const [deleted] = await ctx.db
+        .delete(customFieldDefinitions)
+        .where(
+          and(
+            eq(customFieldDefinitions.id, input.id),
+            eq(customFieldDefinitions.company_id, ctx.company.id)
+          )
+        )
+        .returning({ id: customFieldDefinitions.id })
+
+      if (!deleted) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Custom field not found",
+        })
+      }
+
+      return { success: true }
+    }),
+})
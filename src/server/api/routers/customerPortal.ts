@@ -1,9 +1,45 @@
 import { z } from "zod"
 import { createTRPCRouter, publicProcedure } from "~/server/api/trpc"
-import { customerPortalAccess, tickets, ticketComments } from "~/db/schema"
-import { eq, inArray, and, or, asc } from "drizzle-orm"
+import {
+  customerPortalAccess,
+  ticketFollowers,
+  tickets,
+  ticketComments,
+} from "~/db/schema"
+import { eq, inArray, and, or, asc, isNotNull } from "drizzle-orm"
+import { ticketColumns, ticketCommentColumns } from "~/lib/search"
 import { TRPCError } from "@trpc/server"
+import { observable } from "@trpc/server/observable"
 import type { db } from "~/db"
+import { getSlaPolicyChange, getTicketSlaFields } from "~/lib/sla"
+import {
+  getTicketEvents,
+  recordTicketChanges,
+  toCustomerTicketEvents,
+  type TicketEventActor,
+} from "~/lib/ticket-events"
+import {
+  clearPendingAttachments,
+  getPendingAttachments,
+  toAttachmentViews,
+} from "~/lib/attachments"
+import {
+  notifyCustomer,
+  notifyCustomerOfStatusChange,
+} from "~/lib/customer-notifications"
+import {
+  notifyAssignment,
+  notifyCustomerReply,
+  notifyTicketUpdate,
+} from "~/lib/agent-notifications"
+import { notifyPortalAccessRequest } from "~/lib/notifications"
+import { addTicketFollowers, getTicketFollowers } from "~/lib/ticket-followers"
+import { subscribeToRealtimeEvents, type RealtimeEvent } from "~/lib/realtime"
+import {
+  clearTicketPresence,
+  getTicketViewers,
+  touchTicketPresence,
+} from "~/lib/presence"
 
 // Helper function to verify portal access via Supabase session
 async function verifyPortalAccess(
@@ -69,6 +105,7 @@ async function verifyPortalAccess(
         companyName: client.company.name,
         companySlug: client.company.slug,
         portalAccessId: null, // Team members don't have portal access records
+        membershipId: membership.id,
         isTeamMember: true,
       }
     }
@@ -102,10 +139,55 @@ async function verifyPortalAccess(
     companyName: client.company.name,
     companySlug: client.company.slug,
     portalAccessId: access.id,
+    membershipId: null,
     isTeamMember: false,
   }
 }
 
+// Who to credit in the ticket history for a change made through the portal
+function getPortalActor(
+  access: Awaited<ReturnType<typeof verifyPortalAccess>>
+): TicketEventActor {
+  return access.membershipId
+    ? { type: "membership", membershipId: access.membershipId }
+    : {
+        type: "customer_portal_access",
+        customerPortalAccessId: access.portalAccessId!,
+      }
+}
+
+// Presence is only tracked for team members, never for customers
+async function getTeamMemberPresenceTicket(
+  ctx: { db: typeof db; supabase: any },
+  input: { companySlug: string; clientSlug: string; ticketId: string }
+) {
+  const access = await verifyPortalAccess(ctx, input)
+  if (!access.membershipId) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Only team members share their presence on tickets",
+    })
+  }
+
+  const ticket = await ctx.db.query.tickets.findFirst({
+    where: (tickets, { and, eq }) =>
+      and(
+        eq(tickets.id, input.ticketId),
+        eq(tickets.client_id, access.clientId)
+      ),
+    columns: { id: true, company_id: true, client_id: true },
+  })
+
+  if (!ticket) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Ticket not found",
+    })
+  }
+
+  return { membershipId: access.membershipId, ticket }
+}
+
 export const customerPortalRouter = createTRPCRouter({
   // Request OTP for portal access
   requestOTP: publicProcedure
@@ -145,6 +227,7 @@ export const customerPortalRouter = createTRPCRouter({
       })
 
       if (!access) {
+        await notifyPortalAccessRequest(client, input.email)
         throw new TRPCError({
           code: "UNAUTHORIZED",
           message:
@@ -291,6 +374,7 @@ export const customerPortalRouter = createTRPCRouter({
         limit: input.limit,
         offset,
         orderBy: (tickets, { desc }) => [desc(tickets.created_at)],
+        columns: { search_vector: false },
       })
 
       // If no tickets found, return empty array
@@ -441,13 +525,11 @@ export const customerPortalRouter = createTRPCRouter({
         clientSlug: input.clientSlug,
       })
 
-      // Get default SLA policy for the company
-      const defaultSLA = await ctx.db.query.slaPolicies.findFirst({
-        where: (slaPolicies, { and, eq }) =>
-          and(
-            eq(slaPolicies.company_id, access.companyId),
-            eq(slaPolicies.is_default, true)
-          ),
+      // Pick the most specific SLA policy for the client and priority
+      const slaFields = await getTicketSlaFields({
+        companyId: access.companyId,
+        clientId: access.clientId,
+        priority: input.priority,
       })
 
       // Find a suitable agent to auto-assign (optional)
@@ -476,13 +558,16 @@ export const customerPortalRouter = createTRPCRouter({
         customer_name: access.customerName,
         created_by_membership_id: null, // Customer created, not a member
         assigned_to_membership_id: availableAgentMembership?.id || null,
-        sla_policy_id: defaultSLA?.id || null,
+        ...slaFields,
       }
 
       const [ticket] = await ctx.db
         .insert(tickets)
         .values(ticketData)
-        .returning()
+        .returning(ticketColumns)
+
+      await notifyCustomer(ticket.id, "ticket_created")
+      await notifyAssignment(null, ticket)
 
       return ticket
     }),
@@ -496,6 +581,8 @@ export const customerPortalRouter = createTRPCRouter({
         accessToken: z.string().optional(), // Kept for backwards compatibility, but not used
         ticketId: z.string().uuid(),
         content: z.string().min(1),
+        // IDs returned by POST /api/attachments for this ticket
+        attachmentIds: z.array(z.string().uuid()).max(10).default([]),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -512,6 +599,7 @@ export const customerPortalRouter = createTRPCRouter({
             eq(tickets.id, input.ticketId),
             eq(tickets.client_id, access.clientId)
           ),
+        columns: { search_vector: false },
       })
 
       if (!ticket) {
@@ -540,6 +628,21 @@ export const customerPortalRouter = createTRPCRouter({
         }
       }
 
+      const attachments =
+        input.attachmentIds.length === 0
+          ? []
+          : ctx.session &&
+            (await getPendingAttachments(input.attachmentIds, input.ticketId, {
+              authUserId: ctx.session.user.id,
+            }))
+
+      if (!attachments) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Attachment not found or already used",
+        })
+      }
+
       const [comment] = await ctx.db
         .insert(ticketComments)
         .values({
@@ -552,8 +655,11 @@ export const customerPortalRouter = createTRPCRouter({
           content: input.content,
           is_internal: false,
           is_system: false,
+          attachments,
         })
-        .returning()
+        .returning(ticketCommentColumns)
+
+      await clearPendingAttachments(input.attachmentIds)
 
       // Update ticket to show activity
       await ctx.db
@@ -561,6 +667,14 @@ export const customerPortalRouter = createTRPCRouter({
         .set({ updated_at: new Date() })
         .where(eq(tickets.id, input.ticketId))
 
+      if (access.isTeamMember) {
+        await notifyCustomer(ticket.id, "agent_reply", {
+          reply: { content: input.content, authorName: access.customerName },
+        })
+      } else {
+        await notifyCustomerReply(ticket, access.customerName, input.content)
+      }
+
       return comment
     }),
 
@@ -585,8 +699,9 @@ export const customerPortalRouter = createTRPCRouter({
       const comment = await ctx.db.query.ticketComments.findFirst({
         where: (ticketComments, { eq }) =>
           eq(ticketComments.id, input.commentId),
+        columns: { search_vector: false },
         with: {
-          ticket: true,
+          ticket: { columns: { search_vector: false } },
         },
       })
 
@@ -672,7 +787,7 @@ export const customerPortalRouter = createTRPCRouter({
           edited_by_customer_portal_access_id: editorPortalAccessId,
         })
         .where(eq(ticketComments.id, input.commentId))
-        .returning()
+        .returning(ticketCommentColumns)
 
       return updatedComment
     }),
@@ -724,6 +839,7 @@ export const customerPortalRouter = createTRPCRouter({
         },
         limit: input.limit,
         orderBy: (knowledgeBase, { desc }) => [desc(knowledgeBase.created_at)],
+        columns: { search_vector: false },
       })
 
       return articles
@@ -748,6 +864,7 @@ export const customerPortalRouter = createTRPCRouter({
       // Get ALL tickets for this client with SLA data
       const customerTickets = await ctx.db.query.tickets.findMany({
         where: (tickets, { eq }) => eq(tickets.client_id, access.clientId),
+        columns: { search_vector: false },
         with: {
           slaPolicy: true,
         },
@@ -858,6 +975,7 @@ export const customerPortalRouter = createTRPCRouter({
             eq(tickets.id, input.ticketId),
             eq(tickets.client_id, access.clientId)
           ),
+        columns: { search_vector: false },
       })
 
       if (!ticket) {
@@ -921,10 +1039,17 @@ export const customerPortalRouter = createTRPCRouter({
       }
 
       // Get comments for this ticket
+      // Internal notes (and their files) are for team members only
       const baseComments = await ctx.db.query.ticketComments.findMany({
-        where: (ticketComments, { eq }) =>
-          eq(ticketComments.ticket_id, input.ticketId),
+        where: (ticketComments, { and, eq }) =>
+          access.isTeamMember
+            ? eq(ticketComments.ticket_id, input.ticketId)
+            : and(
+                eq(ticketComments.ticket_id, input.ticketId),
+                eq(ticketComments.is_internal, false)
+              ),
         orderBy: (ticketComments, { asc }) => [asc(ticketComments.created_at)],
+        columns: { search_vector: false },
       })
 
       // Get membership info for comments
@@ -1001,6 +1126,7 @@ export const customerPortalRouter = createTRPCRouter({
 
         return {
           ...comment,
+          attachments: toAttachmentViews(comment),
           membership:
             commentMemberships.find((m) => m.id === comment.membership_id) ||
             null,
@@ -1060,7 +1186,21 @@ export const customerPortalRouter = createTRPCRouter({
         assigned_to_customer_portal_access: assignedToCustomerPortalAccess,
         created_by: createdBy,
         comments,
+        events: access.isTeamMember
+          ? await getTicketEvents(ticket.id)
+          : toCustomerTicketEvents(
+              await getTicketEvents(ticket.id),
+              access.companyName
+            ),
         formSubmission,
+        // Only contacts; team members following the ticket stay internal
+        followers: (await getTicketFollowers(ticket.id))
+          .filter((follower) => follower.email)
+          .map((follower) => ({
+            id: follower.id,
+            email: follower.email!,
+            name: follower.name,
+          })),
         canEdit, // Add permission flag
         canUnresolve, // Add unresolve permission flag
         isTeamMember: access.isTeamMember, // Add team member flag
@@ -1099,6 +1239,7 @@ export const customerPortalRouter = createTRPCRouter({
             eq(tickets.id, input.ticketId),
             eq(tickets.client_id, access.clientId)
           ),
+        columns: { search_vector: false },
       })
 
       if (!ticket) {
@@ -1119,7 +1260,14 @@ export const customerPortalRouter = createTRPCRouter({
       if (input.subject !== undefined) updateData.subject = input.subject
       if (input.description !== undefined)
         updateData.description = input.description
-      if (input.priority !== undefined) updateData.priority = input.priority
+      if (input.priority !== undefined) {
+        updateData.priority = input.priority
+        // A new priority may fall under a different SLA policy
+        Object.assign(
+          updateData,
+          await getSlaPolicyChange(ticket, { priority: input.priority })
+        )
+      }
 
       // Handle assignment - membership and customer portal access are mutually exclusive
       if (input.assigned_to_membership_id !== undefined) {
@@ -1135,10 +1283,15 @@ export const customerPortalRouter = createTRPCRouter({
       }
 
       // Update the ticket
-      await ctx.db
+      const [updatedTicket] = await ctx.db
         .update(tickets)
         .set(updateData)
         .where(eq(tickets.id, input.ticketId))
+        .returning(ticketColumns)
+
+      await recordTicketChanges(ticket, updatedTicket, getPortalActor(access))
+      await notifyAssignment(ticket, updatedTicket, access.membershipId)
+      await notifyTicketUpdate(ticket, updatedTicket, access.membershipId)
 
       return { success: true }
     }),
@@ -1166,6 +1319,7 @@ export const customerPortalRouter = createTRPCRouter({
             eq(tickets.id, input.ticketId),
             eq(tickets.client_id, access.clientId)
           ),
+        columns: { search_vector: false },
       })
 
       if (!ticket) {
@@ -1176,7 +1330,7 @@ export const customerPortalRouter = createTRPCRouter({
       }
 
       // Anyone with portal access can resolve
-      await ctx.db
+      const [updatedTicket] = await ctx.db
         .update(tickets)
         .set({
           status: "resolved",
@@ -1184,6 +1338,13 @@ export const customerPortalRouter = createTRPCRouter({
           updated_at: new Date(),
         })
         .where(eq(tickets.id, input.ticketId))
+        .returning(ticketColumns)
+
+      await recordTicketChanges(ticket, updatedTicket, getPortalActor(access))
+      if (access.isTeamMember) {
+        await notifyCustomerOfStatusChange(ticket, updatedTicket)
+      }
+      await notifyTicketUpdate(ticket, updatedTicket, access.membershipId)
 
       return { success: true }
     }),
@@ -1211,6 +1372,7 @@ export const customerPortalRouter = createTRPCRouter({
             eq(tickets.id, input.ticketId),
             eq(tickets.client_id, access.clientId)
           ),
+        columns: { search_vector: false },
       })
 
       if (!ticket) {
@@ -1250,7 +1412,7 @@ export const customerPortalRouter = createTRPCRouter({
       }
 
       // Unresolve the ticket (set status back to in_progress)
-      await ctx.db
+      const [updatedTicket] = await ctx.db
         .update(tickets)
         .set({
           status: "in_progress",
@@ -1258,10 +1420,201 @@ export const customerPortalRouter = createTRPCRouter({
           updated_at: new Date(),
         })
         .where(eq(tickets.id, input.ticketId))
+        .returning(ticketColumns)
+
+      await recordTicketChanges(ticket, updatedTicket, getPortalActor(access))
+      if (access.isTeamMember) {
+        await notifyCustomerOfStatusChange(ticket, updatedTicket)
+      }
+      await notifyTicketUpdate(ticket, updatedTicket, access.membershipId)
 
       return { success: true }
     }),
 
+  // CC a colleague on a ticket so they get its emails too
+  addFollower: publicProcedure
+    .input(
+      z.object({
+        companySlug: z.string(),
+        clientSlug: z.string(),
+        ticketId: z.string().uuid(),
+        email: z.string().email().max(255),
+        name: z.string().max(255).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const access = await verifyPortalAccess(ctx, {
+        companySlug: input.companySlug,
+        clientSlug: input.clientSlug,
+      })
+
+      const ticket = await ctx.db.query.tickets.findFirst({
+        where: (tickets, { and, eq }) =>
+          and(
+            eq(tickets.id, input.ticketId),
+            eq(tickets.client_id, access.clientId)
+          ),
+        columns: { search_vector: false },
+      })
+
+      if (!ticket) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Ticket not found",
+        })
+      }
+
+      if (input.email.toLowerCase() === ticket.customer_email?.toLowerCase()) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "The requester already gets this ticket's emails",
+        })
+      }
+
+      await addTicketFollowers(
+        ticket,
+        { contacts: [{ email: input.email, name: input.name }] },
+        access.membershipId
+      )
+
+      return { success: true }
+    }),
+
+  removeFollower: publicProcedure
+    .input(
+      z.object({
+        companySlug: z.string(),
+        clientSlug: z.string(),
+        ticketId: z.string().uuid(),
+        followerId: z.string().uuid(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const access = await verifyPortalAccess(ctx, {
+        companySlug: input.companySlug,
+        clientSlug: input.clientSlug,
+      })
+
+      const ticket = await ctx.db.query.tickets.findFirst({
+        where: (tickets, { and, eq }) =>
+          and(
+            eq(tickets.id, input.ticketId),
+            eq(tickets.client_id, access.clientId)
+          ),
+        columns: { id: true },
+      })
+
+      if (!ticket) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Ticket not found",
+        })
+      }
+
+      // Portal users manage contacts; team members are managed in the app
+      const [removed] = await ctx.db
+        .delete(ticketFollowers)
+        .where(
+          and(
+            eq(ticketFollowers.id, input.followerId),
+            eq(ticketFollowers.ticket_id, ticket.id),
+            isNotNull(ticketFollowers.email)
+          )
+        )
+        .returning({ id: ticketFollowers.id })
+
+      if (!removed) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Follower not found",
+        })
+      }
+
+      return { success: true }
+    }),
+
+  // Changes to the client's tickets; internal notes are only announced to
+  // team members
+  onTicketChange: publicProcedure
+    .input(
+      z.object({
+        companySlug: z.string(),
+        clientSlug: z.string(),
+        ticketId: z.string().uuid().optional(),
+      })
+    )
+    .subscription(async ({ ctx, input }) => {
+      const access = await verifyPortalAccess(ctx, {
+        companySlug: input.companySlug,
+        clientSlug: input.clientSlug,
+      })
+
+      return observable<RealtimeEvent>((emit) =>
+        subscribeToRealtimeEvents((event) => {
+          if (event.clientId !== access.clientId) return
+          if (input.ticketId && event.ticketId !== input.ticketId) return
+          if (event.isInternal && !access.isTeamMember) return
+          if (event.type === "presence.updated" && !access.isTeamMember) return
+          emit.next(event)
+        })
+      )
+    }),
+
+  // Team members using the portal show up as viewers in the ticket dialog too
+  touchPresence: publicProcedure
+    .input(
+      z.object({
+        companySlug: z.string(),
+        clientSlug: z.string(),
+        ticketId: z.string().uuid(),
+        isTyping: z.boolean(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { membershipId, ticket } = await getTeamMemberPresenceTicket(
+        ctx,
+        input
+      )
+      await touchTicketPresence(ticket, membershipId, {
+        source: "portal",
+        isTyping: input.isTyping,
+      })
+      return { success: true }
+    }),
+
+  leaveTicket: publicProcedure
+    .input(
+      z.object({
+        companySlug: z.string(),
+        clientSlug: z.string(),
+        ticketId: z.string().uuid(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { membershipId, ticket } = await getTeamMemberPresenceTicket(
+        ctx,
+        input
+      )
+      await clearTicketPresence(ticket, membershipId)
+      return { success: true }
+    }),
+
+  getTicketViewers: publicProcedure
+    .input(
+      z.object({
+        companySlug: z.string(),
+        clientSlug: z.string(),
+        ticketId: z.string().uuid(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { membershipId, ticket } = await getTeamMemberPresenceTicket(
+        ctx,
+        input
+      )
+      return getTicketViewers(ticket, membershipId)
+    }),
+
   // Get available team members for assignment
   getTeamMembers: publicProcedure
     .input(
@@ -1444,6 +1797,7 @@ export const customerPortalRouter = createTRPCRouter({
 
           return and(...conditions)
         },
+        columns: { search_vector: false },
         with: {
           form: {
             columns: {
@@ -1538,6 +1892,7 @@ export const customerPortalRouter = createTRPCRouter({
             eq(formSubmissions.id, input.submissionId),
             eq(formSubmissions.company_id, access.companyId)
           ),
+        columns: { search_vector: false },
         with: {
           form: true,
         },
@@ -1570,10 +1925,17 @@ export const customerPortalRouter = createTRPCRouter({
           customer_name: submission.submitted_by_name,
           assigned_to_customer_portal_access_id:
             submission.submitted_by_customer_portal_access_id,
+          ...(await getTicketSlaFields({
+            companyId: submission.company_id,
+            clientId: submission.form.client_id,
+            priority: input.priority || "medium",
+          })),
           external_id: submission.id,
           external_type: "form_submission",
         })
-        .returning()
+        .returning(ticketColumns)
+
+      await notifyCustomer(ticket.id, "ticket_created")
 
       // Update submission with ticket reference
       await ctx.db
@@ -1694,4 +2056,82 @@ export const customerPortalRouter = createTRPCRouter({
       // Add BOM for Excel UTF-8 compatibility
       return "\uFEFF" + csvContent
     }),
+
+  // Ticket shown on the unsubscribe page; the token comes from the email link
+  // and belongs to either the requester or a contact following the ticket
+  getTicketSubscription: publicProcedure
+    .input(z.object({ token: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const ticket = await ctx.db.query.tickets.findFirst({
+        where: eq(tickets.customer_notification_token, input.token),
+        columns: { subject: true, customer_notifications_muted: true },
+        with: {
+          company: {
+            columns: { name: true, logo_url: true, primary_color: true },
+          },
+        },
+      })
+
+      if (!ticket) {
+        const follower = await ctx.db.query.ticketFollowers.findFirst({
+          where: eq(ticketFollowers.notification_token, input.token),
+          columns: { muted: true },
+          with: {
+            ticket: {
+              columns: { subject: true },
+              with: {
+                company: {
+                  columns: { name: true, logo_url: true, primary_color: true },
+                },
+              },
+            },
+          },
+        })
+        if (follower) {
+          return {
+            subject: follower.ticket.subject,
+            muted: follower.muted,
+            company: follower.ticket.company,
+          }
+        }
+
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Ticket not found",
+        })
+      }
+
+      return {
+        subject: ticket.subject,
+        muted: ticket.customer_notifications_muted,
+        company: ticket.company,
+      }
+    }),
+
+  // Stop or resume customer emails for one ticket
+  setTicketSubscription: publicProcedure
+    .input(z.object({ token: z.string().uuid(), muted: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const [ticket] = await ctx.db
+        .update(tickets)
+        .set({ customer_notifications_muted: input.muted })
+        .where(eq(tickets.customer_notification_token, input.token))
+        .returning({ id: tickets.id })
+
+      if (!ticket) {
+        const [follower] = await ctx.db
+          .update(ticketFollowers)
+          .set({ muted: input.muted })
+          .where(eq(ticketFollowers.notification_token, input.token))
+          .returning({ id: ticketFollowers.id })
+        if (follower) return { muted: input.muted }
+
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Ticket not found",
+        })
+      }
+
+      return { muted: input.muted }
+    }),
 })
@@ -2,6 +2,7 @@ import { z } from "zod"
 import { createTRPCRouter, companyProcedure } from "~/server/api/trpc"
 import { tickets, users, memberships } from "~/db/schema"
 import { eq, and, gte, lte, count, isNotNull, desc, or, sql } from "drizzle-orm"
+import { getTicketCountsByTag } from "~/lib/tags"
 
 export const dashboardRouter = createTRPCRouter({
   // Get dashboard metrics
@@ -54,6 +55,12 @@ export const dashboardRouter = createTRPCRouter({
         .where(and(...whereConditions))
         .groupBy(tickets.priority)
 
+      // Tickets by tag
+      const ticketsByTag = await getTicketCountsByTag(
+        ctx.company.id,
+        whereConditions
+      )
+
       // SLA compliance metrics
       const slaMetrics = await ctx.db
         .select({
@@ -74,6 +81,7 @@ export const dashboardRouter = createTRPCRouter({
       // Recent tickets
       const recentTickets = await ctx.db.query.tickets.findMany({
         where: and(...whereConditions),
+        columns: { search_vector: false },
         with: {
           createdByMembership: {
             with: {
@@ -150,6 +158,7 @@ export const dashboardRouter = createTRPCRouter({
         totalTickets,
         ticketsByStatus,
         ticketsByPriority,
+        ticketsByTag,
         slaMetrics: slaMetrics[0] || {
           totalWithSLA: 0,
           breachedResponse: 0,
@@ -0,0 +1,125 @@
+import { z } from "zod"
+import sanitizeHtml from "sanitize-html"
+import {
+  createTRPCRouter,
+  companyProcedure,
+  adminCompanyProcedure,
+} from "~/server/api/trpc"
+import { emailTemplates } from "~/db/schema"
+import { eq, and } from "drizzle-orm"
+import { TRPCError } from "@trpc/server"
+import { emailService } from "~/lib/email"
+import {
+  CUSTOMER_NOTIFICATION_EVENTS,
+  DEFAULT_EMAIL_TEMPLATES,
+  SAMPLE_TEMPLATE_VARIABLES,
+  renderEmailTemplate,
+} from "~/lib/email-templates"
+
+const templateInput = z.object({
+  type: z.enum(CUSTOMER_NOTIFICATION_EVENTS),
+  subject: z.string().min(1).max(255),
+  body: z.string().min(1).max(50000),
+})
+
+// Bodies come from the editor but are stored as-is, so strip anything unsafe
+function sanitizeTemplateBody(body: string) {
+  return sanitizeHtml(body, {
+    allowedTags: sanitizeHtml.defaults.allowedTags.concat(["img"]),
+  })
+}
+
+export const emailTemplatesRouter = createTRPCRouter({
+  // Every notification type with the company's override, if any, and the default
+  getAll: companyProcedure.query(async ({ ctx }) => {
+    const overrides = await ctx.db.query.emailTemplates.findMany({
+      where: eq(emailTemplates.company_id, ctx.company.id),
+    })
+
+    return CUSTOMER_NOTIFICATION_EVENTS.map((type) => {
+      const override = overrides.find((template) => template.type === type)
+      return {
+        type,
+        default: DEFAULT_EMAIL_TEMPLATES[type],
+        override: override
+          ? {
+              subject: override.subject,
+              body: override.body,
+              updated_at: override.updated_at,
+            }
+          : null,
+      }
+    })
+  }),
+
+  upsert: adminCompanyProcedure
+    .input(templateInput)
+    .mutation(async ({ ctx, input }) => {
+      const values = {
+        subject: input.subject,
+        body: sanitizeTemplateBody(input.body),
+        updated_by_membership_id: ctx.membership.id,
+        updated_at: new Date(),
+      }
+
+      const [template] = await ctx.db
+        .insert(emailTemplates)
+        .values({ company_id: ctx.company.id, type: input.type, ...values })
+        .onConflictDoUpdate({
+          target: [emailTemplates.company_id, emailTemplates.type],
+          set: values,
+        })
+        .returning()
+
+      return template
+    }),
+
+  // Remove the override so the built-in template is used again
+  reset: adminCompanyProcedure
+    .input(z.object({ type: z.enum(CUSTOMER_NOTIFICATION_EVENTS) }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db
+        .delete(emailTemplates)
+        .where(
+          and(
+            eq(emailTemplates.company_id, ctx.company.id),
+            eq(emailTemplates.type, input.type)
+          )
+        )
+
+      return { success: true }
+    }),
+
+  // Sends the template as edited, filled with sample data, to the current user
+  sendTest: adminCompanyProcedure
+    .input(templateInput)
+    .mutation(async ({ ctx, input }) => {
+      const { subject, bodyHtml } = renderEmailTemplate(
+        { subject: input.subject, body: sanitizeTemplateBody(input.body) },
+        {
+          ...SAMPLE_TEMPLATE_VARIABLES,
+          company: { name: ctx.company.name },
+        }
+      )
+
+      try {
+        await emailService.sendTicketNotification({
+          to: ctx.user.email,
+          subject: `[Test] ${subject}`,
+          bodyHtml,
+          companyName: ctx.company.name,
+          logoUrl: ctx.company.logo_url,
+          primaryColor: ctx.company.primary_color,
+          ticketUrl: SAMPLE_TEMPLATE_VARIABLES.portal_url,
+          unsubscribeUrl: `${process.env.NEXT_PUBLIC_APP_URL}/settings/notifications`,
+        })
+      } catch {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to send test email",
+        })
+      }
+
+      return { sentTo: ctx.user.email }
+    }),
+})
@@ -6,7 +6,12 @@ import {
 } from "~/server/api/trpc"
 import { forms, formSubmissions, tickets } from "~/db/schema"
 import { eq, and, count } from "drizzle-orm"
+import { formSubmissionColumns, ticketColumns } from "~/lib/search"
 import { TRPCError } from "@trpc/server"
+import { getTicketSlaFields } from "~/lib/sla"
+import { notifyCustomer } from "~/lib/customer-notifications"
+import { notifyAssignment } from "~/lib/agent-notifications"
+import { formSubmissionLink, publishNotification } from "~/lib/notifications"
 
 const fieldTypeSchema = z.enum([
   "text",
@@ -148,10 +153,18 @@ async function createTicketFromRule(
       assigned_to_membership_id: rule.assign_to_membership_id,
       assigned_to_customer_portal_access_id:
         submission.submitted_by_customer_portal_access_id,
+      ...(await getTicketSlaFields({
+        companyId: submission.company_id,
+        clientId: form.client_id,
+        priority: rule.ticket_priority || "medium",
+      })),
       external_id: submission.id,
       external_type: "form_submission",
     })
-    .returning()
+    .returning(ticketColumns)
+
+  await notifyCustomer(ticket.id, "ticket_created")
+  await notifyAssignment(null, ticket)
 
   return ticket
 }
@@ -464,6 +477,7 @@ export const formsRouter = createTRPCRouter({
       // Get submissions with relations
       const submissions = await ctx.db.query.formSubmissions.findMany({
         where: eq(formSubmissions.form_id, input.form_id),
+        columns: { search_vector: false },
         with: {
           ticket: {
             columns: {
@@ -518,6 +532,7 @@ export const formsRouter = createTRPCRouter({
           eq(formSubmissions.id, input.id),
           eq(formSubmissions.company_id, ctx.company.id)
         ),
+        columns: { search_vector: false },
         with: {
           form: {
             columns: {
@@ -527,7 +542,7 @@ export const formsRouter = createTRPCRouter({
               fields: true,
             },
           },
-          ticket: true,
+          ticket: { columns: { search_vector: false } },
           submittedByCustomerPortalAccess: {
             columns: {
               id: true,
@@ -576,6 +591,7 @@ export const formsRouter = createTRPCRouter({
           eq(formSubmissions.id, input.submission_id),
           eq(formSubmissions.company_id, ctx.company.id)
         ),
+        columns: { search_vector: false },
         with: {
           form: true,
         },
@@ -614,10 +630,17 @@ export const formsRouter = createTRPCRouter({
           assigned_to_customer_portal_access_id:
             submission.submitted_by_customer_portal_access_id,
           created_by_membership_id: ctx.membership.id,
+          ...(await getTicketSlaFields({
+            companyId: submission.company_id,
+            clientId: submission.form.client_id,
+            priority: input.priority || "medium",
+          })),
           external_id: submission.id,
           external_type: "form_submission",
         })
-        .returning()
+        .returning(ticketColumns)
+
+      await notifyCustomer(ticket.id, "ticket_created")
 
       // Update submission with ticket reference
       await ctx.db
@@ -657,6 +680,7 @@ export const formsRouter = createTRPCRouter({
         orderBy: (formSubmissions, { desc }) => [
           desc(formSubmissions.submitted_at),
         ],
+        columns: { search_vector: false },
       })
 
       // Extract field names from form definition
@@ -920,7 +944,7 @@ export const formsRouter = createTRPCRouter({
           external_id: input.external_id,
           external_type: input.external_type,
         })
-        .returning()
+        .returning(formSubmissionColumns)
 
       // Evaluate ticket rules
       const rules = (form.ticket_rules as any[]) || []
@@ -961,6 +985,24 @@ export const formsRouter = createTRPCRouter({
         }
       }
 
+      // The form's owner hears about it unless they sent it themselves
+      if (
+        form.created_by_membership_id &&
+        form.created_by_membership_id !== membership_id
+      ) {
+        await publishNotification({
+          companyId: company.id,
+          membershipIds: [form.created_by_membership_id],
+          type: "form_submission",
+          title: `New submission: ${form.name}`,
+          body: createdTicket
+            ? `From ${submitter_name} (${submitter_email}). A ticket was created.`
+            : `From ${submitter_name} (${submitter_email}).`,
+          link: formSubmissionLink(form.id, submission.id),
+          ticketId: createdTicket?.id,
+        })
+      }
+
       return {
         success: true,
         submission_id: submission.id,
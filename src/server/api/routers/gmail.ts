@@ -5,16 +5,10 @@ import {
   companyProcedure,
   adminCompanyProcedure,
 } from "~/server/api/trpc"
-import {
-  gmailIntegration,
-  tickets,
-  ticketComments,
-  emailThreads,
-  clients,
-  memberships,
-} from "~/db/schema"
+import { gmailIntegration, gmailSyncRuns } from "~/db/schema"
 import { eq, and } from "drizzle-orm"
 import { TRPCError } from "@trpc/server"
+import { ingestGmail } from "~/lib/gmail-ingestion"
 
 // Gmail OAuth2 client
 const oauth2Client = new google.auth.OAuth2(
@@ -314,251 +308,18 @@ export const gmailRouter = createTRPCRouter({
     }
 
     try {
-      // Set up OAuth client
-      const oauth2ClientInstance = createOAuthClientWithRefresh()
-      oauth2ClientInstance.setCredentials({
-        access_token: integration.access_token,
-        refresh_token: integration.refresh_token,
-      })
-
-      const gmail = google.gmail({ version: "v1", auth: oauth2ClientInstance })
-
-      // Get recent messages (last 7 days)
-      const sevenDaysAgo = new Date()
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7)
-
-      const query = `is:unread after:${Math.floor(sevenDaysAgo.getTime() / 1000)}`
-
-      const messages = await gmail.users.messages.list({
-        userId: "me",
-        q: query,
-        maxResults: 10,
-      })
-
-      // Get company clients with email domains for filtering
-      const companyClients = await ctx.db.query.clients.findMany({
-        where: and(
-          eq(clients.company_id, ctx.company.id),
-          eq(clients.is_active, true)
-        ),
-      })
-
-      // Create a map of email domains to clients
-      const domainToClient = new Map<string, (typeof companyClients)[0]>()
-      companyClients.forEach((client) => {
-        const domains = Array.isArray(client.email_domains)
-          ? client.email_domains
-          : []
-        domains.forEach((domain: string) => {
-          if (domain && typeof domain === "string") {
-            domainToClient.set(domain.toLowerCase(), client)
-          }
-        })
+      const stats = await ingestGmail(integration, {
+        trigger: "manual",
+        createdByMembershipId: ctx.membership.id,
       })
 
-      let ticketsCreated = 0
-
-      // Process unique threads instead of individual messages
-      const processedThreads = new Set<string>()
-
-      if (messages.data.messages) {
-        for (const message of messages.data.messages) {
-          try {
-            const fullMessage = await gmail.users.messages.get({
-              userId: "me",
-              id: message.id!,
-              format: "full",
-            })
-
-            const threadId = fullMessage.data.threadId
-
-            // Skip if we've already processed this thread
-            if (processedThreads.has(threadId!)) {
-              continue
-            }
-            processedThreads.add(threadId!)
-
-            // Get the full Gmail thread with all messages
-            const fullThread = await gmail.users.threads.get({
-              userId: "me",
-              id: threadId!,
-              format: "full",
-            })
-
-            if (
-              !fullThread.data.messages ||
-              fullThread.data.messages.length === 0
-            ) {
-              continue
-            }
-
-            // Get the first message (original email) details
-            const firstMessage = fullThread.data.messages[0]
-            const headers = firstMessage.payload?.headers || []
-            const subject =
-              headers.find((h) => h.name === "Subject")?.value || "No Subject"
-            const from = headers.find((h) => h.name === "From")?.value || ""
-
-            // Extract sender domain
-            const emailMatch =
-              from.match(/<([^>]+)>/) || from.match(/([^\s]+@[^\s]+)/)
-            const senderEmail = emailMatch
-              ? emailMatch[1] || emailMatch[0]
-              : from
-            const senderDomain = senderEmail.includes("@")
-              ? senderEmail.split("@")[1]?.toLowerCase()
-              : ""
-
-            // Check if sender domain matches any client domain
-            const matchedClient = senderDomain
-              ? domainToClient.get(senderDomain)
-              : null
-
-            // Only process emails from configured client domains
-            if (!matchedClient) {
-              console.log(
-                `Skipping email from ${senderEmail} - domain ${senderDomain} not configured for any client`
-              )
-              continue
-            }
-
-            // Check if we've already processed this thread
-            const existingThread = await ctx.db.query.emailThreads.findFirst({
-              where: eq(emailThreads.gmail_thread_id, threadId!),
-            })
-
-            if (!existingThread) {
-              // Helper function to extract email body content
-              const extractTextFromParts = (parts: any[]): string => {
-                let text = ""
-                for (const part of parts) {
-                  if (part.mimeType === "text/plain" && part.body?.data) {
-                    text +=
-                      Buffer.from(part.body.data, "base64").toString("utf-8") +
-                      "\n"
-                  } else if (
-                    part.mimeType === "text/html" &&
-                    part.body?.data &&
-                    !text
-                  ) {
-                    // Fallback to HTML if no plain text
-                    text +=
-                      Buffer.from(part.body.data, "base64")
-                        .toString("utf-8")
-                        .replace(/<[^>]*>/g, "") + "\n"
-                  } else if (part.parts) {
-                    text += extractTextFromParts(part.parts)
-                  }
-                }
-                return text
-              }
-
-              const extractEmailBody = (message: any): string => {
-                let emailBody = ""
-                if (message.payload?.parts) {
-                  emailBody = extractTextFromParts(message.payload.parts)
-                } else if (message.payload?.body?.data) {
-                  emailBody = Buffer.from(
-                    message.payload.body.data,
-                    "base64"
-                  ).toString("utf-8")
-                }
-                return emailBody.trim()
-              }
-
-              // Get the first message body for the ticket description
-              const firstMessageBody = extractEmailBody(firstMessage)
-
-              // Create new ticket for this email thread
-              const [newTicket] = await ctx.db
-                .insert(tickets)
-                .values({
-                  company_id: ctx.company.id,
-                  client_id: matchedClient.id,
-                  subject,
-                  description: `Email from: ${from}\n\nSubject: ${subject}\n\n${firstMessageBody}`,
-                  status: "open",
-                  priority: "medium",
-                  customer_email: senderEmail,
-                  customer_name: from.split("<")[0]?.trim() || senderEmail,
-                  created_by_membership_id: ctx.membership.id,
-                })
-                .returning()
-
-              // Process remaining messages in the thread as comments
-              for (let i = 1; i < fullThread.data.messages.length; i++) {
-                const threadMessage = fullThread.data.messages[i]
-                const messageHeaders = threadMessage.payload?.headers || []
-                const messageFrom =
-                  messageHeaders.find((h) => h.name === "From")?.value || ""
-                const messageDate =
-                  messageHeaders.find((h) => h.name === "Date")?.value || ""
-                const messageBody = extractEmailBody(threadMessage)
-
-                if (messageBody) {
-                  // Create ticket comment for this reply
-                  await ctx.db.insert(ticketComments).values({
-                    company_id: ctx.company.id,
-                    ticket_id: newTicket.id,
-                    membership_id: null, // External email, not from a team member
-                    customer_portal_access_id: null,
-                    content: `Reply from: ${messageFrom}\nDate: ${messageDate}\n\n${messageBody}`,
-                    is_internal: false, // Customer-visible
-                    is_system: true, // System-generated from email
-                  })
-
-                  console.log(
-                    `Added email reply as comment to ticket ${newTicket.id}`
-                  )
-                }
-              }
-
-              // Get all participants in the thread
-              const participants = fullThread.data.messages
-                .map((msg) => {
-                  const headers = msg.payload?.headers || []
-                  return headers.find((h) => h.name === "From")?.value || ""
-                })
-                .filter(Boolean)
-              const uniqueParticipants = Array.from(new Set(participants))
-
-              // Create email thread record
-              await ctx.db.insert(emailThreads).values({
-                company_id: ctx.company.id,
-                ticket_id: newTicket.id,
-                gmail_thread_id: threadId!,
-                subject,
-                participants: uniqueParticipants,
-                last_message_id:
-                  fullThread.data.messages[fullThread.data.messages.length - 1]
-                    .id!,
-              })
-
-              ticketsCreated++
-              console.log(
-                `Created ticket ${newTicket.id} with ${fullThread.data.messages.length - 1} replies for thread from ${senderEmail} (client: ${matchedClient.name})`
-              )
-            }
-          } catch (messageError) {
-            console.error("Error processing message:", messageError)
-            continue
-          }
-        }
-      }
-
-      // Update last sync time
-      await ctx.db
-        .update(gmailIntegration)
-        .set({
-          last_sync_at: new Date(),
-          updated_at: new Date(),
-        })
-        .where(eq(gmailIntegration.id, integration.id))
-
       return {
         success: true,
-        messagesProcessed: messages.data.messages?.length || 0,
-        ticketsCreated,
+        messagesProcessed: stats.messagesSeen,
+        ticketsCreated: stats.ticketsCreated,
+        repliesAdded: stats.repliesAdded,
+        messagesQuarantined: stats.messagesQuarantined,
+        errors: stats.errors.length,
       }
     } catch (error) {
       console.error("Gmail sync error:", error)
@@ -583,183 +344,14 @@ export const gmailRouter = createTRPCRouter({
     }
 
     try {
-      // Set up OAuth client
-      const oauth2ClientInstance = createOAuthClientWithRefresh()
-      oauth2ClientInstance.setCredentials({
-        access_token: integration.access_token,
-        refresh_token: integration.refresh_token,
-      })
-
-      const gmail = google.gmail({ version: "v1", auth: oauth2ClientInstance })
-
-      // Get recent messages since last sync (or last 1 hour if no last sync)
-      const lastSyncDate =
-        integration.last_sync_at || new Date(Date.now() - 60 * 60 * 1000) // 1 hour ago
-      const query = `is:unread after:${Math.floor(lastSyncDate.getTime() / 1000)}`
-
-      const messages = await gmail.users.messages.list({
-        userId: "me",
-        q: query,
-        maxResults: 50, // Process more messages for auto sync
-      })
-
-      // Get company clients with email domains for filtering
-      const companyClients = await ctx.db.query.clients.findMany({
-        where: and(
-          eq(clients.company_id, ctx.company.id),
-          eq(clients.is_active, true)
-        ),
-      })
-
-      const domainToClient = new Map<string, (typeof companyClients)[0]>()
-      companyClients.forEach((client) => {
-        const domains = Array.isArray(client.email_domains)
-          ? client.email_domains
-          : []
-        domains.forEach((domain: string) => {
-          if (domain && typeof domain === "string") {
-            domainToClient.set(domain.toLowerCase(), client)
-          }
-        })
-      })
-
-      let ticketsCreated = 0
-      let messagesProcessed = 0
-
-      if (messages.data.messages) {
-        for (const message of messages.data.messages) {
-          try {
-            const fullMessage = await gmail.users.messages.get({
-              userId: "me",
-              id: message.id!,
-              format: "full",
-            })
-
-            messagesProcessed++
-
-            // Extract email details
-            const headers = fullMessage.data.payload?.headers || []
-            const subject =
-              headers.find((h) => h.name === "Subject")?.value || "No Subject"
-            const from = headers.find((h) => h.name === "From")?.value || ""
-            const threadId = fullMessage.data.threadId
-
-            // Extract sender domain
-            const emailMatch =
-              from.match(/<([^>]+)>/) || from.match(/([^\s]+@[^\s]+)/)
-            const senderEmail = emailMatch
-              ? emailMatch[1] || emailMatch[0]
-              : from
-            const senderDomain = senderEmail.includes("@")
-              ? senderEmail.split("@")[1]?.toLowerCase()
-              : ""
-
-            const matchedClient = senderDomain
-              ? domainToClient.get(senderDomain)
-              : null
-
-            if (!matchedClient) {
-              continue
-            }
-
-            // Check if we've already processed this thread
-            const existingThread = await ctx.db.query.emailThreads.findFirst({
-              where: eq(emailThreads.gmail_thread_id, threadId!),
-            })
-
-            if (!existingThread) {
-              // Extract email body content
-              let emailBody = ""
-              const extractTextFromParts = (parts: any[]): string => {
-                let text = ""
-                for (const part of parts) {
-                  if (part.mimeType === "text/plain" && part.body?.data) {
-                    text +=
-                      Buffer.from(part.body.data, "base64").toString("utf-8") +
-                      "\n"
-                  } else if (
-                    part.mimeType === "text/html" &&
-                    part.body?.data &&
-                    !text
-                  ) {
-                    text +=
-                      Buffer.from(part.body.data, "base64")
-                        .toString("utf-8")
-                        .replace(/<[^>]*>/g, "") + "\n"
-                  } else if (part.parts) {
-                    text += extractTextFromParts(part.parts)
-                  }
-                }
-                return text
-              }
-
-              if (fullMessage.data.payload?.parts) {
-                emailBody = extractTextFromParts(fullMessage.data.payload.parts)
-              } else if (fullMessage.data.payload?.body?.data) {
-                emailBody = Buffer.from(
-                  fullMessage.data.payload.body.data,
-                  "base64"
-                ).toString("utf-8")
-              }
-
-              // Get the admin membership for creating tickets
-              const adminMembership = await ctx.db.query.memberships.findFirst({
-                where: and(
-                  eq(memberships.company_id, ctx.company.id),
-                  eq(memberships.role, "admin"),
-                  eq(memberships.is_active, true)
-                ),
-              })
-
-              const [newTicket] = await ctx.db
-                .insert(tickets)
-                .values({
-                  company_id: ctx.company.id,
-                  client_id: matchedClient.id,
-                  subject,
-                  description: `Email from: ${from}\n\nSubject: ${subject}\n\n${emailBody.trim()}`,
-                  status: "open",
-                  priority: "medium",
-                  customer_email: senderEmail,
-                  customer_name: from.split("<")[0]?.trim() || senderEmail,
-                  created_by_membership_id: adminMembership?.id,
-                })
-                .returning()
-
-              await ctx.db.insert(emailThreads).values({
-                company_id: ctx.company.id,
-                ticket_id: newTicket.id,
-                gmail_thread_id: threadId!,
-                subject,
-                participants: [from],
-                last_message_id: message.id!,
-              })
-
-              ticketsCreated++
-            }
-          } catch (messageError) {
-            console.error(
-              "Error processing message in auto sync:",
-              messageError
-            )
-            continue
-          }
-        }
-      }
-
-      // Update last sync time
-      await ctx.db
-        .update(gmailIntegration)
-        .set({
-          last_sync_at: new Date(),
-          updated_at: new Date(),
-        })
-        .where(eq(gmailIntegration.id, integration.id))
+      const stats = await ingestGmail(integration, { trigger: "auto" })
 
       return {
         success: true,
-        messagesProcessed,
-        ticketsCreated,
+        messagesProcessed: stats.messagesSeen,
+        ticketsCreated: stats.ticketsCreated,
+        repliesAdded: stats.repliesAdded,
+        messagesQuarantined: stats.messagesQuarantined,
         lastSyncAt: new Date().toISOString(),
       }
     } catch (error) {
@@ -772,6 +364,23 @@ export const gmailRouter = createTRPCRouter({
     }
   }),
 
+  // Recent ingestion runs with their stats
+  getSyncRuns: companyProcedure
+    .input(
+      z
+        .object({
+          limit: z.number().min(1).max(100).default(20),
+        })
+        .default({})
+    )
+    .query(async ({ ctx, input }) => {
+      return await ctx.db.query.gmailSyncRuns.findMany({
+        where: eq(gmailSyncRuns.company_id, ctx.company.id),
+        orderBy: (gmailSyncRuns, { desc }) => [desc(gmailSyncRuns.started_at)],
+        limit: input.limit,
+      })
+    }),
+
   // Update Gmail integration configuration
   updateConfiguration: adminCompanyProcedure
     .input(
@@ -5,8 +5,11 @@ import {
   publicProcedure,
 } from "~/server/api/trpc"
 import { knowledgeBase } from "~/db/schema"
-import { and, count, eq, ilike, or } from "drizzle-orm"
+import { and, count, eq, or } from "drizzle-orm"
 import { TRPCError } from "@trpc/server"
+import { articleLink, publishNotification } from "~/lib/notifications"
+import { resolveTags } from "~/lib/tags"
+import { knowledgeBaseColumns, matchesTsQuery, toTsQuery } from "~/lib/search"
 
 export const knowledgeBaseRouter = createTRPCRouter({
   // Get all articles (internal - shows unpublished for admins/agents)
@@ -49,10 +52,7 @@ export const knowledgeBaseRouter = createTRPCRouter({
 
       if (input.search) {
         whereConditions.push(
-          or(
-            ilike(knowledgeBase.title, `%${input.search}%`),
-            ilike(knowledgeBase.content, `%${input.search}%`)
-          )!
+          matchesTsQuery(knowledgeBase.search_vector, toTsQuery(input.search))
         )
       }
 
@@ -68,6 +68,7 @@ export const knowledgeBaseRouter = createTRPCRouter({
         limit: input.limit,
         offset,
         orderBy: (knowledgeBase, { desc }) => [desc(knowledgeBase.updated_at)],
+        columns: { search_vector: false },
       })
 
       return {
@@ -114,10 +115,7 @@ export const knowledgeBaseRouter = createTRPCRouter({
 
       if (input.search) {
         whereConditions.push(
-          or(
-            ilike(knowledgeBase.title, `%${input.search}%`),
-            ilike(knowledgeBase.content, `%${input.search}%`)
-          )!
+          matchesTsQuery(knowledgeBase.search_vector, toTsQuery(input.search))
         )
       }
 
@@ -155,6 +153,7 @@ export const knowledgeBaseRouter = createTRPCRouter({
             eq(knowledgeBase.slug, input.slug),
             eq(knowledgeBase.company_id, ctx.company.id)
           ),
+        columns: { search_vector: false },
       })
 
       if (!article) {
@@ -193,6 +192,7 @@ export const knowledgeBaseRouter = createTRPCRouter({
             eq(knowledgeBase.id, input.id),
             eq(knowledgeBase.company_id, ctx.company.id)
           ),
+        columns: { search_vector: false },
       })
 
       if (!article) {
@@ -303,6 +303,7 @@ export const knowledgeBaseRouter = createTRPCRouter({
             eq(knowledgeBase.company_id, ctx.company.id),
             eq(knowledgeBase.slug, input.slug)
           ),
+        columns: { search_vector: false },
       })
 
       if (existingArticle) {
@@ -312,6 +313,14 @@ export const knowledgeBaseRouter = createTRPCRouter({
         })
       }
 
+      const articleTags = await resolveTags(ctx.company.id, input.tags)
+      if ("error" in articleTags) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: articleTags.error,
+        })
+      }
+
       const [article] = await ctx.db
         .insert(knowledgeBase)
         .values({
@@ -322,9 +331,9 @@ export const knowledgeBaseRouter = createTRPCRouter({
           author_membership_id: ctx.membership.id,
           is_published: input.isPublished,
           is_public: input.isPublic,
-          tags: input.tags,
+          tags: articleTags.tags,
         })
-        .returning()
+        .returning(knowledgeBaseColumns)
 
       return article
     }),
@@ -354,6 +363,7 @@ export const knowledgeBaseRouter = createTRPCRouter({
             eq(knowledgeBase.id, input.id),
             eq(knowledgeBase.company_id, ctx.company.id)
           ),
+        columns: { search_vector: false },
       })
 
       if (!existingArticle) {
@@ -384,6 +394,7 @@ export const knowledgeBaseRouter = createTRPCRouter({
               eq(knowledgeBase.slug, input.slug!),
               ne(knowledgeBase.id, input.id)
             ),
+          columns: { search_vector: false },
         })
 
         if (slugExists) {
@@ -405,7 +416,16 @@ export const knowledgeBaseRouter = createTRPCRouter({
       if (typeof input.isPublic === "boolean") {
         updateData.is_public = input.isPublic
       }
-      if (input.tags) updateData.tags = input.tags
+      if (input.tags) {
+        const articleTags = await resolveTags(ctx.company.id, input.tags)
+        if ("error" in articleTags) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: articleTags.error,
+          })
+        }
+        updateData.tags = articleTags.tags
+      }
 
       if (Object.keys(updateData).length > 0) {
         updateData.updated_at = new Date()
@@ -414,7 +434,22 @@ export const knowledgeBaseRouter = createTRPCRouter({
           .update(knowledgeBase)
           .set(updateData)
           .where(eq(knowledgeBase.id, input.id))
-          .returning()
+          .returning(knowledgeBaseColumns)
+
+        if (
+          updatedArticle &&
+          existingArticle.author_membership_id &&
+          existingArticle.author_membership_id !== ctx.membership.id
+        ) {
+          await publishNotification({
+            companyId: ctx.company.id,
+            membershipIds: [existingArticle.author_membership_id],
+            type: "article_updated",
+            title: `Your article was edited: ${updatedArticle.title}`,
+            body: `${ctx.user.first_name} ${ctx.user.last_name} made changes.`,
+            link: articleLink(updatedArticle.slug),
+          })
+        }
 
         return updatedArticle
       }
@@ -437,6 +472,7 @@ export const knowledgeBaseRouter = createTRPCRouter({
             eq(knowledgeBase.id, input.id),
             eq(knowledgeBase.company_id, ctx.company.id)
           ),
+        columns: { search_vector: false },
       })
 
       if (!article) {
@@ -0,0 +1,82 @@
+import { z } from "zod"
+import { createTRPCRouter, companyProcedure } from "~/server/api/trpc"
+import { notifications } from "~/db/schema"
+import { and, count, desc, eq, inArray, isNull, lt } from "drizzle-orm"
+
+export const notificationsRouter = createTRPCRouter({
+  // The current member's notifications, newest first
+  getAll: companyProcedure
+    .input(
+      z
+        .object({
+          limit: z.number().min(1).max(50).default(20),
+          // created_at of the last notification already loaded
+          before: z.date().optional(),
+          unreadOnly: z.boolean().default(false),
+        })
+        .default({})
+    )
+    .query(async ({ ctx, input }) => {
+      const items = await ctx.db.query.notifications.findMany({
+        where: and(
+          eq(notifications.membership_id, ctx.membership.id),
+          input.before ? lt(notifications.created_at, input.before) : undefined,
+          input.unreadOnly ? isNull(notifications.read_at) : undefined
+        ),
+        orderBy: [desc(notifications.created_at)],
+        limit: input.limit + 1,
+      })
+
+      const hasMore = items.length > input.limit
+      return {
+        notifications: items.slice(0, input.limit),
+        hasMore,
+      }
+    }),
+
+  getUnreadCount: companyProcedure.query(async ({ ctx }) => {
+    const [result] = await ctx.db
+      .select({ count: count() })
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.membership_id, ctx.membership.id),
+          isNull(notifications.read_at)
+        )
+      )
+
+    return result?.count ?? 0
+  }),
+
+  markRead: companyProcedure
+    .input(z.object({ ids: z.array(z.string().uuid()).min(1).max(100) }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db
+        .update(notifications)
+        .set({ read_at: new Date() })
+        .where(
+          and(
+            inArray(notifications.id, input.ids),
+            eq(notifications.membership_id, ctx.membership.id),
+            isNull(notifications.read_at)
+          )
+        )
+
+      return { success: true }
+    }),
+
+  markAllRead: companyProcedure.mutation(async ({ ctx }) => {
+    const updated = await ctx.db
+      .update(notifications)
+      .set({ read_at: new Date() })
+      .where(
+        and(
+          eq(notifications.membership_id, ctx.membership.id),
+          isNull(notifications.read_at)
+        )
+      )
+      .returning({ id: notifications.id })
+
+    return { updated: updated.length }
+  }),
+})
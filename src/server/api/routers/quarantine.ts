@@ -0,0 +1,301 @@
+import { z } from "zod"
+import { createTRPCRouter, companyProcedure } from "~/server/api/trpc"
+import { blockedSenders, clients, quarantinedEmails } from "~/db/schema"
+import { eq, and, ilike } from "drizzle-orm"
+import { TRPCError } from "@trpc/server"
+import { releaseQuarantinedEmail } from "~/lib/gmail-ingestion"
+
+// Domains shared by unrelated people; adding one would route everyone to a client
+const PUBLIC_EMAIL_DOMAINS = [
+  "gmail.com",
+  "googlemail.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "msn.com",
+  "yahoo.com",
+  "icloud.com",
+  "me.com",
+  "aol.com",
+  "proton.me",
+  "protonmail.com",
+  "gmx.com",
+]
+
+export const quarantineRouter = createTRPCRouter({
+  // List quarantined emails, newest first
+  getAll: companyProcedure
+    .input(
+      z
+        .object({
+          status: z
+            .enum(["pending", "ticket_created", "spam"])
+            .default("pending"),
+        })
+        .default({})
+    )
+    .query(async ({ ctx, input }) => {
+      return await ctx.db.query.quarantinedEmails.findMany({
+        where: and(
+          eq(quarantinedEmails.company_id, ctx.company.id),
+          eq(quarantinedEmails.status, input.status)
+        ),
+        with: {
+          ticket: { columns: { id: true, subject: true } },
+          reviewedBy: {
+            columns: { id: true },
+            with: {
+              user: { columns: { first_name: true, last_name: true } },
+            },
+          },
+        },
+        orderBy: (quarantinedEmails, { desc }) => [
+          desc(quarantinedEmails.received_at),
+        ],
+      })
+    }),
+
+  // Create a ticket for a quarantined email under the chosen client
+  createTicket: companyProcedure
+    .input(
+      z.object({
+        id: z.string().uuid(),
+        clientId: z.string().uuid(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const entry = await ctx.db.query.quarantinedEmails.findFirst({
+        where: and(
+          eq(quarantinedEmails.id, input.id),
+          eq(quarantinedEmails.company_id, ctx.company.id),
+          eq(quarantinedEmails.status, "pending")
+        ),
+      })
+
+      if (!entry) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Quarantined email not found",
+        })
+      }
+
+      const client = await ctx.db.query.clients.findFirst({
+        where: and(
+          eq(clients.id, input.clientId),
+          eq(clients.company_id, ctx.company.id)
+        ),
+      })
+
+      if (!client) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Client not found",
+        })
+      }
+
+      const integration = await ctx.db.query.gmailIntegration.findFirst({
+        where: (gmailIntegration, { and, eq }) =>
+          and(
+            eq(gmailIntegration.company_id, ctx.company.id),
+            eq(gmailIntegration.is_active, true)
+          ),
+      })
+
+      if (!integration) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Gmail integration is not connected",
+        })
+      }
+
+      const ticketId = await releaseQuarantinedEmail(
+        integration,
+        entry,
+        client.id,
+        ctx.membership.id
+      )
+
+      return { ticketId }
+    }),
+
+  /**
+   * Adds the sender's domain to a client so future mail from it is matched,
+   * then creates tickets for every pending email already held from that
+   * domain.
+   */
+  addDomainToClient: companyProcedure
+    .input(
+      z.object({
+        id: z.string().uuid(),
+        clientId: z.string().uuid(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const entry = await ctx.db.query.quarantinedEmails.findFirst({
+        where: and(
+          eq(quarantinedEmails.id, input.id),
+          eq(quarantinedEmails.company_id, ctx.company.id),
+          eq(quarantinedEmails.status, "pending")
+        ),
+      })
+
+      if (!entry) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Quarantined email not found",
+        })
+      }
+
+      const domain = entry.sender_email.split("@")[1]
+      if (!domain) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Sender address has no domain",
+        })
+      }
+
+      if (PUBLIC_EMAIL_DOMAINS.includes(domain)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `${domain} is a public email provider and can't be added to a client`,
+        })
+      }
+
+      const client = await ctx.db.query.clients.findFirst({
+        where: and(
+          eq(clients.id, input.clientId),
+          eq(clients.company_id, ctx.company.id)
+        ),
+      })
+
+      if (!client) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Client not found",
+        })
+      }
+
+      const integration = await ctx.db.query.gmailIntegration.findFirst({
+        where: (gmailIntegration, { and, eq }) =>
+          and(
+            eq(gmailIntegration.company_id, ctx.company.id),
+            eq(gmailIntegration.is_active, true)
+          ),
+      })
+
+      if (!integration) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Gmail integration is not connected",
+        })
+      }
+
+      const existingDomains = client.email_domains.map((d) => d.toLowerCase())
+      if (!existingDomains.includes(domain)) {
+        await ctx.db
+          .update(clients)
+          .set({
+            email_domains: [...client.email_domains, domain],
+            updated_at: new Date(),
+          })
+          .where(eq(clients.id, client.id))
+      }
+
+      const pendingFromDomain = await ctx.db.query.quarantinedEmails.findMany({
+        where: and(
+          eq(quarantinedEmails.company_id, ctx.company.id),
+          eq(quarantinedEmails.status, "pending"),
+          ilike(quarantinedEmails.sender_email, `%@${domain}`)
+        ),
+      })
+
+      const ticketIds: string[] = []
+      for (const pending of pendingFromDomain) {
+        const ticketId = await releaseQuarantinedEmail(
+          integration,
+          pending,
+          client.id,
+          ctx.membership.id
+        )
+        if (ticketId) ticketIds.push(ticketId)
+      }
+
+      return { domain, ticketIds }
+    }),
+
+  // Block the sender and mark everything pending from them as spam
+  markSpam: companyProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const entry = await ctx.db.query.quarantinedEmails.findFirst({
+        where: and(
+          eq(quarantinedEmails.id, input.id),
+          eq(quarantinedEmails.company_id, ctx.company.id)
+        ),
+      })
+
+      if (!entry) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Quarantined email not found",
+        })
+      }
+
+      await ctx.db
+        .insert(blockedSenders)
+        .values({
+          company_id: ctx.company.id,
+          email: entry.sender_email,
+          created_by_membership_id: ctx.membership.id,
+        })
+        .onConflictDoNothing()
+
+      await ctx.db
+        .update(quarantinedEmails)
+        .set({
+          status: "spam",
+          reviewed_by_membership_id: ctx.membership.id,
+          reviewed_at: new Date(),
+        })
+        .where(
+          and(
+            eq(quarantinedEmails.company_id, ctx.company.id),
+            eq(quarantinedEmails.sender_email, entry.sender_email),
+            eq(quarantinedEmails.status, "pending")
+          )
+        )
+
+      return { success: true }
+    }),
+
+  getBlockedSenders: companyProcedure.query(async ({ ctx }) => {
+    return await ctx.db.query.blockedSenders.findMany({
+      where: eq(blockedSenders.company_id, ctx.company.id),
+      orderBy: (blockedSenders, { desc }) => [desc(blockedSenders.created_at)],
+    })
+  }),
+
+  // Unblocking only affects future mail; spam entries stay as they are
+  unblockSender: companyProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const [deleted] = await ctx.db
+        .delete(blockedSenders)
+        .where(
+          and(
+            eq(blockedSenders.id, input.id),
+            eq(blockedSenders.company_id, ctx.company.id)
+          )
+        )
+        .returning()
+
+      if (!deleted) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Blocked sender not found",
+        })
+      }
+
+      return { success: true }
+    }),
+})
@@ -0,0 +1,75 @@
+import { z } from "zod"
+import { TRPCError } from "@trpc/server"
+import { observable } from "@trpc/server/observable"
+import { createTRPCRouter, companyProcedure } from "~/server/api/trpc"
+import type { db } from "~/db"
+import { subscribeToRealtimeEvents, type RealtimeEvent } from "~/lib/realtime"
+import {
+  clearTicketPresence,
+  getTicketViewers,
+  touchTicketPresence,
+} from "~/lib/presence"
+
+// Presence is only tracked on tickets of the caller's company
+async function getPresenceTicket(
+  ctx: { db: typeof db; company: { id: string } },
+  ticketId: string
+) {
+  const ticket = await ctx.db.query.tickets.findFirst({
+    where: (tickets, { and, eq }) =>
+      and(eq(tickets.id, ticketId), eq(tickets.company_id, ctx.company.id)),
+    columns: { id: true, company_id: true, client_id: true },
+  })
+
+  if (!ticket) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Ticket not found",
+    })
+  }
+
+  return ticket
+}
+
+export const realtimeRouter = createTRPCRouter({
+  // Ticket and comment changes in the current company, optionally for one ticket
+  onTicketChange: companyProcedure
+    .input(z.object({ ticketId: z.string().uuid().optional() }).default({}))
+    .subscription(({ ctx, input }) =>
+      observable<RealtimeEvent>((emit) =>
+        subscribeToRealtimeEvents((event) => {
+          if (event.companyId !== ctx.company.id) return
+          if (input.ticketId && event.ticketId !== input.ticketId) return
+          emit.next(event)
+        })
+      )
+    ),
+
+  // Heartbeat from an open ticket dialog
+  touchPresence: companyProcedure
+    .input(z.object({ ticketId: z.string().uuid(), isTyping: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const ticket = await getPresenceTicket(ctx, input.ticketId)
+      await touchTicketPresence(ticket, ctx.membership.id, {
+        source: "app",
+        isTyping: input.isTyping,
+      })
+      return { success: true }
+    }),
+
+  leaveTicket: companyProcedure
+    .input(z.object({ ticketId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const ticket = await getPresenceTicket(ctx, input.ticketId)
+      await clearTicketPresence(ticket, ctx.membership.id)
+      return { success: true }
+    }),
+
+  // Other team members viewing the ticket, in the app or the customer portal
+  getViewers: companyProcedure
+    .input(z.object({ ticketId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const ticket = await getPresenceTicket(ctx, input.ticketId)
+      return getTicketViewers(ticket, ctx.membership.id)
+    }),
+})
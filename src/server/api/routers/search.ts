@@ -0,0 +1,361 @@
+import { z } from "zod"
+import { createTRPCRouter, companyProcedure } from "~/server/api/trpc"
+import {
+  clients,
+  formSubmissions,
+  forms,
+  knowledgeBase,
+  memberships,
+  ticketComments,
+  tickets,
+  users,
+} from "~/db/schema"
+import {
+  and,
+  desc,
+  eq,
+  ilike,
+  inArray,
+  isNull,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm"
+import { TRPCError } from "@trpc/server"
+import type { db } from "~/db"
+import { TICKET_PRIORITIES, TICKET_STATUSES } from "~/lib/ticket-filter-types"
+import { getTagConditions } from "~/lib/tags"
+import {
+  articleLink,
+  formSubmissionLink,
+  ticketLink,
+} from "~/lib/notifications"
+import {
+  hasSearchCriteria,
+  headline,
+  matchesTsQuery,
+  parseSearchQuery,
+  plainSnippet,
+  SEARCH_TYPES,
+  toSnippet,
+  toTsQuery,
+  tsRank,
+  type SearchQuery,
+  type SnippetPart,
+} from "~/lib/search"
+
+type SearchContext = {
+  db: typeof db
+  company: { id: string }
+  membership: { id: string }
+  user: { memberships: { role: string }[] }
+}
+
+export interface SearchResult {
+  type: (typeof SEARCH_TYPES)[number]
+  id: string
+  title: string
+  href: string
+  snippet: SnippetPart[]
+  rank: number
+  updatedAt: Date
+  // Ticket results
+  status?: (typeof TICKET_STATUSES)[number]
+  priority?: (typeof TICKET_PRIORITIES)[number]
+  matchedComment?: boolean
+  // Ticket and submission results
+  clientName?: string | null
+  // Article results
+  isPublished?: boolean
+}
+
+function clientNameCondition(names: string[]) {
+  return or(...names.map((name) => ilike(clients.name, `%${name}%`)))!
+}
+
+async function searchTickets(
+  ctx: SearchContext,
+  query: SearchQuery,
+  limit: number
+): Promise<SearchResult[]> {
+  const conditions: SQL[] = [eq(tickets.company_id, ctx.company.id)]
+
+  if (query.statuses.length) {
+    conditions.push(inArray(tickets.status, query.statuses))
+  }
+  if (query.priorities.length) {
+    conditions.push(inArray(tickets.priority, query.priorities))
+  }
+  if (query.clients.length) {
+    conditions.push(clientNameCondition(query.clients))
+  }
+  if (query.tags.length) {
+    conditions.push(...getTagConditions(tickets.tags, query.tags, "all"))
+  }
+  if (query.assignees.length) {
+    conditions.push(
+      or(
+        ...query.assignees.map((assignee) => {
+          if (assignee === "me") {
+            return eq(tickets.assigned_to_membership_id, ctx.membership.id)
+          }
+          if (assignee === "none") {
+            return and(
+              isNull(tickets.assigned_to_membership_id),
+              isNull(tickets.assigned_to_customer_portal_access_id)
+            )!
+          }
+          return sql`exists (select 1 from ${memberships} inner join ${users} on ${users.id} = ${memberships.user_id} where ${memberships.id} = ${tickets.assigned_to_membership_id} and (${users.first_name} || ' ' || ${users.last_name}) ilike ${`%${assignee}%`})`
+        })
+      )!
+    )
+  }
+
+  if (!query.text) {
+    const rows = await ctx.db
+      .select({
+        id: tickets.id,
+        subject: tickets.subject,
+        description: tickets.description,
+        status: tickets.status,
+        priority: tickets.priority,
+        updatedAt: tickets.updated_at,
+        clientName: clients.name,
+      })
+      .from(tickets)
+      .leftJoin(clients, eq(clients.id, tickets.client_id))
+      .where(and(...conditions))
+      .orderBy(desc(tickets.updated_at))
+      .limit(limit)
+
+    return rows.map((row) => ({
+      type: "ticket",
+      id: row.id,
+      title: row.subject,
+      href: ticketLink(row.id),
+      snippet: plainSnippet(row.description),
+      rank: 0,
+      updatedAt: row.updatedAt,
+      status: row.status,
+      priority: row.priority,
+      clientName: row.clientName,
+    }))
+  }
+
+  const tsQuery = toTsQuery(query.text)
+
+  // The ticket's best matching comment, if any
+  const bestComment = ctx.db
+    .select({
+      content: ticketComments.content,
+      rank: tsRank(ticketComments.search_vector, tsQuery).as("comment_rank"),
+    })
+    .from(ticketComments)
+    .where(
+      and(
+        eq(ticketComments.ticket_id, tickets.id),
+        matchesTsQuery(ticketComments.search_vector, tsQuery)
+      )
+    )
+    .orderBy(desc(sql`comment_rank`))
+    .limit(1)
+    .as("best_comment")
+
+  const ticketMatches = matchesTsQuery(tickets.search_vector, tsQuery)
+  const rank = sql<number>`greatest(case when ${ticketMatches} then ${tsRank(tickets.search_vector, tsQuery)} else 0 end, coalesce(${bestComment.rank}, 0))`
+
+  const rows = await ctx.db
+    .select({
+      id: tickets.id,
+      subject: tickets.subject,
+      status: tickets.status,
+      priority: tickets.priority,
+      updatedAt: tickets.updated_at,
+      clientName: clients.name,
+      matchedComment: sql<boolean>`not (${ticketMatches})`,
+      snippet: sql<string>`case when ${ticketMatches} then ${headline(tickets.description, tsQuery)} else ${headline(bestComment.content, tsQuery)} end`,
+      rank,
+    })
+    .from(tickets)
+    .leftJoin(clients, eq(clients.id, tickets.client_id))
+    .leftJoinLateral(bestComment, sql`true`)
+    .where(
+      and(
+        ...conditions,
+        or(ticketMatches, sql`${bestComment.content} is not null`)
+      )
+    )
+    .orderBy(desc(rank), desc(tickets.updated_at))
+    .limit(limit)
+
+  return rows.map((row) => ({
+    type: "ticket",
+    id: row.id,
+    title: row.subject,
+    href: ticketLink(row.id),
+    snippet: toSnippet(row.snippet),
+    rank: Number(row.rank),
+    updatedAt: row.updatedAt,
+    status: row.status,
+    priority: row.priority,
+    clientName: row.clientName,
+    matchedComment: row.matchedComment,
+  }))
+}
+
+async function searchArticles(
+  ctx: SearchContext,
+  query: SearchQuery,
+  limit: number
+): Promise<SearchResult[]> {
+  const conditions: SQL[] = [eq(knowledgeBase.company_id, ctx.company.id)]
+
+  // Same visibility as the knowledge base list
+  if (!ctx.user.memberships.some((membership) => membership.role === "admin")) {
+    conditions.push(
+      or(
+        eq(knowledgeBase.is_published, true),
+        eq(knowledgeBase.author_membership_id, ctx.membership.id)
+      )!
+    )
+  }
+  if (query.tags.length) {
+    conditions.push(...getTagConditions(knowledgeBase.tags, query.tags, "all"))
+  }
+
+  const tsQuery = query.text ? toTsQuery(query.text) : null
+  if (tsQuery) {
+    conditions.push(matchesTsQuery(knowledgeBase.search_vector, tsQuery))
+  }
+  const rank = tsQuery
+    ? tsRank(knowledgeBase.search_vector, tsQuery)
+    : sql<number>`0`
+
+  const rows = await ctx.db
+    .select({
+      id: knowledgeBase.id,
+      title: knowledgeBase.title,
+      slug: knowledgeBase.slug,
+      isPublished: knowledgeBase.is_published,
+      updatedAt: knowledgeBase.updated_at,
+      content: tsQuery ? sql<string>`null` : knowledgeBase.content,
+      snippet: tsQuery
+        ? headline(knowledgeBase.content, tsQuery)
+        : sql<string>`null`,
+      rank,
+    })
+    .from(knowledgeBase)
+    .where(and(...conditions))
+    .orderBy(desc(rank), desc(knowledgeBase.updated_at))
+    .limit(limit)
+
+  return rows.map((row) => ({
+    type: "article",
+    id: row.id,
+    title: row.title,
+    href: articleLink(row.slug),
+    snippet: row.snippet ? toSnippet(row.snippet) : plainSnippet(row.content),
+    rank: Number(row.rank),
+    updatedAt: row.updatedAt,
+    isPublished: row.isPublished,
+  }))
+}
+
+async function searchSubmissions(
+  ctx: SearchContext,
+  query: SearchQuery,
+  limit: number
+): Promise<SearchResult[]> {
+  const conditions: SQL[] = [eq(formSubmissions.company_id, ctx.company.id)]
+
+  if (query.clients.length) {
+    conditions.push(clientNameCondition(query.clients))
+  }
+
+  const tsQuery = query.text ? toTsQuery(query.text) : null
+  if (tsQuery) {
+    conditions.push(matchesTsQuery(formSubmissions.search_vector, tsQuery))
+  }
+  const rank = tsQuery
+    ? tsRank(formSubmissions.search_vector, tsQuery)
+    : sql<number>`0`
+
+  // The answers' text, as the search vector sees them
+  const body = sql<string>`concat_ws(' ', ${formSubmissions.description}, (select string_agg(value, ' ') from jsonb_each_text(case when jsonb_typeof(${formSubmissions.data}) = 'object' then ${formSubmissions.data} else '{}'::jsonb end)))`
+
+  const rows = await ctx.db
+    .select({
+      id: formSubmissions.id,
+      formId: forms.id,
+      formName: forms.name,
+      submittedBy: formSubmissions.submitted_by_name,
+      updatedAt: formSubmissions.updated_at,
+      clientName: clients.name,
+      snippet: tsQuery ? headline(body, tsQuery) : body,
+      rank,
+    })
+    .from(formSubmissions)
+    .innerJoin(forms, eq(forms.id, formSubmissions.form_id))
+    .leftJoin(clients, eq(clients.id, forms.client_id))
+    .where(and(...conditions))
+    .orderBy(desc(rank), desc(formSubmissions.submitted_at))
+    .limit(limit)
+
+  return rows.map((row) => ({
+    type: "submission",
+    id: row.id,
+    title: `${row.formName}: ${row.submittedBy}`,
+    href: formSubmissionLink(row.formId, row.id),
+    snippet: tsQuery ? toSnippet(row.snippet) : plainSnippet(row.snippet),
+    rank: Number(row.rank),
+    updatedAt: row.updatedAt,
+    clientName: row.clientName,
+  }))
+}
+
+export const searchRouter = createTRPCRouter({
+  // Tickets (with their comments), knowledge base articles and form
+  // submissions matching the search box query, best matches first
+  query: companyProcedure
+    .input(
+      z.object({
+        query: z.string().max(500),
+        type: z.enum(SEARCH_TYPES).optional(),
+        limit: z.number().min(1).max(50).default(20),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const parsed = parseSearchQuery(input.query)
+      if ("error" in parsed) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: parsed.error,
+        })
+      }
+
+      const { query } = parsed
+      if (!hasSearchCriteria(query)) return { results: [] }
+
+      const types = query.types.filter(
+        (type) => !input.type || type === input.type
+      )
+      const searches = {
+        ticket: searchTickets,
+        article: searchArticles,
+        submission: searchSubmissions,
+      }
+      const found = await Promise.all(
+        types.map((type) => searches[type](ctx, query, input.limit))
+      )
+
+      const results = found
+        .reduce((all, results) => all.concat(results), [])
+        .sort(
+          (a, b) =>
+            b.rank - a.rank || b.updatedAt.getTime() - a.updatedAt.getTime()
+        )
+        .slice(0, input.limit)
+
+      return { results }
+    }),
+})
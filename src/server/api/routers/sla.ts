@@ -7,6 +7,31 @@ import {
 import { slaPolicies } from "~/db/schema"
 import { eq, and } from "drizzle-orm"
 import { TRPCError } from "@trpc/server"
+import type { db } from "~/db"
+import { resetSlaDueDatesForPolicy } from "~/lib/sla"
+
+// Ensure a business hours schedule belongs to the caller's company
+async function verifyBusinessHours(
+  ctx: { db: typeof db; company: { id: string } },
+  businessHoursId: string
+) {
+  const schedule = await ctx.db.query.businessHours.findFirst({
+    where: (businessHours, { and, eq }) =>
+      and(
+        eq(businessHours.id, businessHoursId),
+        eq(businessHours.company_id, ctx.company.id)
+      ),
+  })
+
+  if (!schedule) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Business hours not found",
+    })
+  }
+
+  return schedule
+}
 
 export const slaRouter = createTRPCRouter({
   // Get SLA policies for a specific client
@@ -39,6 +64,11 @@ export const slaRouter = createTRPCRouter({
             eq(slaPolicies.company_id, ctx.company.id),
             eq(slaPolicies.client_id, input.clientId)
           ),
+        with: {
+          businessHours: {
+            columns: { id: true, name: true, timezone: true },
+          },
+        },
         orderBy: (slaPolicies, { asc, desc }) => [
           desc(slaPolicies.is_default),
           asc(slaPolicies.priority),
@@ -62,6 +92,7 @@ export const slaRouter = createTRPCRouter({
           ),
         with: {
           client: true,
+          businessHours: true,
         },
       })
 
@@ -85,6 +116,7 @@ export const slaRouter = createTRPCRouter({
         responseTimeMinutes: z.number().min(1),
         resolutionTimeMinutes: z.number().min(1),
         isDefault: z.boolean().default(false),
+        businessHoursId: z.string().uuid().nullable().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -104,6 +136,10 @@ export const slaRouter = createTRPCRouter({
         })
       }
 
+      if (input.businessHoursId) {
+        await verifyBusinessHours(ctx, input.businessHoursId)
+      }
+
       // If this is set as default for the client, remove default from others for this client
       if (input.isDefault) {
         await ctx.db
@@ -127,6 +163,7 @@ export const slaRouter = createTRPCRouter({
           response_time_minutes: input.responseTimeMinutes,
           resolution_time_minutes: input.resolutionTimeMinutes,
           is_default: input.isDefault,
+          business_hours_id: input.businessHoursId ?? null,
         })
         .returning()
 
@@ -143,6 +180,7 @@ export const slaRouter = createTRPCRouter({
         responseTimeMinutes: z.number().min(1).optional(),
         resolutionTimeMinutes: z.number().min(1).optional(),
         isDefault: z.boolean().optional(),
+        businessHoursId: z.string().uuid().nullable().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -170,6 +208,12 @@ export const slaRouter = createTRPCRouter({
         updateData.response_time_minutes = input.responseTimeMinutes
       if (input.resolutionTimeMinutes)
         updateData.resolution_time_minutes = input.resolutionTimeMinutes
+      if (input.businessHoursId !== undefined) {
+        if (input.businessHoursId) {
+          await verifyBusinessHours(ctx, input.businessHoursId)
+        }
+        updateData.business_hours_id = input.businessHoursId
+      }
 
       if (typeof input.isDefault === "boolean") {
         updateData.is_default = input.isDefault
@@ -197,6 +241,17 @@ export const slaRouter = createTRPCRouter({
           .where(eq(slaPolicies.id, input.id))
           .returning()
 
+        // Running tickets get new deadlines on the next SLA evaluation
+        if (
+          updatedSLA.response_time_minutes !==
+            existingSLA.response_time_minutes ||
+          updatedSLA.resolution_time_minutes !==
+            existingSLA.resolution_time_minutes ||
+          updatedSLA.business_hours_id !== existingSLA.business_hours_id
+        ) {
+          await resetSlaDueDatesForPolicy(input.id)
+        }
+
         return updatedSLA
       }
 
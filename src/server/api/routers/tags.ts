@@ -0,0 +1,204 @@
+import { z } from "zod"
+import {
+  createTRPCRouter,
+  adminCompanyProcedure,
+  companyProcedure,
+} from "~/server/api/trpc"
+import { companies, tags } from "~/db/schema"
+import { and, eq, inArray, ne, sql } from "drizzle-orm"
+import { TRPCError } from "@trpc/server"
+import type { db } from "~/db"
+import {
+  getTagCatalog,
+  getTagUsage,
+  MAX_TAG_LENGTH,
+  replaceTags,
+} from "~/lib/tags"
+
+const tagSettingsInput = z.object({
+  name: z.string().trim().min(1).max(MAX_TAG_LENGTH),
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, "Use a hex color like #3b82f6")
+    .default("#6b7280"),
+  description: z.string().max(1000).nullable().optional(),
+})
+
+async function getTag(
+  ctx: { db: typeof db; company: { id: string } },
+  tagId: string
+) {
+  const tag = await ctx.db.query.tags.findFirst({
+    where: and(eq(tags.id, tagId), eq(tags.company_id, ctx.company.id)),
+  })
+
+  if (!tag) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Tag not found",
+    })
+  }
+
+  return tag
+}
+
+// Names are unique regardless of case
+async function assertNameAvailable(
+  ctx: { db: typeof db; company: { id: string } },
+  name: string,
+  exceptTagId?: string
+) {
+  const existing = await ctx.db.query.tags.findFirst({
+    where: and(
+      eq(tags.company_id, ctx.company.id),
+      sql`lower(${tags.name}) = ${name.toLowerCase()}`,
+      exceptTagId ? ne(tags.id, exceptTagId) : undefined
+    ),
+    columns: { name: true },
+  })
+
+  if (existing) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `The tag "${existing.name}" already exists. Merge the tags instead.`,
+    })
+  }
+}
+
+export const tagsRouter = createTRPCRouter({
+  // The catalog with how often each tag is used, and whether it's locked
+  getAll: companyProcedure.query(async ({ ctx }) => {
+    const [catalog, usage, company] = await Promise.all([
+      getTagCatalog(ctx.company.id),
+      getTagUsage(ctx.company.id),
+      ctx.db.query.companies.findFirst({
+        where: eq(companies.id, ctx.company.id),
+        columns: { tags_locked: true },
+      }),
+    ])
+
+    return {
+      locked: company?.tags_locked ?? false,
+      tags: catalog.map((tag) => {
+        const counts = usage.get(tag.name.toLowerCase())
+        return {
+          ...tag,
+          ticketCount: counts?.tickets ?? 0,
+          articleCount: counts?.articles ?? 0,
+        }
+      }),
+    }
+  }),
+
+  create: adminCompanyProcedure
+    .input(tagSettingsInput)
+    .mutation(async ({ ctx, input }) => {
+      await assertNameAvailable(ctx, input.name)
+
+      const [tag] = await ctx.db
+        .insert(tags)
+        .values({
+          company_id: ctx.company.id,
+          name: input.name,
+          color: input.color,
+          description: input.description || null,
+        })
+        .returning()
+
+      return tag
+    }),
+
+  // A new name is applied to every ticket and article using the tag
+  update: adminCompanyProcedure
+    .input(tagSettingsInput.extend({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const tag = await getTag(ctx, input.id)
+
+      if (input.name !== tag.name) {
+        await assertNameAvailable(ctx, input.name, tag.id)
+      }
+
+      const [updated] = await ctx.db
+        .update(tags)
+        .set({
+          name: input.name,
+          color: input.color,
+          description: input.description || null,
+          updated_at: new Date(),
+        })
+        .where(eq(tags.id, tag.id))
+        .returning()
+
+      if (input.name !== tag.name) {
+        await replaceTags(ctx.company.id, [tag.name], input.name)
+      }
+
+      return updated
+    }),
+
+  // Folds the source tags into the target everywhere and removes them
+  merge: adminCompanyProcedure
+    .input(
+      z.object({
+        sourceIds: z.array(z.string().uuid()).min(1),
+        targetId: z.string().uuid(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const target = await getTag(ctx, input.targetId)
+      const sourceIds = input.sourceIds.filter((id) => id !== target.id)
+      if (sourceIds.length === 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Choose at least one other tag to merge",
+        })
+      }
+
+      const sources = await ctx.db.query.tags.findMany({
+        where: and(
+          inArray(tags.id, sourceIds),
+          eq(tags.company_id, ctx.company.id)
+        ),
+      })
+
+      if (sources.length !== sourceIds.length) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Tag not found",
+        })
+      }
+
+      await replaceTags(
+        ctx.company.id,
+        sources.map((tag) => tag.name),
+        target.name
+      )
+      await ctx.db.delete(tags).where(inArray(tags.id, sourceIds))
+
+      return target
+    }),
+
+  // Also removes the tag from every ticket and article
+  delete: adminCompanyProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const tag = await getTag(ctx, input.id)
+
+      await replaceTags(ctx.company.id, [tag.name], null)
+      await ctx.db.delete(tags).where(eq(tags.id, tag.id))
+
+      return { success: true }
+    }),
+
+  // While locked, tickets and articles can only use tags from the catalog
+  setLocked: adminCompanyProcedure
+    .input(z.object({ locked: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db
+        .update(companies)
+        .set({ tags_locked: input.locked, updated_at: new Date() })
+        .where(eq(companies.id, ctx.company.id))
+
+      return { locked: input.locked }
+    }),
+})
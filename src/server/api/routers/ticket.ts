@@ -1,72 +1,71 @@
 import { z } from "zod"
 import { createTRPCRouter, companyProcedure } from "~/server/api/trpc"
-import { tickets, ticketComments } from "~/db/schema"
-import { eq, and, or, ilike, count, gte, lte } from "drizzle-orm"
+import { ticketFollowers, tickets, ticketComments } from "~/db/schema"
+import { eq, and, count, gte, lte, sql } from "drizzle-orm"
+import { ticketColumns, ticketCommentColumns } from "~/lib/search"
 import { TRPCError } from "@trpc/server"
+import { getSlaPolicyChange, getTicketSlaFields, slaNextDueAt } from "~/lib/sla"
+import { getTicketEvents, recordTicketChanges } from "~/lib/ticket-events"
+import {
+  clearPendingAttachments,
+  getPendingAttachments,
+  toAttachmentViews,
+} from "~/lib/attachments"
+import { sendTicketReplyEmail } from "~/lib/gmail"
+import {
+  notifyCustomer,
+  notifyCustomerOfStatusChange,
+} from "~/lib/customer-notifications"
+import {
+  notifyAssignment,
+  notifyMentions,
+  notifyTicketUpdate,
+} from "~/lib/agent-notifications"
+import { findMentionedIds } from "~/lib/mentions"
+import { addTicketFollowers, getTicketFollowers } from "~/lib/ticket-followers"
+import { resolveCustomFieldValues } from "~/lib/custom-fields"
+import { resolveTags } from "~/lib/tags"
+import { getTicketFilterConditions } from "~/lib/ticket-filters"
+import { bulkUpdateTickets, MAX_BULK_TICKETS } from "~/lib/ticket-bulk-updates"
+import {
+  TICKET_PRIORITIES,
+  TICKET_SORT_FIELDS,
+  TICKET_STATUSES,
+  ticketFiltersSchema,
+} from "~/lib/ticket-filter-types"
 
 export const ticketRouter = createTRPCRouter({
   // Get paginated tickets with filters
   getAll: companyProcedure
     .input(
-      z.object({
+      ticketFiltersSchema.extend({
         page: z.number().min(1).default(1),
         limit: z.number().min(1).max(100).default(25),
-        status: z
-          .enum(["open", "in_progress", "resolved", "closed"])
-          .optional(),
-        priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
-        assignedToId: z.string().uuid().optional(),
-        clientId: z.string().uuid().optional(),
-        myTickets: z.boolean().default(false), // Filter for current user's tickets
-        search: z.string().optional(),
-        sortBy: z
-          .enum(["created_at", "updated_at", "priority"])
-          .default("created_at"),
+        // Single-value shorthands for `statuses` and `priorities`
+        status: z.enum(TICKET_STATUSES).optional(),
+        priority: z.enum(TICKET_PRIORITIES).optional(),
+        sortBy: z.enum(TICKET_SORT_FIELDS).default("created_at"),
         sortOrder: z.enum(["asc", "desc"]).default("desc"),
       })
     )
     .query(async ({ ctx, input }) => {
       const offset = (input.page - 1) * input.limit
 
-      // Build where conditions
-      const whereConditions = [eq(tickets.company_id, ctx.company.id)]
-
-      if (input.status) {
-        whereConditions.push(eq(tickets.status, input.status))
-      }
-
-      if (input.priority) {
-        whereConditions.push(eq(tickets.priority, input.priority))
-      }
-
-      if (input.assignedToId) {
-        whereConditions.push(
-          eq(tickets.assigned_to_membership_id, input.assignedToId)
-        )
-      }
-
-      if (input.clientId) {
-        whereConditions.push(eq(tickets.client_id, input.clientId))
-      }
-
-      if (input.myTickets) {
-        // Show tickets assigned to current user or created by current user
-        whereConditions.push(
-          or(
-            eq(tickets.assigned_to_membership_id, ctx.membership.id),
-            eq(tickets.created_by_membership_id, ctx.membership.id)
-          )!
-        )
-      }
-
-      if (input.search) {
-        whereConditions.push(
-          or(
-            ilike(tickets.subject, `%${input.search}%`),
-            ilike(tickets.description, `%${input.search}%`)
-          )!
-        )
+      const filter = await getTicketFilterConditions(
+        { companyId: ctx.company.id, membershipId: ctx.membership.id },
+        {
+          ...input,
+          statuses: input.status ? [input.status] : input.statuses,
+          priorities: input.priority ? [input.priority] : input.priorities,
+        }
+      )
+      if ("error" in filter) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: filter.error,
+        })
       }
+      const whereConditions = filter.conditions
 
       // Get total count
       const [{ total }] = await ctx.db
@@ -77,6 +76,7 @@ export const ticketRouter = createTRPCRouter({
       // Get tickets with relations
       const ticketList = await ctx.db.query.tickets.findMany({
         where: and(...whereConditions),
+        columns: { search_vector: false },
         with: {
           createdByMembership: {
             with: {
@@ -114,6 +114,7 @@ export const ticketRouter = createTRPCRouter({
           },
           slaPolicy: true,
           comments: {
+            columns: { search_vector: false },
             with: {
               membership: {
                 with: {
@@ -143,9 +144,12 @@ export const ticketRouter = createTRPCRouter({
         limit: input.limit,
         offset,
         orderBy: (tickets, { asc, desc }) => [
-          input.sortOrder === "asc"
-            ? asc(tickets[input.sortBy])
-            : desc(tickets[input.sortBy]),
+          input.sortBy === "sla_due_at"
+            ? // Tickets without an SLA deadline go last in either direction
+              sql`${slaNextDueAt} ${input.sortOrder === "asc" ? sql`asc` : sql`desc`} nulls last`
+            : input.sortOrder === "asc"
+              ? asc(tickets[input.sortBy])
+              : desc(tickets[input.sortBy]),
         ],
       })
 
@@ -171,6 +175,7 @@ export const ticketRouter = createTRPCRouter({
       const ticket = await ctx.db.query.tickets.findFirst({
         where: (tickets, { and, eq }) =>
           and(eq(tickets.id, input.id), eq(tickets.company_id, ctx.company.id)),
+        columns: { search_vector: false },
         with: {
           createdByMembership: {
             with: {
@@ -192,6 +197,7 @@ export const ticketRouter = createTRPCRouter({
           slaPolicy: true,
           escalationPolicy: true,
           comments: {
+            columns: { search_vector: false },
             with: {
               membership: {
                 with: {
@@ -256,12 +262,108 @@ export const ticketRouter = createTRPCRouter({
         })
       }
 
+      const followers = await getTicketFollowers(ticket.id)
+
       return {
         ...ticket,
+        comments: ticket.comments.map((comment) => ({
+          ...comment,
+          attachments: toAttachmentViews(comment),
+        })),
+        events: await getTicketEvents(ticket.id),
         formSubmission,
+        followers,
+        // Lets the viewer unfollow without picking themselves from the list
+        viewerMembershipId: ctx.membership.id,
+        viewerFollowerId:
+          followers.find(
+            (follower) => follower.membership_id === ctx.membership.id
+          )?.id ?? null,
       }
     }),
 
+  // Add a team member or CC a contact; with neither, the current member
+  // follows the ticket
+  addFollower: companyProcedure
+    .input(
+      z
+        .object({
+          ticketId: z.string().uuid(),
+          membershipId: z.string().uuid().optional(),
+          email: z.string().email().max(255).optional(),
+          name: z.string().max(255).optional(),
+        })
+        .refine((input) => !(input.membershipId && input.email), {
+          message: "Provide either a team member or an email address",
+        })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const ticket = await ctx.db.query.tickets.findFirst({
+        where: (tickets, { and, eq }) =>
+          and(
+            eq(tickets.id, input.ticketId),
+            eq(tickets.company_id, ctx.company.id)
+          ),
+        columns: { search_vector: false },
+      })
+
+      if (!ticket) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Ticket not found",
+        })
+      }
+
+      if (
+        input.email &&
+        input.email.toLowerCase() === ticket.customer_email?.toLowerCase()
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "The requester already gets this ticket's emails",
+        })
+      }
+
+      await addTicketFollowers(
+        ticket,
+        input.email
+          ? { contacts: [{ email: input.email, name: input.name }] }
+          : { membershipIds: [input.membershipId ?? ctx.membership.id] },
+        ctx.membership.id
+      )
+
+      return { success: true }
+    }),
+
+  removeFollower: companyProcedure
+    .input(
+      z.object({
+        ticketId: z.string().uuid(),
+        followerId: z.string().uuid(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const [removed] = await ctx.db
+        .delete(ticketFollowers)
+        .where(
+          and(
+            eq(ticketFollowers.id, input.followerId),
+            eq(ticketFollowers.ticket_id, input.ticketId),
+            eq(ticketFollowers.company_id, ctx.company.id)
+          )
+        )
+        .returning({ id: ticketFollowers.id })
+
+      if (!removed) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Follower not found",
+        })
+      }
+
+      return { success: true }
+    }),
+
   // Create new ticket
   create: companyProcedure
     .input(
@@ -275,16 +377,35 @@ export const ticketRouter = createTRPCRouter({
         customerEmail: z.string().email().optional(),
         customerName: z.string().optional(),
         tags: z.array(z.string()).default([]),
+        // Custom field key to value, checked against the field definitions
+        customFields: z.record(z.string(), z.unknown()).default({}),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      // Get default SLA policy
-      const defaultSLA = await ctx.db.query.slaPolicies.findFirst({
-        where: (slaPolicies, { and, eq }) =>
-          and(
-            eq(slaPolicies.company_id, ctx.company.id),
-            eq(slaPolicies.is_default, true)
-          ),
+      const customFields = await resolveCustomFieldValues(
+        { companyId: ctx.company.id, clientId: input.clientId },
+        input.customFields
+      )
+      if ("error" in customFields) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: customFields.error,
+        })
+      }
+
+      const ticketTags = await resolveTags(ctx.company.id, input.tags)
+      if ("error" in ticketTags) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: ticketTags.error,
+        })
+      }
+
+      // Pick the most specific SLA policy for the client and priority
+      const slaFields = await getTicketSlaFields({
+        companyId: ctx.company.id,
+        clientId: input.clientId,
+        priority: input.priority,
       })
 
       const [ticket] = await ctx.db
@@ -301,10 +422,14 @@ export const ticketRouter = createTRPCRouter({
           client_id: input.clientId,
           customer_email: input.customerEmail,
           customer_name: input.customerName,
-          sla_policy_id: defaultSLA?.id,
-          tags: input.tags,
+          ...slaFields,
+          tags: ticketTags.tags,
+          custom_fields: customFields.values,
         })
-        .returning()
+        .returning(ticketColumns)
+
+      await notifyCustomer(ticket.id, "ticket_created")
+      await notifyAssignment(null, ticket, ctx.membership.id)
 
       return ticket
     }),
@@ -322,7 +447,10 @@ export const ticketRouter = createTRPCRouter({
         priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
         assignedToId: z.string().uuid().optional(),
         assignedToCustomerPortalAccessId: z.string().uuid().optional(),
+        clientId: z.string().uuid().nullable().optional(),
         tags: z.array(z.string()).optional(),
+        // Only the fields to change; null clears one
+        customFields: z.record(z.string(), z.unknown()).optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -330,6 +458,7 @@ export const ticketRouter = createTRPCRouter({
       const existingTicket = await ctx.db.query.tickets.findFirst({
         where: (tickets, { and, eq }) =>
           and(eq(tickets.id, input.id), eq(tickets.company_id, ctx.company.id)),
+        columns: { search_vector: false },
       })
 
       if (!existingTicket) {
@@ -366,7 +495,66 @@ export const ticketRouter = createTRPCRouter({
         // Clear membership assignment if customer portal access is assigned
         updateData.assigned_to_membership_id = null
       }
-      if (input.tags) updateData.tags = input.tags
+      if (input.tags) {
+        const ticketTags = await resolveTags(ctx.company.id, input.tags)
+        if ("error" in ticketTags) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: ticketTags.error,
+          })
+        }
+        updateData.tags = ticketTags.tags
+      }
+      if (input.clientId !== undefined) {
+        if (input.clientId) {
+          const client = await ctx.db.query.clients.findFirst({
+            where: (clients, { and, eq }) =>
+              and(
+                eq(clients.id, input.clientId!),
+                eq(clients.company_id, ctx.company.id)
+              ),
+            columns: { id: true },
+          })
+
+          if (!client) {
+            throw new TRPCError({
+              code: "NOT_FOUND",
+              message: "Client not found",
+            })
+          }
+        }
+
+        updateData.client_id = input.clientId
+      }
+      if (input.customFields) {
+        const customFields = await resolveCustomFieldValues(
+          {
+            companyId: ctx.company.id,
+            clientId:
+              input.clientId !== undefined
+                ? input.clientId
+                : existingTicket.client_id,
+            current: existingTicket.custom_fields,
+          },
+          input.customFields
+        )
+        if ("error" in customFields) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: customFields.error,
+          })
+        }
+        updateData.custom_fields = customFields.values
+      }
+
+      // A new priority or client may fall under a different SLA policy
+      Object.assign(
+        updateData,
+        await getSlaPolicyChange(existingTicket, {
+          clientId: input.clientId,
+          priority: input.priority,
+        })
+      )
 
       if (Object.keys(updateData).length > 0) {
         updateData.updated_at = new Date()
@@ -375,7 +563,19 @@ export const ticketRouter = createTRPCRouter({
           .update(tickets)
           .set(updateData)
           .where(eq(tickets.id, input.id))
-          .returning()
+          .returning(ticketColumns)
+
+        await recordTicketChanges(existingTicket, updatedTicket, {
+          type: "membership",
+          membershipId: ctx.membership.id,
+        })
+        await notifyCustomerOfStatusChange(existingTicket, updatedTicket)
+        await notifyAssignment(existingTicket, updatedTicket, ctx.membership.id)
+        await notifyTicketUpdate(
+          existingTicket,
+          updatedTicket,
+          ctx.membership.id
+        )
 
         return updatedTicket
       }
@@ -383,6 +583,43 @@ export const ticketRouter = createTRPCRouter({
       return existingTicket
     }),
 
+  // Same changes for many tickets, e.g. when triaging a backlog
+  bulkUpdate: companyProcedure
+    .input(
+      z.object({
+        ids: z.array(z.string().uuid()).min(1).max(MAX_BULK_TICKETS),
+        status: z.enum(TICKET_STATUSES).optional(),
+        priority: z.enum(TICKET_PRIORITIES).optional(),
+        // null unassigns
+        assignedToId: z.string().uuid().nullable().optional(),
+        clientId: z.string().uuid().nullable().optional(),
+        addTags: z.array(z.string()).optional(),
+        removeTags: z.array(z.string()).optional(),
+        // Internal note added to each ticket
+        note: z.string().trim().min(1).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { ids, ...changes } = input
+      const bulk = await bulkUpdateTickets(
+        {
+          companyId: ctx.company.id,
+          actor: { type: "membership", membershipId: ctx.membership.id },
+          authorName: `${ctx.user.first_name} ${ctx.user.last_name}`,
+        },
+        ids,
+        changes
+      )
+      if ("error" in bulk) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: bulk.error,
+        })
+      }
+
+      return bulk
+    }),
+
   // Add comment to ticket
   addComment: companyProcedure
     .input(
@@ -390,7 +627,10 @@ export const ticketRouter = createTRPCRouter({
         ticketId: z.string().uuid(),
         content: z.string().min(1),
         isInternal: z.boolean().default(false),
-        attachments: z.array(z.string().url()).default([]),
+        // IDs returned by POST /api/attachments for this ticket
+        attachmentIds: z.array(z.string().uuid()).max(10).default([]),
+        // Deprecated: links to files hosted elsewhere, kept as plain URLs
+        attachments: z.array(z.string().url()).max(10).default([]),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -401,6 +641,7 @@ export const ticketRouter = createTRPCRouter({
             eq(tickets.id, input.ticketId),
             eq(tickets.company_id, ctx.company.id)
           ),
+        columns: { search_vector: false },
       })
 
       if (!ticket) {
@@ -410,6 +651,44 @@ export const ticketRouter = createTRPCRouter({
         })
       }
 
+      const attachments = await getPendingAttachments(
+        input.attachmentIds,
+        input.ticketId,
+        { authUserId: ctx.session.user.id }
+      )
+
+      if (!attachments) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Attachment not found or already used",
+        })
+      }
+
+      // Mentions are read from the text, so a public reply can't carry one
+      const activeMembers = await ctx.db.query.memberships.findMany({
+        where: (memberships, { and, eq }) =>
+          and(
+            eq(memberships.company_id, ctx.company.id),
+            eq(memberships.is_active, true)
+          ),
+        columns: { id: true },
+        with: { user: { columns: { first_name: true, last_name: true } } },
+      })
+      const mentionedIds = findMentionedIds(
+        input.content,
+        activeMembers.map((member) => ({
+          id: member.id,
+          name: `${member.user.first_name} ${member.user.last_name}`,
+        }))
+      )
+
+      if (mentionedIds.length > 0 && !input.isInternal) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "@mentions are only allowed in internal notes",
+        })
+      }
+
       const [comment] = await ctx.db
         .insert(ticketComments)
         .values({
@@ -418,9 +697,19 @@ export const ticketRouter = createTRPCRouter({
           membership_id: ctx.membership.id,
           content: input.content,
           is_internal: input.isInternal,
-          attachments: input.attachments,
+          attachments: [...attachments, ...input.attachments],
+          mentioned_membership_ids: mentionedIds,
         })
-        .returning()
+        .returning(ticketCommentColumns)
+
+      await clearPendingAttachments(input.attachmentIds)
+
+      await notifyMentions(
+        ticket,
+        mentionedIds.filter((id) => id !== ctx.membership.id),
+        `${ctx.user.first_name} ${ctx.user.last_name}`,
+        input.content
+      )
 
       // Mark first response time if this is the first non-internal comment
       if (
@@ -437,7 +726,34 @@ export const ticketRouter = createTRPCRouter({
           .where(eq(tickets.id, input.ticketId))
       }
 
-      return comment
+      // Public replies on email tickets go back to the customer's Gmail thread
+      let emailError: string | null = null
+      if (!input.isInternal) {
+        try {
+          const gmailMessageId = await sendTicketReplyEmail({
+            ticket,
+            commentId: comment.id,
+            content: input.content,
+            senderName: `${ctx.user.first_name} ${ctx.user.last_name} (${ctx.company.name})`,
+          })
+          if (gmailMessageId) {
+            comment.gmail_message_id = gmailMessageId
+          } else {
+            await notifyCustomer(ticket.id, "agent_reply", {
+              reply: {
+                content: input.content,
+                authorName: `${ctx.user.first_name} ${ctx.user.last_name}`,
+              },
+            })
+          }
+        } catch (error) {
+          // Keep the comment; the agent is told the email didn't go out
+          console.error("Failed to send ticket reply email:", error)
+          emailError = "The comment was saved but the email reply failed"
+        }
+      }
+
+      return { ...comment, emailError }
     }),
 
   // Get ticket metrics for dashboard
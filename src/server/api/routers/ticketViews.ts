@@ -0,0 +1,209 @@
+import { z } from "zod"
+import { createTRPCRouter, companyProcedure } from "~/server/api/trpc"
+import { ticketViews, tickets } from "~/db/schema"
+import { and, count, eq, or } from "drizzle-orm"
+import { TRPCError } from "@trpc/server"
+import type { db } from "~/db"
+import { getTicketFilterConditions } from "~/lib/ticket-filters"
+import {
+  compactTicketFilters,
+  ticketFiltersSchema,
+  TICKET_SORT_FIELDS,
+  type TicketFilters,
+} from "~/lib/ticket-filter-types"
+
+const viewSettingsInput = z.object({
+  name: z.string().trim().min(1).max(100),
+  isShared: z.boolean().default(false),
+  filters: ticketFiltersSchema,
+  sortBy: z.enum(TICKET_SORT_FIELDS).default("created_at"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+})
+
+type ViewerContext = {
+  db: typeof db
+  company: { id: string }
+  membership: { id: string; role: string }
+}
+
+// The caller's own views plus the ones shared with the team
+function visibleViews(ctx: ViewerContext) {
+  return and(
+    eq(ticketViews.company_id, ctx.company.id),
+    or(
+      eq(ticketViews.membership_id, ctx.membership.id),
+      eq(ticketViews.is_shared, true)
+    )
+  )
+}
+
+// Owners manage their views; admins also manage shared ones
+function canManageView(
+  ctx: ViewerContext,
+  view: { membership_id: string; is_shared: boolean }
+) {
+  return (
+    view.membership_id === ctx.membership.id ||
+    (view.is_shared &&
+      (ctx.membership.role === "admin" || ctx.membership.role === "owner"))
+  )
+}
+
+async function getManageableView(ctx: ViewerContext, viewId: string) {
+  const view = await ctx.db.query.ticketViews.findFirst({
+    where: and(eq(ticketViews.id, viewId), visibleViews(ctx)),
+  })
+
+  if (!view) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "View not found",
+    })
+  }
+
+  if (!canManageView(ctx, view)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Only the owner or an admin can change this view",
+    })
+  }
+
+  return view
+}
+
+// Rejects filters that can't be applied, such as unknown custom fields
+async function checkFilters(ctx: ViewerContext, filters: TicketFilters) {
+  const compact = compactTicketFilters(filters)
+  const filter = await getTicketFilterConditions(
+    { companyId: ctx.company.id, membershipId: ctx.membership.id },
+    compact
+  )
+  if ("error" in filter) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: filter.error,
+    })
+  }
+  return compact
+}
+
+export const ticketViewsRouter = createTRPCRouter({
+  getAll: companyProcedure.query(async ({ ctx }) => {
+    const views = await ctx.db.query.ticketViews.findMany({
+      where: visibleViews(ctx),
+      with: {
+        membership: {
+          with: {
+            user: { columns: { first_name: true, last_name: true } },
+          },
+        },
+      },
+      orderBy: (ticketViews, { asc }) => [
+        asc(ticketViews.position),
+        asc(ticketViews.created_at),
+      ],
+    })
+
+    return views.map(({ membership, ...view }) => ({
+      ...view,
+      filters: view.filters as TicketFilters,
+      ownerName: membership.user
+        ? `${membership.user.first_name} ${membership.user.last_name}`
+        : null,
+      isOwner: view.membership_id === ctx.membership.id,
+      canManage: canManageView(ctx, view),
+    }))
+  }),
+
+  // Matching tickets per view, for the sidebar queues. Views whose filters
+  // no longer apply (e.g. a deleted custom field) count as null.
+  getCounts: companyProcedure.query(async ({ ctx }) => {
+    const views = await ctx.db.query.ticketViews.findMany({
+      where: visibleViews(ctx),
+      columns: { id: true, filters: true },
+    })
+
+    const counts: Record<string, number | null> = {}
+    for (const view of views) {
+      const filter = await getTicketFilterConditions(
+        { companyId: ctx.company.id, membershipId: ctx.membership.id },
+        view.filters as TicketFilters
+      )
+      if ("error" in filter) {
+        counts[view.id] = null
+        continue
+      }
+
+      const [result] = await ctx.db
+        .select({ total: count() })
+        .from(tickets)
+        .where(and(...filter.conditions))
+      counts[view.id] = result?.total ?? 0
+    }
+
+    return counts
+  }),
+
+  create: companyProcedure
+    .input(viewSettingsInput)
+    .mutation(async ({ ctx, input }) => {
+      const filters = await checkFilters(ctx, input.filters)
+      const [{ total }] = await ctx.db
+        .select({ total: count() })
+        .from(ticketViews)
+        .where(visibleViews(ctx))
+
+      const [view] = await ctx.db
+        .insert(ticketViews)
+        .values({
+          company_id: ctx.company.id,
+          membership_id: ctx.membership.id,
+          name: input.name,
+          is_shared: input.isShared,
+          filters,
+          sort_by: input.sortBy,
+          sort_order: input.sortOrder,
+          // New views go last
+          position: total,
+        })
+        .returning()
+
+      return view
+    }),
+
+  update: companyProcedure
+    .input(viewSettingsInput.extend({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const view = await getManageableView(ctx, input.id)
+      const filters = await checkFilters(ctx, input.filters)
+
+      const [updated] = await ctx.db
+        .update(ticketViews)
+        .set({
+          name: input.name,
+          // Only the owner decides who sees the view
+          is_shared:
+            view.membership_id === ctx.membership.id
+              ? input.isShared
+              : view.is_shared,
+          filters,
+          sort_by: input.sortBy,
+          sort_order: input.sortOrder,
+          updated_at: new Date(),
+        })
+        .where(eq(ticketViews.id, view.id))
+        .returning()
+
+      return updated
+    }),
+
+  delete: companyProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const view = await getManageableView(ctx, input.id)
+
+      await ctx.db.delete(ticketViews).where(eq(ticketViews.id, view.id))
+
+      return { success: true }
+    }),
+})
@@ -9,12 +9,37 @@ import { memberships, users } from "~/db/schema"
 import { and, asc, eq } from "drizzle-orm"
 import { TRPCError } from "@trpc/server"
 import { emailService } from "~/lib/email"
+import {
+  AGENT_NOTIFICATION_EVENTS,
+  resolveNotificationPreferences,
+} from "~/lib/notification-preferences"
+import { isValidTimeZone } from "~/lib/business-hours"
 import {
   createInvitationCode,
   useInvitationCode,
   validateInvitationCode,
 } from "~/lib/invitation-codes"
 
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm (24-hour) format")
+
+const notificationPreferencesSchema = z.object({
+  events: z.record(
+    z.enum(AGENT_NOTIFICATION_EVENTS),
+    z.object({ email: z.boolean(), in_app: z.boolean() })
+  ),
+  quiet_hours: z.object({
+    enabled: z.boolean(),
+    start: timeOfDaySchema,
+    end: timeOfDaySchema,
+    timezone: z
+      .string()
+      .min(1)
+      .refine(isValidTimeZone, { message: "Unknown timezone" }),
+  }),
+})
+
 export const userRouter = createTRPCRouter({
   // Get all users in company
   getAll: companyProcedure.query(async ({ ctx }) => {
@@ -286,6 +311,48 @@ export const userRouter = createTRPCRouter({
       return updatedMembership
     }),
 
+  // Which agent notifications the member gets, and how
+  updateNotificationPreferences: companyProcedure
+    .input(
+      z.object({
+        id: z.string().uuid(), // membership ID
+        preferences: notificationPreferencesSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.membership.role !== "admin" && ctx.membership.id !== input.id) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Not authorized to edit this user",
+        })
+      }
+
+      const [membership] = await ctx.db
+        .update(memberships)
+        .set({
+          notification_preferences: resolveNotificationPreferences(
+            input.preferences
+          ),
+          updated_at: new Date(),
+        })
+        .where(
+          and(
+            eq(memberships.id, input.id),
+            eq(memberships.company_id, ctx.company.id)
+          )
+        )
+        .returning()
+
+      if (!membership) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "User not found",
+        })
+      }
+
+      return membership
+    }),
+
   // Deactivate membership (admin only)
   deactivate: adminCompanyProcedure
     .input(
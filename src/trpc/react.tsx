@@ -1,7 +1,11 @@
 "use client"
 
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query"
-import { loggerLink, unstable_httpBatchStreamLink } from "@trpc/client"
+import {
+  loggerLink,
+  splitLink,
+  unstable_httpBatchStreamLink,
+} from "@trpc/client"
 import { createTRPCReact } from "@trpc/react-query"
 import { type inferRouterInputs, type inferRouterOutputs } from "@trpc/server"
 import { useState, useEffect } from "react"
@@ -9,6 +13,7 @@ import superjson from "superjson"
 
 import { type AppRouter } from "~/server/api/root"
 import { useCompany } from "~/contexts/company-context"
+import { sseLink } from "~/trpc/sse-link"
 
 const createQueryClient = () =>
   new QueryClient({
@@ -38,25 +43,32 @@ function createTrpcClient(companyId: string | null) {
           process.env.NODE_ENV === "development" ||
           (op.direction === "down" && op.result instanceof Error),
       }),
-      unstable_httpBatchStreamLink({
-        url: getBaseUrl() + "/api/trpc",
-        headers() {
-          const headers = new Map<string, string>()
-          headers.set("x-trpc-source", "nextjs-react")
-
-          // Add company ID header if available
-          if (companyId) {
-            headers.set("x-company-id", companyId)
-          }
-
-          return Object.fromEntries(headers)
-        },
-        fetch(url, options) {
-          return fetch(url, {
-            ...options,
-            credentials: "include",
-          })
-        },
+      splitLink({
+        condition: (op) => op.type === "subscription",
+        true: sseLink({
+          url: getBaseUrl() + "/api/realtime",
+          companyId,
+        }),
+        false: unstable_httpBatchStreamLink({
+          url: getBaseUrl() + "/api/trpc",
+          headers() {
+            const headers = new Map<string, string>()
+            headers.set("x-trpc-source", "nextjs-react")
+
+            // Add company ID header if available
+            if (companyId) {
+              headers.set("x-company-id", companyId)
+            }
+
+            return Object.fromEntries(headers)
+          },
+          fetch(url, options) {
+            return fetch(url, {
+              ...options,
+              credentials: "include",
+            })
+          },
+        }),
       }),
     ],
   })
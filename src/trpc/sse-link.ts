@@ -0,0 +1,83 @@
+import { TRPCClientError, type TRPCLink } from "@trpc/client"
+import { type AnyRouter } from "@trpc/server"
+import { observable } from "@trpc/server/observable"
+import {
+  TRPC_ERROR_CODES_BY_KEY,
+  type TRPC_ERROR_CODE_KEY,
+} from "@trpc/server/rpc"
+
+interface SseLinkOptions {
+  url: string
+  // Sent as a query parameter; EventSource can't set the x-company-id header
+  companyId?: string | null
+}
+
+/**
+ * Terminating link for subscriptions, served as server-sent events by
+ * /api/realtime. EventSource reconnects by itself after a dropped connection;
+ * each (re)connect is reported as "started" so callers can refetch anything
+ * they missed in between.
+ */
+export function sseLink<TRouter extends AnyRouter>(
+  opts: SseLinkOptions
+): TRPCLink<TRouter> {
+  return (runtime) =>
+    ({ op }) =>
+      observable((observer) => {
+        if (op.type !== "subscription") {
+          observer.error(
+            new TRPCClientError("sseLink only handles subscriptions")
+          )
+          return
+        }
+
+        const params = new URLSearchParams({ path: op.path })
+        if (op.input !== undefined) {
+          params.set(
+            "input",
+            JSON.stringify(runtime.transformer.serialize(op.input))
+          )
+        }
+        if (opts.companyId) params.set("companyId", opts.companyId)
+
+        const source = new EventSource(`${opts.url}?${params.toString()}`, {
+          withCredentials: true,
+        })
+        const parse = (event: MessageEvent<string>) =>
+          runtime.transformer.deserialize(JSON.parse(event.data))
+
+        source.addEventListener("started", () => {
+          observer.next({ result: { type: "started" } })
+        })
+        source.addEventListener("data", (event) => {
+          observer.next({ result: { type: "data", data: parse(event) } })
+        })
+        source.addEventListener("trpc-error", (event) => {
+          const error = parse(event) as {
+            message: string
+            code: TRPC_ERROR_CODE_KEY
+            httpStatus: number
+          }
+          source.close()
+          observer.error(
+            TRPCClientError.from<TRouter>({
+              error: {
+                code: TRPC_ERROR_CODES_BY_KEY[error.code],
+                message: error.message,
+                data: { code: error.code, httpStatus: error.httpStatus },
+              },
+            })
+          )
+        })
+        source.addEventListener("error", () => {
+          // Still CONNECTING means the browser is retrying
+          if (source.readyState === EventSource.CLOSED) {
+            observer.error(
+              new TRPCClientError("Lost the live updates connection")
+            )
+          }
+        })
+
+        return () => source.close()
+      })
+}
@@ -0,0 +1,2 @@
+ALTER TABLE "tickets" ADD COLUMN "sla_response_due_at" timestamp;--> statement-breakpoint
+ALTER TABLE "tickets" ADD COLUMN "sla_resolution_due_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "business_hours" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"company_id" uuid NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"timezone" varchar(100) DEFAULT 'UTC' NOT NULL,
+	"weekly_hours" jsonb DEFAULT '[]' NOT NULL,
+	"holidays" jsonb DEFAULT '[]' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "business_hours" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "clients" ADD COLUMN "business_hours_id" uuid;--> statement-breakpoint
+ALTER TABLE "sla_policies" ADD COLUMN "business_hours_id" uuid;--> statement-breakpoint
+ALTER TABLE "business_hours" ADD CONSTRAINT "business_hours_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "clients" ADD CONSTRAINT "clients_business_hours_id_business_hours_id_fk" FOREIGN KEY ("business_hours_id") REFERENCES "public"."business_hours"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sla_policies" ADD CONSTRAINT "sla_policies_business_hours_id_business_hours_id_fk" FOREIGN KEY ("business_hours_id") REFERENCES "public"."business_hours"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
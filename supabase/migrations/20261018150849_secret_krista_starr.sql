@@ -0,0 +1,3 @@
+ALTER TABLE "escalation_policies" ADD COLUMN "client_id" uuid;--> statement-breakpoint
+ALTER TABLE "escalation_policies" ADD COLUMN "priorities" jsonb DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE "escalation_policies" ADD CONSTRAINT "escalation_policies_client_id_clients_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
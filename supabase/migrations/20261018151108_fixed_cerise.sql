@@ -0,0 +1 @@
+ALTER TABLE "tickets" ADD COLUMN "sla_policy_reason" varchar(50);
\ No newline at end of file
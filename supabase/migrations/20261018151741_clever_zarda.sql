@@ -0,0 +1,21 @@
+CREATE TYPE "public"."ticket_event_actor" AS ENUM('membership', 'customer_portal_access', 'api_key', 'system');--> statement-breakpoint
+CREATE TABLE "ticket_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"company_id" uuid NOT NULL,
+	"ticket_id" uuid NOT NULL,
+	"field" varchar(50) NOT NULL,
+	"from_value" jsonb,
+	"to_value" jsonb,
+	"actor_type" "ticket_event_actor" NOT NULL,
+	"actor_membership_id" uuid,
+	"actor_customer_portal_access_id" uuid,
+	"actor_api_key_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ticket_events" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "ticket_events" ADD CONSTRAINT "ticket_events_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ticket_events" ADD CONSTRAINT "ticket_events_ticket_id_tickets_id_fk" FOREIGN KEY ("ticket_id") REFERENCES "public"."tickets"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ticket_events" ADD CONSTRAINT "ticket_events_actor_membership_id_memberships_id_fk" FOREIGN KEY ("actor_membership_id") REFERENCES "public"."memberships"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ticket_events" ADD CONSTRAINT "ticket_events_actor_customer_portal_access_id_customer_portal_access_id_fk" FOREIGN KEY ("actor_customer_portal_access_id") REFERENCES "public"."customer_portal_access"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ticket_events" ADD CONSTRAINT "ticket_events_actor_api_key_id_api_keys_id_fk" FOREIGN KEY ("actor_api_key_id") REFERENCES "public"."api_keys"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
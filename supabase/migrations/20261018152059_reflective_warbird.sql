@@ -0,0 +1 @@
+ALTER TABLE "ticket_comments" ADD COLUMN "gmail_message_id" varchar(255);
\ No newline at end of file
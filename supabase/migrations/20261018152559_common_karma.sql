@@ -0,0 +1,21 @@
+CREATE TABLE "gmail_sync_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"company_id" uuid NOT NULL,
+	"gmail_integration_id" uuid NOT NULL,
+	"trigger" varchar(20) NOT NULL,
+	"mode" varchar(20) NOT NULL,
+	"start_history_id" varchar(255),
+	"end_history_id" varchar(255),
+	"messages_seen" integer DEFAULT 0 NOT NULL,
+	"tickets_created" integer DEFAULT 0 NOT NULL,
+	"replies_added" integer DEFAULT 0 NOT NULL,
+	"messages_skipped" integer DEFAULT 0 NOT NULL,
+	"errors" jsonb DEFAULT '[]' NOT NULL,
+	"status" varchar(20) DEFAULT 'running' NOT NULL,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "gmail_sync_runs" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "gmail_sync_runs" ADD CONSTRAINT "gmail_sync_runs_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gmail_sync_runs" ADD CONSTRAINT "gmail_sync_runs_gmail_integration_id_gmail_integration_id_fk" FOREIGN KEY ("gmail_integration_id") REFERENCES "public"."gmail_integration"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,36 @@
+CREATE TYPE "public"."quarantined_email_status" AS ENUM('pending', 'ticket_created', 'spam');--> statement-breakpoint
+CREATE TABLE "blocked_senders" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"company_id" uuid NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"created_by_membership_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "blocked_senders_company_id_email_unique" UNIQUE("company_id","email")
+);
+--> statement-breakpoint
+ALTER TABLE "blocked_senders" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE TABLE "quarantined_emails" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"company_id" uuid NOT NULL,
+	"gmail_thread_id" varchar(255) NOT NULL,
+	"gmail_message_id" varchar(255) NOT NULL,
+	"sender_email" varchar(255) NOT NULL,
+	"sender_name" varchar(255),
+	"subject" text NOT NULL,
+	"body" text NOT NULL,
+	"received_at" timestamp NOT NULL,
+	"status" "quarantined_email_status" DEFAULT 'pending' NOT NULL,
+	"ticket_id" uuid,
+	"reviewed_by_membership_id" uuid,
+	"reviewed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "quarantined_emails_company_id_gmail_thread_id_unique" UNIQUE("company_id","gmail_thread_id")
+);
+--> statement-breakpoint
+ALTER TABLE "quarantined_emails" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "gmail_sync_runs" ADD COLUMN "messages_quarantined" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "blocked_senders" ADD CONSTRAINT "blocked_senders_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "blocked_senders" ADD CONSTRAINT "blocked_senders_created_by_membership_id_memberships_id_fk" FOREIGN KEY ("created_by_membership_id") REFERENCES "public"."memberships"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quarantined_emails" ADD CONSTRAINT "quarantined_emails_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quarantined_emails" ADD CONSTRAINT "quarantined_emails_ticket_id_tickets_id_fk" FOREIGN KEY ("ticket_id") REFERENCES "public"."tickets"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quarantined_emails" ADD CONSTRAINT "quarantined_emails_reviewed_by_membership_id_memberships_id_fk" FOREIGN KEY ("reviewed_by_membership_id") REFERENCES "public"."memberships"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "pending_attachments" (
+	"id" uuid PRIMARY KEY NOT NULL,
+	"company_id" uuid NOT NULL,
+	"ticket_id" uuid NOT NULL,
+	"uploaded_by_auth_user_id" uuid,
+	"uploaded_by_api_key_id" uuid,
+	"filename" varchar(255) NOT NULL,
+	"content_type" varchar(255) NOT NULL,
+	"size" integer NOT NULL,
+	"storage_driver" varchar(20) NOT NULL,
+	"storage_key" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "pending_attachments" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "companies" ADD COLUMN "attachment_max_size_mb" integer DEFAULT 10 NOT NULL;--> statement-breakpoint
+ALTER TABLE "companies" ADD COLUMN "attachment_allowed_types" jsonb DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE "pending_attachments" ADD CONSTRAINT "pending_attachments_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pending_attachments" ADD CONSTRAINT "pending_attachments_ticket_id_tickets_id_fk" FOREIGN KEY ("ticket_id") REFERENCES "public"."tickets"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pending_attachments" ADD CONSTRAINT "pending_attachments_uploaded_by_api_key_id_api_keys_id_fk" FOREIGN KEY ("uploaded_by_api_key_id") REFERENCES "public"."api_keys"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
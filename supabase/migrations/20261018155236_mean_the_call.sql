@@ -0,0 +1 @@
+ALTER TABLE "ticket_comments" ADD COLUMN "raw_content" text;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "companies" ADD COLUMN "customer_notification_events" jsonb DEFAULT '["ticket_created","agent_reply","status_changed","ticket_resolved"]' NOT NULL;--> statement-breakpoint
+ALTER TABLE "tickets" ADD COLUMN "customer_notifications_muted" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "tickets" ADD COLUMN "customer_notification_token" uuid DEFAULT gen_random_uuid() NOT NULL;--> statement-breakpoint
+ALTER TABLE "tickets" ADD CONSTRAINT "tickets_customer_notification_token_unique" UNIQUE("customer_notification_token");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "ticket_comments" ADD COLUMN "mentioned_membership_ids" jsonb DEFAULT '[]' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "ticket_followers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"company_id" uuid NOT NULL,
+	"ticket_id" uuid NOT NULL,
+	"membership_id" uuid,
+	"email" varchar(255),
+	"name" varchar(255),
+	"customer_portal_access_id" uuid,
+	"added_by_membership_id" uuid,
+	"muted" boolean DEFAULT false NOT NULL,
+	"notification_token" uuid DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ticket_followers_notification_token_unique" UNIQUE("notification_token"),
+	CONSTRAINT "ticket_followers_ticket_id_membership_id_unique" UNIQUE("ticket_id","membership_id"),
+	CONSTRAINT "ticket_followers_ticket_id_email_unique" UNIQUE("ticket_id","email")
+);
+--> statement-breakpoint
+ALTER TABLE "ticket_followers" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "ticket_followers" ADD CONSTRAINT "ticket_followers_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ticket_followers" ADD CONSTRAINT "ticket_followers_ticket_id_tickets_id_fk" FOREIGN KEY ("ticket_id") REFERENCES "public"."tickets"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ticket_followers" ADD CONSTRAINT "ticket_followers_membership_id_memberships_id_fk" FOREIGN KEY ("membership_id") REFERENCES "public"."memberships"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ticket_followers" ADD CONSTRAINT "ticket_followers_customer_portal_access_id_customer_portal_access_id_fk" FOREIGN KEY ("customer_portal_access_id") REFERENCES "public"."customer_portal_access"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ticket_followers" ADD CONSTRAINT "ticket_followers_added_by_membership_id_memberships_id_fk" FOREIGN KEY ("added_by_membership_id") REFERENCES "public"."memberships"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,37 @@
+-- Announces ticket and comment writes on the "ticket_changes" channel so app
+-- servers can push them to subscribed clients (see src/lib/realtime.ts).
+-- Payloads only carry IDs; clients refetch what they're allowed to see.
+CREATE OR REPLACE FUNCTION "public"."notify_ticket_change"() RETURNS trigger AS $$
+BEGIN
+	IF TG_TABLE_NAME = 'tickets' THEN
+		PERFORM pg_notify('ticket_changes', json_build_object(
+			'type', CASE WHEN TG_OP = 'INSERT' THEN 'ticket.created' ELSE 'ticket.updated' END,
+			'companyId', NEW.company_id,
+			'clientId', NEW.client_id,
+			'ticketId', NEW.id
+		)::text);
+	ELSE
+		PERFORM pg_notify('ticket_changes', json_build_object(
+			'type', CASE WHEN TG_OP = 'INSERT' THEN 'comment.created' ELSE 'comment.updated' END,
+			'companyId', NEW.company_id,
+			'clientId', (SELECT "client_id" FROM "public"."tickets" WHERE "id" = NEW.ticket_id),
+			'ticketId', NEW.ticket_id,
+			'commentId', NEW.id,
+			'isInternal', NEW.is_internal
+		)::text);
+	END IF;
+	RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+--> statement-breakpoint
+CREATE TRIGGER "tickets_notify_insert" AFTER INSERT ON "public"."tickets"
+	FOR EACH ROW EXECUTE FUNCTION "public"."notify_ticket_change"();
+--> statement-breakpoint
+CREATE TRIGGER "tickets_notify_update" AFTER UPDATE ON "public"."tickets"
+	FOR EACH ROW WHEN (OLD IS DISTINCT FROM NEW) EXECUTE FUNCTION "public"."notify_ticket_change"();
+--> statement-breakpoint
+CREATE TRIGGER "ticket_comments_notify_insert" AFTER INSERT ON "public"."ticket_comments"
+	FOR EACH ROW EXECUTE FUNCTION "public"."notify_ticket_change"();
+--> statement-breakpoint
+CREATE TRIGGER "ticket_comments_notify_update" AFTER UPDATE ON "public"."ticket_comments"
+	FOR EACH ROW WHEN (OLD IS DISTINCT FROM NEW) EXECUTE FUNCTION "public"."notify_ticket_change"();
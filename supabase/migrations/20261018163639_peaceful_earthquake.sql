@@ -0,0 +1,15 @@
+CREATE TABLE "ticket_presence" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"company_id" uuid NOT NULL,
+	"ticket_id" uuid NOT NULL,
+	"membership_id" uuid NOT NULL,
+	"source" varchar(20) DEFAULT 'app' NOT NULL,
+	"is_typing" boolean DEFAULT false NOT NULL,
+	"last_seen_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ticket_presence_ticket_id_membership_id_unique" UNIQUE("ticket_id","membership_id")
+);
+--> statement-breakpoint
+ALTER TABLE "ticket_presence" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "ticket_presence" ADD CONSTRAINT "ticket_presence_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ticket_presence" ADD CONSTRAINT "ticket_presence_ticket_id_tickets_id_fk" FOREIGN KEY ("ticket_id") REFERENCES "public"."tickets"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ticket_presence" ADD CONSTRAINT "ticket_presence_membership_id_memberships_id_fk" FOREIGN KEY ("membership_id") REFERENCES "public"."memberships"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
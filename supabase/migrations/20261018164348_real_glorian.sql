@@ -0,0 +1,19 @@
+CREATE TABLE "custom_field_definitions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"company_id" uuid NOT NULL,
+	"client_id" uuid,
+	"key" varchar(64) NOT NULL,
+	"label" varchar(255) NOT NULL,
+	"description" text,
+	"type" varchar(20) NOT NULL,
+	"options" jsonb DEFAULT '[]' NOT NULL,
+	"is_required" boolean DEFAULT false NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "custom_field_definitions_company_id_key_unique" UNIQUE("company_id","key")
+);
+--> statement-breakpoint
+ALTER TABLE "custom_field_definitions" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "custom_field_definitions" ADD CONSTRAINT "custom_field_definitions_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "custom_field_definitions" ADD CONSTRAINT "custom_field_definitions_client_id_clients_id_fk" FOREIGN KEY ("client_id") REFERENCES "public"."clients"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,18 @@
+-- Starts each company's tag catalog with the tags its tickets and articles
+-- already use. Spellings that differ only in case become one tag.
+INSERT INTO "tags" ("company_id", "name")
+SELECT DISTINCT ON ("company_id", lower("name")) "company_id", "name"
+FROM (
+	SELECT "company_id", left(trim(tag), 100) AS "name"
+	FROM "tickets", jsonb_array_elements_text(
+		CASE WHEN jsonb_typeof("tickets"."tags") = 'array' THEN "tickets"."tags" ELSE '[]'::jsonb END
+	) AS tag
+	UNION ALL
+	SELECT "company_id", left(trim(tag), 100) AS "name"
+	FROM "knowledge_base", jsonb_array_elements_text(
+		CASE WHEN jsonb_typeof("knowledge_base"."tags") = 'array' THEN "knowledge_base"."tags" ELSE '[]'::jsonb END
+	) AS tag
+) AS used
+WHERE "name" <> ''
+ORDER BY "company_id", lower("name"), "name"
+ON CONFLICT DO NOTHING;
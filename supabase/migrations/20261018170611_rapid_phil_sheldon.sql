@@ -0,0 +1,17 @@
+CREATE TABLE "ticket_views" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"company_id" uuid NOT NULL,
+	"membership_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"is_shared" boolean DEFAULT false NOT NULL,
+	"filters" jsonb DEFAULT '{}' NOT NULL,
+	"sort_by" varchar(20) DEFAULT 'created_at' NOT NULL,
+	"sort_order" varchar(4) DEFAULT 'desc' NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ticket_views" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "ticket_views" ADD CONSTRAINT "ticket_views_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ticket_views" ADD CONSTRAINT "ticket_views_membership_id_memberships_id_fk" FOREIGN KEY ("membership_id") REFERENCES "public"."memberships"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
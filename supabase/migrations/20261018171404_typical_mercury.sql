@@ -0,0 +1,8 @@
+ALTER TABLE "form_submissions" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("submitted_by_name", '') || ' ' || coalesce("submitted_by_email", '')), 'A') || setweight(jsonb_to_tsvector('english', "data", '["string", "numeric"]'), 'B') || setweight(to_tsvector('english', coalesce("description", '')), 'B')) STORED;--> statement-breakpoint
+ALTER TABLE "knowledge_base" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("content", '')), 'B')) STORED;--> statement-breakpoint
+ALTER TABLE "ticket_comments" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (to_tsvector('english', "content")) STORED;--> statement-breakpoint
+ALTER TABLE "tickets" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("subject", '')), 'A') || setweight(to_tsvector('english', coalesce("description", '')), 'B')) STORED;--> statement-breakpoint
+CREATE INDEX "form_submissions_search_vector_idx" ON "form_submissions" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "knowledge_base_search_vector_idx" ON "knowledge_base" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "ticket_comments_search_vector_idx" ON "ticket_comments" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "tickets_search_vector_idx" ON "tickets" USING gin ("search_vector");
\ No newline at end of file
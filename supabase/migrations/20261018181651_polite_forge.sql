@@ -0,0 +1,3 @@
+-- Keep the first copy of any email imported twice before the constraint existed
+DELETE FROM "ticket_comments" AS "duplicate" USING "ticket_comments" AS "original" WHERE "duplicate"."ticket_id" = "original"."ticket_id" AND "duplicate"."gmail_message_id" = "original"."gmail_message_id" AND ("duplicate"."created_at", "duplicate"."id") > ("original"."created_at", "original"."id");--> statement-breakpoint
+ALTER TABLE "ticket_comments" ADD CONSTRAINT "ticket_comments_ticket_id_gmail_message_id_unique" UNIQUE("ticket_id","gmail_message_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "gmail_integration" ADD COLUMN "failed_messages" jsonb DEFAULT '[]' NOT NULL;
\ No newline at end of file